@@ -1,5 +1,5 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { 
   Calculator, 
   Layers, 
@@ -18,16 +18,98 @@ import {
   FileText,
   FileSpreadsheet,
   ChevronDown,
-  Printer
+  Weight,
+  FolderOpen
 } from 'lucide-react';
 import { 
   SoilProperties, 
   FoundationProperties, 
   LoadingConditions, 
   SoilType,
-  FoundationShape
+  FoundationShape,
+  SoilLayer,
+  LayeredCalculationResults,
+  CalculationResults,
+  LoadCase,
+  CombinationSet,
+  StressMethod,
+  BearingCapacityMethod,
+  DrainageStage,
+  DesignInputs,
+  ProfileMode,
+  Project,
+  ReportFigure,
+  Borehole,
+  SettlementCase,
+  PileInputs,
+  PileResults,
+  SeismicInputs,
+  SptEquipment,
+  SeismicResults,
+  ReliabilityInputs,
+  MonteCarloJob,
+  ReliabilityMessage
 } from './types';
-import { calculateBearingCapacity } from './engine';
+import {
+  calculateBearingCapacity,
+  calculateLayeredBearingCapacity,
+  calculateContactPressure,
+  governingStage,
+  soilForStage,
+  BEARING_CAPACITY_METHODS,
+  DRAINAGE_STAGES
+} from './engine';
+import {
+  layerTops,
+  layerIndexAtDepth,
+  overburdenPressure,
+  hasDrainageStages
+} from './profile';
+import { analyseLoadCombinations } from './loads';
+import { calculateConsolidationSettlement } from './consolidation';
+import { calculateSchmertmannSettlement, DEFAULT_POISSON } from './settlement';
+import { computeIsobars } from './stress';
+import { analysePileGroup, DEFAULT_PILE } from './pile';
+import { analyseSeismic, DEFAULT_SEISMIC } from './seismic';
+import { DEFAULT_RELIABILITY } from './reliability';
+import SoilProfileEditor, { createLayer } from './components/SoilProfileEditor';
+import LoadCaseEditor, { createLoadCase } from './components/LoadCaseEditor';
+import LoadCombinationsTable from './components/LoadCombinationsTable';
+import FootingSchedule from './components/FootingSchedule';
+import FootingOptimizer from './components/FootingOptimizer';
+import FootingPlanView from './components/FootingPlanView';
+import ContactPressureMap from './components/ContactPressureMap';
+import ConsolidationInputs, { DEFAULT_CONSOLIDATION } from './components/ConsolidationInputs';
+import ConsolidationPanel from './components/ConsolidationPanel';
+import MethodComparisonTable from './components/MethodComparisonTable';
+import StrengthStageInputs from './components/StrengthStageInputs';
+import ProjectManager, { SaveState } from './components/ProjectManager';
+import ValidationMessages from './components/ValidationMessages';
+import BoreholeLogs from './components/BoreholeLogs';
+import CorrelationPanel from './components/CorrelationPanel';
+import CombinedFooting from './components/CombinedFooting';
+import RaftFoundation from './components/RaftFoundation';
+import PileFoundation from './components/PileFoundation';
+import SeismicPanel from './components/SeismicPanel';
+import ReliabilityPanel, { ReliabilityRun } from './components/ReliabilityPanel';
+import {
+  createProject,
+  createFooting,
+  activeFooting,
+  withActiveInputs,
+  serializeProject,
+  parseProjectFile,
+  loadProject,
+  loadLastProject,
+  saveProject,
+  deleteProject
+} from './project';
+import { generateReportPdf, issueReportNumber, peekReportNumber } from './report';
+import { toCsv, downloadBlob } from './download';
+import { workbookBlob } from './spreadsheet';
+import { correctBoreholes, designSptN, DEFAULT_SPT_EQUIPMENT } from './spt';
+import { correlateSoil, acceptCorrelation, updateSoil, parameterSources, FIELD_LABELS } from './correlations';
+import { validateInputs, errorsOf, warningsOf, parseNumberInput, numberInputValue } from './validation';
 import { 
   LineChart, 
   Line, 
@@ -39,9 +121,8 @@ import {
   ReferenceLine
 } from 'recharts';
 
-const App: React.FC = () => {
-  // State for inputs
-  const [soil, setSoil] = useState<SoilProperties>({
+const createDefaultInputs = (): DesignInputs => {
+  const soil: SoilProperties = {
     type: 'Cohesionless (Sand)',
     c: 0,
     phi: 30,
@@ -49,40 +130,245 @@ const App: React.FC = () => {
     gamma_sub: 10,
     spt_n: 15,
     Es: 20000
-  });
-
-  const [foundation, setFoundation] = useState<FoundationProperties>({
-    shape: 'Square',
-    B: 2.0,
-    L: 2.0,
-    Df: 1.5
-  });
-
-  const [load, setLoad] = useState<LoadingConditions>({
-    V: 500,
-    H: 0,
-    Mx: 0,
-    My: 0
-  });
-
-  const [waterTable, setWaterTable] = useState<number>(5);
-  const [fos, setFos] = useState<number>(3.0);
+  };
+  return {
+    soil,
+    profileMode: 'Homogeneous',
+    layers: [
+      createLayer({ ...soil, id: '', thickness: 3.0 }),
+      createLayer({ id: '', type: 'Cohesive (Clay)', c: 40, phi: 0, gamma: 17, gamma_sub: 7.5, spt_n: 6, Es: 8000, thickness: 4.0, consolidation: { ...DEFAULT_CONSOLIDATION } })
+    ],
+    foundation: { shape: 'Square', B: 2.0, L: 2.0, Df: 1.5 },
+    loadCases: [
+      createLoadCase('Dead', { V: 350 }),
+      createLoadCase('Live', { V: 150 })
+    ],
+    combinationSet: 'Working Stress',
+    waterTable: 5,
+    fos: 3.0,
+    creepTime: 10,
+    stressMethod: 'Boussinesq',
+    method: 'IS 6403',
+    boreholes: [],
+    useBoreholeN: false,
+    sptEquipment: DEFAULT_SPT_EQUIPMENT,
+    seismic: { ...DEFAULT_SEISMIC },
+    reliability: DEFAULT_RELIABILITY
+  };
+};
+
+const App: React.FC = () => {
+  // State for inputs
+  const [initialInputs] = useState(createDefaultInputs);
+  const [soil, setSoil] = useState<SoilProperties>(initialInputs.soil);
+  const [profileMode, setProfileMode] = useState<ProfileMode>(initialInputs.profileMode);
+  const [layers, setLayers] = useState<SoilLayer[]>(initialInputs.layers);
+  const [foundation, setFoundation] = useState<FoundationProperties>(initialInputs.foundation);
+  const [loadCases, setLoadCases] = useState<LoadCase[]>(initialInputs.loadCases);
+  const [combinationSet, setCombinationSet] = useState<CombinationSet>(initialInputs.combinationSet);
+
+  const [waterTable, setWaterTable] = useState<number>(initialInputs.waterTable);
+  const [fos, setFos] = useState<number>(initialInputs.fos);
+  const [creepTime, setCreepTime] = useState<number>(initialInputs.creepTime);
+  const [stressMethod, setStressMethod] = useState<StressMethod>(initialInputs.stressMethod);
+  const [method, setMethod] = useState<BearingCapacityMethod>(initialInputs.method);
+  const [boreholes, setBoreholes] = useState<Borehole[]>(initialInputs.boreholes);
+  const [useBoreholeN, setUseBoreholeN] = useState<boolean>(initialInputs.useBoreholeN);
+  const [sptEquipment, setSptEquipment] = useState<SptEquipment>(initialInputs.sptEquipment);
+  const [seismic, setSeismic] = useState<SeismicInputs>(initialInputs.seismic);
+  const [reliability, setReliability] = useState<ReliabilityInputs>(initialInputs.reliability);
+  const [reliabilityRun, setReliabilityRun] = useState<ReliabilityRun>({ result: null, running: false, done: 0, error: null });
+  const [pile, setPile] = useState<PileInputs>(DEFAULT_PILE);
+
+  // Project holding this footing alongside the other footings on the site
+  const [project, setProject] = useState<Project>(() => createProject(initialInputs));
+  const [saveState, setSaveState] = useState<SaveState>('idle');
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [hydrated, setHydrated] = useState(false);
   const [isExportOpen, setIsExportOpen] = useState(false);
+  const [reportNumber, setReportNumber] = useState(peekReportNumber);
+  const [reportStatus, setReportStatus] = useState<'idle' | 'generating' | 'error'>('idle');
+
+  // Figures captured as vector graphics in the PDF report
+  const crossSectionRef = useRef<SVGSVGElement>(null);
+  const capacityChartRef = useRef<HTMLDivElement>(null);
+  const settlementChartRef = useRef<HTMLDivElement>(null);
   
   // State for chart interaction
   const [selectedSettlementPoint, setSelectedSettlementPoint] = useState<{ width: string, settlement: number } | null>(null);
 
+  // Project persistence
+  const inputs = useMemo<DesignInputs>(() => ({
+    soil, profileMode, layers, foundation, loadCases, combinationSet, waterTable, fos, creepTime, stressMethod, method, boreholes, useBoreholeN, sptEquipment, seismic, reliability
+  }), [soil, profileMode, layers, foundation, loadCases, combinationSet, waterTable, fos, creepTime, stressMethod, method, boreholes, useBoreholeN, sptEquipment, seismic, reliability]);
+
+  // Input errors stop the analysis; warnings are shown beside the inputs and in exports
+  const issues = useMemo(() => validateInputs(inputs), [inputs]);
+  const inputErrors = errorsOf(issues);
+  const inputWarnings = warningsOf(issues);
+
+  // The dashboard is replaced by the error list while inputs are invalid, so the
+  // analyses below keep running on the last inputs the engine accepted
+  const lastValidInputs = useRef(inputs);
+  if (inputErrors.length === 0) lastValidInputs.current = inputs;
+  const calc = lastValidInputs.current;
+
+  // Clays with paired cu / c', φ' are checked short-term and long-term
+  const staged = calc.profileMode === 'Layered' ? calc.layers.some(hasDrainageStages) : hasDrainageStages(calc.soil);
+
+  // Borehole SPT logs corrected against the active profile; a homogeneous soil is one unbounded layer
+  const correctedBoreholes = useMemo(() => {
+    const profile = calc.profileMode === 'Layered' ? calc.layers : [{ ...calc.soil, id: 'homogeneous', thickness: Infinity }];
+    return correctBoreholes(calc.boreholes, profile, calc.waterTable);
+  }, [calc.boreholes, calc.profileMode, calc.layers, calc.soil, calc.waterTable]);
+
+  // Runs the active soil model for a footing and load at one drainage stage
+  const analyseStage = useCallback((f: FoundationProperties, l: LoadingConditions, m: BearingCapacityMethod, stage?: DrainageStage) => {
+    // The borehole design N depends on the footing width, so it is found per footing
+    const spt_n = calc.useBoreholeN ? designSptN(correctedBoreholes, f).designN ?? undefined : undefined;
+    return calc.profileMode === 'Layered'
+      ? calculateLayeredBearingCapacity(calc.layers, f, l, calc.waterTable, calc.fos, { method: m, stage, spt_n })
+      : calculateBearingCapacity(calc.soil, f, l, calc.waterTable, calc.fos, { method: m, stage, spt_n });
+  }, [calc.profileMode, calc.layers, calc.soil, calc.waterTable, calc.fos, calc.useBoreholeN, correctedBoreholes]);
+
+  // Runs the active soil model, returning the governing stage where both apply
+  const analyse = useCallback((f: FoundationProperties, l: LoadingConditions, m: BearingCapacityMethod = calc.method) => {
+    return staged
+      ? governingStage([analyseStage(f, l, m, 'Undrained'), analyseStage(f, l, m, 'Drained')])
+      : analyseStage(f, l, m);
+  }, [staged, analyseStage, calc.method]);
+
+  // Load combinations, governing first
+  const combinationResults = useMemo(() => {
+    return analyseLoadCombinations(calc.loadCases, calc.combinationSet, calc.foundation, l => analyse(calc.foundation, l));
+  }, [calc.loadCases, calc.combinationSet, calc.foundation, analyse]);
+
+  const governing = combinationResults[0] ?? null;
+  const load = useMemo<LoadingConditions>(() => governing?.load ?? { V: 0, H: 0, Mx: 0, My: 0 }, [governing]);
+
   // Derived results
   const results = useMemo(() => {
-    return calculateBearingCapacity(soil, foundation, load, waterTable, fos);
-  }, [soil, foundation, load, waterTable, fos]);
+    return governing ? governing.results : analyse(calc.foundation, load);
+  }, [governing, analyse, calc.foundation, load]);
+
+  const layeredResults = 'layerCase' in results ? results as LayeredCalculationResults : null;
+
+  const stageResults = useMemo(() => {
+    return staged
+      ? (['Undrained', 'Drained'] as DrainageStage[]).map(st => analyseStage(calc.foundation, load, calc.method, st))
+      : null;
+  }, [staged, analyseStage, calc.foundation, load, calc.method]);
+
+  // Every theory on the same footing and governing load
+  const methodComparison = useMemo(() => {
+    return (Object.keys(BEARING_CAPACITY_METHODS) as BearingCapacityMethod[]).map(m => analyse(calc.foundation, load, m));
+  }, [analyse, calc.foundation, load]);
+
+  const sptDesign = useMemo(() => designSptN(correctedBoreholes, calc.foundation), [correctedBoreholes, calc.foundation]);
+
+  // Field test correlations for the homogeneous soil, taken at founding level
+  const soilCorrelations = useMemo(() => {
+    return correlateSoil(soil, [{ ...soil, id: 'homogeneous', thickness: Infinity }], foundation.Df, waterTable, sptEquipment);
+  }, [soil, foundation.Df, waterTable, sptEquipment]);
+
+  const contactPressure = useMemo(() => calculateContactPressure(calc.foundation, load), [calc.foundation, load]);
+
+  // Profile used by the settlement models; a homogeneous soil is one unbounded layer
+  const profileLayers = useMemo<SoilLayer[]>(() => {
+    return calc.profileMode === 'Layered'
+      ? calc.layers
+      : [{ ...calc.soil, id: 'homogeneous', thickness: calc.foundation.Df + 2 * calc.foundation.B }];
+  }, [calc.profileMode, calc.layers, calc.soil, calc.foundation]);
+
+  const bearingSoil = profileLayers[layerIndexAtDepth(profileLayers, calc.foundation.Df)];
+
+  // Net pressure increase at founding level under the governing combination
+  const q_net = useMemo(() => {
+    return Math.max((governing?.q_applied ?? 0) - overburdenPressure(profileLayers, calc.foundation.Df, calc.waterTable), 0);
+  }, [profileLayers, calc.foundation, governing, calc.waterTable]);
+
+  const consolidation = useMemo(() => {
+    return calculateConsolidationSettlement(profileLayers, calc.foundation, q_net, calc.waterTable, calc.stressMethod);
+  }, [profileLayers, calc.foundation, q_net, calc.waterTable, calc.stressMethod]);
+
+  // Pressure bulb isobars in the cross-section (±5.3 m by 30 px/m, depth by 20 px/m)
+  const isobars = useMemo(() => {
+    const visibleDepth = Math.max((280 - (60 + calc.foundation.Df * 20 + 24)) / 20, 0.5);
+    return computeIsobars(calc.foundation, calc.stressMethod, [0.5, 0.2, 0.1], 160 / 30, visibleDepth);
+  }, [calc.foundation, calc.stressMethod]);
+
+  // Pile group under the governing load, the alternative where the footing fails
+  const pileOutcome = useMemo<{ result: PileResults | null; error: string | null }>(() => {
+    try {
+      return { result: analysePileGroup(pile, profileLayers, calc.waterTable, load.V), error: null };
+    } catch (err) {
+      return { result: null, error: (err as Error).message };
+    }
+  }, [pile, profileLayers, calc.waterTable, load]);
+
+  // Pseudo-static check of the footing and liquefaction screening of the SPT profile
+  const seismicResults = useMemo<SeismicResults | null>(() => {
+    if (!calc.seismic.enabled) return null;
+    return analyseSeismic(calc.seismic, results, governing?.q_applied ?? 0, profileLayers, calc.boreholes, calc.waterTable, calc.sptEquipment);
+  }, [calc.seismic, results, governing, profileLayers, calc.boreholes, calc.waterTable, calc.sptEquipment]);
+
+  // Monte Carlo run of the governing combination at the governing drainage stage
+  const reliabilityJob = useMemo<MonteCarloJob | null>(() => {
+    if (!calc.reliability.enabled || !governing) return null;
+    const atStage = <T extends SoilProperties>(s: T) => (results.Stage ? soilForStage(s, results.Stage) : s);
+    return {
+      soil: calc.profileMode === 'Layered' ? calc.layers.map(atStage) : atStage(calc.soil),
+      foundation: calc.foundation,
+      load,
+      waterTable: calc.waterTable,
+      fos: calc.fos,
+      method: calc.method,
+      spt_n: calc.useBoreholeN ? sptDesign.designN ?? undefined : undefined,
+      q_applied: governing.q_applied,
+      reliability: calc.reliability
+    };
+  }, [calc.reliability, calc.profileMode, calc.layers, calc.soil, calc.foundation, calc.waterTable, calc.fos, calc.method, calc.useBoreholeN, governing, results, load, sptDesign]);
+
+  // Sampling runs in a worker so the page stays responsive; a new job terminates the one in progress
+  useEffect(() => {
+    if (!reliabilityJob) {
+      setReliabilityRun({ result: null, running: false, done: 0, error: null });
+      return;
+    }
+    setReliabilityRun(prev => ({ ...prev, running: true, done: 0, error: null }));
+    const worker = new Worker(new URL('./reliability.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ReliabilityMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setReliabilityRun(prev => ({ ...prev, done: message.done }));
+        return;
+      }
+      setReliabilityRun(message.type === 'result'
+        ? { result: message.result, running: false, done: reliabilityJob.reliability.samples, error: null }
+        : { result: null, running: false, done: 0, error: message.message });
+      worker.terminate();
+    };
+    worker.onerror = () => {
+      setReliabilityRun({ result: null, running: false, done: 0, error: 'The reliability worker stopped unexpectedly' });
+      worker.terminate();
+    };
+    worker.postMessage(reliabilityJob);
+    return () => worker.terminate();
+  }, [reliabilityJob]);
+
+  const schmertmann = useMemo(() => {
+    return bearingSoil.type === 'Cohesionless (Sand)'
+      ? calculateSchmertmannSettlement(profileLayers, calc.foundation, q_net, calc.waterTable, calc.creepTime)
+      : null;
+  }, [bearingSoil, profileLayers, calc.foundation, q_net, calc.waterTable, calc.creepTime]);
 
   // Sensitivity Data for Charts
   const sensitivityData = useMemo(() => {
     const points = [];
+    const { foundation: base } = calc;
     for (let b = 1; b <= 6; b += 0.5) {
-      const tempFoundation = { ...foundation, B: b, L: foundation.shape === 'Square' ? b : foundation.L };
-      const res = calculateBearingCapacity(soil, tempFoundation, load, waterTable, fos);
+      const tempFoundation = { ...base, B: b, L: base.shape === 'Rectangular' ? b * (base.L / base.B) : b };
+      const res = analyse(tempFoundation, load);
       points.push({
         width: b.toFixed(1),
         sbc: parseFloat(res.recommended_sbc.toFixed(2)),
@@ -90,16 +376,32 @@ const App: React.FC = () => {
       });
     }
     return points;
-  }, [soil, foundation, load, waterTable, fos]);
+  }, [analyse, calc.foundation, load]);
 
-  const handleSoilChange = (field: keyof SoilProperties, value: string | number) => {
-    setSoil(prev => ({ ...prev, [field]: value }));
+  const handleSoilChange = (field: keyof SoilProperties, value: SoilProperties[keyof SoilProperties]) => {
+    setSoil(prev => updateSoil(prev, { [field]: value }));
   };
 
-  const handleFoundationChange = (field: keyof FoundationProperties, value: string | number) => {
-    setFoundation(prev => ({ ...prev, [field]: value }));
+  const handleFoundationChange = (field: keyof FoundationProperties, value: FoundationProperties[keyof FoundationProperties]) => {
+    setFoundation(prev => {
+      const next = { ...prev, [field]: value };
+      // Square and circular footings are fully defined by B
+      if (next.shape === 'Square' || next.shape === 'Circular') next.L = next.B;
+      return next;
+    });
   };
 
+  // Highlights an input that has a validation error
+  const fieldBorder = (field: string, focus: string) => issues.some(i => i.field === field && i.severity === 'error')
+    ? 'border-rose-300 focus:border-rose-500'
+    : `border-slate-100 ${focus}`;
+
+  // Crest of the slope in the cross-section (30 px/m across); the slope falls away to the right
+  const { groundSlope = 0, crestSetback = 0, baseTilt = 0 } = foundation;
+  const slopeCrestX = groundSlope > 0 && groundSlope < 90
+    ? 160 + foundation.B * 15 + (Number.isFinite(crestSetback) ? Math.max(crestSetback, 0) : 0) * 30
+    : null;
+
   const getWaterTableStatus = () => {
     if (waterTable <= foundation.Df) return { label: 'Surcharge Correction Active', color: 'text-rose-600 bg-rose-50 border-rose-200' };
     if (waterTable <= foundation.Df + foundation.B) return { label: 'Self-Weight Correction Active', color: 'text-amber-600 bg-amber-50 border-amber-200' };
@@ -108,38 +410,259 @@ const App: React.FC = () => {
 
   const wtStatus = getWaterTableStatus();
 
+  const currentProject = useMemo(() => withActiveInputs(project, inputs), [project, inputs]);
+
+  const applyInputs = (next: DesignInputs) => {
+    setSoil(next.soil);
+    setProfileMode(next.profileMode);
+    setLayers(next.layers);
+    setFoundation(next.foundation);
+    setLoadCases(next.loadCases);
+    setCombinationSet(next.combinationSet);
+    setWaterTable(next.waterTable);
+    setFos(next.fos);
+    setCreepTime(next.creepTime);
+    setStressMethod(next.stressMethod);
+    setMethod(next.method);
+    setBoreholes(next.boreholes);
+    setUseBoreholeN(next.useBoreholeN);
+    setSptEquipment(next.sptEquipment);
+    setSeismic(next.seismic);
+    setReliability(next.reliability);
+  };
+
+  const openProject = (next: Project) => {
+    setProject(next);
+    applyInputs(activeFooting(next).inputs);
+    setProjectError(null);
+  };
+
+  // Reopen the last project on start-up
+  useEffect(() => {
+    loadLastProject()
+      .then(saved => { if (saved) openProject(saved); })
+      .catch(() => setSaveState('error'))
+      .finally(() => setHydrated(true));
+  }, []);
+
+  // Autosave shortly after the last edit
+  useEffect(() => {
+    if (!hydrated) return;
+    setSaveState('saving');
+    const timer = setTimeout(() => {
+      saveProject(currentProject)
+        .then(() => setSaveState('saved'))
+        .catch(() => setSaveState('error'));
+    }, 600);
+    return () => clearTimeout(timer);
+  }, [hydrated, currentProject]);
+
+  const handleSelectFooting = (id: string) => {
+    const next = { ...currentProject, activeFootingId: id };
+    setProject(next);
+    applyInputs(activeFooting(next).inputs);
+  };
+
+  // New footings share the site's soil profile; duplicates copy everything
+  const handleAddFooting = (duplicate: boolean) => {
+    const defaults = createDefaultInputs();
+    const footing = createFooting(currentProject.footings, duplicate
+      ? inputs
+      : { ...inputs, foundation: defaults.foundation, loadCases: defaults.loadCases });
+    setProject({ ...currentProject, footings: [...currentProject.footings, footing], activeFootingId: footing.id });
+    applyInputs(footing.inputs);
+  };
+
+  const handleDeleteFooting = (id: string) => {
+    const footings = currentProject.footings.filter(f => f.id !== id);
+    if (footings.length === 0) return;
+    const next = { ...currentProject, footings, activeFootingId: footings[0].id };
+    setProject(next);
+    applyInputs(activeFooting(next).inputs);
+  };
+
+  const handleOpenProject = (id: string) => {
+    loadProject(id)
+      .then(saved => saved ? openProject(saved) : setProjectError('Project not found in local storage'))
+      .catch(() => setProjectError('Could not read saved projects'));
+  };
+
+  const handleDeleteProject = (id: string) => {
+    deleteProject(id).catch(() => setProjectError('Could not delete project'));
+  };
+
+  const handleImportProject = (file: File) => {
+    file.text()
+      .then(text => openProject(parseProjectFile(text)))
+      .catch((err: Error) => setProjectError(err.message));
+  };
+
+  const handleExportProject = () => {
+    downloadBlob(
+      new Blob([serializeProject(currentProject)], { type: 'application/json' }),
+      `${currentProject.name.replace(/[^\w-]+/g, '_') || 'Project'}.geotech.json`
+    );
+  };
+
+  // Exports describe the analysed inputs, which lag the live ones while those are invalid
+  const calcWarnings = useMemo(() => (calc === inputs ? inputWarnings : warningsOf(validateInputs(calc))), [calc, inputs, inputWarnings]);
+
   // Export Logic
-  const handleExportPDF = () => {
-    window.print();
+  const handleExportPDF = async () => {
     setIsExportOpen(false);
+    setReportStatus('generating');
+    // The number is only consumed once the PDF has been saved
+    const number = peekReportNumber();
+    const chartSvg = (container: HTMLDivElement | null) => container?.querySelector<SVGSVGElement>('svg.recharts-surface') ?? null;
+    const figures = [
+      { title: 'Foundation cross-section', svg: crossSectionRef.current },
+      { title: 'Capacity sensitivity (SBC vs width)', svg: chartSvg(capacityChartRef.current) },
+      { title: 'Settlement vs width', svg: chartSvg(settlementChartRef.current) }
+    ].filter((f): f is ReportFigure => f.svg !== null);
+
+    try {
+      const doc = await generateReportPdf({
+        reportNumber: number,
+        issuedAt: new Date(),
+        project: currentProject,
+        footingName: activeFooting(currentProject).name,
+        inputs: calc,
+        results,
+        stageResults,
+        combinations: combinationResults,
+        contactPressure,
+        consolidation: consolidation.subLayers.length > 0 ? consolidation : null,
+        schmertmann,
+        seismic: seismicResults,
+        reliability: reliabilityRun.running ? null : reliabilityRun.result,
+        warnings: calcWarnings,
+        figures
+      });
+      doc.save(`${number}.pdf`);
+      setReportNumber(issueReportNumber());
+      setReportStatus('idle');
+    } catch {
+      setReportStatus('error');
+    }
+  };
+
+  const handleExportXLSX = async () => {
+    setIsExportOpen(false);
+    try {
+      const blob = await workbookBlob({
+        project: currentProject,
+        footingName: activeFooting(currentProject).name,
+        inputs: calc,
+        results,
+        combinations: combinationResults,
+        comparison: methodComparison,
+        sensitivity: sensitivityData,
+        warnings: calcWarnings
+      });
+      downloadBlob(blob, `Geotech_Calculation_${new Date().toISOString().split('T')[0]}.xlsx`);
+    } catch {
+      setReportStatus('error');
+    }
   };
 
   const handleExportCSV = () => {
+    // A layered profile is described by its bearing stratum, followed by the layer table
+    const { soil, layers, foundation } = calc;
+    const layered = calc.profileMode === 'Layered';
+    const bearingLayer = layered ? layerIndexAtDepth(layers, foundation.Df) : -1;
+    const csvSoil = layered ? layers[bearingLayer] : soil;
+    let layerTop = 0;
     const dataRows = [
       ['GEOTECHCALC PRO - TECHNICAL REPORT'],
       ['Date', new Date().toLocaleString()],
+      ['Project', currentProject.name],
+      ['Footing', activeFooting(currentProject).name],
+      ['Client', currentProject.metadata.client || 'N/A'],
+      ['Site', currentProject.metadata.site || 'N/A'],
+      ['Borehole ID', currentProject.metadata.boreholeId || 'N/A'],
+      ['Engineer', currentProject.metadata.engineer || 'N/A'],
       [''],
       ['INPUT PARAMETERS'],
-      ['Soil Type', soil.type],
-      ['Cohesion (c)', soil.c, 'kPa'],
-      ['Friction Angle (phi)', soil.phi, 'deg'],
-      ['Unit Weight (gamma)', soil.gamma, 'kN/m3'],
-      ['Submerged Weight', soil.gamma_sub, 'kN/m3'],
-      ['SPT N-Value', soil.spt_n || 'N/A'],
-      ['Elastic Modulus (Es)', soil.Es || 'N/A', 'kPa'],
+      ...(layered ? [['Bearing Stratum', `Layer ${bearingLayer + 1} (at Df)`]] : []),
+      ['Soil Type', csvSoil.type],
+      ['Cohesion (c)', csvSoil.c, 'kPa'],
+      ['Friction Angle (phi)', csvSoil.phi, 'deg'],
+      ['Unit Weight (gamma)', csvSoil.gamma, 'kN/m3'],
+      ['Submerged Weight', csvSoil.gamma_sub, 'kN/m3'],
+      ['SPT N-Value', csvSoil.spt_n || 'N/A'],
+      ...(calc.useBoreholeN && results.SptN !== undefined ? [['Borehole Design N (corrected)', results.SptN.toFixed(1), sptDesign.governingBorehole ?? '']] : []),
+      ['Elastic Modulus (Es)', csvSoil.Es || 'N/A', 'kPa'],
       ['Foundation Shape', foundation.shape],
       ['Width (B)', foundation.B, 'm'],
+      ['Length (L)', foundation.shape === 'Strip/Continuous' ? 'N/A' : foundation.L, 'm'],
       ['Depth (Df)', foundation.Df, 'm'],
-      ['Water Table Depth (Dw)', waterTable, 'm'],
-      ['Factor of Safety', fos],
+      ['Ground Slope (beta)', foundation.groundSlope ?? 0, 'deg'],
+      ['Base Tilt (alpha)', foundation.baseTilt ?? 0, 'deg'],
+      ['Crest Setback (b)', foundation.groundSlope ? foundation.crestSetback ?? 0 : 'N/A', 'm'],
+      ['Water Table Depth (Dw)', calc.waterTable, 'm'],
+      ['Factor of Safety', calc.fos],
+      ['Bearing Capacity Theory', BEARING_CAPACITY_METHODS[calc.method].label],
+      ...(layered ? [
+        [''],
+        ['SOIL PROFILE'],
+        ['Layer', 'Type', 'Top (m)', 'Thickness (m)', 'c (kPa)', 'phi (deg)', 'gamma (kN/m3)', 'SPT N', 'Es (kPa)'],
+        ...layers.map((l, i) => {
+          const row = [i + 1, l.type, layerTop, i === layers.length - 1 ? 'N/A' : l.thickness, l.c, l.phi, l.gamma, l.spt_n ?? 'N/A', l.Es ?? 'N/A'];
+          layerTop += l.thickness;
+          return row;
+        })
+      ] : []),
+      [''],
+      ['LOADING (' + calc.combinationSet.toUpperCase() + ')'],
+      ...calc.loadCases.map(c => [c.name + ' (' + c.type + ')', `V=${c.V}`, `H=${c.H}`, `Mx=${c.Mx}`, `My=${c.My}`, `factor=${c.factor ?? 1}`]),
+      ['Governing Combination', governing?.combination.name || 'N/A'],
+      ['Design V', load.V.toFixed(2), 'kN'],
+      ['Design H', load.H.toFixed(2), 'kN'],
+      ['Design Mx', load.Mx.toFixed(2), 'kN-m'],
+      ['Design My', load.My.toFixed(2), 'kN-m'],
+      ['Utilisation', governing ? (governing.utilisation * 100).toFixed(1) : 'N/A', '%'],
       [''],
       ['CALCULATION RESULTS'],
       ['Recommended SBC', results.recommended_sbc.toFixed(2), 'kPa'],
       ['Est. Settlement', results.settlement.toFixed(2), 'mm'],
+      ...(results.elastic ? [
+        ['Settlement Case', results.elastic.case],
+        ['Influence Factor (Is)', results.elastic.Is.toFixed(3), 'Steinbrenner'],
+        ['Poisson Ratio (mu)', results.elastic.mu],
+        ['Compressible Depth (H)', Number.isFinite(results.elastic.H) ? results.elastic.H.toFixed(2) : 'Half-space', 'm']
+      ] : []),
+      ['Schmertmann Settlement', schmertmann ? schmertmann.settlement.toFixed(2) : 'N/A', 'mm'],
+      ['Consolidation Settlement', consolidation.subLayers.length > 0 ? consolidation.total.toFixed(2) : 'N/A', 'mm'],
+      ['Time to 90% Consolidation', Number.isFinite(consolidation.t90) ? consolidation.t90.toFixed(2) : 'N/A', 'years'],
       ['Ultimate Capacity (qu)', results.qu.toFixed(2), 'kPa'],
+      ...(stageResults ? [
+        ['Governing Stage', results.Stage ? DRAINAGE_STAGES[results.Stage] : 'N/A'],
+        ...stageResults.flatMap(r => [
+          [`qu ${r.Stage}`, r.qu.toFixed(2), 'kPa'],
+          [`Recommended SBC ${r.Stage}`, r.recommended_sbc.toFixed(2), 'kPa']
+        ])
+      ] : []),
       ['Net Safe Capacity (qns)', results.qns.toFixed(2), 'kPa'],
       ['Design Status', results.status],
+      ...(seismicResults ? [
+        ['Seismic Status', seismicResults.status],
+        ['Seismic Zone', calc.seismic.zone, `Z=${seismicResults.Z}`],
+        ['kh / kv', seismicResults.kh.toFixed(3), seismicResults.kv.toFixed(3)],
+        ['Seismic Safe Capacity (qs)', seismicResults.qs.toFixed(2), 'kPa'],
+        ['Min. Liquefaction FS', seismicResults.minFS !== null ? seismicResults.minFS.toFixed(2) : 'N/A']
+      ] : []),
+      ...(reliabilityRun.result && !reliabilityRun.running ? [
+        ['Monte Carlo Samples', reliabilityRun.result.samples],
+        ['Mean qu', reliabilityRun.result.qu.mean.toFixed(2), 'kPa'],
+        ['COV qu', (reliabilityRun.result.qu.cov * 100).toFixed(1), '%'],
+        ['Rejected Samples', reliabilityRun.result.rejected, `${(reliabilityRun.result.rejectedFraction * 100).toFixed(1)}% counted as failures`],
+        ['Probability of Failure', reliabilityRun.result.pf.toExponential(3)],
+        ['Reliability Index (beta)', reliabilityRun.result.beta.toFixed(2), reliabilityRun.result.betaMethod]
+      ] : []),
       ['Effective Width (B\')', results.B_prime.toFixed(3), 'm'],
+      ['Contact Pressure qmax', Number.isFinite(contactPressure.qmax) ? contactPressure.qmax.toFixed(2) : 'OVERTURNING', 'kPa'],
+      ['Contact Pressure qmin', contactPressure.qmin.toFixed(2), 'kPa'],
+      ['Base in Contact', (contactPressure.contactRatio * 100).toFixed(1), '%'],
       [''],
       ['BEARING CAPACITY FACTORS'],
       ['Nc', results.Nc.toFixed(3)],
@@ -150,19 +673,28 @@ const App: React.FC = () => {
       ['sgamma', results.sgamma.toFixed(3)],
       ['dc', results.dc.toFixed(3)],
       ['dq', results.dq.toFixed(3)],
-      ['W\' factor', results.W_prime.toFixed(3)]
+      ['dgamma', results.dgamma.toFixed(3)],
+      ['ic', results.ic.toFixed(3)],
+      ['iq', results.iq.toFixed(3)],
+      ['igamma', results.igamma.toFixed(3)],
+      ['gc / gq / ggamma', results.gc.toFixed(3), results.gq.toFixed(3), results.ggamma.toFixed(3)],
+      ['bc / bq / bgamma', results.bc.toFixed(3), results.bq.toFixed(3), results.bgamma.toFixed(3)],
+      ['W\' factor', results.W_prime.toFixed(3)],
+      ['Term 1 (Cohesion)', results.term1.toFixed(2), 'kPa'],
+      ['Term 2 (Surcharge)', results.term2.toFixed(2), 'kPa'],
+      ['Term 3 (Self Weight)', results.term3.toFixed(2), 'kPa'],
+      [''],
+      ['PARAMETER SOURCES'],
+      ...parameterSources(calc).map(p => [p.stratum, FIELD_LABELS[p.field].label, p.value, FIELD_LABELS[p.field].unit, p.source]),
+      ...(calcWarnings.length > 0 ? [
+        [''],
+        ['INPUT WARNINGS'],
+        ...calcWarnings.map(w => [w.message])
+      ] : [])
     ];
 
-    const csvContent = "data:text/csv;charset=utf-8," 
-      + dataRows.map(e => e.join(",")).join("\n");
-    
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", `Geotech_Report_${new Date().toISOString().split('T')[0]}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const csvContent = toCsv(dataRows);
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8' }), `Geotech_Report_${new Date().toISOString().split('T')[0]}.csv`);
     setIsExportOpen(false);
   };
 
@@ -196,38 +728,63 @@ const App: React.FC = () => {
         
         <div className="flex items-center gap-4">
           <div className={`hidden md:flex px-5 py-2 rounded-full text-[11px] font-black uppercase tracking-wider items-center gap-2 border shadow-sm ${
-            results.status === 'SAFE' ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-red-50 text-red-700 border-red-200'
+            inputErrors.length === 0 && results.status === 'SAFE' ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-red-50 text-red-700 border-red-200'
           }`}>
-            {results.status === 'SAFE' ? <CheckCircle2 size={16} /> : <AlertTriangle size={16} />}
-            Design Status: {results.status}
+            {inputErrors.length > 0 ? <XCircle size={16} /> : results.status === 'SAFE' ? <CheckCircle2 size={16} /> : <AlertTriangle size={16} />}
+            Design Status: {inputErrors.length > 0 ? 'INVALID INPUT' : results.status}
           </div>
+          {inputErrors.length === 0 && seismicResults && (
+            <div className={`hidden md:flex px-5 py-2 rounded-full text-[11px] font-black uppercase tracking-wider items-center gap-2 border shadow-sm ${
+              seismicResults.status === 'SEISMIC SAFE' ? 'bg-yellow-50 text-yellow-700 border-yellow-200' : 'bg-red-50 text-red-700 border-red-200'
+            }`}>
+              {seismicResults.status === 'SEISMIC SAFE' ? <CheckCircle2 size={16} /> : <AlertTriangle size={16} />}
+              {seismicResults.status}
+            </div>
+          )}
+          {inputErrors.length === 0 && results.status !== 'SAFE' && pileOutcome.result && (
+            <div className={`hidden md:flex px-5 py-2 rounded-full text-[11px] font-black uppercase tracking-wider items-center gap-2 border shadow-sm ${
+              pileOutcome.result.passes ? 'bg-pink-50 text-pink-700 border-pink-200' : 'bg-red-50 text-red-700 border-red-200'
+            }`}>
+              {pileOutcome.result.passes ? <CheckCircle2 size={16} /> : <AlertTriangle size={16} />}
+              Piles: {pileOutcome.result.passes ? `${pileOutcome.result.piles} × ${pileOutcome.result.tipDepth.toFixed(1)} m` : 'FAILS'}
+            </div>
+          )}
 
           {/* Export Dropdown */}
           <div className="relative">
             <button 
               onClick={() => setIsExportOpen(!isExportOpen)}
-              className="bg-slate-900 text-white px-5 py-2.5 rounded-xl text-sm font-bold hover:bg-slate-800 transition-all shadow-lg shadow-slate-200 flex items-center gap-2"
+              disabled={inputErrors.length > 0}
+              title={inputErrors.length > 0 ? 'Correct the input errors before exporting' : undefined}
+              className="bg-slate-900 text-white px-5 py-2.5 rounded-xl text-sm font-bold hover:bg-slate-800 transition-all shadow-lg shadow-slate-200 flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
             >
               <Download size={18} />
-              Export Report
+              {reportStatus === 'generating' ? 'Generating…' : reportStatus === 'error' ? 'Report Failed' : 'Export Report'}
               <ChevronDown size={16} className={`transition-transform duration-200 ${isExportOpen ? 'rotate-180' : ''}`} />
             </button>
             
-            {isExportOpen && (
+            {isExportOpen && inputErrors.length === 0 && (
               <div className="absolute right-0 mt-3 w-56 bg-white border border-slate-200 rounded-2xl shadow-2xl p-2 z-[60] animate-in fade-in slide-in-from-top-2 duration-200">
                 <button 
                   onClick={handleExportPDF}
                   className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-700 hover:bg-slate-50 rounded-xl transition-colors"
                 >
-                  <div className="p-2 bg-rose-50 text-rose-600 rounded-lg"><Printer size={16} /></div>
+                  <div className="p-2 bg-rose-50 text-rose-600 rounded-lg"><FileText size={16} /></div>
                   PDF Technical Report
                 </button>
                 <button 
-                  onClick={handleExportCSV}
+                  onClick={handleExportXLSX}
                   className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-700 hover:bg-slate-50 rounded-xl transition-colors"
                 >
                   <div className="p-2 bg-emerald-50 text-emerald-600 rounded-lg"><FileSpreadsheet size={16} /></div>
-                  Excel / CSV Data
+                  Excel Workbook (.xlsx)
+                </button>
+                <button 
+                  onClick={handleExportCSV}
+                  className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-700 hover:bg-slate-50 rounded-xl transition-colors"
+                >
+                  <div className="p-2 bg-slate-100 text-slate-600 rounded-lg"><FileText size={16} /></div>
+                  CSV Data
                 </button>
               </div>
             )}
@@ -246,7 +803,7 @@ const App: React.FC = () => {
               <p className="text-sm font-bold text-slate-500 uppercase tracking-widest mt-1">Foundation Bearing Capacity & Settlement Analysis</p>
             </div>
             <div className="text-right">
-              <p className="text-xs font-black text-slate-400 uppercase">Report ID: GTR-{Math.floor(Math.random()*100000)}</p>
+              <p className="text-xs font-black text-slate-400 uppercase">Report ID: {reportNumber}</p>
               <p className="text-xs font-bold text-slate-700">{new Date().toLocaleDateString()}</p>
             </div>
           </div>
@@ -254,12 +811,50 @@ const App: React.FC = () => {
 
         {/* Input Controls Sidebar */}
         <aside className="w-full lg:w-[400px] bg-white border-r border-slate-200 overflow-y-auto p-8 scrollbar-hide space-y-10 no-print">
+          {/* Project Section */}
+          <section>
+            <div className="flex items-center gap-3 mb-6">
+              <div className="p-2 bg-sky-50 rounded-lg text-sky-600"><FolderOpen size={20} /></div>
+              <h2 className="font-bold text-slate-800 text-sm uppercase tracking-wider">Project</h2>
+            </div>
+            <ProjectManager
+              project={currentProject}
+              saveState={saveState}
+              error={projectError}
+              onChange={setProject}
+              onSelectFooting={handleSelectFooting}
+              onAddFooting={handleAddFooting}
+              onDeleteFooting={handleDeleteFooting}
+              onNew={() => openProject(createProject(createDefaultInputs()))}
+              onOpen={handleOpenProject}
+              onDelete={handleDeleteProject}
+              onImport={handleImportProject}
+              onExport={handleExportProject}
+            />
+          </section>
+
           {/* Soil Section */}
           <section>
             <div className="flex items-center gap-3 mb-6">
               <div className="p-2 bg-indigo-50 rounded-lg text-indigo-600"><Layers size={20} /></div>
               <h2 className="font-bold text-slate-800 text-sm uppercase tracking-wider">Soil Properties</h2>
             </div>
+            <div className="grid grid-cols-2 gap-2 p-1 bg-slate-100 rounded-xl mb-5">
+              {(['Homogeneous', 'Layered'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setProfileMode(mode)}
+                  className={`py-2 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all ${
+                    profileMode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'
+                  }`}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+            {profileMode === 'Layered' ? (
+              <SoilProfileEditor layers={layers} waterTable={waterTable} sptEquipment={sptEquipment} issues={issues} onChange={setLayers} />
+            ) : (
             <div className="space-y-5">
               <div>
                 <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">SOIL TYPE</label>
@@ -280,15 +875,39 @@ const App: React.FC = () => {
                 <div className="p-4 bg-indigo-50/50 rounded-2xl border-2 border-indigo-100/50 space-y-3 animate-in fade-in slide-in-from-top-2">
                   <div className="flex justify-between items-center">
                     <label className="text-[10px] font-black text-indigo-600 uppercase tracking-tighter">SPT N-VALUE (FIELD)</label>
-                    <span className="text-[9px] font-bold text-indigo-400 italic">Optional</span>
+                    <span className="text-[9px] font-bold text-indigo-400 italic">Optional · 0 if not tested</span>
                   </div>
                   <input 
                     type="number"
                     placeholder="Enter N-value"
-                    className="w-full bg-white border-2 border-indigo-100 rounded-xl px-4 py-2 text-sm font-bold focus:border-indigo-500 transition-all outline-none"
-                    value={soil.spt_n || ''}
-                    onChange={(e) => handleSoilChange('spt_n', parseInt(e.target.value) || 0)}
+                    className={`w-full bg-white border-2 rounded-xl px-4 py-2 text-sm font-bold transition-all outline-none ${fieldBorder('soil.spt_n', 'focus:border-indigo-500')}`}
+                    value={numberInputValue(soil.spt_n)}
+                    onChange={(e) => handleSoilChange('spt_n', parseNumberInput(e.target.value))}
                   />
+                  {(soil.type === 'Cohesionless (Sand)' || soil.type === 'Cohesive (Clay)') && (
+                    <>
+                      <label className="block text-[10px] font-black text-indigo-600 uppercase tracking-tighter">CPT qc (kPa)</label>
+                      <input 
+                        type="number" step="100"
+                        placeholder="Enter cone resistance"
+                        className="w-full bg-white border-2 border-indigo-100 rounded-xl px-4 py-2 text-sm font-bold focus:border-indigo-500 transition-all outline-none"
+                        value={numberInputValue(soil.qc)}
+                        onChange={(e) => handleSoilChange('qc', e.target.value === '' ? undefined : parseNumberInput(e.target.value))}
+                      />
+                    </>
+                  )}
+                  {(soil.type === 'Cohesionless (Sand)' || soil.type === 'c-φ Soil') && (
+                    <>
+                      <label className="block text-[10px] font-black text-indigo-600 uppercase tracking-tighter">FINES CONTENT (%)</label>
+                      <input 
+                        type="number" step="1" min="0" max="100"
+                        placeholder="For liquefaction screening"
+                        className="w-full bg-white border-2 border-indigo-100 rounded-xl px-4 py-2 text-sm font-bold focus:border-indigo-500 transition-all outline-none"
+                        value={numberInputValue(soil.fines)}
+                        onChange={(e) => handleSoilChange('fines', e.target.value === '' ? undefined : parseNumberInput(e.target.value))}
+                      />
+                    </>
+                  )}
                 </div>
               )}
 
@@ -297,18 +916,18 @@ const App: React.FC = () => {
                   <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">COHESION (kPa)</label>
                   <input 
                     type="number" step="0.1"
-                    className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold focus:border-indigo-500 outline-none transition-all"
-                    value={soil.c}
-                    onChange={(e) => handleSoilChange('c', parseFloat(e.target.value) || 0)}
+                    className={`w-full bg-slate-50 border-2 rounded-xl px-4 py-2.5 text-sm font-bold outline-none transition-all ${fieldBorder('soil.c', 'focus:border-indigo-500')}`}
+                    value={numberInputValue(soil.c)}
+                    onChange={(e) => handleSoilChange('c', parseNumberInput(e.target.value))}
                   />
                 </div>
                 <div>
                   <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">FRICTION Φ (°)</label>
                   <input 
                     type="number" step="0.5"
-                    className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold focus:border-indigo-500 outline-none transition-all"
-                    value={soil.phi}
-                    onChange={(e) => handleSoilChange('phi', parseFloat(e.target.value) || 0)}
+                    className={`w-full bg-slate-50 border-2 rounded-xl px-4 py-2.5 text-sm font-bold outline-none transition-all ${fieldBorder('soil.phi', 'focus:border-indigo-500')}`}
+                    value={numberInputValue(soil.phi)}
+                    onChange={(e) => handleSoilChange('phi', parseNumberInput(e.target.value))}
                   />
                 </div>
               </div>
@@ -317,22 +936,60 @@ const App: React.FC = () => {
                   <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">BULK γ (kN/m³)</label>
                   <input 
                     type="number" step="0.1"
-                    className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold focus:border-indigo-500 outline-none transition-all"
-                    value={soil.gamma}
-                    onChange={(e) => handleSoilChange('gamma', parseFloat(e.target.value) || 0)}
+                    className={`w-full bg-slate-50 border-2 rounded-xl px-4 py-2.5 text-sm font-bold outline-none transition-all ${fieldBorder('soil.gamma', 'focus:border-indigo-500')}`}
+                    value={numberInputValue(soil.gamma)}
+                    onChange={(e) => handleSoilChange('gamma', parseNumberInput(e.target.value))}
                   />
                 </div>
                 <div>
                   <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">SUB γ' (kN/m³)</label>
                   <input 
                     type="number" step="0.1"
-                    className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold focus:border-indigo-500 outline-none transition-all"
-                    value={soil.gamma_sub}
-                    onChange={(e) => handleSoilChange('gamma_sub', parseFloat(e.target.value) || 0)}
+                    className={`w-full bg-slate-50 border-2 rounded-xl px-4 py-2.5 text-sm font-bold outline-none transition-all ${fieldBorder('soil.gamma_sub', 'focus:border-indigo-500')}`}
+                    value={numberInputValue(soil.gamma_sub)}
+                    onChange={(e) => handleSoilChange('gamma_sub', parseNumberInput(e.target.value))}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">MODULUS Es (kPa)</label>
+                  <input 
+                    type="number" step="500"
+                    placeholder="Empirical"
+                    className={`w-full bg-slate-50 border-2 rounded-xl px-4 py-2.5 text-sm font-bold outline-none transition-all ${fieldBorder('soil.Es', 'focus:border-indigo-500')}`}
+                    value={numberInputValue(soil.Es)}
+                    onChange={(e) => handleSoilChange('Es', e.target.value === '' ? undefined : parseNumberInput(e.target.value))}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">POISSON μ</label>
+                  <input 
+                    type="number" step="0.05" min="0" max="0.49"
+                    placeholder={String(DEFAULT_POISSON)}
+                    className={`w-full bg-slate-50 border-2 rounded-xl px-4 py-2.5 text-sm font-bold outline-none transition-all ${fieldBorder('soil.mu', 'focus:border-indigo-500')}`}
+                    value={numberInputValue(soil.mu)}
+                    onChange={(e) => handleSoilChange('mu', e.target.value === '' ? undefined : parseNumberInput(e.target.value))}
                   />
                 </div>
               </div>
+
+              <ValidationMessages issues={issues} scope="soil" />
+
+              <CorrelationPanel
+                soil={soil}
+                correlations={soilCorrelations}
+                onAccept={(c) => setSoil(prev => acceptCorrelation(prev, c))}
+              />
+
+              {soil.type === 'Cohesive (Clay)' && (
+                <StrengthStageInputs soil={soil} onChange={(fields) => setSoil(prev => updateSoil(prev, fields))} />
+              )}
+              {soil.type === 'Cohesive (Clay)' && (
+                <ConsolidationInputs params={soil.consolidation} onChange={(params) => handleSoilChange('consolidation', params)} />
+              )}
             </div>
+            )}
           </section>
 
           {/* Foundation Geometry Section */}
@@ -355,26 +1012,103 @@ const App: React.FC = () => {
                   <option>Circular</option>
                 </select>
               </div>
-              <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
                 <div>
                   <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">WIDTH B (m)</label>
                   <input 
                     type="number" step="0.1"
-                    className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold focus:border-amber-500 outline-none transition-all"
-                    value={foundation.B}
-                    onChange={(e) => handleFoundationChange('B', parseFloat(e.target.value) || 0)}
+                    className={`w-full bg-slate-50 border-2 rounded-xl px-4 py-2.5 text-sm font-bold outline-none transition-all ${fieldBorder('foundation.B', 'focus:border-amber-500')}`}
+                    value={numberInputValue(foundation.B)}
+                    onChange={(e) => handleFoundationChange('B', parseNumberInput(e.target.value))}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">LENGTH L (m)</label>
+                  <input 
+                    type="number" step="0.1"
+                    disabled={foundation.shape !== 'Rectangular'}
+                    className={`w-full bg-slate-50 border-2 rounded-xl px-4 py-2.5 text-sm font-bold outline-none transition-all disabled:text-slate-300 ${fieldBorder('foundation.L', 'focus:border-amber-500')}`}
+                    value={foundation.shape === 'Strip/Continuous' ? '' : numberInputValue(foundation.L)}
+                    placeholder={foundation.shape === 'Strip/Continuous' ? '∞' : undefined}
+                    onChange={(e) => handleFoundationChange('L', parseNumberInput(e.target.value))}
                   />
                 </div>
                 <div>
                   <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">DEPTH Df (m)</label>
                   <input 
                     type="number" step="0.1"
-                    className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold focus:border-amber-500 outline-none transition-all"
-                    value={foundation.Df}
-                    onChange={(e) => handleFoundationChange('Df', parseFloat(e.target.value) || 0)}
+                    className={`w-full bg-slate-50 border-2 rounded-xl px-4 py-2.5 text-sm font-bold outline-none transition-all ${fieldBorder('foundation.Df', 'focus:border-amber-500')}`}
+                    value={numberInputValue(foundation.Df)}
+                    onChange={(e) => handleFoundationChange('Df', parseNumberInput(e.target.value))}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">SLOPE β (°)</label>
+                  <input 
+                    type="number" step="1" min="0"
+                    placeholder="Level"
+                    className={`w-full bg-slate-50 border-2 rounded-xl px-4 py-2.5 text-sm font-bold outline-none transition-all ${fieldBorder('foundation.groundSlope', 'focus:border-amber-500')}`}
+                    value={numberInputValue(foundation.groundSlope)}
+                    onChange={(e) => handleFoundationChange('groundSlope', e.target.value === '' ? undefined : parseNumberInput(e.target.value))}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">BASE TILT α (°)</label>
+                  <input 
+                    type="number" step="1" min="0"
+                    placeholder="0"
+                    className={`w-full bg-slate-50 border-2 rounded-xl px-4 py-2.5 text-sm font-bold outline-none transition-all ${fieldBorder('foundation.baseTilt', 'focus:border-amber-500')}`}
+                    value={numberInputValue(foundation.baseTilt)}
+                    onChange={(e) => handleFoundationChange('baseTilt', e.target.value === '' ? undefined : parseNumberInput(e.target.value))}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">SETBACK b (m)</label>
+                  <input 
+                    type="number" step="0.5" min="0"
+                    disabled={!foundation.groundSlope}
+                    placeholder={foundation.groundSlope ? 'On slope' : '—'}
+                    className={`w-full bg-slate-50 border-2 rounded-xl px-4 py-2.5 text-sm font-bold outline-none transition-all disabled:text-slate-300 ${fieldBorder('foundation.crestSetback', 'focus:border-amber-500')}`}
+                    value={numberInputValue(foundation.crestSetback)}
+                    onChange={(e) => handleFoundationChange('crestSetback', e.target.value === '' ? undefined : parseNumberInput(e.target.value))}
                   />
                 </div>
               </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">ELASTIC SETTLEMENT</label>
+                <select 
+                  className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-2.5 text-sm font-semibold focus:border-amber-500 transition-all outline-none appearance-none"
+                  value={foundation.settlementCase ?? 'Standard'}
+                  onChange={(e) => handleFoundationChange('settlementCase', e.target.value as SettlementCase)}
+                >
+                  <option value="Standard">Standard · Is = 0.82</option>
+                  <option value="Rigid">Rigid footing</option>
+                  <option value="Flexible centre">Flexible · centre</option>
+                  <option value="Flexible average">Flexible · average</option>
+                  <option value="Flexible corner">Flexible · corner</option>
+                </select>
+              </div>
+              <ValidationMessages issues={issues} scope="foundation" />
+            </div>
+          </section>
+
+          {/* Loading Section */}
+          <section>
+            <div className="flex items-center gap-3 mb-6">
+              <div className="p-2 bg-rose-50 rounded-lg text-rose-600"><Weight size={20} /></div>
+              <h2 className="font-bold text-slate-800 text-sm uppercase tracking-wider">Loading conditions</h2>
+            </div>
+            <div className="space-y-4">
+              <LoadCaseEditor
+                cases={loadCases}
+                combinationSet={combinationSet}
+                issues={issues}
+                onChange={setLoadCases}
+                onCombinationSetChange={setCombinationSet}
+              />
+              <ValidationMessages issues={issues.filter(i => i.field === 'loadCases')} />
             </div>
           </section>
 
@@ -411,13 +1145,42 @@ const App: React.FC = () => {
               </div>
               
               <div className="grid grid-cols-1 gap-4">
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">BEARING CAPACITY THEORY</label>
+                <select 
+                  className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-2.5 text-sm font-semibold focus:border-indigo-500 outline-none transition-all"
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as BearingCapacityMethod)}
+                >
+                  {(Object.keys(BEARING_CAPACITY_METHODS) as BearingCapacityMethod[]).map(m => (
+                    <option key={m} value={m}>{BEARING_CAPACITY_METHODS[m].label}</option>
+                  ))}
+                </select>
                 <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">FACTOR OF SAFETY (FOS)</label>
                 <input 
                   type="number" step="0.1"
-                  className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold focus:border-indigo-500 outline-none transition-all"
-                  value={fos}
-                  onChange={(e) => setFos(parseFloat(e.target.value) || 1)}
+                  className={`w-full bg-slate-50 border-2 rounded-xl px-4 py-2.5 text-sm font-bold outline-none transition-all ${fieldBorder('fos', 'focus:border-indigo-500')}`}
+                  value={numberInputValue(fos)}
+                  onChange={(e) => setFos(parseNumberInput(e.target.value))}
+                />
+                <ValidationMessages issues={issues} scope="fos" />
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">STRESS DISTRIBUTION</label>
+                <select 
+                  className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-2.5 text-sm font-semibold focus:border-indigo-500 outline-none transition-all"
+                  value={stressMethod}
+                  onChange={(e) => setStressMethod(e.target.value as StressMethod)}
+                >
+                  <option value="Boussinesq">Boussinesq (Newmark / Fadum)</option>
+                  <option value="2:1">2:1 Load Spread</option>
+                  <option value="Westergaard">Westergaard (μ = 0)</option>
+                </select>
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">CREEP TIME t (YEARS, SCHMERTMANN C2)</label>
+                <input 
+                  type="number" step="1" min="0.1"
+                  className={`w-full bg-slate-50 border-2 rounded-xl px-4 py-2.5 text-sm font-bold outline-none transition-all ${fieldBorder('creepTime', 'focus:border-indigo-500')}`}
+                  value={numberInputValue(creepTime)}
+                  onChange={(e) => setCreepTime(parseNumberInput(e.target.value))}
                 />
+                <ValidationMessages issues={issues} scope="creepTime" />
               </div>
             </div>
           </section>
@@ -426,7 +1189,40 @@ const App: React.FC = () => {
         {/* Dashboard Content Area */}
         <section className="flex-1 p-8 overflow-y-auto bg-slate-50 scrollbar-hide">
           <div className="max-w-6xl mx-auto space-y-8">
-            
+            {inputErrors.length > 0 ? (
+              <div className="bg-white rounded-[2.5rem] border-2 border-rose-100 shadow-xl shadow-slate-200/40 overflow-hidden card">
+                <div className="px-8 py-5 border-b border-rose-50 bg-rose-50/40 flex justify-between items-center">
+                  <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+                    <XCircle size={20} className="text-rose-500" /> Analysis suspended: invalid input
+                  </h3>
+                  <span className="text-[10px] font-black text-rose-400 uppercase tracking-widest">
+                    {inputErrors.length} error{inputErrors.length === 1 ? '' : 's'}
+                  </span>
+                </div>
+                <div className="p-8 space-y-4">
+                  <p className="text-xs font-bold text-slate-500">
+                    The engine does not compute with these inputs. Correct them in the sidebar to see the results.
+                  </p>
+                  <ValidationMessages issues={inputErrors} />
+                </div>
+              </div>
+            ) : (
+            <>
+            {/* Input Warnings */}
+            {inputWarnings.length > 0 && (
+              <div className="bg-white rounded-[2.5rem] border-2 border-amber-100 shadow-xl shadow-slate-200/40 overflow-hidden card">
+                <div className="px-8 py-5 border-b border-amber-50 bg-amber-50/40 flex justify-between items-center">
+                  <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+                    <AlertTriangle size={20} className="text-amber-500" /> Engineering sanity warnings
+                  </h3>
+                  <span className="text-[10px] font-black text-amber-500 uppercase tracking-widest">Analysed with caution</span>
+                </div>
+                <div className="p-8">
+                  <ValidationMessages issues={inputWarnings} />
+                </div>
+              </div>
+            )}
+
             {/* KPI Overview */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
               <div className="bg-white p-7 rounded-[2rem] border-2 border-slate-100 shadow-xl shadow-slate-200/50 relative overflow-hidden group transition-all card">
@@ -436,9 +1232,20 @@ const App: React.FC = () => {
                   <h3 className="text-5xl font-black text-indigo-600 tracking-tighter">{results.recommended_sbc.toFixed(2)}</h3>
                   <span className="text-lg font-black text-slate-300">kPa</span>
                 </div>
+                {stageResults && (
+                  <div className="mt-3 grid grid-cols-2 gap-2">
+                    {stageResults.map(r => (
+                      <div key={r.Stage} className={`px-3 py-2 rounded-xl border-2 ${r.Stage === results.Stage ? 'border-indigo-200 bg-indigo-50/50' : 'border-slate-100'}`}>
+                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{r.Stage}</p>
+                        <p className={`text-base font-black tracking-tighter ${r.Stage === results.Stage ? 'text-indigo-600' : 'text-slate-500'}`}>{r.recommended_sbc.toFixed(1)} kPa</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <div className="mt-5 flex items-center gap-2 text-xs font-bold text-slate-500 border-t border-slate-50 pt-4">
                   <Info size={16} className="text-indigo-400" />
                   Governed by {results.qa_spt < results.qs ? 'SPT Values' : 'Shear Failure'}
+                  {results.Stage && <span className="text-indigo-500">· {DRAINAGE_STAGES[results.Stage]}</span>}
                 </div>
               </div>
 
@@ -449,6 +1256,19 @@ const App: React.FC = () => {
                   <h3 className="text-5xl font-black text-amber-600 tracking-tighter">{results.settlement.toFixed(2)}</h3>
                   <span className="text-lg font-black text-slate-300">mm</span>
                 </div>
+                {schmertmann && (
+                  <div className="mt-3 flex items-baseline gap-2 text-xs font-bold text-slate-500">
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Schmertmann</span>
+                    <span className={`text-xl font-black tracking-tighter ${schmertmann.settlement > 25 ? 'text-red-600' : 'text-amber-500'}`}>{schmertmann.settlement.toFixed(2)}</span>
+                    <span className="text-slate-300 font-black">mm</span>
+                    <span className="ml-auto text-[10px] text-slate-400">C1 {schmertmann.C1.toFixed(2)} · C2 {schmertmann.C2.toFixed(2)}</span>
+                  </div>
+                )}
+                <p className="mt-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  {results.elastic
+                    ? <>{results.elastic.case} · Is {results.elastic.Is.toFixed(3)} · μ {results.elastic.mu} · H {Number.isFinite(results.elastic.H) ? `${results.elastic.H.toFixed(1)} m` : '∞'}</>
+                    : 'Empirical · no Es given'}
+                </p>
                 <div className={`mt-5 flex items-center gap-2 text-xs font-bold border-t border-slate-50 pt-4 ${results.settlement > 25 ? 'text-red-600' : 'text-slate-500'}`}>
                   {results.settlement > 25 ? <AlertTriangle size={16} /> : <CheckCircle2 size={16} className="text-emerald-400" />}
                   Allowable Limit: 25mm
@@ -467,7 +1287,44 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            {/* Visualizer and Analysis Factors */}
+            {/* Pile Foundation */}
+            <PileFoundation
+              inputs={pile}
+              result={pileOutcome.result}
+              error={pileOutcome.error}
+              shallowStatus={results.status}
+              onChange={setPile}
+            />
+
+            {/* Layered Profile Interaction */}
+            {layeredResults && (
+              <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden card">
+                <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center">
+                  <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+                    <Layers size={20} className="text-indigo-500" /> Layered profile interaction
+                  </h3>
+                  <span className={`text-[9px] px-3 py-1 rounded-full font-black border uppercase tracking-widest ${
+                    layeredResults.layerCase === 'STRONG OVER WEAK' ? 'text-rose-600 bg-rose-50 border-rose-200'
+                      : layeredResults.layerCase === 'WEAK OVER STRONG' ? 'text-amber-600 bg-amber-50 border-amber-200'
+                      : 'text-emerald-600 bg-emerald-50 border-emerald-200'
+                  }`}>
+                    {layeredResults.layerCase}
+                  </span>
+                </div>
+                <div className="p-8 grid grid-cols-2 md:grid-cols-4 gap-x-10">
+                  <FactorItem label="Bearing Layer" value={layeredResults.bearingLayerIndex + 1} />
+                  <FactorItem label="H below base (m)" value={layeredResults.H} />
+                  <FactorItem label="qt (kPa)" value={layeredResults.qt} />
+                  <FactorItem label="qb (kPa)" value={layeredResults.qb} />
+                  <FactorItem label="q1 strip (kPa)" value={layeredResults.q1} />
+                  <FactorItem label="q2 strip (kPa)" value={layeredResults.q2} />
+                  <FactorItem label="Ks (Punching)" value={layeredResults.Ks} />
+                  <FactorItem label="ca (kPa)" value={layeredResults.ca} />
+                </div>
+              </div>
+            )}
+
+            {/* Visualizer and Contact Pressure */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
               {/* SVG Visualizer */}
               <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden flex flex-col card">
@@ -478,7 +1335,7 @@ const App: React.FC = () => {
                   <span className="text-[9px] font-black text-slate-400 uppercase tracking-[0.2em]">Scale Visualization</span>
                 </div>
                 <div className="flex-1 p-10 flex items-center justify-center bg-white min-h-[380px] relative">
-                   <svg viewBox="0 0 320 280" className="w-full h-full max-w-sm overflow-visible filter drop-shadow-2xl">
+                   <svg ref={crossSectionRef} viewBox="0 0 320 280" className="w-full h-full max-w-sm overflow-visible filter drop-shadow-2xl">
                       <defs>
                         <pattern id="soilTexture" x="0" y="0" width="12" height="12" patternUnits="userSpaceOnUse">
                           <circle cx="1" cy="1" r="0.8" fill="#cbd5e1" opacity="0.4" />
@@ -492,8 +1349,20 @@ const App: React.FC = () => {
                       {/* Soil Background */}
                       <rect x="0" y="60" width="320" height="220" fill="url(#soilTexture)" rx="8" />
                       
+                      {/* Layer Boundaries */}
+                      {profileMode === 'Layered' && layerTops(layers).map((top, i) => (
+                        60 + top * 20 < 275 && (
+                          <g key={layers[i].id}>
+                            {i > 0 && <line x1="0" y1={60 + top * 20} x2="320" y2={60 + top * 20} stroke="#a5b4fc" strokeWidth="1.5" strokeDasharray="4 3" />}
+                            <text x="5" y={60 + top * 20 + 12} className={`text-[8px] font-black uppercase ${i === layeredResults?.bearingLayerIndex ? 'fill-indigo-500' : 'fill-slate-300'}`}>
+                              L{i + 1} · {layers[i].type}
+                            </text>
+                          </g>
+                        )
+                      ))}
+
                       {/* Ground Surface */}
-                      <line x1="0" y1="60" x2="320" y2="60" stroke="#64748b" strokeWidth="3" strokeDasharray="10 5" />
+                      <line x1="0" y1="60" x2={slopeCrestX !== null ? Math.min(slopeCrestX, 320) : 320} y2="60" stroke="#64748b" strokeWidth="3" strokeDasharray="10 5" />
                       <text x="5" y="52" className="text-[10px] font-black fill-slate-300 uppercase tracking-widest">Ground Line</text>
                       
                       {/* Water Table Area */}
@@ -518,6 +1387,26 @@ const App: React.FC = () => {
                         </>
                       )}
 
+                      {/* Sloping ground beyond the crest, 20 px/m down by 30 px/m across */}
+                      {slopeCrestX !== null && slopeCrestX < 320 && (() => {
+                        const k = Math.tan(groundSlope * Math.PI / 180) * 20 / 30;
+                        const xEnd = Math.min(320, slopeCrestX + 220 / k);
+                        const yEnd = 60 + (xEnd - slopeCrestX) * k;
+                        return (
+                          <g>
+                            <polygon points={`${slopeCrestX},58 322,58 ${xEnd < 320 ? '322,282 ' : ''}${xEnd},${yEnd}`} fill="white" />
+                            <line x1={slopeCrestX} y1="60" x2={xEnd} y2={yEnd} stroke="#64748b" strokeWidth="3" />
+                            <text x={slopeCrestX + 6} y="74" className="text-[9px] font-black fill-slate-400 italic">β = {groundSlope}°</text>
+                            {crestSetback > 0 && (
+                              <>
+                                <line x1={160 + foundation.B * 15} y1="48" x2={slopeCrestX} y2="48" stroke="#94a3b8" strokeWidth="1" />
+                                <text x={(160 + foundation.B * 15 + slopeCrestX) / 2} y="44" textAnchor="middle" className="text-[9px] font-black fill-slate-400 italic">b = {crestSetback}m</text>
+                              </>
+                            )}
+                          </g>
+                        );
+                      })()}
+
                       {/* Foundation Block */}
                       <rect 
                         x={160 - (foundation.B * 15)} 
@@ -526,23 +1415,48 @@ const App: React.FC = () => {
                         height="24" 
                         fill="url(#foundGrad)" 
                         rx="3"
+                        transform={baseTilt > 0 ? `rotate(${-baseTilt} 160 ${60 + foundation.Df * 20 + 12})` : undefined}
                         className="transition-all duration-700 ease-out shadow-inner"
                       />
                       {/* Stem/Column */}
                       <rect x="151" y="0" width="18" height={60 + (foundation.Df * 20)} fill="#94a3b8" rx="2" />
                       
-                      {/* Pressure Bulb zone (B depth below base) */}
-                      <rect 
-                        x={160 - (foundation.B * 15)} 
-                        y={60 + (foundation.Df * 20) + 24} 
-                        width={foundation.B * 30} 
-                        height={foundation.B * 20} 
-                        fill="none" 
-                        stroke="#cbd5e1" 
-                        strokeWidth="2" 
-                        strokeDasharray="6 4"
-                      />
-                      <text x="160" y={60 + (foundation.Df * 20) + (foundation.B * 10) + 20} textAnchor="middle" className="text-[9px] font-black fill-slate-300 italic uppercase">Influence Zone</text>
+                      {/* Pressure Bulb isobars */}
+                      {isobars.map(isobar => (
+                        <g key={isobar.level} stroke={isobar.level >= 0.5 ? '#6366f1' : isobar.level >= 0.2 ? '#818cf8' : '#c7d2fe'} strokeWidth="1.75">
+                          {isobar.segments.map(([x1, z1, x2, z2], k) => (
+                            <line
+                              key={k}
+                              x1={160 + x1 * 30} y1={60 + (foundation.Df * 20) + 24 + z1 * 20}
+                              x2={160 + x2 * 30} y2={60 + (foundation.Df * 20) + 24 + z2 * 20}
+                            />
+                          ))}
+                        </g>
+                      ))}
+                      {isobars.map(isobar => {
+                        // Label each bulb at its deepest point on the centreline
+                        const deepest = isobar.segments.reduce((max, [, z1, , z2]) => Math.max(max, z1, z2), 0);
+                        return deepest > 0 && (
+                          <text key={isobar.level} x="160" y={60 + (foundation.Df * 20) + 24 + deepest * 20 - 3} textAnchor="middle" className="text-[8px] font-black fill-indigo-400 italic">
+                            {isobar.level}q
+                          </text>
+                        );
+                      })}
+
+                      {/* Schmertmann strain influence diagram */}
+                      {schmertmann && (() => {
+                        const x0 = 160 + foundation.B * 15 + 8;
+                        const baseY = 60 + (foundation.Df * 20) + 24;
+                        const pts = schmertmann.izProfile.map(p => `${x0 + p.Iz * 80},${baseY + p.z * 20}`);
+                        return (
+                          <g>
+                            <polygon points={`${x0},${baseY} ${pts.join(' ')}`} fill="rgba(245, 158, 11, 0.15)" stroke="#f59e0b" strokeWidth="1.5" />
+                            <line x1={x0} y1={baseY} x2={x0} y2={baseY + schmertmann.zInfluence * 20} stroke="#d97706" strokeWidth="1" />
+                            <text x={x0 + schmertmann.Izp * 80 + 4} y={baseY + schmertmann.zPeak * 20 + 3} className="text-[8px] font-black fill-amber-600">Izp={schmertmann.Izp.toFixed(2)}</text>
+                            <text x={x0 + 3} y={baseY + schmertmann.zInfluence * 20 - 3} className="text-[8px] font-black fill-amber-500 italic">Iz</text>
+                          </g>
+                        );
+                      })()}
 
                       {/* Dimensions labels */}
                       <g className="text-slate-400 text-[10px] font-black tracking-tighter">
@@ -556,11 +1470,19 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              {/* Contact Pressure Heat Map */}
+              <ContactPressureMap contact={contactPressure} allowable={results.recommended_sbc} />
+            </div>
+
+            {/* Plan View and Analysis Factors */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <FootingPlanView foundation={foundation} load={load} results={results} />
+
               {/* Factors Card */}
               <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden flex flex-col card">
                 <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center no-print">
                   <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
-                    <TrendingUp size={20} className="text-emerald-500" /> IS 6403 factors
+                    <TrendingUp size={20} className="text-emerald-500" /> {BEARING_CAPACITY_METHODS[method].label} factors
                   </h3>
                 </div>
                 <div className="flex-1 p-8 grid grid-cols-2 gap-10">
@@ -580,6 +1502,17 @@ const App: React.FC = () => {
                       <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-50 pb-2">Environmental</p>
                       <FactorItem label="dc (Depth)" value={results.dc} />
                       <FactorItem label="dq (Depth)" value={results.dq} />
+                      {[results.gc, results.gq, results.bc, results.bq].some(f => f !== 1) && (results.FrictionAngle > 0 ? (
+                        <>
+                          <FactorItem label="gq (Slope)" value={results.gq} />
+                          <FactorItem label="bq (Base tilt)" value={results.bq} />
+                        </>
+                      ) : (
+                        <>
+                          <FactorItem label="gc (Slope)" value={results.gc} />
+                          <FactorItem label="bc (Base tilt)" value={results.bc} />
+                        </>
+                      ))}
                       <div className="p-4 bg-cyan-50 border-2 border-cyan-100/50 rounded-2xl mt-4 shadow-sm group">
                         <div className="flex justify-between items-center mb-1">
                           <span className="text-[10px] font-black text-cyan-600 uppercase">W' Factor</span>
@@ -595,6 +1528,52 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {/* Borehole SPT Logs */}
+            <BoreholeLogs
+              boreholes={boreholes}
+              design={sptDesign}
+              useBoreholeN={useBoreholeN}
+              soilN={bearingSoil.spt_n}
+              equipment={sptEquipment}
+              issues={issues}
+              onChange={setBoreholes}
+              onUseBoreholeNChange={setUseBoreholeN}
+              onEquipmentChange={setSptEquipment}
+            />
+
+            {/* Seismic Bearing Capacity & Liquefaction */}
+            <SeismicPanel inputs={seismic} result={seismicResults} onChange={setSeismic} />
+
+            {/* Monte Carlo Reliability */}
+            <ReliabilityPanel inputs={reliability} run={reliabilityRun} onChange={setReliability} />
+
+            {/* Consolidation Settlement */}
+            {consolidation.subLayers.length > 0 && <ConsolidationPanel consolidation={consolidation} />}
+
+            {/* Theory Comparison */}
+            <MethodComparisonTable comparison={methodComparison} selected={method} onSelect={setMethod} />
+
+            {/* Load Combinations */}
+            <LoadCombinationsTable combinations={combinationResults} set={calc.combinationSet} />
+
+            {/* Footing Schedule */}
+            <FootingSchedule foundation={calc.foundation} analyse={analyse} />
+
+            {/* Footing Optimizer */}
+            <FootingOptimizer
+              foundation={calc.foundation}
+              cases={calc.loadCases}
+              combinationSet={calc.combinationSet}
+              analyse={analyse}
+              onApply={setFoundation}
+            />
+
+            {/* Combined Footing */}
+            <CombinedFooting Df={calc.foundation.Df} analyse={analyse} />
+
+            {/* Raft Foundation */}
+            <RaftFoundation layers={profileLayers} waterTable={calc.waterTable} analyse={analyse} />
+
             {/* Analysis Charts Grid - Hide in Print to save space or move to page 2 */}
             <div className="grid grid-cols-1 xl:grid-cols-2 gap-8 no-print">
               {/* SBC sensitivity */}
@@ -603,7 +1582,7 @@ const App: React.FC = () => {
                    <div className="p-2.5 bg-indigo-50 rounded-xl text-indigo-600 shadow-sm"><TrendingUp size={20} /></div>
                    <h3 className="text-base font-black text-slate-800 tracking-tight">Capacity sensitivity analysis</h3>
                 </div>
-                <div className="h-[300px] w-full">
+                <div ref={capacityChartRef} className="h-[300px] w-full">
                   <ResponsiveContainer width="100%" height="100%">
                     <LineChart data={sensitivityData} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
                       <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
@@ -626,7 +1605,7 @@ const App: React.FC = () => {
                     <h3 className="text-base font-black text-slate-800 tracking-tight">Settlement inspector</h3>
                   </div>
                 </div>
-                <div className="h-[300px] w-full">
+                <div ref={settlementChartRef} className="h-[300px] w-full">
                   <ResponsiveContainer width="100%" height="100%">
                     <LineChart data={sensitivityData} margin={{ top: 30, right: 30, left: 0, bottom: 20 }}>
                       <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
@@ -662,31 +1641,40 @@ const App: React.FC = () => {
                       <thead>
                         <tr className="bg-slate-50/50">
                           <th className="px-6 py-4 font-black text-slate-400 border-b border-slate-100 uppercase tracking-widest text-[10px] rounded-l-2xl">Design parameter</th>
-                          <th className="px-6 py-4 font-black text-slate-400 border-b border-slate-100 uppercase tracking-widest text-[10px]">Magnitude</th>
+                          {(stageResults ?? [results]).map(r => (
+                            <th key={r.Stage ?? 'single'} className="px-6 py-4 font-black text-slate-400 border-b border-slate-100 uppercase tracking-widest text-[10px]">
+                              {r.Stage ? <>{DRAINAGE_STAGES[r.Stage]}{r.Stage === results.Stage && <span className="text-indigo-500"> · Governs</span>}</> : 'Magnitude'}
+                            </th>
+                          ))}
                           <th className="px-6 py-4 font-black text-slate-400 border-b border-slate-100 uppercase tracking-widest text-[10px] rounded-r-2xl">Formula Components</th>
                         </tr>
                       </thead>
                       <tbody className="divide-y divide-slate-50">
-                        <tr className="hover:bg-slate-50/30 transition-colors">
-                          <td className="px-6 py-5 font-bold text-slate-800 italic">Term 1 (Cohesion)</td>
-                          <td className="px-6 py-5 font-black text-indigo-900 text-sm">{results.term1.toFixed(2)} kPa</td>
-                          <td className="px-6 py-5 font-mono text-slate-400 font-black">cNc · sc · dc · ic</td>
-                        </tr>
-                        <tr className="hover:bg-slate-50/30 transition-colors">
-                          <td className="px-6 py-5 font-bold text-slate-800 italic">Term 2 (Surcharge)</td>
-                          <td className="px-6 py-5 font-black text-indigo-900 text-sm">{results.term2.toFixed(2)} kPa</td>
-                          <td className="px-6 py-5 font-mono text-slate-400 font-black">qNq · sq · dq · iq</td>
-                        </tr>
-                        <tr className="hover:bg-slate-50/30 transition-colors">
-                          <td className="px-6 py-5 font-bold text-slate-800 italic">Term 3 (Self Weight)</td>
-                          <td className="px-6 py-5 font-black text-indigo-900 text-sm">{results.term3.toFixed(2)} kPa</td>
-                          <td className="px-6 py-5 font-mono text-slate-400 font-black">0.5 · γ_eff · B' · Nγ · sγ · dγ · iγ</td>
-                        </tr>
+                        {BREAKDOWN_TERMS.map(term => (
+                          <tr key={term.label} className="hover:bg-slate-50/30 transition-colors">
+                            <td className="px-6 py-5 font-bold text-slate-800 italic">{term.label}</td>
+                            {(stageResults ?? [results]).map(r => (
+                              <td key={r.Stage ?? 'single'} className="px-6 py-5 font-black text-indigo-900 text-sm">{term.value(r).toFixed(2)} kPa</td>
+                            ))}
+                            <td className="px-6 py-5 font-mono text-slate-400 font-black">{term.formula}</td>
+                          </tr>
+                        ))}
                         <tr className="bg-indigo-600 text-white rounded-2xl shadow-lg shadow-indigo-100 print:text-black print:bg-slate-100">
                           <td className="px-6 py-6 font-black text-base rounded-l-[1.5rem]">Ultimate Capacity (qu)</td>
-                          <td className="px-6 py-6 font-black text-base">{results.qu.toFixed(2)} kPa</td>
+                          {(stageResults ?? [results]).map(r => (
+                            <td key={r.Stage ?? 'single'} className="px-6 py-6 font-black text-base">{r.qu.toFixed(2)} kPa</td>
+                          ))}
                           <td className="px-6 py-6 font-mono font-black text-indigo-200 print:text-slate-600 rounded-r-[1.5rem]">qu = T1 + T2 + T3</td>
                         </tr>
+                        {stageResults && (
+                          <tr className="hover:bg-slate-50/30 transition-colors">
+                            <td className="px-6 py-5 font-bold text-slate-800 italic">Recommended SBC</td>
+                            {stageResults.map(r => (
+                              <td key={r.Stage} className={`px-6 py-5 font-black text-sm ${r.Stage === results.Stage ? 'text-indigo-600' : 'text-slate-500'}`}>{r.recommended_sbc.toFixed(2)} kPa</td>
+                            ))}
+                            <td className="px-6 py-5 font-mono text-slate-400 font-black">min(qs, qa_SPT)</td>
+                          </tr>
+                        )}
                       </tbody>
                    </table>
                 </div>
@@ -694,9 +1682,11 @@ const App: React.FC = () => {
 
             {/* Print Only Disclaimer */}
             <div className="print-only px-8 text-[10px] text-slate-400 italic">
-              <p>* Calculations performed as per IS 6403:1981 (Bearing Capacity) and IS 1904:2021 (Settlement).</p>
+              <p>* Bearing capacity by {BEARING_CAPACITY_METHODS[method].reference}; settlement per IS 1904:2021.</p>
               <p>* Generated automatically by GeotechCalc Pro Engineering Suite.</p>
             </div>
+            </>
+            )}
           </div>
         </section>
       </main>
@@ -718,10 +1708,16 @@ const App: React.FC = () => {
   );
 };
 
+const BREAKDOWN_TERMS: { label: string; value: (r: CalculationResults) => number; formula: string }[] = [
+  { label: 'Term 1 (Cohesion)', value: r => r.term1, formula: 'cNc · sc · dc · ic' },
+  { label: 'Term 2 (Surcharge)', value: r => r.term2, formula: 'qNq · sq · dq · iq' },
+  { label: 'Term 3 (Self Weight)', value: r => r.term3, formula: "0.5 · γ_eff · B' · Nγ · sγ · dγ · iγ" }
+];
+
 const FactorItem: React.FC<{ label: string; value: number }> = ({ label, value }) => (
   <div className="flex justify-between items-center py-2.5 border-b border-slate-50 last:border-0 transition-colors px-2 rounded-xl">
     <span className="text-[11px] font-black text-slate-400 uppercase tracking-tighter">{label}</span>
-    <span className="text-[11px] font-mono font-black text-slate-800">{value.toFixed(3)}</span>
+    <span className="text-[11px] font-mono font-black text-slate-800">{Number.isFinite(value) ? value.toFixed(3) : '—'}</span>
   </div>
 );
 
@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+// Loads the TypeScript CLI through tsx so the engine modules run unbuilt
+import { register } from 'tsx/esm/api';
+
+register();
+const { runCli } = await import('../cli.ts');
+process.exitCode = runCli(process.argv.slice(2));
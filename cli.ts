@@ -0,0 +1,349 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import {
+  SoilProperties,
+  SoilLayer,
+  FoundationProperties,
+  LoadingConditions,
+  LoadCase,
+  CombinationSet,
+  CalculationResults,
+  BearingCapacityMethod,
+  DrainageStage,
+  Borehole,
+  SptEquipment,
+  SeismicInputs,
+  SeismicResults
+} from './types';
+import {
+  calculateBearingCapacity,
+  calculateLayeredBearingCapacity,
+  governingStage,
+  normaliseFoundation,
+  BEARING_CAPACITY_METHODS
+} from './engine';
+import { hasDrainageStages } from './profile';
+import { analyseLoadCombinations, appliedBasePressure } from './loads';
+import { parseProjectFile } from './project';
+import { correctBoreholes, designSptN, DEFAULT_SPT_EQUIPMENT } from './spt';
+import { analyseSeismic } from './seismic';
+import { validateAnalysis, warningsOf, InputValidationError } from './validation';
+
+/** One footing as read from the input file */
+interface FootingDefinition {
+  name: string;
+  soil?: SoilProperties;
+  layers?: SoilLayer[];
+  foundation: FoundationProperties;
+  load?: LoadingConditions;
+  loadCases?: LoadCase[];
+  combinationSet?: CombinationSet;
+  waterTable?: number | null;
+  fos?: number;
+  method?: BearingCapacityMethod;
+  boreholes?: Borehole[];
+  useBoreholeN?: boolean; // Corrected borehole design N replaces the soil's SPT N
+  sptEquipment?: SptEquipment; // Hammer and borehole behind the N60 corrections; a 60% hammer when omitted
+  seismic?: SeismicInputs; // Pseudo-static and liquefaction checks when enabled
+}
+
+interface FootingResult {
+  name: string;
+  combination: string;
+  load: LoadingConditions;
+  results: CalculationResults;
+  q_applied: number;
+  utilisation: number;
+  seismic: SeismicResults | null;
+  warnings: string[];
+}
+
+type OutputFormat = 'json' | 'csv' | 'md';
+
+const USAGE = `Usage: geotechcalc <command> [options]
+
+Commands:
+  analyze <input.json ...>   Run every footing in the input files
+  methods                    List the bearing capacity theories
+
+Options:
+  -m, --method <name>        Override the theory: is6403, terzaghi, meyerhof, hansen, vesic
+  -f, --format <fmt>         Output format: json (default), csv or md
+  -o, --out <file>           Write to a file instead of stdout
+      --strict               Exit with code 2 if any footing is unsafe or overstressed
+  -h, --help                 Show this help
+
+Input files hold a single footing, an array of footings, { "footings": [...] },
+or a project file exported from the app. A footing needs "foundation" plus
+either "soil" or "layers", and either "load" or "loadCases".`;
+
+// CLI spellings of each theory
+const METHOD_ALIASES: Record<string, BearingCapacityMethod> = {
+  is6403: 'IS 6403',
+  terzaghi: 'Terzaghi',
+  meyerhof: 'Meyerhof',
+  hansen: 'Hansen',
+  vesic: 'Vesic'
+};
+
+class CliError extends Error {}
+
+const parseMethod = (value: string): BearingCapacityMethod => {
+  const key = value.toLowerCase().replace(/[\s_-]/g, '');
+  const method = METHOD_ALIASES[key] ?? (Object.keys(BEARING_CAPACITY_METHODS) as BearingCapacityMethod[]).find(m => m === value);
+  if (!method) throw new CliError(`Unknown method "${value}". Use one of: ${Object.keys(METHOD_ALIASES).join(', ')}`);
+  return method;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const checkFooting = (raw: unknown, label: string): FootingDefinition => {
+  if (!isObject(raw)) throw new CliError(`${label}: footing must be an object`);
+  if (!isObject(raw.foundation)) throw new CliError(`${label}: missing "foundation"`);
+  if (!isObject(raw.soil) && !Array.isArray(raw.layers)) throw new CliError(`${label}: needs "soil" or "layers"`);
+  if (!isObject(raw.load) && !Array.isArray(raw.loadCases)) throw new CliError(`${label}: needs "load" or "loadCases"`);
+  return { ...raw, name: typeof raw.name === 'string' ? raw.name : label } as FootingDefinition;
+};
+
+/** Reads the footing definitions from one input file */
+export function readFootings(path: string): FootingDefinition[] {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch {
+    throw new CliError(`Cannot read ${path}`);
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new CliError(`${path} is not valid JSON`);
+  }
+
+  // Project files exported from the app
+  if (isObject(data) && data.format === 'geotechcalc-project') {
+    const project = parseProjectFile(text);
+    return project.footings.map(f => ({
+      name: f.name,
+      soil: f.inputs.profileMode === 'Layered' ? undefined : f.inputs.soil,
+      layers: f.inputs.profileMode === 'Layered' ? f.inputs.layers : undefined,
+      foundation: f.inputs.foundation,
+      loadCases: f.inputs.loadCases,
+      combinationSet: f.inputs.combinationSet,
+      waterTable: f.inputs.waterTable,
+      fos: f.inputs.fos,
+      method: f.inputs.method,
+      boreholes: f.inputs.boreholes,
+      useBoreholeN: f.inputs.useBoreholeN,
+      sptEquipment: f.inputs.sptEquipment,
+      seismic: f.inputs.seismic
+    }));
+  }
+
+  const list = Array.isArray(data) ? data : isObject(data) && Array.isArray(data.footings) ? data.footings : [data];
+  const stem = basename(path).replace(/\.json$/i, '');
+  return list.map((raw, i) => checkFooting(raw, list.length > 1 ? `${stem}[${i + 1}]` : stem));
+}
+
+/** Runs one footing the same way the app does: stages, layers and combinations */
+export function analyseFooting(def: FootingDefinition, override?: BearingCapacityMethod): FootingResult {
+  let result: FootingResult;
+  try {
+    result = runFooting(def, override);
+  } catch (err) {
+    if (err instanceof InputValidationError) throw new CliError(`${def.name}: ${err.message}`);
+    throw err;
+  }
+  // A NaN capacity would otherwise print as a result; treat it as an input error
+  const { qu, recommended_sbc, settlement } = result.results;
+  if (![qu, recommended_sbc, settlement, result.q_applied].every(Number.isFinite)) {
+    throw new CliError(`${def.name}: the capacity is not a finite number; check the soil, foundation and load values`);
+  }
+  return result;
+}
+
+const runFooting = (def: FootingDefinition, override?: BearingCapacityMethod): FootingResult => {
+  const method = override ?? def.method ?? 'IS 6403';
+  const wt = def.waterTable === undefined ? null : def.waterTable;
+  const fos = def.fos ?? 3.0;
+  const layers = def.layers && def.layers.length > 0 ? def.layers : null;
+  const staged = layers ? layers.some(hasDrainageStages) : !!def.soil && hasDrainageStages(def.soil);
+
+  const boreholes = def.useBoreholeN && def.boreholes
+    ? correctBoreholes(def.boreholes, layers ?? [{ ...def.soil!, id: 'homogeneous', thickness: Infinity }], wt)
+    : null;
+
+  const run = (f: FoundationProperties, l: LoadingConditions, stage?: DrainageStage) => {
+    const spt_n = boreholes ? designSptN(boreholes, f).designN ?? undefined : undefined;
+    return layers
+      ? calculateLayeredBearingCapacity(layers, f, l, wt, fos, { method, stage, spt_n })
+      : calculateBearingCapacity(def.soil!, f, l, wt, fos, { method, stage, spt_n });
+  };
+  const analyse = (f: FoundationProperties, l: LoadingConditions) => staged
+    ? governingStage([run(f, l, 'Undrained'), run(f, l, 'Drained')])
+    : run(f, l);
+
+  const foundation = normaliseFoundation(def.foundation);
+  const warningsFor = (load: LoadingConditions) => {
+    return warningsOf(validateAnalysis(layers ?? def.soil!, foundation, load, wt, fos)).map(i => i.message);
+  };
+  const seismicFor = (results: CalculationResults, q_applied: number) => def.seismic?.enabled
+    ? analyseSeismic(def.seismic, results, q_applied, layers ?? [{ ...def.soil!, id: 'homogeneous', thickness: Infinity }], def.boreholes ?? [], wt, def.sptEquipment ?? DEFAULT_SPT_EQUIPMENT)
+    : null;
+
+  if (def.loadCases && def.loadCases.length > 0) {
+    const [governing] = analyseLoadCombinations(def.loadCases, def.combinationSet ?? 'Working Stress', foundation, l => analyse(foundation, l));
+    return {
+      name: def.name,
+      combination: governing.combination.name,
+      load: governing.load,
+      results: governing.results,
+      q_applied: governing.q_applied,
+      utilisation: governing.utilisation,
+      seismic: seismicFor(governing.results, governing.q_applied),
+      warnings: warningsFor(governing.load)
+    };
+  }
+
+  const load = { V: 0, H: 0, Mx: 0, My: 0, ...def.load };
+  const results = analyse(foundation, load);
+  const q_applied = appliedBasePressure(foundation, load, results);
+  return {
+    name: def.name,
+    combination: 'Applied load',
+    load,
+    results,
+    q_applied,
+    utilisation: results.recommended_sbc > 0 ? q_applied / results.recommended_sbc : Infinity,
+    seismic: seismicFor(results, q_applied),
+    warnings: warningsFor(load)
+  };
+};
+
+// Flat columns shared by the CSV and Markdown outputs
+const COLUMNS: { header: string; value: (r: FootingResult) => string | number }[] = [
+  { header: 'Footing', value: r => r.name },
+  { header: 'Method', value: r => r.results.Method },
+  { header: 'Stage', value: r => r.results.Stage ?? '' },
+  { header: 'Shape', value: r => r.results.FoundationShape },
+  { header: 'B (m)', value: r => r.results.FoundationWidth },
+  { header: 'L (m)', value: r => r.results.FoundationLength },
+  { header: 'Df (m)', value: r => r.results.FoundationDepth },
+  { header: 'Combination', value: r => r.combination },
+  { header: 'V (kN)', value: r => r.load.V.toFixed(1) },
+  { header: 'Nc', value: r => r.results.Nc.toFixed(3) },
+  { header: 'Nq', value: r => r.results.Nq.toFixed(3) },
+  { header: 'Ngamma', value: r => r.results.Ngamma.toFixed(3) },
+  { header: 'qu (kPa)', value: r => r.results.qu.toFixed(2) },
+  { header: 'qns (kPa)', value: r => r.results.qns.toFixed(2) },
+  { header: 'SPT N', value: r => r.results.SptN?.toFixed(1) ?? '' },
+  { header: 'SBC (kPa)', value: r => r.results.recommended_sbc.toFixed(2) },
+  { header: 'q applied (kPa)', value: r => r.q_applied.toFixed(2) },
+  { header: 'Utilisation', value: r => r.utilisation.toFixed(3) },
+  { header: 'Settlement (mm)', value: r => r.results.settlement.toFixed(2) },
+  { header: 'Status', value: r => r.results.status },
+  { header: 'Seismic Status', value: r => r.seismic?.status ?? '' },
+  { header: 'Warnings', value: r => r.warnings.join('; ') }
+];
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function formatResults(results: FootingResult[], format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(results.map(r => ({
+        footing: r.name,
+        combination: r.combination,
+        load: r.load,
+        q_applied: r.q_applied,
+        utilisation: r.utilisation,
+        warnings: r.warnings,
+        ...r.results,
+        seismic: r.seismic ?? undefined
+      })), (_, v) => (typeof v === 'number' && !Number.isFinite(v) ? null : v), 2);
+    case 'csv':
+      return [
+        COLUMNS.map(c => csvCell(c.header)).join(','),
+        ...results.map(r => COLUMNS.map(c => csvCell(c.value(r))).join(','))
+      ].join('\n');
+    case 'md':
+      return [
+        `| ${COLUMNS.map(c => c.header).join(' | ')} |`,
+        `| ${COLUMNS.map(() => '---').join(' | ')} |`,
+        ...results.map(r => `| ${COLUMNS.map(c => String(c.value(r)).replace(/\|/g, '\\|')).join(' | ')} |`)
+      ].join('\n');
+  }
+}
+
+export function main(argv: string[]): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      method: { type: 'string', short: 'm' },
+      format: { type: 'string', short: 'f', default: 'json' },
+      out: { type: 'string', short: 'o' },
+      strict: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  const [command, ...files] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return command || values.help ? 0 : 1;
+  }
+
+  if (command === 'methods') {
+    Object.entries(METHOD_ALIASES).forEach(([alias, m]) => {
+      console.log(`${alias.padEnd(10)} ${BEARING_CAPACITY_METHODS[m].label.padEnd(22)} ${BEARING_CAPACITY_METHODS[m].reference}`);
+    });
+    return 0;
+  }
+
+  if (command !== 'analyze') throw new CliError(`Unknown command "${command}"\n\n${USAGE}`);
+  if (files.length === 0) throw new CliError('analyze needs at least one input file');
+
+  const format = values.format as OutputFormat;
+  if (!['json', 'csv', 'md'].includes(format)) throw new CliError(`Unknown format "${format}"; use json, csv or md`);
+  const method = values.method ? parseMethod(values.method) : undefined;
+
+  const results = files.flatMap(readFootings).map(def => analyseFooting(def, method));
+  const output = formatResults(results, format) + '\n';
+
+  if (values.out) {
+    writeFileSync(values.out, output);
+    console.error(`Wrote ${results.length} footing${results.length === 1 ? '' : 's'} to ${values.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+
+  const failing = results.filter(r => r.results.status !== 'SAFE' || r.utilisation > 1);
+  if (values.strict && failing.length > 0) {
+    console.error(`${failing.length} footing(s) fail: ${failing.map(r => r.name).join(', ')}`);
+    return 2;
+  }
+  return 0;
+}
+
+/** Runs the CLI and returns the exit code, reporting errors on stderr */
+export function runCli(argv: string[]): number {
+  try {
+    return main(argv);
+  } catch (err) {
+    console.error(`geotechcalc: ${(err as Error).message}`);
+    return 1;
+  }
+}
+
+// Only run when started directly (tsx cli.ts); bin/geotechcalc.mjs calls runCli itself
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  process.exitCode = runCli(process.argv.slice(2));
+}
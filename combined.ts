@@ -0,0 +1,194 @@
+import {
+  FoundationProperties,
+  LoadingConditions,
+  CalculationResults,
+  CombinedColumn,
+  CombinedFootingInputs,
+  CombinedFootingResults,
+  BeamStation
+} from './types';
+
+export const DEFAULT_COMBINED_FOOTING: Omit<CombinedFootingInputs, 'columns'> = {
+  leftProjection: 0.5,
+  length: null,
+  width: null,
+  rounding: 0.05
+};
+
+// Intervals along the footing for the shear and moment diagrams
+const DIAGRAM_STEPS = 200;
+const MIN_WIDTH = 0.5; // Narrowest width tried when sizing (m)
+
+const roundUp = (value: number, step: number) => Math.ceil(value / step - 1e-9) * step;
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+/**
+ * Base pressure along the footing for a resultant R at offset e from the
+ * centre: trapezoidal while the resultant stays in the middle third, else a
+ * triangle over the part of the base still in contact.
+ */
+export function pressureProfile(R: number, B: number, L: number, e: number): { at: (x: number) => number; contact: number } {
+  if (Math.abs(e) <= L / 6) {
+    const qavg = R / (B * L);
+    const slope = (12 * R * e) / (B * L * L * L);
+    return { at: x => qavg + slope * (x - L / 2), contact: L };
+  }
+  const contact = 3 * (L / 2 - Math.abs(e));
+  const qmax = contact > 0 ? (2 * R) / (B * contact) : Infinity;
+  return {
+    at: x => {
+      const fromLoaded = e > 0 ? x - (L - contact) : contact - x;
+      return fromLoaded > 0 ? (qmax * fromLoaded) / contact : 0;
+    },
+    contact: Math.max(contact, 0)
+  };
+}
+
+/**
+ * Shear and bending moment along the footing as a beam loaded by the columns
+ * and the base pressure. Self-weight is carried by its own share of the
+ * pressure and does not bend the footing.
+ */
+export function beamDiagrams(
+  columns: CombinedColumn[],
+  offset: number,
+  B: number,
+  L: number,
+  pressure: (x: number) => number,
+  contact: number,
+  e: number
+): BeamStation[] {
+  const positions = columns.map(c => offset + c.x);
+  const xs = new Set<number>();
+  for (let i = 0; i <= DIAGRAM_STEPS; i++) xs.add((i / DIAGRAM_STEPS) * L);
+  positions.forEach(x => xs.add(x));
+  if (contact < L) xs.add(e > 0 ? L - contact : contact);
+  const sorted = [...xs].filter(x => x >= 0 && x <= L).sort((a, b) => a - b);
+
+  const stations: BeamStation[] = [];
+  let shear = 0;
+  let moment = 0;
+  sorted.forEach((x, k) => {
+    if (k > 0) {
+      // Pressure is linear between stations, so shear is quadratic: Simpson's rule is exact
+      const x0 = sorted[k - 1];
+      const h = x - x0;
+      const w0 = pressure(x0) * B;
+      const w1 = pressure(x) * B;
+      const wMid = pressure(x0 + h / 2) * B;
+      const shearMid = shear + (h / 2) * (w0 + wMid) / 2;
+      const shearEnd = shear + (h / 6) * (w0 + 4 * wMid + w1);
+      moment += (h / 6) * (shear + 4 * shearMid + shearEnd);
+      shear = shearEnd;
+    }
+    stations.push({ x, pressure: pressure(x), shear, moment });
+
+    // Column loads and moments step the diagrams just past the column
+    const here = columns.filter((_, i) => Math.abs(positions[i] - x) < 1e-9);
+    if (here.length > 0) {
+      shear -= here.reduce((sum, c) => sum + c.V, 0);
+      moment += here.reduce((sum, c) => sum + c.M, 0);
+      stations.push({ x, pressure: pressure(x), shear, moment });
+    }
+  });
+  return stations;
+}
+
+/**
+ * Sizes a combined footing under two or more columns. The length puts the
+ * footing centre under the load resultant for uniform pressure unless a
+ * length is fixed; the width is increased in rounding steps until the peak
+ * base pressure is within the recommended SBC from the active soil model.
+ */
+export function designCombinedFooting(
+  inputs: CombinedFootingInputs,
+  Df: number,
+  analyse: (foundation: FoundationProperties, load: LoadingConditions) => CalculationResults
+): CombinedFootingResults {
+  if (!(inputs.rounding > 0)) throw new Error('Rounding must be greater than zero');
+  const step = Math.max(inputs.rounding, 0.01);
+  const columns = [...inputs.columns].sort((a, b) => a.x - b.x);
+  if (columns.length < 2) throw new Error('A combined footing needs at least two columns');
+  if (columns.some(c => !Number.isFinite(c.x) || !Number.isFinite(c.V) || !Number.isFinite(c.M))) {
+    throw new Error('Every column needs a position, load and moment');
+  }
+  if (!(inputs.leftProjection >= 0)) throw new Error('Left projection must be zero or more');
+  if (inputs.length !== null && !(inputs.length > 0)) throw new Error('Fixed length must be greater than zero');
+  if (inputs.width !== null && !(inputs.width > 0)) throw new Error('Fixed width must be greater than zero');
+
+  const R = columns.reduce((sum, c) => sum + c.V, 0);
+  if (R <= 0) throw new Error('Total column load must be greater than zero');
+
+  // Columns are measured from the first one; the footing starts leftProjection before it
+  const offset = inputs.leftProjection - columns[0].x;
+  const xR = offset + columns.reduce((sum, c) => sum + c.V * c.x + c.M, 0) / R;
+  const lastColumn = offset + columns[columns.length - 1].x;
+
+  let L: number;
+  if (inputs.length !== null) {
+    L = inputs.length;
+    if (L < lastColumn) throw new Error(`Length ${L.toFixed(2)} m stops short of the last column at ${lastColumn.toFixed(2)} m`);
+  } else {
+    L = roundUp(2 * xR, step);
+    if (L < lastColumn - 1e-9) {
+      throw new Error(`Uniform pressure needs L = ${(2 * xR).toFixed(2)} m, short of the last column at ${lastColumn.toFixed(2)} m; increase the left projection or fix the length`);
+    }
+  }
+  const e = xR - L / 2;
+
+  const check = (B: number) => {
+    const foundation: FoundationProperties = { shape: 'Rectangular', B, L, Df };
+    const bearing = analyse(foundation, { V: R, H: 0, Mx: R * Math.abs(e), My: 0 });
+    const { at, contact } = pressureProfile(R, B, L, e);
+    const qmax = Math.max(at(0), at(L));
+    return { B, bearing, at, contact, qmax, utilisation: bearing.recommended_sbc > 0 ? qmax / bearing.recommended_sbc : Infinity };
+  };
+
+  let trial: ReturnType<typeof check>;
+  if (inputs.width !== null) {
+    trial = check(inputs.width);
+  } else {
+    // Widest footing considered is square; beyond that the length should grow instead
+    let width = Math.min(roundUp(MIN_WIDTH, step), L);
+    trial = check(width);
+    while (trial.utilisation > 1 && width + step <= L + 1e-9) {
+      width = roundTo(width + step, step);
+      trial = check(width);
+    }
+  }
+
+  const { B, bearing, at, contact, qmax, utilisation } = trial;
+  const middleThird = Math.abs(e) <= L / 6 + 1e-9;
+  const passes = utilisation <= 1 && middleThird;
+  const explanation = !middleThird
+    ? `The resultant is ${Math.abs(e).toFixed(2)} m off centre, outside the middle third (L/6 = ${(L / 6).toFixed(2)} m); part of the base lifts off.`
+    : utilisation > 1
+      ? inputs.width !== null
+        ? `Peak pressure ${qmax.toFixed(1)} kPa exceeds the recommended SBC of ${bearing.recommended_sbc.toFixed(1)} kPa.`
+        : `No width up to B = L = ${L.toFixed(2)} m keeps the pressure within the SBC; lengthen the footing.`
+      : Math.abs(e) < step / 2
+        ? `Footing centred on the resultant: uniform pressure of ${qmax.toFixed(1)} kPa.`
+        : `Resultant ${Math.abs(e).toFixed(2)} m off centre: pressure varies from ${Math.min(at(0), at(L)).toFixed(1)} to ${qmax.toFixed(1)} kPa.`;
+
+  const stations = beamDiagrams(columns, offset, B, L, at, contact, e);
+
+  return {
+    R,
+    xR,
+    L,
+    B,
+    e,
+    qLeft: at(0),
+    qRight: at(L),
+    qmax,
+    contactRatio: contact / L,
+    bearing,
+    utilisation,
+    passes,
+    explanation,
+    stations,
+    maxShear: Math.max(...stations.map(s => Math.abs(s.shear))),
+    maxSagging: Math.max(0, ...stations.map(s => s.moment)),
+    maxHogging: Math.min(0, ...stations.map(s => s.moment))
+  };
+}
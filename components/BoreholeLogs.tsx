@@ -0,0 +1,258 @@
+import React, { useRef, useState } from 'react';
+import { Drill, Upload, Trash2, AlertTriangle } from 'lucide-react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  ZAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceArea,
+  ReferenceLine
+} from 'recharts';
+import { Borehole, SptDesign, SptEquipment, ValidationIssue } from '../types';
+import { parseBoreholeLog } from '../spt';
+import { parseNumberInput, numberInputValue } from '../validation';
+import ValidationMessages from './ValidationMessages';
+
+interface BoreholeLogsProps {
+  boreholes: Borehole[];
+  design: SptDesign;
+  useBoreholeN: boolean;
+  soilN?: number; // SPT N entered with the soil properties
+  equipment: SptEquipment;
+  issues: ValidationIssue[];
+  onChange: (boreholes: Borehole[]) => void;
+  onUseBoreholeNChange: (use: boolean) => void;
+  onEquipmentChange: (equipment: SptEquipment) => void;
+}
+
+const headClass = "px-3 py-2.5 font-black text-slate-400 border-b border-slate-100 uppercase tracking-widest text-[10px]";
+const cellClass = "px-3 py-2 font-bold text-slate-700";
+const inputClass = "w-full bg-white border-2 border-slate-100 rounded-lg px-2.5 py-1.5 text-xs font-bold focus:border-violet-500 outline-none transition-all";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-tighter mb-1";
+
+const EQUIPMENT_FIELDS: { field: keyof SptEquipment; label: string; step: string }[] = [
+  { field: 'energyRatio', label: 'Hammer energy ER (%)', step: '5' },
+  { field: 'boreholeDiameter', label: 'Borehole Ø (mm)', step: '10' },
+  { field: 'samplerFactor', label: 'Sampler CS', step: '0.05' }
+];
+
+const COLOURS = ['#7c3aed', '#0891b2', '#db2777', '#ea580c', '#16a34a', '#4f46e5'];
+
+const BoreholeLogs: React.FC<BoreholeLogsProps> = ({ boreholes, design, useBoreholeN, soilN, equipment, issues, onChange, onUseBoreholeNChange, onEquipmentChange }) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const importLog = (text: string) => {
+    try {
+      onChange(parseBoreholeLog(text));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const deepest = Math.max(design.zoneBottom, ...design.boreholes.flatMap(b => b.readings.map(r => r.depth)));
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden card">
+      <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center">
+        <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+          <Drill size={20} className="text-violet-500" /> SPT borehole logs
+        </h3>
+        <div className="flex items-center gap-2 no-print">
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border-2 border-slate-100 text-[10px] font-black text-slate-500 uppercase tracking-wider hover:border-violet-200 hover:text-violet-600"
+          >
+            <Upload size={12} /> Import AGS4 / CSV
+          </button>
+          <button
+            onClick={() => { onChange([]); onUseBoreholeNChange(false); }}
+            disabled={boreholes.length === 0}
+            className="p-1.5 rounded-lg text-rose-400 hover:text-rose-600 hover:bg-rose-50 disabled:opacity-30"
+            title="Remove borehole logs"
+          >
+            <Trash2 size={14} />
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".ags,.csv,.txt,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) file.text().then(importLog);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="p-8 space-y-6">
+        {error && (
+          <p className="text-[11px] text-rose-500 font-bold flex items-center gap-1 no-print"><AlertTriangle size={12} /> {error}</p>
+        )}
+
+        <div className="space-y-2 no-print">
+          <div className="grid grid-cols-3 gap-3">
+            {EQUIPMENT_FIELDS.map(({ field, label, step }) => (
+              <div key={field}>
+                <label className={labelClass}>{label}</label>
+                <input
+                  type="number"
+                  step={step}
+                  className={inputClass}
+                  value={numberInputValue(equipment[field])}
+                  onChange={(e) => onEquipmentChange({ ...equipment, [field]: parseNumberInput(e.target.value) })}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] font-bold text-slate-400">
+            Field N is corrected to N60 for hammer energy, borehole size, rod length and sampler (Youd et al., 2001) wherever N60 or (N1)60 is used.
+          </p>
+          <ValidationMessages issues={issues} scope="sptEquipment" />
+        </div>
+
+        {boreholes.length === 0 ? (
+          <p className="text-xs font-bold text-slate-400">
+            Import the ISPT group of an AGS4 file, or a CSV with borehole, depth (m) and N columns, to derive a corrected
+            design N over the influence zone Df to Df + B.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+            <div className="space-y-5">
+              <label className="flex items-center justify-between p-4 bg-violet-50/50 rounded-2xl border-2 border-violet-100 cursor-pointer">
+                <div>
+                  <p className="text-[10px] font-black text-violet-600 uppercase tracking-widest">Design N (lowest borehole)</p>
+                  <p className="text-3xl font-black text-slate-800 tracking-tighter">
+                    {design.designN !== null ? design.designN.toFixed(1) : '—'}
+                    <span className="text-xs text-slate-400 font-bold">
+                      {design.governingBorehole && ` ${design.governingBorehole} · ${design.zoneTop.toFixed(2)}–${design.zoneBottom.toFixed(2)} m`}
+                    </span>
+                  </p>
+                  <p className="text-[10px] font-bold text-slate-400">Soil property N = {soilN || '—'}</p>
+                </div>
+                <span className="flex items-center gap-2 text-[10px] font-black text-violet-600 uppercase tracking-tighter no-print">
+                  Use for SBC
+                  <input
+                    type="checkbox"
+                    className="accent-violet-600"
+                    checked={useBoreholeN}
+                    disabled={design.designN === null}
+                    onChange={(e) => onUseBoreholeNChange(e.target.checked)}
+                  />
+                </span>
+              </label>
+
+              <div className="overflow-x-auto max-h-72 overflow-y-auto">
+                <table className="w-full text-left text-xs">
+                  <thead className="sticky top-0 bg-white">
+                    <tr>
+                      <th className={headClass}>BH</th>
+                      <th className={headClass}>z (m)</th>
+                      <th className={headClass}>N</th>
+                      <th className={headClass}>σ'v (kPa)</th>
+                      <th className={headClass}>CN</th>
+                      <th className={headClass}>N corr.</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {design.boreholes.flatMap(bh => bh.readings.map(r => {
+                      const inZone = r.depth >= design.zoneTop - 1e-9 && r.depth <= design.zoneBottom + 1e-9;
+                      return (
+                        <tr key={`${bh.id}-${r.depth}`} className={inZone ? 'bg-violet-50/40' : undefined}>
+                          <td className={cellClass}>{bh.id}</td>
+                          <td className={cellClass}>{r.depth.toFixed(2)}</td>
+                          <td className={cellClass}>{r.N}</td>
+                          <td className={cellClass}>{r.sigma_v.toFixed(1)}</td>
+                          <td className={cellClass}>{r.CN.toFixed(2)}</td>
+                          <td className={`${cellClass} ${inZone ? 'text-violet-700' : ''}`}>
+                            {r.N_corrected.toFixed(1)}{r.dilatancy && <span className="text-slate-400"> (dil.)</span>}
+                          </td>
+                        </tr>
+                      );
+                    }))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {design.boreholes.map(bh => (
+                  <span
+                    key={bh.id}
+                    className={`px-3 py-1 rounded-full border-2 text-[10px] font-black uppercase tracking-wider ${
+                      bh.id === design.governingBorehole ? 'border-violet-200 bg-violet-50 text-violet-700' : 'border-slate-100 text-slate-500'
+                    }`}
+                  >
+                    {bh.id}: N = {bh.designN !== null ? bh.designN.toFixed(1) : '—'}
+                    {bh.zoneCount === 0 && bh.designN !== null && ' (nearest test)'}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <div className="h-[360px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+                  <XAxis
+                    dataKey="N"
+                    type="number"
+                    orientation="top"
+                    tick={{ fontSize: 11, fontWeight: '900', fill: '#94a3b8' }}
+                    label={{ value: 'SPT N', position: 'insideTopRight', offset: -5, fontSize: 11, fill: '#94a3b8' }}
+                  />
+                  <YAxis
+                    dataKey="depth"
+                    type="number"
+                    reversed
+                    domain={[0, Math.ceil(deepest)]}
+                    tick={{ fontSize: 11, fontWeight: '900', fill: '#94a3b8' }}
+                    label={{ value: 'Depth (m)', angle: -90, position: 'insideLeft', fontSize: 11, fill: '#94a3b8' }}
+                  />
+                  <ZAxis range={[36, 36]} />
+                  <Tooltip
+                    formatter={(value: number, name: string) => [value.toFixed(2), name]}
+                    contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 25px 50px -12px rgba(0,0,0,0.25)', fontSize: '13px', padding: '12px' }}
+                  />
+                  <ReferenceArea
+                    y1={design.zoneTop}
+                    y2={design.zoneBottom}
+                    shape={({ x, y, width, height }) => <rect x={x} y={y} width={width} height={height} fill="#ede9fe" fillOpacity={0.6} />}
+                  />
+                  {design.designN !== null && (
+                    <ReferenceLine x={design.designN} stroke="#7c3aed" strokeDasharray="4 4" label={{ value: 'Design N', position: 'insideBottomRight', fontSize: 10, fill: '#7c3aed' }} />
+                  )}
+                  {design.boreholes.map((bh, i) => (
+                    <React.Fragment key={bh.id}>
+                      <Scatter
+                        name={`${bh.id} field N`}
+                        data={bh.readings.map(r => ({ depth: r.depth, N: r.N }))}
+                        fill={COLOURS[i % COLOURS.length]}
+                        fillOpacity={0.35}
+                        line={{ stroke: COLOURS[i % COLOURS.length], strokeDasharray: '4 4', strokeOpacity: 0.5 }}
+                      />
+                      <Scatter
+                        name={`${bh.id} corrected N`}
+                        data={bh.readings.map(r => ({ depth: r.depth, N: r.N_corrected }))}
+                        fill={COLOURS[i % COLOURS.length]}
+                        line={{ stroke: COLOURS[i % COLOURS.length], strokeWidth: 2 }}
+                      />
+                    </React.Fragment>
+                  ))}
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BoreholeLogs;
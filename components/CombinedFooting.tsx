@@ -0,0 +1,225 @@
+import React, { useMemo, useState } from 'react';
+import { Columns3, Plus, Trash2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import {
+  FoundationProperties,
+  LoadingConditions,
+  CalculationResults,
+  CombinedColumn,
+  CombinedFootingInputs,
+  CombinedFootingResults
+} from '../types';
+import { designCombinedFooting, DEFAULT_COMBINED_FOOTING } from '../combined';
+import { parseNumberInput, numberInputValue } from '../validation';
+
+interface CombinedFootingProps {
+  Df: number;
+  analyse: (foundation: FoundationProperties, load: LoadingConditions) => CalculationResults;
+}
+
+const inputClass = "w-full bg-white border-2 border-slate-100 rounded-lg px-2.5 py-1.5 text-xs font-bold focus:border-fuchsia-500 outline-none transition-all";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-tighter mb-1";
+const tick = { fontSize: 11, fontWeight: '900', fill: '#94a3b8' };
+const tooltipStyle = { borderRadius: '16px', border: 'none', boxShadow: '0 25px 50px -12px rgba(0,0,0,0.25)', fontSize: '13px', padding: '12px' };
+
+export const createColumn = (index: number, values?: Partial<CombinedColumn>): CombinedColumn => ({
+  name: `C${index + 1}`,
+  x: 0,
+  V: 500,
+  M: 0,
+  ...values,
+  id: crypto.randomUUID()
+});
+
+const CombinedFooting: React.FC<CombinedFootingProps> = ({ Df, analyse }) => {
+  const [inputs, setInputs] = useState<CombinedFootingInputs>(() => ({
+    ...DEFAULT_COMBINED_FOOTING,
+    columns: [createColumn(0, { x: 0, V: 600 }), createColumn(1, { x: 4, V: 900 })]
+  }));
+
+  const outcome = useMemo<{ result: CombinedFootingResults | null; error: string | null }>(() => {
+    try {
+      return { result: designCombinedFooting(inputs, Df, analyse), error: null };
+    } catch (err) {
+      return { result: null, error: (err as Error).message };
+    }
+  }, [inputs, Df, analyse]);
+  const { result, error } = outcome;
+
+  const updateColumn = (index: number, field: keyof CombinedColumn, value: string | number) => {
+    setInputs(prev => ({ ...prev, columns: prev.columns.map((c, i) => (i === index ? { ...c, [field]: value } : c)) }));
+  };
+
+  // Column positions on the diagrams, from the left edge
+  const offset = inputs.leftProjection - Math.min(...inputs.columns.map(c => c.x));
+
+  const diagram = (dataKey: 'shear' | 'moment', colour: string, unit: string) => result && (
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={result.stations} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+        <XAxis dataKey="x" type="number" domain={[0, result.L]} tickFormatter={(x: number) => x.toFixed(1)} tick={tick} />
+        <YAxis tick={tick} />
+        <Tooltip
+          labelFormatter={(x) => `x = ${Number(x).toFixed(2)} m`}
+          formatter={(value: number) => [`${value.toFixed(1)} ${unit}`, dataKey === 'shear' ? 'Shear' : 'Moment']}
+          contentStyle={tooltipStyle}
+        />
+        <ReferenceLine y={0} stroke="#cbd5e1" />
+        {inputs.columns.map(c => (
+          <ReferenceLine key={c.id} x={offset + c.x} stroke="#e879f9" strokeDasharray="4 4" label={{ value: c.name, position: 'top', fontSize: 10, fill: '#c026d3' }} />
+        ))}
+        <Line type="linear" dataKey={dataKey} stroke={colour} strokeWidth={3} dot={false} isAnimationActive={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden card">
+      <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center">
+        <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+          <Columns3 size={20} className="text-fuchsia-500" /> Combined footing
+        </h3>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          {inputs.columns.length} columns · Df = {Df.toFixed(2)} m
+        </span>
+      </div>
+      <div className="p-8 grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <div className="space-y-6">
+          <div className="space-y-2 no-print">
+            <div className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2">
+              <span className={labelClass}>Column</span>
+              <span className={labelClass}>x (m)</span>
+              <span className={labelClass}>V (kN)</span>
+              <span className={labelClass}>M (kN·m)</span>
+              <span />
+            </div>
+            {inputs.columns.map((c, i) => (
+              <div key={c.id} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-center">
+                <input className={inputClass} value={c.name} onChange={(e) => updateColumn(i, 'name', e.target.value)} />
+                <input type="number" step="0.1" className={inputClass} value={numberInputValue(c.x)}
+                  onChange={(e) => updateColumn(i, 'x', parseNumberInput(e.target.value))} />
+                <input type="number" step="10" className={inputClass} value={numberInputValue(c.V)}
+                  onChange={(e) => updateColumn(i, 'V', parseNumberInput(e.target.value))} />
+                <input type="number" step="5" className={inputClass} value={numberInputValue(c.M)}
+                  onChange={(e) => updateColumn(i, 'M', parseNumberInput(e.target.value))} />
+                <button
+                  onClick={() => setInputs(prev => ({ ...prev, columns: prev.columns.filter((_, j) => j !== i) }))}
+                  disabled={inputs.columns.length <= 2}
+                  className="p-1 rounded-md text-rose-400 hover:text-rose-600 hover:bg-rose-50 disabled:opacity-30"
+                  title="Remove column"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setInputs(prev => {
+                const last = prev.columns[prev.columns.length - 1];
+                return { ...prev, columns: [...prev.columns, createColumn(prev.columns.length, { x: (last?.x ?? 0) + 4 })] };
+              })}
+              className="w-full flex items-center justify-center gap-2 py-2 rounded-xl border-2 border-dashed border-fuchsia-200 text-[11px] font-black text-fuchsia-600 uppercase tracking-wider hover:bg-fuchsia-50 transition-colors"
+            >
+              <Plus size={14} /> Add column
+            </button>
+          </div>
+
+          <div className="grid grid-cols-4 gap-3 no-print">
+            <div>
+              <label className={labelClass}>Left proj. (m)</label>
+              <input type="number" step="0.05" min="0" className={inputClass} value={numberInputValue(inputs.leftProjection)}
+                onChange={(e) => setInputs(prev => ({ ...prev, leftProjection: parseNumberInput(e.target.value) }))} />
+            </div>
+            <div>
+              <label className={labelClass}>Length L (m)</label>
+              <input type="number" step="0.1" placeholder="Auto" className={inputClass} value={inputs.length ?? ''}
+                onChange={(e) => setInputs(prev => ({ ...prev, length: e.target.value === '' ? null : parseNumberInput(e.target.value) }))} />
+            </div>
+            <div>
+              <label className={labelClass}>Width B (m)</label>
+              <input type="number" step="0.1" placeholder="Auto" className={inputClass} value={inputs.width ?? ''}
+                onChange={(e) => setInputs(prev => ({ ...prev, width: e.target.value === '' ? null : parseNumberInput(e.target.value) }))} />
+            </div>
+            <div>
+              <label className={labelClass}>Rounding (m)</label>
+              <input type="number" step="0.05" min="0.01" className={inputClass} value={numberInputValue(inputs.rounding)}
+                onChange={(e) => setInputs(prev => ({ ...prev, rounding: parseNumberInput(e.target.value) }))} />
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-5 bg-rose-50/50 rounded-2xl border-2 border-rose-100">
+              <p className="text-[11px] font-bold text-rose-600 flex items-start gap-2">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {error}
+              </p>
+            </div>
+          )}
+
+          {result && (
+            <div className={`p-5 rounded-2xl border-2 space-y-3 ${result.passes ? 'bg-fuchsia-50/40 border-fuchsia-100' : 'bg-rose-50/50 border-rose-100'}`}>
+              <p className={`text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5 ${result.passes ? 'text-fuchsia-600' : 'text-rose-600'}`}>
+                {result.passes ? <CheckCircle2 size={14} /> : <AlertTriangle size={14} />} {result.passes ? 'Footing size' : 'Check fails'}
+              </p>
+              <p className="text-3xl font-black text-slate-800 tracking-tighter">
+                {result.L.toFixed(2)} × {result.B.toFixed(2)}
+                <span className="text-sm text-slate-400"> m (L × B)</span>
+              </p>
+              <div className="grid grid-cols-3 gap-3 text-xs font-bold text-slate-600">
+                <div>
+                  <p className={labelClass}>Resultant</p>
+                  {result.R.toFixed(0)} kN at {result.xR.toFixed(2)} m
+                </div>
+                <div>
+                  <p className={labelClass}>q left / right</p>
+                  {result.qLeft.toFixed(1)} / {result.qRight.toFixed(1)} kPa
+                </div>
+                <div>
+                  <p className={labelClass}>Utilisation</p>
+                  {(result.utilisation * 100).toFixed(1)}% of {result.bearing.recommended_sbc.toFixed(0)} kPa
+                </div>
+                <div>
+                  <p className={labelClass}>Max shear</p>
+                  {result.maxShear.toFixed(1)} kN
+                </div>
+                <div>
+                  <p className={labelClass}>Max sagging</p>
+                  {result.maxSagging.toFixed(1)} kN·m
+                </div>
+                <div>
+                  <p className={labelClass}>Max hogging</p>
+                  {result.maxHogging.toFixed(1)} kN·m
+                </div>
+              </div>
+              <p className={`text-[11px] font-bold border-t pt-3 ${result.passes ? 'text-fuchsia-700 border-fuchsia-100' : 'text-rose-600 border-rose-100'}`}>
+                {result.explanation}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {result && (
+          <div className="space-y-4">
+            <div>
+              <p className={labelClass}>Shear force (kN)</p>
+              <div className="h-[180px] w-full">{diagram('shear', '#c026d3', 'kN')}</div>
+            </div>
+            <div>
+              <p className={labelClass}>Bending moment (kN·m, sagging +)</p>
+              <div className="h-[180px] w-full">{diagram('moment', '#4f46e5', 'kN·m')}</div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CombinedFooting;
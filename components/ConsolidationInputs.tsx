@@ -0,0 +1,88 @@
+import React from 'react';
+import { ConsolidationParameters, DrainageCondition } from '../types';
+import { parseNumberInput, numberInputValue } from '../validation';
+
+interface ConsolidationInputsProps {
+  params: ConsolidationParameters | undefined;
+  onChange: (params: ConsolidationParameters | undefined) => void;
+}
+
+export const DEFAULT_CONSOLIDATION: ConsolidationParameters = {
+  Cc: 0.3,
+  Cr: 0.05,
+  e0: 0.9,
+  OCR: 1.0,
+  mv: 0.0003,
+  cv: 2.0,
+  drainage: 'Double'
+};
+
+const inputClass = "w-full bg-white border-2 border-slate-100 rounded-lg px-2.5 py-1.5 text-xs font-bold focus:border-violet-500 outline-none transition-all";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-tighter mb-1";
+
+const ConsolidationInputs: React.FC<ConsolidationInputsProps> = ({ params, onChange }) => {
+  const update = (field: keyof ConsolidationParameters, value: number | DrainageCondition | undefined) => {
+    if (params) onChange({ ...params, [field]: value });
+  };
+
+  return (
+    <div className="p-3 bg-violet-50/50 rounded-xl border-2 border-violet-100/50 space-y-3">
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className="text-[10px] font-black text-violet-600 uppercase tracking-tighter">Consolidation (IS 8009)</span>
+        <input
+          type="checkbox"
+          className="accent-violet-600"
+          checked={!!params}
+          onChange={(e) => onChange(e.target.checked ? { ...DEFAULT_CONSOLIDATION } : undefined)}
+        />
+      </label>
+      {params && (
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className={labelClass}>Cc</label>
+            <input type="number" step="0.01" className={inputClass} value={numberInputValue(params.Cc)}
+              onChange={(e) => update('Cc', parseNumberInput(e.target.value))} />
+          </div>
+          <div>
+            <label className={labelClass}>Cr</label>
+            <input type="number" step="0.01" className={inputClass} value={numberInputValue(params.Cr)}
+              onChange={(e) => update('Cr', parseNumberInput(e.target.value))} />
+          </div>
+          <div>
+            <label className={labelClass}>e0</label>
+            <input type="number" step="0.05" className={inputClass} value={numberInputValue(params.e0)}
+              onChange={(e) => update('e0', parseNumberInput(e.target.value))} />
+          </div>
+          <div>
+            <label className={labelClass}>OCR</label>
+            <input type="number" step="0.1" min="1" className={inputClass} value={numberInputValue(params.OCR)}
+              onChange={(e) => update('OCR', parseNumberInput(e.target.value))} />
+          </div>
+          <div>
+            <label className={labelClass}>mv (m²/kN)</label>
+            <input type="number" step="0.0001" className={inputClass} value={numberInputValue(params.mv)}
+              onChange={(e) => update('mv', e.target.value === '' ? undefined : parseNumberInput(e.target.value))} />
+          </div>
+          <div>
+            <label className={labelClass}>cv (m²/yr)</label>
+            <input type="number" step="0.1" className={inputClass} value={numberInputValue(params.cv)}
+              onChange={(e) => update('cv', parseNumberInput(e.target.value))} />
+          </div>
+          <div className="col-span-3">
+            <label className={labelClass}>Drainage</label>
+            <select
+              className={inputClass}
+              value={params.drainage}
+              onChange={(e) => update('drainage', e.target.value as DrainageCondition)}
+            >
+              <option value="Double">Double (top & bottom)</option>
+              <option value="Single">Single (one face)</option>
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConsolidationInputs;
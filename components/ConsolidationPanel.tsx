@@ -0,0 +1,124 @@
+import React from 'react';
+import { Hourglass } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { ConsolidationResults } from '../types';
+
+interface ConsolidationPanelProps {
+  consolidation: ConsolidationResults;
+}
+
+const headClass = "px-3 py-2.5 font-black text-slate-400 border-b border-slate-100 uppercase tracking-widest text-[9px]";
+const cellClass = "px-3 py-2 font-bold text-slate-700";
+
+const formatYears = (t: number) => {
+  if (!Number.isFinite(t)) return '—';
+  return t < 1 ? `${(t * 12).toFixed(1)} months` : `${t.toFixed(2)} years`;
+};
+
+const ConsolidationPanel: React.FC<ConsolidationPanelProps> = ({ consolidation }) => {
+  const chartData = consolidation.timeCurve.map(p => ({
+    time: parseFloat(p.time.toPrecision(3)),
+    settlement: parseFloat(p.settlement.toFixed(2))
+  }));
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden card">
+      <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center">
+        <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+          <Hourglass size={20} className="text-violet-500" /> Consolidation settlement (IS 8009)
+        </h3>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          Δq net = {consolidation.q_net.toFixed(1)} kPa
+        </span>
+      </div>
+      <div className="p-8 grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Primary (Cc / Cr)</p>
+              <p className="text-3xl font-black text-violet-600 tracking-tighter">{consolidation.total.toFixed(1)} <span className="text-sm text-slate-300">mm</span></p>
+            </div>
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Primary (mv)</p>
+              <p className="text-3xl font-black text-slate-700 tracking-tighter">
+                {Number.isNaN(consolidation.total_mv) ? '—' : consolidation.total_mv.toFixed(1)} <span className="text-sm text-slate-300">mm</span>
+              </p>
+            </div>
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">t50</p>
+              <p className="text-sm font-black text-slate-700">{formatYears(consolidation.t50)}</p>
+            </div>
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">t90</p>
+              <p className="text-sm font-black text-slate-700">{formatYears(consolidation.t90)}</p>
+            </div>
+          </div>
+          <div className="overflow-x-auto max-h-64 overflow-y-auto">
+            <table className="w-full text-[11px] text-left">
+              <thead className="sticky top-0 bg-white">
+                <tr>
+                  <th className={headClass}>Layer</th>
+                  <th className={headClass}>z (m)</th>
+                  <th className={headClass}>σ'0</th>
+                  <th className={headClass}>σ'p</th>
+                  <th className={headClass}>Δσ</th>
+                  <th className={headClass}>S (mm)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {consolidation.subLayers.map((s, i) => (
+                  <tr key={i}>
+                    <td className={cellClass}>L{s.layerIndex + 1}</td>
+                    <td className={cellClass}>{s.zTop.toFixed(2)}–{s.zBottom.toFixed(2)}</td>
+                    <td className={cellClass}>{s.sigma0.toFixed(1)}</td>
+                    <td className={cellClass}>{s.sigma_p.toFixed(1)}</td>
+                    <td className={cellClass}>{s.dSigma.toFixed(1)}</td>
+                    <td className="px-3 py-2 font-black text-violet-700">{s.settlement.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="h-[320px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="log"
+                domain={['dataMin', 'dataMax']}
+                ticks={[0.01, 0.1, 1, 10, 100]}
+                tick={{ fontSize: 11, fontWeight: '900', fill: '#94a3b8' }}
+                label={{ value: 'Time (years)', position: 'insideBottom', offset: -10, fontSize: 11, fill: '#94a3b8' }}
+              />
+              <YAxis reversed tick={{ fontSize: 11, fontWeight: '900', fill: '#94a3b8' }} />
+              <Tooltip
+                formatter={(value: number) => [`${value} mm`, 'Settlement']}
+                labelFormatter={(t: number) => `t = ${t} years`}
+                contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 25px 50px -12px rgba(0,0,0,0.25)', fontSize: '13px', padding: '12px' }}
+              />
+              {Number.isFinite(consolidation.t90) && consolidation.t90 <= 100 && (
+                <ReferenceLine x={consolidation.t90} stroke="#8b5cf6" strokeDasharray="6 4" label={{ value: 't90', position: 'top', fill: '#8b5cf6', fontSize: 11, fontWeight: '900' }} />
+              )}
+              <Line type="monotone" dataKey="settlement" stroke="#7c3aed" strokeWidth={4} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsolidationPanel;
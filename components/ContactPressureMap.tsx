@@ -0,0 +1,116 @@
+import React from 'react';
+import { Grid3x3 } from 'lucide-react';
+import { ContactPressureResults } from '../types';
+
+interface ContactPressureMapProps {
+  contact: ContactPressureResults;
+  allowable: number;
+}
+
+const CX = 160;
+const CY = 130;
+
+// Blue (low) to red (high); uplifted cells are left grey
+const heatColour = (q: number, qmax: number) => {
+  if (q <= 0) return '#e2e8f0';
+  const t = qmax > 0 ? Math.min(q / qmax, 1) : 0;
+  return `hsl(${220 - 220 * t}, 85%, ${62 - 12 * t}%)`;
+};
+
+const ContactPressureMap: React.FC<ContactPressureMapProps> = ({ contact, allowable }) => {
+  const { B, L, map, corners } = contact;
+  const rows = map.length;
+  const cols = rows > 0 ? map[0].length : 0;
+  const scale = Math.min(220 / B, 190 / L);
+  const w = B * scale;
+  const h = L * scale;
+  const cw = w / Math.max(cols, 1);
+  const ch = h / Math.max(rows, 1);
+  const qPeak = Number.isFinite(contact.qmax) ? contact.qmax : 0;
+  const exceeds = contact.qmax > allowable;
+
+  const cornerPositions = [
+    { label: 'A', x: CX + w / 2 + 6, y: CY - h / 2 - 6, anchor: 'start' },
+    { label: 'B', x: CX - w / 2 - 6, y: CY - h / 2 - 6, anchor: 'end' },
+    { label: 'C', x: CX - w / 2 - 6, y: CY + h / 2 + 14, anchor: 'end' },
+    { label: 'D', x: CX + w / 2 + 6, y: CY + h / 2 + 14, anchor: 'start' }
+  ];
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden flex flex-col card">
+      <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center">
+        <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+          <Grid3x3 size={20} className="text-rose-500" /> Contact pressure
+        </h3>
+        <span className={`text-[9px] px-3 py-1 rounded-full font-black border uppercase tracking-widest ${
+          contact.overturning ? 'text-red-700 bg-red-50 border-red-200'
+            : contact.partialUplift ? 'text-amber-600 bg-amber-50 border-amber-200'
+            : 'text-emerald-600 bg-emerald-50 border-emerald-200'
+        }`}>
+          {contact.overturning ? 'Overturning' : contact.partialUplift ? 'Partial Uplift' : 'Full Contact'}
+        </span>
+      </div>
+      <div className="flex-1 p-6 flex flex-col items-center justify-center min-h-[380px]">
+        {contact.overturning ? (
+          <p className="text-xs font-black text-red-600 uppercase tracking-wider text-center">
+            Resultant lies outside the base — no equilibrium contact pressure exists
+          </p>
+        ) : (
+          <>
+            <svg viewBox="0 0 320 260" className="w-full max-w-sm overflow-visible">
+              {map.map((row, j) => row.map((q, i) => (
+                Number.isNaN(q) ? null : (
+                  <rect
+                    key={`${j}-${i}`}
+                    x={CX - w / 2 + i * cw}
+                    y={CY - h / 2 + j * ch}
+                    width={cw + 0.3}
+                    height={ch + 0.3}
+                    fill={heatColour(q, qPeak)}
+                  />
+                )
+              )))}
+              {corners ? (
+                <rect x={CX - w / 2} y={CY - h / 2} width={w} height={h} fill="none" stroke="#1e293b" strokeWidth="2" />
+              ) : (
+                <circle cx={CX} cy={CY} r={w / 2} fill="none" stroke="#1e293b" strokeWidth="2" />
+              )}
+              {corners && cornerPositions.map((pos, k) => (
+                <text key={pos.label} x={pos.x} y={pos.y} textAnchor={pos.anchor as 'start' | 'end'} className="text-[9px] font-black fill-slate-600">
+                  {pos.label}: {corners[k].toFixed(1)}
+                </text>
+              ))}
+            </svg>
+
+            {/* Legend */}
+            <div className="w-full max-w-xs mt-4">
+              <div className="h-2.5 rounded-full" style={{ background: 'linear-gradient(to right, hsl(220,85%,62%), hsl(110,85%,56%), hsl(0,85%,50%))' }} />
+              <div className="flex justify-between mt-1 text-[9px] font-black text-slate-400 uppercase tracking-wider">
+                <span>0 kPa</span>
+                <span>{qPeak.toFixed(0)} kPa</span>
+              </div>
+            </div>
+          </>
+        )}
+        <div className="w-full grid grid-cols-3 gap-4 mt-6 text-center">
+          <div>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">q max</p>
+            <p className={`text-lg font-black tracking-tighter ${exceeds ? 'text-red-600' : 'text-slate-800'}`}>
+              {Number.isFinite(contact.qmax) ? contact.qmax.toFixed(1) : '∞'}
+            </p>
+          </div>
+          <div>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">q min</p>
+            <p className="text-lg font-black text-slate-800 tracking-tighter">{contact.qmin.toFixed(1)}</p>
+          </div>
+          <div>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">In contact</p>
+            <p className="text-lg font-black text-slate-800 tracking-tighter">{(contact.contactRatio * 100).toFixed(0)}%</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContactPressureMap;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Check, Sigma } from 'lucide-react';
+import { SoilProperties, CorrelatedValue } from '../types';
+import { FIELD_LABELS } from '../correlations';
+
+interface CorrelationPanelProps {
+  soil: SoilProperties;
+  correlations: CorrelatedValue[];
+  onAccept: (correlation: CorrelatedValue) => void;
+}
+
+const CorrelationPanel: React.FC<CorrelationPanelProps> = ({ soil, correlations, onAccept }) => {
+  if (correlations.length === 0) return null;
+
+  return (
+    <div className="p-3 bg-orange-50/50 rounded-xl border-2 border-orange-100/50 space-y-2">
+      <span className="flex items-center gap-1.5 text-[10px] font-black text-orange-600 uppercase tracking-tighter">
+        <Sigma size={12} /> Field test correlations
+      </span>
+      {correlations.map((c, i) => {
+        const { label, unit } = FIELD_LABELS[c.field];
+        const inUse = soil[c.field] === c.value && soil.correlated?.[c.field] === c.source;
+        return (
+          <div key={`${c.field}-${i}`} className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-[11px] font-black text-slate-700">
+                {label} = {c.value} {unit}
+              </p>
+              <p className="text-[9px] font-bold text-slate-400 truncate" title={`${c.source}; ${c.basis}`}>
+                {c.source} · {c.basis}
+              </p>
+            </div>
+            <button
+              onClick={() => onAccept(c)}
+              disabled={inUse}
+              className={`shrink-0 flex items-center gap-1 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-wider transition-colors ${
+                inUse ? 'bg-orange-100 text-orange-600' : 'border-2 border-orange-100 text-orange-500 hover:bg-orange-100'
+              }`}
+            >
+              {inUse ? <><Check size={10} /> In use</> : 'Use'}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CorrelationPanel;
@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { Target, CheckCircle2, AlertTriangle } from 'lucide-react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  ZAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceDot
+} from 'recharts';
+import {
+  FoundationProperties,
+  LoadingConditions,
+  CalculationResults,
+  LoadCase,
+  CombinationSet,
+  OptimizerConstraints,
+  OptimizerResult
+} from '../types';
+import { optimiseFooting, DEFAULT_OPTIMIZER_CONSTRAINTS } from '../optimizer';
+import { validateOptimizerConstraints, errorsOf, parseNumberInput, numberInputValue } from '../validation';
+import ValidationMessages from './ValidationMessages';
+
+interface FootingOptimizerProps {
+  foundation: FoundationProperties;
+  cases: LoadCase[];
+  combinationSet: CombinationSet;
+  analyse: (foundation: FoundationProperties, load: LoadingConditions) => CalculationResults;
+  onApply: (foundation: FoundationProperties) => void;
+}
+
+const inputClass = "w-full bg-white border-2 border-slate-100 rounded-lg px-2.5 py-1.5 text-xs font-bold focus:border-emerald-500 outline-none transition-all";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-tighter mb-1";
+
+const CONSTRAINT_FIELDS: { field: keyof OptimizerConstraints; label: string; step: string; rectangularOnly?: boolean }[] = [
+  { field: 'maxSettlement', label: 'Max settlement (mm)', step: '5' },
+  { field: 'minB', label: 'Min B (m)', step: '0.1' },
+  { field: 'maxB', label: 'Max B (m)', step: '0.5' },
+  { field: 'maxLB', label: 'Max L/B', step: '0.25', rectangularOnly: true },
+  { field: 'DfMin', label: 'Min Df (m)', step: '0.25' },
+  { field: 'DfMax', label: 'Max Df (m)', step: '0.25' },
+  { field: 'rounding', label: 'Rounding (m)', step: '0.05' }
+];
+
+const FootingOptimizer: React.FC<FootingOptimizerProps> = ({ foundation, cases, combinationSet, analyse, onApply }) => {
+  const [constraints, setConstraints] = useState<OptimizerConstraints>(DEFAULT_OPTIMIZER_CONSTRAINTS);
+
+  // Only shape matters from the current footing; size and depth are searched
+  const template = useMemo<FoundationProperties>(() => ({ shape: foundation.shape, B: 1, L: 1, Df: 1 }), [foundation.shape]);
+
+  const issues = useMemo(() => validateOptimizerConstraints(constraints), [constraints]);
+
+  // The search only runs within valid bounds
+  const valid = errorsOf(issues).length === 0;
+  const outcome = useMemo<{ result: OptimizerResult | null; error: string | null }>(() => {
+    if (!valid) return { result: null, error: null };
+    try {
+      return { result: optimiseFooting(template, cases, combinationSet, constraints, analyse), error: null };
+    } catch (err) {
+      return { result: null, error: (err as Error).message };
+    }
+  }, [valid, template, cases, combinationSet, constraints, analyse]);
+  const { result, error } = outcome;
+
+  const feasible = result?.region.filter(p => p.failing.length === 0) ?? [];
+  const infeasible = result?.region.filter(p => p.failing.length > 0) ?? [];
+  const optimum = result?.optimum ?? null;
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden card">
+      <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center">
+        <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+          <Target size={20} className="text-emerald-500" /> Footing optimizer
+        </h3>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          {result && <>{result.evaluations} trials{foundation.shape === 'Rectangular' && ` · L/B = ${result.ratio.toFixed(2)}`}</>}
+        </span>
+      </div>
+      <div className="p-8 grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <div className="space-y-6">
+          <div className="grid grid-cols-3 gap-3 no-print">
+            {CONSTRAINT_FIELDS.filter(c => !c.rectangularOnly || foundation.shape === 'Rectangular').map(({ field, label, step }) => (
+              <div key={field}>
+                <label className={labelClass}>{label}</label>
+                <input
+                  type="number"
+                  step={step}
+                  min="0"
+                  className={inputClass}
+                  value={numberInputValue(constraints[field])}
+                  onChange={(e) => setConstraints(prev => ({ ...prev, [field]: parseNumberInput(e.target.value) }))}
+                />
+              </div>
+            ))}
+          </div>
+
+          <ValidationMessages issues={issues} />
+
+          {error && (
+            <div className="p-5 bg-rose-50/50 rounded-2xl border-2 border-rose-100">
+              <p className="text-[11px] font-bold text-rose-600 flex items-start gap-2">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {error}
+              </p>
+            </div>
+          )}
+
+          {!result ? null : optimum ? (
+            <div className="p-5 bg-emerald-50/50 rounded-2xl border-2 border-emerald-100 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest flex items-center gap-1.5">
+                  <CheckCircle2 size={14} /> Minimum-area footing
+                </p>
+                <button
+                  onClick={() => onApply({ ...foundation, B: optimum.B, L: optimum.L, Df: optimum.Df })}
+                  className="px-3 py-1.5 rounded-lg bg-emerald-600 text-white text-[10px] font-black uppercase tracking-wider hover:bg-emerald-700 no-print"
+                >
+                  Apply
+                </button>
+              </div>
+              <p className="text-3xl font-black text-slate-800 tracking-tighter">
+                {foundation.shape === 'Strip/Continuous' ? `B = ${optimum.B.toFixed(2)}` : `${optimum.B.toFixed(2)} × ${optimum.L.toFixed(2)}`}
+                <span className="text-sm text-slate-400"> m at Df = {optimum.Df.toFixed(2)} m</span>
+              </p>
+              <div className="grid grid-cols-3 gap-3 text-xs font-bold text-slate-600">
+                <div>
+                  <p className={labelClass}>Area</p>
+                  {optimum.area.toFixed(2)} {foundation.shape === 'Strip/Continuous' ? 'm²/m' : 'm²'}
+                </div>
+                <div>
+                  <p className={labelClass}>Utilisation</p>
+                  {(optimum.utilisation * 100).toFixed(1)}%
+                </div>
+                <div>
+                  <p className={labelClass}>Settlement</p>
+                  {optimum.settlement.toFixed(1)} mm
+                </div>
+              </div>
+              <p className="text-[11px] font-bold text-emerald-700 border-t border-emerald-100 pt-3">{result.explanation}</p>
+            </div>
+          ) : (
+            <div className="p-5 bg-rose-50/50 rounded-2xl border-2 border-rose-100">
+              <p className="text-[11px] font-bold text-rose-600 flex items-start gap-2">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {result.explanation}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="h-[320px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+              <XAxis
+                dataKey="B"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tick={{ fontSize: 11, fontWeight: '900', fill: '#94a3b8' }}
+                label={{ value: 'Width B (m)', position: 'insideBottom', offset: -10, fontSize: 11, fill: '#94a3b8' }}
+              />
+              <YAxis
+                dataKey="Df"
+                type="number"
+                reversed
+                domain={['dataMin', 'dataMax']}
+                tick={{ fontSize: 11, fontWeight: '900', fill: '#94a3b8' }}
+                label={{ value: 'Df (m)', angle: -90, position: 'insideLeft', fontSize: 11, fill: '#94a3b8' }}
+              />
+              <ZAxis range={[40, 40]} />
+              <Tooltip
+                cursor={{ strokeDasharray: '3 3' }}
+                formatter={(value: number, name: string) => [value.toFixed(2), name]}
+                contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 25px 50px -12px rgba(0,0,0,0.25)', fontSize: '13px', padding: '12px' }}
+              />
+              <Scatter name="Feasible" data={feasible} fill="#10b981" shape="square" />
+              <Scatter name="Fails check" data={infeasible} fill="#e2e8f0" shape="square" />
+              {optimum && (
+                <ReferenceDot x={optimum.B} y={optimum.Df} r={8} fill="#4f46e5" stroke="#fff" strokeWidth={3} />
+              )}
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FootingOptimizer;
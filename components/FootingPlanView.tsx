@@ -0,0 +1,138 @@
+import React from 'react';
+import { Move } from 'lucide-react';
+import { FoundationProperties, LoadingConditions, CalculationResults } from '../types';
+
+interface FootingPlanViewProps {
+  foundation: FoundationProperties;
+  load: LoadingConditions;
+  results: CalculationResults;
+}
+
+const CX = 160;
+const CY = 135;
+
+const FootingPlanView: React.FC<FootingPlanViewProps> = ({ foundation, load, results }) => {
+  const { shape, B } = foundation;
+  const isStrip = shape === 'Strip/Continuous';
+  const isCircular = shape === 'Circular';
+  // Strips are drawn over a representative 2B length
+  const L = isStrip ? 2 * B : foundation.L;
+
+  const scale = Math.min(220 / B, 200 / L);
+  const w = B * scale;
+  const h = L * scale;
+
+  // Signed eccentricities: ex along B from My, ey along L from Mx
+  const ex = load.V !== 0 ? load.My / load.V : 0;
+  const ey = load.V !== 0 && !isStrip ? load.Mx / load.V : 0;
+  const rx = CX + ex * scale;
+  const ry = CY - ey * scale;
+
+  const insideKern = isCircular
+    ? Math.hypot(ex, ey) <= B / 8
+    : Math.abs(ex) / B + Math.abs(ey) / L <= 1 / 6;
+
+  const effW = results.B_prime * scale;
+  const effH = (isStrip ? L : results.L_prime) * scale;
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden flex flex-col card">
+      <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center">
+        <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+          <Move size={20} className="text-amber-500" /> Footing plan & eccentricity
+        </h3>
+        <span className={`text-[9px] px-3 py-1 rounded-full font-black border uppercase tracking-widest ${
+          insideKern ? 'text-emerald-600 bg-emerald-50 border-emerald-200' : 'text-rose-600 bg-rose-50 border-rose-200'
+        }`}>
+          {insideKern ? 'Within Kern' : 'Outside Kern'}
+        </span>
+      </div>
+      <div className="flex-1 p-8 grid grid-cols-1 md:grid-cols-[1fr_180px] gap-6 items-center">
+        <svg viewBox="0 0 320 280" className="w-full h-full max-w-sm mx-auto overflow-visible">
+          {/* Footing outline */}
+          {isCircular ? (
+            <circle cx={CX} cy={CY} r={w / 2} fill="#f1f5f9" stroke="#475569" strokeWidth="2.5" />
+          ) : (
+            <rect x={CX - w / 2} y={CY - h / 2} width={w} height={h} fill="#f1f5f9" stroke="#475569" strokeWidth="2.5" />
+          )}
+          {isStrip && (
+            <>
+              <line x1={CX - w / 2 - 10} y1={CY - h / 2} x2={CX + w / 2 + 10} y2={CY - h / 2} stroke="#cbd5e1" strokeDasharray="4 3" />
+              <line x1={CX - w / 2 - 10} y1={CY + h / 2} x2={CX + w / 2 + 10} y2={CY + h / 2} stroke="#cbd5e1" strokeDasharray="4 3" />
+            </>
+          )}
+
+          {/* Effective area B' x L' centred on the resultant */}
+          <rect
+            x={rx - effW / 2}
+            y={ry - effH / 2}
+            width={effW}
+            height={effH}
+            fill="rgba(79, 70, 229, 0.12)"
+            stroke="#6366f1"
+            strokeWidth="1.5"
+            strokeDasharray="5 3"
+          />
+
+          {/* Kern (middle third) */}
+          {isCircular ? (
+            <circle cx={CX} cy={CY} r={(B / 8) * scale} fill="none" stroke="#10b981" strokeWidth="1.5" strokeDasharray="3 2" />
+          ) : isStrip ? (
+            <rect x={CX - w / 6} y={CY - h / 2} width={w / 3} height={h} fill="none" stroke="#10b981" strokeWidth="1.5" strokeDasharray="3 2" />
+          ) : (
+            <polygon
+              points={`${CX - w / 6},${CY} ${CX},${CY - h / 6} ${CX + w / 6},${CY} ${CX},${CY + h / 6}`}
+              fill="rgba(16, 185, 129, 0.1)"
+              stroke="#10b981"
+              strokeWidth="1.5"
+              strokeDasharray="3 2"
+            />
+          )}
+
+          {/* Centroidal axes */}
+          <line x1={CX - w / 2 - 12} y1={CY} x2={CX + w / 2 + 12} y2={CY} stroke="#94a3b8" strokeWidth="0.75" strokeDasharray="8 3 2 3" />
+          <line x1={CX} y1={CY - h / 2 - 12} x2={CX} y2={CY + h / 2 + 12} stroke="#94a3b8" strokeWidth="0.75" strokeDasharray="8 3 2 3" />
+
+          {/* Load resultant */}
+          <line x1={CX} y1={CY} x2={rx} y2={ry} stroke="#e11d48" strokeWidth="1" />
+          <circle cx={rx} cy={ry} r="5" fill="#e11d48" stroke="#fff" strokeWidth="2" />
+          <text x={rx + 8} y={ry - 8} className="text-[9px] font-black fill-rose-600">R</text>
+
+          {/* Dimensions */}
+          <g className="text-[10px] font-black">
+            <text x={CX} y={CY + h / 2 + 28} textAnchor="middle" className="fill-slate-500 italic">B = {B}m</text>
+            {!isStrip && !isCircular && (
+              <text x={CX + w / 2 + 16} y={CY} className="fill-slate-500 italic" dominantBaseline="middle">L = {foundation.L}m</text>
+            )}
+            {isStrip && (
+              <text x={CX + w / 2 + 16} y={CY} className="fill-slate-400 italic" dominantBaseline="middle">per m run</text>
+            )}
+          </g>
+        </svg>
+
+        <div className="space-y-1">
+          <PlanItem label="ex = My/V" value={`${ex.toFixed(3)} m`} />
+          <PlanItem label="ey = Mx/V" value={`${ey.toFixed(3)} m`} />
+          <PlanItem label="ex / B" value={(Math.abs(ex) / B).toFixed(3)} />
+          {!isStrip && <PlanItem label="ey / L" value={(Math.abs(ey) / L).toFixed(3)} />}
+          <PlanItem label="B'" value={`${results.B_prime.toFixed(3)} m`} />
+          {!isStrip && <PlanItem label="L'" value={`${results.L_prime.toFixed(3)} m`} />}
+          <div className="pt-3 flex flex-col gap-1.5 text-[9px] font-black uppercase tracking-wider">
+            <span className="flex items-center gap-2 text-indigo-500"><span className="w-3 h-3 border-2 border-dashed border-indigo-400 bg-indigo-100" /> Effective area</span>
+            <span className="flex items-center gap-2 text-emerald-600"><span className="w-3 h-3 border-2 border-dashed border-emerald-500 bg-emerald-50" /> Kern</span>
+            <span className="flex items-center gap-2 text-rose-600"><span className="w-3 h-3 rounded-full bg-rose-600" /> Resultant</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const PlanItem: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex justify-between items-center py-2 border-b border-slate-50 last:border-0">
+    <span className="text-[10px] font-black text-slate-400 uppercase tracking-tighter">{label}</span>
+    <span className="text-[11px] font-mono font-black text-slate-800">{value}</span>
+  </div>
+);
+
+export default FootingPlanView;
@@ -0,0 +1,242 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ClipboardList, Upload, Download, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import {
+  FoundationProperties,
+  LoadingConditions,
+  CalculationResults,
+  ColumnReaction,
+  ScheduleCriteria,
+  ScheduledFooting,
+  FootingGroup
+} from '../types';
+import {
+  parseColumnReactions,
+  buildFootingSchedule,
+  scheduleToCsv,
+  DEFAULT_SCHEDULE_CRITERIA
+} from '../schedule';
+import { downloadBlob } from '../download';
+import { validateScheduleCriteria, errorsOf, parseNumberInput, numberInputValue } from '../validation';
+import ValidationMessages from './ValidationMessages';
+
+interface FootingScheduleProps {
+  foundation: FoundationProperties;
+  analyse: (foundation: FoundationProperties, load: LoadingConditions) => CalculationResults;
+}
+
+const headClass = "px-4 py-3 font-black text-slate-400 border-b border-slate-100 uppercase tracking-widest text-[10px]";
+const cellClass = "px-4 py-2.5 font-bold text-slate-700";
+const inputClass = "w-full bg-white border-2 border-slate-100 rounded-lg px-2.5 py-1.5 text-xs font-bold focus:border-cyan-500 outline-none transition-all";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-tighter mb-1";
+
+const CRITERIA_FIELDS: { field: keyof ScheduleCriteria; label: string; step: string }[] = [
+  { field: 'settlementLimit', label: 'Settlement limit (mm)', step: '5' },
+  { field: 'increment', label: 'Size step (m)', step: '0.05' },
+  { field: 'minB', label: 'Min B (m)', step: '0.1' },
+  { field: 'maxB', label: 'Max B (m)', step: '0.5' }
+];
+
+type FootingScheduleResult = { footings: ScheduledFooting[]; groups: FootingGroup[] };
+
+const FootingSchedule: React.FC<FootingScheduleProps> = ({ foundation, analyse }) => {
+  const [columns, setColumns] = useState<ColumnReaction[]>([]);
+  const [criteria, setCriteria] = useState<ScheduleCriteria>(DEFAULT_SCHEDULE_CRITERIA);
+  const [pasted, setPasted] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const issues = useMemo(() => validateScheduleCriteria(criteria), [criteria]);
+
+  // Columns are only sized within valid criteria
+  const valid = errorsOf(issues).length === 0;
+  const outcome = useMemo<{ schedule: FootingScheduleResult | null; sizingError: string | null }>(() => {
+    if (!valid || columns.length === 0) return { schedule: null, sizingError: null };
+    try {
+      return { schedule: buildFootingSchedule(columns, foundation, criteria, analyse), sizingError: null };
+    } catch (err) {
+      return { schedule: null, sizingError: (err as Error).message };
+    }
+  }, [valid, columns, foundation, criteria, analyse]);
+  const { schedule, sizingError } = outcome;
+
+  const loadTable = (text: string) => {
+    try {
+      setColumns(parseColumnReactions(text));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const exportCsv = () => {
+    if (!schedule) return;
+    downloadBlob(
+      new Blob([scheduleToCsv(schedule.footings, schedule.groups, foundation)], { type: 'text/csv;charset=utf-8' }),
+      `Footing_Schedule_${new Date().toISOString().split('T')[0]}.csv`
+    );
+  };
+
+  const infeasible = schedule?.footings.filter(f => f.status !== 'OK').length ?? 0;
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden card">
+      <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center">
+        <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+          <ClipboardList size={20} className="text-cyan-500" /> Footing schedule
+        </h3>
+        <div className="flex items-center gap-3 no-print">
+          {schedule && (
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              {columns.length} columns · {schedule.groups.length} types
+              {infeasible > 0 && <span className="text-rose-600"> · {infeasible} not feasible</span>}
+            </span>
+          )}
+          <button
+            onClick={exportCsv}
+            disabled={!schedule}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-900 text-white text-[10px] font-black uppercase tracking-wider disabled:opacity-30"
+          >
+            <Download size={12} /> CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 no-print">
+          <div className="space-y-2">
+            <label className={labelClass}>Column reactions (ID, V, H, Mx, My)</label>
+            <textarea
+              className={`${inputClass} h-24 font-mono resize-none`}
+              placeholder={"Column,V,H,Mx,My\nC1,650,12,25,0\nC2,920,0,0,40"}
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() => loadTable(pasted)}
+                disabled={pasted.trim().length === 0}
+                className="flex-1 py-2 rounded-lg border-2 border-cyan-100 text-[10px] font-black text-cyan-600 uppercase tracking-wider hover:bg-cyan-50 disabled:opacity-30"
+              >
+                Size Pasted Table
+              </button>
+              <button
+                onClick={() => fileInput.current?.click()}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-lg border-2 border-slate-100 text-[10px] font-black text-slate-500 uppercase tracking-wider hover:border-cyan-200 hover:text-cyan-600"
+              >
+                <Upload size={12} /> Import CSV
+              </button>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,.txt,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) file.text().then(text => { setPasted(text); loadTable(text); });
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            {(error ?? sizingError) && (
+              <p className="text-[11px] text-rose-500 font-bold flex items-center gap-1"><AlertTriangle size={12} /> {error ?? sizingError}</p>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-3 content-start">
+            {CRITERIA_FIELDS.map(({ field, label, step }) => (
+              <div key={field}>
+                <label className={labelClass}>{label}</label>
+                <input
+                  type="number"
+                  step={step}
+                  min="0"
+                  className={inputClass}
+                  value={numberInputValue(criteria[field])}
+                  onChange={(e) => setCriteria(prev => ({ ...prev, [field]: parseNumberInput(e.target.value) }))}
+                />
+              </div>
+            ))}
+            {issues.length > 0 && (
+              <div className="col-span-2">
+                <ValidationMessages issues={issues} />
+              </div>
+            )}
+            <p className="col-span-2 text-[10px] font-bold text-slate-400 leading-relaxed">
+              Each column is sized as a {foundation.shape.toLowerCase()} footing at Df = {foundation.Df} m
+              {foundation.shape === 'Rectangular' && ` with L/B = ${(foundation.L / foundation.B).toFixed(2)}`}, increasing B until
+              q ≤ SBC, settlement ≤ limit and e ≤ B/6.
+            </p>
+          </div>
+        </div>
+
+        {schedule && (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs text-left">
+                <thead>
+                  <tr className="bg-slate-50/50">
+                    <th className={headClass}>Mark</th>
+                    <th className={headClass}>B × L (m)</th>
+                    <th className={headClass}>No.</th>
+                    <th className={headClass}>Max V (kN)</th>
+                    <th className={headClass}>Columns</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {schedule.groups.map(g => (
+                    <tr key={g.mark} className="hover:bg-slate-50/30 transition-colors">
+                      <td className="px-4 py-2.5 font-black text-cyan-700">{g.mark}</td>
+                      <td className={cellClass}>{g.B.toFixed(2)} × {g.L.toFixed(2)}</td>
+                      <td className={cellClass}>{g.columns.length}</td>
+                      <td className={cellClass}>{g.V_max.toFixed(1)}</td>
+                      <td className="px-4 py-2.5 font-mono text-[11px] text-slate-500">{g.columns.join(', ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="w-full text-xs text-left">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="bg-slate-50/50">
+                    <th className={headClass}>Column</th>
+                    <th className={headClass}>V (kN)</th>
+                    <th className={headClass}>Mx / My (kN·m)</th>
+                    <th className={headClass}>Mark</th>
+                    <th className={headClass}>B × L (m)</th>
+                    <th className={headClass}>q / SBC (kPa)</th>
+                    <th className={headClass}>S (mm)</th>
+                    <th className={headClass}>e/B</th>
+                    <th className={headClass}>Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {schedule.footings.map((f, i) => (
+                    <tr key={`${f.column.id}-${i}`} className={f.status === 'OK' ? 'hover:bg-slate-50/30 transition-colors' : 'bg-rose-50/40'}>
+                      <td className="px-4 py-2.5 font-black text-slate-800">{f.column.id}</td>
+                      <td className={cellClass}>{f.column.V.toFixed(1)}</td>
+                      <td className={cellClass}>{f.column.Mx.toFixed(1)} / {f.column.My.toFixed(1)}</td>
+                      <td className="px-4 py-2.5 font-black text-cyan-700">{f.mark}</td>
+                      <td className={cellClass}>{f.B.toFixed(2)} × {f.L.toFixed(2)}</td>
+                      <td className={cellClass}>{f.q_applied.toFixed(1)} / {f.q_allowable.toFixed(1)}</td>
+                      <td className={cellClass}>{Number.isFinite(f.settlement) ? f.settlement.toFixed(1) : '—'}</td>
+                      <td className={cellClass}>{f.eB.toFixed(3)}</td>
+                      <td className="px-4 py-2.5">
+                        <span className={`inline-flex items-center gap-1 text-[10px] font-black uppercase ${f.status === 'OK' ? 'text-emerald-600' : 'text-red-600'}`}>
+                          {f.status === 'OK' ? <CheckCircle2 size={12} /> : <AlertTriangle size={12} />}
+                          {f.status}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FootingSchedule;
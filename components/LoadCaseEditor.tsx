@@ -0,0 +1,117 @@
+import React from 'react';
+import { Trash2, Plus } from 'lucide-react';
+import { LoadCase, LoadCaseType, CombinationSet, ValidationIssue } from '../types';
+import { parseNumberInput, numberInputValue } from '../validation';
+import ValidationMessages from './ValidationMessages';
+
+interface LoadCaseEditorProps {
+  cases: LoadCase[];
+  combinationSet: CombinationSet;
+  issues: ValidationIssue[];
+  onChange: (cases: LoadCase[]) => void;
+  onCombinationSetChange: (set: CombinationSet) => void;
+}
+
+const inputClass = "w-full bg-white border-2 border-slate-100 rounded-lg px-2.5 py-1.5 text-xs font-bold focus:border-rose-500 outline-none transition-all";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-tighter mb-1";
+
+const LOAD_TYPES: LoadCaseType[] = ['Dead', 'Live', 'Wind', 'Seismic'];
+
+export const createLoadCase = (type: LoadCaseType, values?: Partial<LoadCase>): LoadCase => ({
+  name: `${type} Load`,
+  V: 0,
+  H: 0,
+  Mx: 0,
+  My: 0,
+  ...values,
+  type,
+  id: crypto.randomUUID()
+});
+
+const LoadCaseEditor: React.FC<LoadCaseEditorProps> = ({ cases, combinationSet, issues, onChange, onCombinationSetChange }) => {
+  const updateCase = (index: number, field: keyof LoadCase, value: string | number) => {
+    onChange(cases.map((c, i) => (i === index ? { ...c, [field]: value } : c)));
+  };
+
+  const nextType = LOAD_TYPES.find(t => !cases.some(c => c.type === t)) ?? 'Live';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-[10px] font-black text-slate-400 uppercase tracking-tighter mb-1.5">COMBINATION SET</label>
+        <select
+          className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-2.5 text-sm font-semibold focus:border-rose-500 outline-none transition-all"
+          value={combinationSet}
+          onChange={(e) => onCombinationSetChange(e.target.value as CombinationSet)}
+        >
+          <option value="Working Stress">Working Stress (IS 875 Pt 5 service)</option>
+          <option value="Limit State">Limit State (IS 875 Pt 5 / IS 456 factored)</option>
+        </select>
+      </div>
+
+      {cases.map((loadCase, index) => (
+        <div key={loadCase.id} className="p-4 bg-slate-50 rounded-2xl border-2 border-slate-100 space-y-3">
+          <div className="flex items-center gap-2">
+            <input
+              className="flex-1 min-w-0 bg-transparent text-[11px] font-black text-rose-600 uppercase tracking-tighter outline-none"
+              value={loadCase.name}
+              onChange={(e) => updateCase(index, 'name', e.target.value)}
+            />
+            <select
+              className="bg-white border-2 border-slate-100 rounded-lg px-2 py-1 text-[10px] font-bold outline-none focus:border-rose-500"
+              value={loadCase.type}
+              onChange={(e) => updateCase(index, 'type', e.target.value as LoadCaseType)}
+            >
+              {LOAD_TYPES.map(t => <option key={t}>{t}</option>)}
+            </select>
+            <button
+              onClick={() => onChange(cases.filter((_, i) => i !== index))}
+              disabled={cases.length <= 1}
+              className="p-1 rounded-md text-rose-400 hover:text-rose-600 hover:bg-white disabled:opacity-30"
+              title="Delete load case"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <div className="grid grid-cols-5 gap-2">
+            <div>
+              <label className={labelClass}>V (kN)</label>
+              <input type="number" step="10" className={inputClass} value={numberInputValue(loadCase.V)}
+                onChange={(e) => updateCase(index, 'V', parseNumberInput(e.target.value))} />
+            </div>
+            <div>
+              <label className={labelClass}>H (kN)</label>
+              <input type="number" step="5" className={inputClass} value={numberInputValue(loadCase.H)}
+                onChange={(e) => updateCase(index, 'H', parseNumberInput(e.target.value))} />
+            </div>
+            <div>
+              <label className={labelClass}>Mx (kN·m)</label>
+              <input type="number" step="5" className={inputClass} value={numberInputValue(loadCase.Mx)}
+                onChange={(e) => updateCase(index, 'Mx', parseNumberInput(e.target.value))} />
+            </div>
+            <div>
+              <label className={labelClass}>My (kN·m)</label>
+              <input type="number" step="5" className={inputClass} value={numberInputValue(loadCase.My)}
+                onChange={(e) => updateCase(index, 'My', parseNumberInput(e.target.value))} />
+            </div>
+            <div>
+              <label className={labelClass} title="Partial factor multiplying this case in every combination">Factor</label>
+              <input type="number" step="0.05" min="0" className={inputClass} value={numberInputValue(loadCase.factor ?? 1)}
+                onChange={(e) => updateCase(index, 'factor', parseNumberInput(e.target.value))} />
+            </div>
+          </div>
+          <ValidationMessages issues={issues} scope={`loadCases.${loadCase.id}`} />
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...cases, createLoadCase(nextType)])}
+        className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl border-2 border-dashed border-rose-200 text-[11px] font-black text-rose-600 uppercase tracking-wider hover:bg-rose-50 transition-colors"
+      >
+        <Plus size={14} /> Add Load Case
+      </button>
+    </div>
+  );
+};
+
+export default LoadCaseEditor;
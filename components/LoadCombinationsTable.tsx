@@ -0,0 +1,76 @@
+import React from 'react';
+import { Scale, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { CombinationResult, CombinationSet } from '../types';
+import { SBC_FACTORS } from '../loads';
+
+interface LoadCombinationsTableProps {
+  combinations: CombinationResult[];
+  set: CombinationSet;
+}
+
+const headClass = "px-4 py-3 font-black text-slate-400 border-b border-slate-100 uppercase tracking-widest text-[10px]";
+const cellClass = "px-4 py-3 font-bold text-slate-700";
+
+const LoadCombinationsTable: React.FC<LoadCombinationsTableProps> = ({ combinations, set }) => (
+  <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden card">
+    <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center">
+      <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+        <Scale size={20} className="text-rose-500" /> Load combinations
+      </h3>
+      {combinations[0] && (
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          Governing: <span className="text-rose-600">{combinations[0].combination.name}</span>
+        </span>
+      )}
+    </div>
+    <div className="p-6 overflow-x-auto">
+      <table className="w-full text-xs text-left">
+        <thead>
+          <tr className="bg-slate-50/50">
+            <th className={headClass}>Combination</th>
+            <th className={headClass}>V (kN)</th>
+            <th className={headClass}>H (kN)</th>
+            <th className={headClass}>Mx / My (kN·m)</th>
+            <th className={headClass}>q applied (kPa)</th>
+            <th className={headClass}>{set === 'Limit State' ? `${SBC_FACTORS[set]} × SBC (kPa)` : 'q allow (kPa)'}</th>
+            <th className={headClass}>Utilisation</th>
+            <th className={headClass}>Status</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-50">
+          {combinations.map((row, i) => {
+            const overstressed = row.utilisation > 1;
+            return (
+              <tr key={row.combination.name} className={i === 0 ? 'bg-rose-50/40' : 'hover:bg-slate-50/30 transition-colors'}>
+                <td className="px-4 py-3 font-black text-slate-800">{row.combination.name}</td>
+                <td className={cellClass}>{row.load.V.toFixed(1)}</td>
+                <td className={cellClass}>{row.load.H.toFixed(1)}</td>
+                <td className={cellClass}>{row.load.Mx.toFixed(1)} / {row.load.My.toFixed(1)}</td>
+                <td className={cellClass}>{row.q_applied.toFixed(1)}</td>
+                <td className={cellClass}>
+                  {row.q_allowable.toFixed(1)}
+                  {row.combination.sbcIncrease > 1 && (
+                    <span className="ml-1 text-[9px] text-slate-400">(+{((row.combination.sbcIncrease - 1) * 100).toFixed(0)}%)</span>
+                  )}
+                </td>
+                <td className={`px-4 py-3 font-black ${overstressed ? 'text-red-600' : 'text-emerald-600'}`}>
+                  {(row.utilisation * 100).toFixed(1)}%
+                </td>
+                <td className="px-4 py-3">
+                  <span className={`inline-flex items-center gap-1 text-[10px] font-black uppercase ${
+                    overstressed || row.results.status !== 'SAFE' ? 'text-red-600' : 'text-emerald-600'
+                  }`}>
+                    {overstressed || row.results.status !== 'SAFE' ? <AlertTriangle size={12} /> : <CheckCircle2 size={12} />}
+                    {overstressed ? 'BEARING EXCEEDED' : row.results.status}
+                  </span>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export default LoadCombinationsTable;
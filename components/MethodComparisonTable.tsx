@@ -0,0 +1,84 @@
+import React from 'react';
+import { GitCompare } from 'lucide-react';
+import { BearingCapacityMethod, CalculationResults } from '../types';
+import { BEARING_CAPACITY_METHODS } from '../engine';
+
+interface MethodComparisonTableProps {
+  comparison: CalculationResults[];
+  selected: BearingCapacityMethod;
+  onSelect: (method: BearingCapacityMethod) => void;
+}
+
+const headClass = "px-4 py-3 font-black text-slate-400 border-b border-slate-100 uppercase tracking-widest text-[10px]";
+
+const ROWS: { label: string; value: (r: CalculationResults) => number; unit?: string }[] = [
+  { label: 'Nc', value: r => r.Nc },
+  { label: 'Nq', value: r => r.Nq },
+  { label: 'Nγ', value: r => r.Ngamma },
+  { label: 'sc · dc · ic', value: r => r.sc * r.dc * r.ic },
+  { label: 'sq · dq · iq', value: r => r.sq * r.dq * r.iq },
+  { label: 'sγ · dγ · iγ', value: r => r.sgamma * r.dgamma * r.igamma },
+  { label: 'gq · bq (slope)', value: r => r.gq * r.bq },
+  { label: 'qu', value: r => r.qu, unit: 'kPa' },
+  { label: 'qns', value: r => r.qns, unit: 'kPa' },
+  { label: 'Recommended SBC', value: r => r.recommended_sbc, unit: 'kPa' }
+];
+
+const MethodComparisonTable: React.FC<MethodComparisonTableProps> = ({ comparison, selected, onSelect }) => {
+  const lowest = comparison.length > 0
+    ? comparison.reduce((min, r) => (r.qu < min.qu ? r : min))
+    : null;
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden card">
+      <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center">
+        <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+          <GitCompare size={20} className="text-indigo-500" /> Bearing capacity theory comparison
+        </h3>
+        {lowest && (
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            Most conservative: <span className="text-indigo-600">{BEARING_CAPACITY_METHODS[lowest.Method].label}</span>
+          </span>
+        )}
+      </div>
+      <div className="p-6 overflow-x-auto">
+        <table className="w-full text-xs text-left">
+          <thead>
+            <tr className="bg-slate-50/50">
+              <th className={headClass}>Parameter</th>
+              {comparison.map(r => (
+                <th key={r.Method} className={headClass}>
+                  <button
+                    onClick={() => onSelect(r.Method)}
+                    className={`uppercase tracking-widest ${r.Method === selected ? 'text-indigo-600 underline underline-offset-4' : 'hover:text-slate-600'}`}
+                  >
+                    {r.Method}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {ROWS.map(row => (
+              <tr key={row.label} className={row.unit ? 'bg-slate-50/30' : 'hover:bg-slate-50/30 transition-colors'}>
+                <td className="px-4 py-2.5 font-bold text-slate-800 italic">{row.label}{row.unit && <span className="text-slate-400 not-italic"> ({row.unit})</span>}</td>
+                {comparison.map(r => (
+                  <td
+                    key={r.Method}
+                    className={`px-4 py-2.5 font-mono font-black ${
+                      r.Method === selected ? 'text-indigo-700' : 'text-slate-600'
+                    } ${row.label === 'qu' && r === lowest ? 'text-rose-600' : ''}`}
+                  >
+                    {row.value(r).toFixed(row.unit ? 1 : 3)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default MethodComparisonTable;
@@ -0,0 +1,183 @@
+import React from 'react';
+import { Anchor, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { PileInputs, PileResults, PileInstallation, PileCapacityMethod, CalculationResults } from '../types';
+import { parseNumberInput, numberInputValue } from '../validation';
+
+interface PileFoundationProps {
+  inputs: PileInputs;
+  result: PileResults | null;
+  error: string | null;
+  shallowStatus: CalculationResults['status'];
+  onChange: (inputs: PileInputs) => void;
+}
+
+const inputClass = "w-full bg-white border-2 border-slate-100 rounded-lg px-2.5 py-1.5 text-xs font-bold focus:border-pink-500 outline-none transition-all";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-tighter mb-1";
+const headClass = "px-3 py-2.5 font-black text-slate-400 border-b border-slate-100 uppercase tracking-widest text-[10px]";
+const cellClass = "px-3 py-2 font-bold text-slate-700";
+
+const INSTALLATIONS: PileInstallation[] = ['Bored', 'Driven'];
+const METHODS: PileCapacityMethod[] = ['Static (α / β)', 'SPT N (Meyerhof)'];
+
+const PileFoundation: React.FC<PileFoundationProps> = ({ inputs, result, error, shallowStatus, onChange }) => {
+  const set = <K extends keyof PileInputs>(field: K, value: PileInputs[K]) => onChange({ ...inputs, [field]: value });
+
+  const numberField = (field: 'D' | 'length' | 'cutoff' | 'rows' | 'cols' | 'spacing' | 'dragDepth' | 'FOS', label: string, step: string) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input type="number" step={step} min="0" className={inputClass} value={numberInputValue(inputs[field])}
+        onChange={(e) => set(field, parseNumberInput(e.target.value))} />
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden card">
+      <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center">
+        <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+          <Anchor size={20} className="text-pink-500" /> Pile foundation (IS 2911)
+        </h3>
+        <div className="flex items-center gap-2">
+          <span className={`text-[9px] px-3 py-1 rounded-full font-black border uppercase tracking-widest ${
+            shallowStatus === 'SAFE' ? 'text-emerald-600 bg-emerald-50 border-emerald-200' : 'text-red-700 bg-red-50 border-red-200'
+          }`}>
+            Shallow: {shallowStatus}
+          </span>
+          <span className={`text-[9px] px-3 py-1 rounded-full font-black border uppercase tracking-widest ${
+            result?.passes ? 'text-emerald-600 bg-emerald-50 border-emerald-200' : 'text-red-700 bg-red-50 border-red-200'
+          }`}>
+            Piles: {result ? (result.passes ? 'SAFE' : 'FAILS') : 'INVALID INPUT'}
+          </span>
+        </div>
+      </div>
+      <div className="p-8 grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <div className="space-y-6">
+          <div className="grid grid-cols-4 gap-3 no-print">
+            <div className="col-span-2">
+              <label className={labelClass}>Installation</label>
+              <select className={inputClass} value={inputs.installation} onChange={(e) => set('installation', e.target.value as PileInstallation)}>
+                {INSTALLATIONS.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>Capacity method</label>
+              <select className={inputClass} value={inputs.method} onChange={(e) => set('method', e.target.value as PileCapacityMethod)}>
+                {METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            </div>
+            {numberField('D', 'Diameter (m)', '0.05')}
+            {numberField('length', 'Length (m)', '0.5')}
+            {numberField('cutoff', 'Cut-off (m)', '0.25')}
+            <div>
+              <label className={labelClass}>Ep (MPa)</label>
+              <input type="number" step="1000" min="0" className={inputClass} value={numberInputValue(inputs.Ep / 1000)}
+                onChange={(e) => set('Ep', parseNumberInput(e.target.value) * 1000)} />
+            </div>
+            {numberField('rows', 'Rows', '1')}
+            {numberField('cols', 'Columns', '1')}
+            {numberField('spacing', 'Spacing (m)', '0.1')}
+            {numberField('FOS', 'FOS', '0.1')}
+            <div className="col-span-2">
+              {numberField('dragDepth', 'Downdrag to depth (m)', '0.5')}
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-5 bg-rose-50/50 rounded-2xl border-2 border-rose-100">
+              <p className="text-[11px] font-bold text-rose-600 flex items-start gap-2">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {error}
+              </p>
+            </div>
+          )}
+
+          {result && (
+            <div className={`p-5 rounded-2xl border-2 space-y-3 ${result.passes ? 'bg-pink-50/40 border-pink-100' : 'bg-rose-50/50 border-rose-100'}`}>
+              <p className={`text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5 ${result.passes ? 'text-pink-600' : 'text-rose-600'}`}>
+                {result.passes ? <CheckCircle2 size={14} /> : <AlertTriangle size={14} />} Safe group load
+              </p>
+              <p className="text-3xl font-black text-slate-800 tracking-tighter">
+                {result.Qallow.toFixed(0)}
+                <span className="text-sm text-slate-400"> kN for {result.piles} piles · {(result.utilisation * 100).toFixed(1)}% used</span>
+              </p>
+              <div className="grid grid-cols-3 gap-3 text-xs font-bold text-slate-600">
+                <div>
+                  <p className={labelClass}>End bearing Qb</p>
+                  {result.Qb.toFixed(0)} kN
+                </div>
+                <div>
+                  <p className={labelClass}>Skin friction Qs</p>
+                  {result.Qs.toFixed(0)} kN
+                </div>
+                <div>
+                  <p className={labelClass}>Downdrag Qn</p>
+                  {result.Qn.toFixed(0)} kN
+                </div>
+                <div>
+                  <p className={labelClass}>Single pile Qu / Qa</p>
+                  {result.Qu.toFixed(0)} / {result.Qa.toFixed(0)} kN
+                </div>
+                <div>
+                  <p className={labelClass}>Efficiency η</p>
+                  {result.efficiency.toFixed(3)}
+                </div>
+                <div>
+                  <p className={labelClass}>Block {result.blockB.toFixed(2)} × {result.blockL.toFixed(2)} m</p>
+                  <span className={result.blockGoverns ? 'text-rose-600' : undefined}>{result.Qblock.toFixed(0)} kN</span>
+                </div>
+                <div>
+                  <p className={labelClass}>Group settlement</p>
+                  {result.settlement.total.toFixed(1)} mm
+                </div>
+                <div className="col-span-2">
+                  <p className={labelClass}>Shortening + elastic + consolidation</p>
+                  {result.settlement.shortening.toFixed(1)} + {result.settlement.elastic.toFixed(1)} + {result.settlement.consolidation.toFixed(1)} mm
+                  <span className="text-slate-400"> · raft at {result.settlement.raftDepth.toFixed(2)} m, q net {result.settlement.q_net.toFixed(0)} kPa</span>
+                </div>
+              </div>
+              <p className={`text-[11px] font-bold border-t pt-3 ${result.passes ? 'text-pink-700 border-pink-100' : 'text-rose-600 border-rose-100'}`}>
+                {result.explanation}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {result && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead>
+                <tr>
+                  <th className={headClass}>Depth (m)</th>
+                  <th className={headClass}>Soil</th>
+                  <th className={headClass}>Basis</th>
+                  <th className={headClass}>fs (kPa)</th>
+                  <th className={headClass}>Force (kN)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {result.shaft.map(s => (
+                  <tr key={s.top} className={s.negative ? 'bg-rose-50/40' : undefined}>
+                    <td className={cellClass}>{s.top.toFixed(2)}–{s.bottom.toFixed(2)}</td>
+                    <td className={cellClass}>{s.type}</td>
+                    <td className={cellClass}>{s.basis}</td>
+                    <td className={cellClass}>{s.fs.toFixed(1)}</td>
+                    <td className={`${cellClass} ${s.negative ? 'text-rose-600' : ''}`}>
+                      {s.negative ? `−${s.force.toFixed(0)} (downdrag)` : s.force.toFixed(0)}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="bg-pink-50/40">
+                  <td className={cellClass}>{result.tipDepth.toFixed(2)}</td>
+                  <td className={cellClass}>Base</td>
+                  <td className={cellClass}>{result.tipBasis}</td>
+                  <td className={cellClass}>qb {result.qb.toFixed(0)}</td>
+                  <td className={cellClass}>{result.Qb.toFixed(0)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PileFoundation;
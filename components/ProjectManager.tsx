@@ -0,0 +1,185 @@
+import React, { useRef, useState } from 'react';
+import { Plus, Copy, Trash2, FolderOpen, FilePlus, Upload, Download, X, AlertTriangle } from 'lucide-react';
+import { Project, ProjectMetadata, ProjectSummary } from '../types';
+import { listProjects } from '../project';
+
+export type SaveState = 'idle' | 'saving' | 'saved' | 'error';
+
+interface ProjectManagerProps {
+  project: Project;
+  saveState: SaveState;
+  error: string | null;
+  onChange: (project: Project) => void;
+  onSelectFooting: (id: string) => void;
+  onAddFooting: (duplicate: boolean) => void;
+  onDeleteFooting: (id: string) => void;
+  onNew: () => void;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const inputClass = "w-full bg-white border-2 border-slate-100 rounded-lg px-2.5 py-1.5 text-xs font-bold focus:border-sky-500 outline-none transition-all";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-tighter mb-1";
+const actionClass = "flex items-center justify-center gap-1.5 py-2 rounded-lg border-2 border-slate-100 text-[10px] font-black text-slate-500 uppercase tracking-wider hover:border-sky-200 hover:text-sky-600 transition-colors";
+
+const METADATA_FIELDS: { field: keyof ProjectMetadata; label: string }[] = [
+  { field: 'client', label: 'Client' },
+  { field: 'site', label: 'Site' },
+  { field: 'boreholeId', label: 'Borehole ID' },
+  { field: 'engineer', label: 'Engineer' }
+];
+
+const SAVE_LABELS: Record<SaveState, string> = {
+  idle: '',
+  saving: 'Saving…',
+  saved: 'Saved locally',
+  error: 'Not saved'
+};
+
+const ProjectManager: React.FC<ProjectManagerProps> = ({
+  project, saveState, error, onChange, onSelectFooting, onAddFooting, onDeleteFooting, onNew, onOpen, onDelete, onImport, onExport
+}) => {
+  const [saved, setSaved] = useState<ProjectSummary[] | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const toggleOpenList = async () => {
+    setSaved(saved ? null : await listProjects());
+  };
+
+  const removeSaved = async (id: string) => {
+    onDelete(id);
+    setSaved(prev => prev?.filter(p => p.id !== id) ?? null);
+  };
+
+  const active = project.footings.find(f => f.id === project.activeFootingId);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className={labelClass}>Project name</label>
+          <span className={`text-[9px] font-black uppercase tracking-widest ${saveState === 'error' ? 'text-rose-500' : 'text-slate-300'}`}>
+            {SAVE_LABELS[saveState]}
+          </span>
+        </div>
+        <input className={inputClass} value={project.name} onChange={(e) => onChange({ ...project, name: e.target.value })} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {METADATA_FIELDS.map(({ field, label }) => (
+          <div key={field}>
+            <label className={labelClass}>{label}</label>
+            <input
+              className={inputClass}
+              value={project.metadata[field]}
+              onChange={(e) => onChange({ ...project, metadata: { ...project.metadata, [field]: e.target.value } })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="p-3 bg-sky-50/50 rounded-xl border-2 border-sky-100/50 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] font-black text-sky-600 uppercase tracking-tighter">Footings</span>
+          <div className="flex items-center gap-1">
+            <button onClick={() => onAddFooting(false)} className="p-1 rounded-md text-sky-500 hover:text-sky-700 hover:bg-white" title="Add footing">
+              <Plus size={14} />
+            </button>
+            <button onClick={() => onAddFooting(true)} className="p-1 rounded-md text-sky-500 hover:text-sky-700 hover:bg-white" title="Duplicate footing">
+              <Copy size={14} />
+            </button>
+            <button
+              onClick={() => onDeleteFooting(project.activeFootingId)}
+              disabled={project.footings.length <= 1}
+              className="p-1 rounded-md text-rose-400 hover:text-rose-600 hover:bg-white disabled:opacity-30"
+              title="Delete footing"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {project.footings.map(f => (
+            <button
+              key={f.id}
+              onClick={() => onSelectFooting(f.id)}
+              className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all ${
+                f.id === project.activeFootingId ? 'bg-sky-600 text-white shadow-sm' : 'bg-white text-slate-500 hover:text-sky-600'
+              }`}
+            >
+              {f.name}
+            </button>
+          ))}
+        </div>
+        {active && (
+          <div>
+            <label className={labelClass}>Footing mark</label>
+            <input
+              className={inputClass}
+              value={active.name}
+              onChange={(e) => onChange({
+                ...project,
+                footings: project.footings.map(f => (f.id === active.id ? { ...f, name: e.target.value } : f))
+              })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        <button onClick={onNew} className={actionClass} title="New project"><FilePlus size={13} /></button>
+        <button onClick={toggleOpenList} className={actionClass} title="Open saved project"><FolderOpen size={13} /></button>
+        <button onClick={() => fileInput.current?.click()} className={actionClass} title="Import project file"><Upload size={13} /></button>
+        <button onClick={onExport} className={actionClass} title="Export project file"><Download size={13} /></button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {error && (
+        <p className="text-[11px] text-rose-500 font-bold flex items-center gap-1"><AlertTriangle size={12} /> {error}</p>
+      )}
+
+      {saved && (
+        <div className="border-2 border-slate-100 rounded-xl divide-y divide-slate-50 max-h-56 overflow-y-auto">
+          {saved.length === 0 && (
+            <p className="px-3 py-2.5 text-[11px] font-bold text-slate-400">No saved projects</p>
+          )}
+          {saved.map(p => (
+            <div key={p.id} className="flex items-center gap-2 px-3 py-2">
+              <button
+                onClick={() => { onOpen(p.id); setSaved(null); }}
+                className="flex-1 min-w-0 text-left"
+              >
+                <p className={`text-xs font-black truncate ${p.id === project.id ? 'text-sky-600' : 'text-slate-700'}`}>{p.name}</p>
+                <p className="text-[9px] font-bold text-slate-400 uppercase tracking-wider truncate">
+                  {p.client || 'No client'} · {p.footingCount} footing{p.footingCount === 1 ? '' : 's'} · {new Date(p.updatedAt).toLocaleDateString()}
+                </p>
+              </button>
+              <button
+                onClick={() => removeSaved(p.id)}
+                disabled={p.id === project.id}
+                className="p-1 rounded-md text-rose-400 hover:text-rose-600 hover:bg-slate-50 disabled:opacity-30"
+                title="Delete saved project"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectManager;
@@ -0,0 +1,332 @@
+import React, { useMemo, useState } from 'react';
+import { LayoutGrid, Plus, Trash2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import {
+  FoundationProperties,
+  LoadingConditions,
+  CalculationResults,
+  SoilLayer,
+  RaftColumn,
+  RaftInputs,
+  RaftResults
+} from '../types';
+import { analyseRaft, DEFAULT_RAFT } from '../raft';
+import { parseNumberInput, numberInputValue } from '../validation';
+
+interface RaftFoundationProps {
+  layers: SoilLayer[];
+  waterTable: number | null;
+  analyse: (foundation: FoundationProperties, load: LoadingConditions) => CalculationResults;
+}
+
+const inputClass = "w-full bg-white border-2 border-slate-100 rounded-lg px-2.5 py-1.5 text-xs font-bold focus:border-lime-500 outline-none transition-all";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-tighter mb-1";
+
+// Plan drawing area inside the 320 × 260 view box
+const PLAN_WIDTH = 280;
+const PLAN_HEIGHT = 200;
+const PLAN_LEFT = 20;
+const PLAN_TOP = 20;
+
+// Blue (least) to red (most settlement)
+const heatColour = (w: number, min: number, max: number) => {
+  const t = max > min ? (w - min) / (max - min) : 0;
+  return `hsl(${220 - 220 * t}, 85%, ${62 - 12 * t}%)`;
+};
+
+export const createRaftColumn = (index: number, values?: Partial<RaftColumn>): RaftColumn => ({
+  name: `C${index + 1}`,
+  x: 0,
+  y: 0,
+  V: 2000,
+  ...values,
+  id: crypto.randomUUID()
+});
+
+// Three by three column grid under the default 20 × 15 m raft
+const defaultColumns = () => [2, 10, 18].flatMap((x, i) =>
+  [2, 7.5, 13].map((y, j) => createRaftColumn(3 * i + j, { x, y, V: i === 1 && j === 1 ? 4000 : 2000 }))
+);
+
+const RaftFoundation: React.FC<RaftFoundationProps> = ({ layers, waterTable, analyse }) => {
+  const [inputs, setInputs] = useState<RaftInputs>(() => ({ ...DEFAULT_RAFT, columns: defaultColumns() }));
+
+  const outcome = useMemo<{ result: RaftResults | null; error: string | null }>(() => {
+    try {
+      return { result: analyseRaft(inputs, layers, waterTable, analyse), error: null };
+    } catch (err) {
+      return { result: null, error: (err as Error).message };
+    }
+  }, [inputs, layers, waterTable, analyse]);
+  const { result, error } = outcome;
+
+  const updateVertex = (index: number, field: 'x' | 'y', value: number) => {
+    setInputs(prev => ({ ...prev, outline: prev.outline.map((p, i) => (i === index ? { ...p, [field]: value } : p)) }));
+  };
+  const updateColumn = (index: number, field: keyof RaftColumn, value: string | number) => {
+    setInputs(prev => ({ ...prev, columns: prev.columns.map((c, i) => (i === index ? { ...c, [field]: value } : c)) }));
+  };
+  const setField = (field: 'Df' | 'thickness' | 'gridSpacing', value: number) => setInputs(prev => ({ ...prev, [field]: value }));
+
+  const plan = useMemo(() => {
+    if (!result) return null;
+    const { x0, y0, dx, dy, nx, ny } = result.grid;
+    const scale = Math.min(PLAN_WIDTH / (nx * dx), PLAN_HEIGHT / (ny * dy));
+    // Plan y points up the page
+    const toX = (x: number) => PLAN_LEFT + (PLAN_WIDTH - nx * dx * scale) / 2 + (x - x0) * scale;
+    const toY = (y: number) => PLAN_TOP + (PLAN_HEIGHT + ny * dy * scale) / 2 - (y - y0) * scale;
+    return { toX, toY, scale };
+  }, [result]);
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden card">
+      <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center">
+        <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+          <LayoutGrid size={20} className="text-lime-600" /> Raft foundation
+        </h3>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          {inputs.columns.length} columns · {result ? `${result.area.toFixed(1)} m²` : '—'}
+        </span>
+      </div>
+      <div className="p-8 grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <div className="space-y-6">
+          <div className="grid grid-cols-[1fr_2fr] gap-4 no-print">
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                <span className={labelClass}>Vertex x (m)</span>
+                <span className={labelClass}>y (m)</span>
+                <span />
+              </div>
+              {inputs.outline.map((p, i) => (
+                <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                  <input type="number" step="0.5" className={inputClass} value={numberInputValue(p.x)}
+                    onChange={(e) => updateVertex(i, 'x', parseNumberInput(e.target.value))} />
+                  <input type="number" step="0.5" className={inputClass} value={numberInputValue(p.y)}
+                    onChange={(e) => updateVertex(i, 'y', parseNumberInput(e.target.value))} />
+                  <button
+                    onClick={() => setInputs(prev => ({ ...prev, outline: prev.outline.filter((_, j) => j !== i) }))}
+                    disabled={inputs.outline.length <= 3}
+                    className="p-1 rounded-md text-rose-400 hover:text-rose-600 hover:bg-rose-50 disabled:opacity-30"
+                    title="Remove vertex"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setInputs(prev => ({ ...prev, outline: [...prev.outline, { ...prev.outline[prev.outline.length - 1] }] }))}
+                className="w-full flex items-center justify-center gap-2 py-2 rounded-xl border-2 border-dashed border-lime-200 text-[11px] font-black text-lime-700 uppercase tracking-wider hover:bg-lime-50 transition-colors"
+              >
+                <Plus size={14} /> Vertex
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2">
+                <span className={labelClass}>Column</span>
+                <span className={labelClass}>x (m)</span>
+                <span className={labelClass}>y (m)</span>
+                <span className={labelClass}>V (kN)</span>
+                <span />
+              </div>
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {inputs.columns.map((c, i) => (
+                  <div key={c.id} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-center">
+                    <input className={inputClass} value={c.name} onChange={(e) => updateColumn(i, 'name', e.target.value)} />
+                    <input type="number" step="0.5" className={inputClass} value={numberInputValue(c.x)}
+                      onChange={(e) => updateColumn(i, 'x', parseNumberInput(e.target.value))} />
+                    <input type="number" step="0.5" className={inputClass} value={numberInputValue(c.y)}
+                      onChange={(e) => updateColumn(i, 'y', parseNumberInput(e.target.value))} />
+                    <input type="number" step="100" className={inputClass} value={numberInputValue(c.V)}
+                      onChange={(e) => updateColumn(i, 'V', parseNumberInput(e.target.value))} />
+                    <button
+                      onClick={() => setInputs(prev => ({ ...prev, columns: prev.columns.filter((_, j) => j !== i) }))}
+                      disabled={inputs.columns.length <= 1}
+                      className="p-1 rounded-md text-rose-400 hover:text-rose-600 hover:bg-rose-50 disabled:opacity-30"
+                      title="Remove column"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => setInputs(prev => {
+                  const last = prev.columns[prev.columns.length - 1];
+                  return { ...prev, columns: [...prev.columns, createRaftColumn(prev.columns.length, { x: last?.x ?? 0, y: last?.y ?? 0 })] };
+                })}
+                className="w-full flex items-center justify-center gap-2 py-2 rounded-xl border-2 border-dashed border-lime-200 text-[11px] font-black text-lime-700 uppercase tracking-wider hover:bg-lime-50 transition-colors"
+              >
+                <Plus size={14} /> Add column
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-5 gap-3 no-print">
+            <div>
+              <label className={labelClass}>Depth Df (m)</label>
+              <input type="number" step="0.25" min="0" className={inputClass} value={numberInputValue(inputs.Df)}
+                onChange={(e) => setField('Df', parseNumberInput(e.target.value))} />
+            </div>
+            <div>
+              <label className={labelClass}>Thickness (m)</label>
+              <input type="number" step="0.05" min="0.1" className={inputClass} value={numberInputValue(inputs.thickness)}
+                onChange={(e) => setField('thickness', parseNumberInput(e.target.value))} />
+            </div>
+            <div>
+              <label className={labelClass}>Ec (MPa)</label>
+              <input type="number" step="1000" min="0" className={inputClass} value={numberInputValue(inputs.Ec / 1000)}
+                onChange={(e) => setInputs(prev => ({ ...prev, Ec: parseNumberInput(e.target.value) * 1000 }))} />
+            </div>
+            <div>
+              <label className={labelClass}>Grid (m)</label>
+              <input type="number" step="0.25" min="0.25" className={inputClass} value={numberInputValue(inputs.gridSpacing)}
+                onChange={(e) => setField('gridSpacing', parseNumberInput(e.target.value))} />
+            </div>
+            <div>
+              <label className={labelClass}>ks (kN/m³)</label>
+              <input type="number" step="500" placeholder="Auto" className={inputClass} value={inputs.ks ?? ''}
+                onChange={(e) => setInputs(prev => ({ ...prev, ks: e.target.value === '' ? null : parseNumberInput(e.target.value) }))} />
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-5 bg-rose-50/50 rounded-2xl border-2 border-rose-100">
+              <p className="text-[11px] font-bold text-rose-600 flex items-start gap-2">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {error}
+              </p>
+            </div>
+          )}
+
+          {result && (
+            <div className={`p-5 rounded-2xl border-2 space-y-3 ${result.passes ? 'bg-lime-50/40 border-lime-100' : 'bg-rose-50/50 border-rose-100'}`}>
+              <p className={`text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5 ${result.passes ? 'text-lime-700' : 'text-rose-600'}`}>
+                {result.passes ? <CheckCircle2 size={14} /> : <AlertTriangle size={14} />} {result.passes ? 'Net bearing pressure' : 'Check fails'}
+              </p>
+              <p className="text-3xl font-black text-slate-800 tracking-tighter">
+                {result.q_net.toFixed(1)}
+                <span className="text-sm text-slate-400"> kPa net of {result.netAllowable.toFixed(0)} kPa allowable</span>
+              </p>
+              <div className="grid grid-cols-3 gap-3 text-xs font-bold text-slate-600">
+                <div>
+                  <p className={labelClass}>Gross (ΣV + W)</p>
+                  {result.q_gross.toFixed(1)} kPa
+                </div>
+                <div>
+                  <p className={labelClass}>Excavated σv0</p>
+                  {result.sigma_v0.toFixed(1)} kPa
+                </div>
+                <div>
+                  <p className={labelClass}>Compensation</p>
+                  {(result.compensation * 100).toFixed(0)}%
+                </div>
+                <div>
+                  <p className={labelClass}>Buoyancy u</p>
+                  {result.uplift.toFixed(1)} kPa
+                  {Number.isFinite(result.flotationFactor) && <span className="text-slate-400"> (FS {result.flotationFactor.toFixed(2)})</span>}
+                </div>
+                <div>
+                  <p className={labelClass}>Equivalent B × L</p>
+                  {result.B.toFixed(2)} × {result.L.toFixed(2)} m
+                </div>
+                <div>
+                  <p className={labelClass}>Utilisation</p>
+                  {(result.utilisation * 100).toFixed(1)}%
+                </div>
+                <div className="col-span-3">
+                  <p className={labelClass}>Subgrade modulus ks</p>
+                  {result.ks.toFixed(0)} kN/m³ <span className="text-slate-400">· {result.ksSource}</span>
+                </div>
+              </div>
+              <p className={`text-[11px] font-bold border-t pt-3 ${result.passes ? 'text-lime-800 border-lime-100' : 'text-rose-600 border-rose-100'}`}>
+                {result.explanation}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {result && plan && (
+          <div className="flex flex-col items-center">
+            <p className={`${labelClass} self-start`}>Settlement contours (mm, Winkler plate)</p>
+            <svg viewBox="0 0 320 240" className="w-full max-w-md overflow-visible">
+              {result.settlements.slice(0, -1).map((row, j) => row.slice(0, -1).map((w, i) => {
+                const corners = [w, row[i + 1], result.settlements[j + 1][i + 1], result.settlements[j + 1][i]];
+                if (corners.some(Number.isNaN)) return null;
+                const mean = corners.reduce((sum, v) => sum + v, 0) / 4;
+                const { x0, y0, dx, dy } = result.grid;
+                return (
+                  <rect
+                    key={`${j}-${i}`}
+                    x={plan.toX(x0 + i * dx)}
+                    y={plan.toY(y0 + (j + 1) * dy)}
+                    width={dx * plan.scale + 0.3}
+                    height={dy * plan.scale + 0.3}
+                    fill={heatColour(mean, result.minSettlement, result.maxSettlement)}
+                  />
+                );
+              }))}
+              {result.contours.map(contour => (
+                <g key={contour.level}>
+                  {contour.segments.map(([x1, y1, x2, y2], k) => (
+                    <line key={k} x1={plan.toX(x1)} y1={plan.toY(y1)} x2={plan.toX(x2)} y2={plan.toY(y2)} stroke="#1e293b" strokeWidth="0.8" strokeOpacity={0.6} />
+                  ))}
+                  {contour.segments.length > 0 && (
+                    <text
+                      x={plan.toX(contour.segments[0][0])}
+                      y={plan.toY(contour.segments[0][1]) - 2}
+                      className="text-[7px] font-black fill-slate-700"
+                    >
+                      {contour.level.toFixed(1)}
+                    </text>
+                  )}
+                </g>
+              ))}
+              <polygon
+                points={inputs.outline.map(p => `${plan.toX(p.x)},${plan.toY(p.y)}`).join(' ')}
+                fill="none"
+                stroke="#1e293b"
+                strokeWidth="2"
+              />
+              {inputs.columns.map(c => (
+                <g key={c.id}>
+                  <rect x={plan.toX(c.x) - 3} y={plan.toY(c.y) - 3} width="6" height="6" fill="#1e293b" />
+                  <text x={plan.toX(c.x) + 5} y={plan.toY(c.y) - 4} className="text-[8px] font-black fill-slate-800">{c.name}</text>
+                </g>
+              ))}
+            </svg>
+
+            <div className="w-full max-w-xs mt-4">
+              <div className="h-2.5 rounded-full" style={{ background: 'linear-gradient(to right, hsl(220,85%,62%), hsl(110,85%,56%), hsl(0,85%,50%))' }} />
+              <div className="flex justify-between mt-1 text-[9px] font-black text-slate-400 uppercase tracking-wider">
+                <span>{result.minSettlement.toFixed(1)} mm</span>
+                <span>{result.maxSettlement.toFixed(1)} mm</span>
+              </div>
+            </div>
+
+            <div className="w-full grid grid-cols-4 gap-4 mt-6 text-center">
+              <div>
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Max</p>
+                <p className="text-lg font-black text-slate-800 tracking-tighter">{result.maxSettlement.toFixed(1)}</p>
+              </div>
+              <div>
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Differential</p>
+                <p className="text-lg font-black text-slate-800 tracking-tighter">{result.differential.toFixed(1)}</p>
+              </div>
+              <div>
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Distortion</p>
+                <p className="text-lg font-black text-slate-800 tracking-tighter">
+                  {result.angularDistortion > 0 ? `1/${Math.round(1 / result.angularDistortion)}` : '—'}
+                </p>
+              </div>
+              <div>
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Peak q (kPa)</p>
+                <p className="text-lg font-black text-slate-800 tracking-tighter">{result.maxPressure.toFixed(1)}</p>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RaftFoundation;
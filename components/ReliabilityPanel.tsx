@@ -0,0 +1,244 @@
+import React from 'react';
+import { Dices, CheckCircle2, AlertTriangle, Loader2 } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { ReliabilityInputs, ReliabilityResults, DistributionType, UncertainParameter, ParameterDistribution, HistogramBin } from '../types';
+import { UNCERTAIN_PARAMETERS } from '../reliability';
+import { parseNumberInput, numberInputValue } from '../validation';
+
+export interface ReliabilityRun {
+  result: ReliabilityResults | null;
+  running: boolean;
+  done: number; // Samples drawn so far
+  error: string | null;
+}
+
+interface ReliabilityPanelProps {
+  inputs: ReliabilityInputs;
+  run: ReliabilityRun;
+  onChange: (inputs: ReliabilityInputs) => void;
+}
+
+const inputClass = "w-full bg-white border-2 border-slate-100 rounded-lg px-2.5 py-1.5 text-xs font-bold focus:border-blue-500 outline-none transition-all disabled:text-slate-300";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-tighter mb-1";
+const headClass = "px-3 py-2.5 font-black text-slate-400 border-b border-slate-100 uppercase tracking-widest text-[10px]";
+const cellClass = "px-3 py-2 font-bold text-slate-700";
+
+const DISTRIBUTIONS: DistributionType[] = ['Normal', 'Lognormal', 'Truncated normal'];
+
+// Target reliability index for a bearing failure (ISO 2394 / EN 1990, RC2 over 50 years)
+const TARGET_BETA = 3.8;
+
+const Histogram: React.FC<{ title: string; bins: HistogramBin[]; unit: string; failsBelow?: number }> = ({ title, bins, unit, failsBelow }) => (
+  <div>
+    <p className={labelClass}>{title}</p>
+    <div className="h-[180px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={bins.map(b => ({ ...b, mid: (b.from + b.to) / 2 }))} margin={{ top: 5, right: 10, left: 0, bottom: 15 }} barCategoryGap={1}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" vertical={false} />
+          <XAxis
+            dataKey="mid"
+            tickFormatter={(v: number) => v.toFixed(0)}
+            tick={{ fontSize: 10, fontWeight: '900', fill: '#94a3b8' }}
+            label={{ value: unit, position: 'insideBottomRight', offset: -10, fontSize: 10, fill: '#94a3b8' }}
+          />
+          <YAxis tick={{ fontSize: 10, fontWeight: '900', fill: '#94a3b8' }} width={36} />
+          <Tooltip
+            labelFormatter={(_, payload) => {
+              const bin = payload?.[0]?.payload as HistogramBin | undefined;
+              return bin ? `${bin.from.toFixed(1)}–${bin.to.toFixed(1)} ${unit}` : '';
+            }}
+            contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 25px 50px -12px rgba(0,0,0,0.25)', fontSize: '12px', padding: '10px' }}
+          />
+          <Bar dataKey="count" name="Samples">
+            {bins.map(b => (
+              <Cell key={b.from} fill={failsBelow !== undefined && b.from < failsBelow ? '#f43f5e' : '#3b82f6'} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+const ReliabilityPanel: React.FC<ReliabilityPanelProps> = ({ inputs, run, onChange }) => {
+  const set = <K extends keyof ReliabilityInputs>(field: K, value: ReliabilityInputs[K]) => onChange({ ...inputs, [field]: value });
+  const setDistribution = (key: UncertainParameter, change: Partial<ParameterDistribution>) => {
+    set('distributions', { ...inputs.distributions, [key]: { ...inputs.distributions[key], ...change } });
+  };
+
+  const { result } = run;
+  const reliable = result !== null && result.beta >= TARGET_BETA;
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden card">
+      <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center">
+        <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+          <Dices size={20} className="text-blue-500" /> Monte Carlo reliability
+        </h3>
+        <div className="flex items-center gap-3">
+          {run.running && (
+            <span className="text-[9px] px-3 py-1 rounded-full font-black border uppercase tracking-widest text-blue-600 bg-blue-50 border-blue-200 flex items-center gap-1.5 no-print">
+              <Loader2 size={12} className="animate-spin" /> {run.done} / {inputs.samples}
+            </span>
+          )}
+          <label className="flex items-center gap-2 text-[10px] font-black text-blue-600 uppercase tracking-tighter cursor-pointer no-print">
+            Run simulation
+            <input
+              type="checkbox"
+              className="accent-blue-600"
+              checked={inputs.enabled}
+              onChange={(e) => set('enabled', e.target.checked)}
+            />
+          </label>
+        </div>
+      </div>
+      <div className="p-8 grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <div className="space-y-6">
+          <div className="grid grid-cols-3 gap-3 no-print">
+            <div>
+              <label className={labelClass}>Samples</label>
+              <input type="number" step="1000" min="100" className={inputClass} value={numberInputValue(inputs.samples)}
+                onChange={(e) => set('samples', parseNumberInput(e.target.value))} />
+            </div>
+            <div>
+              <label className={labelClass}>Seed</label>
+              <input type="number" step="1" className={inputClass} value={numberInputValue(inputs.seed)}
+                onChange={(e) => set('seed', parseNumberInput(e.target.value))} />
+            </div>
+            <div>
+              <label className={labelClass}>ρ (c, φ)</label>
+              <input type="number" step="0.1" min="-1" max="1" className={inputClass} value={numberInputValue(inputs.rho_c_phi)}
+                onChange={(e) => set('rho_c_phi', parseNumberInput(e.target.value))} />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto no-print">
+            <table className="w-full text-left text-xs">
+              <thead>
+                <tr>
+                  <th className={headClass}>Parameter</th>
+                  <th className={headClass}>Distribution</th>
+                  <th className={headClass}>COV</th>
+                  <th className={headClass}>± kσ</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {UNCERTAIN_PARAMETERS.map(({ key, label }) => {
+                  const dist = inputs.distributions[key];
+                  return (
+                    <tr key={key}>
+                      <td className={cellClass}>{label}</td>
+                      <td className="px-3 py-1.5">
+                        <select className={inputClass} value={dist.type} onChange={(e) => setDistribution(key, { type: e.target.value as DistributionType })}>
+                          {DISTRIBUTIONS.map(d => <option key={d} value={d}>{d}</option>)}
+                        </select>
+                      </td>
+                      <td className="px-3 py-1.5">
+                        <input type="number" step="0.05" min="0" max="1" className={inputClass} value={numberInputValue(dist.cov)}
+                          onChange={(e) => setDistribution(key, { cov: parseNumberInput(e.target.value) })} />
+                      </td>
+                      <td className="px-3 py-1.5">
+                        <input type="number" step="0.5" min="0.5" disabled={dist.type !== 'Truncated normal'} className={inputClass}
+                          value={numberInputValue(dist.truncation)}
+                          onChange={(e) => setDistribution(key, { truncation: parseNumberInput(e.target.value) })} />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {run.error && (
+            <div className="p-5 bg-rose-50/50 rounded-2xl border-2 border-rose-100">
+              <p className="text-[11px] font-bold text-rose-600 flex items-start gap-2">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {run.error}
+              </p>
+            </div>
+          )}
+
+          {!inputs.enabled && (
+            <p className="text-[11px] font-bold text-slate-400">
+              Each parameter takes its input value as the mean. Layers are sampled independently; c and φ are correlated within a layer.
+            </p>
+          )}
+
+          {result && (
+            <div className={`p-5 rounded-2xl border-2 space-y-3 transition-opacity ${run.running ? 'opacity-50' : ''} ${reliable ? 'bg-blue-50/40 border-blue-100' : 'bg-rose-50/50 border-rose-100'}`}>
+              <p className={`text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5 ${reliable ? 'text-blue-600' : 'text-rose-600'}`}>
+                {reliable ? <CheckCircle2 size={14} /> : <AlertTriangle size={14} />} Reliability index β (target {TARGET_BETA})
+              </p>
+              <p className="text-3xl font-black text-slate-800 tracking-tighter">
+                {Number.isFinite(result.beta) ? result.beta.toFixed(2) : result.beta > 0 ? '∞' : '−∞'}
+                <span className="text-sm text-slate-400"> {result.betaMethod.toLowerCase()} · pf = {result.pf.toExponential(2)}</span>
+              </p>
+              <div className="grid grid-cols-3 gap-3 text-xs font-bold text-slate-600">
+                <div>
+                  <p className={labelClass}>Mean qu</p>
+                  {result.qu.mean.toFixed(0)} kPa
+                </div>
+                <div>
+                  <p className={labelClass}>COV qu</p>
+                  {(result.qu.cov * 100).toFixed(1)}%
+                </div>
+                <div>
+                  <p className={labelClass}>qu 5% / 95%</p>
+                  {result.qu.p05.toFixed(0)} / {result.qu.p95.toFixed(0)}
+                </div>
+                <div>
+                  <p className={labelClass}>Applied q</p>
+                  {result.q_applied.toFixed(1)} kPa
+                </div>
+                <div>
+                  <p className={labelClass}>Failures</p>
+                  {result.failures} of {result.samples}
+                </div>
+                <div>
+                  <p className={labelClass}>P(q &gt; SBC)</p>
+                  {(result.pAllowable * 100).toFixed(1)}%
+                </div>
+                <div>
+                  <p className={labelClass}>Mean SBC</p>
+                  {result.sbc.mean.toFixed(0)} kPa
+                </div>
+                <div>
+                  <p className={labelClass}>Mean settlement</p>
+                  {result.settlement.mean.toFixed(1)} mm
+                </div>
+                <div>
+                  <p className={labelClass}>Rejected</p>
+                  <span className={result.rejected > 0 ? 'text-rose-600' : undefined}>
+                    {result.rejected} ({(result.rejectedFraction * 100).toFixed(1)}%)
+                  </span>
+                </div>
+              </div>
+              {result.rejected > 0 && (
+                <p className="text-[11px] font-bold text-slate-500">
+                  Rejected draws (invalid soil parameters) are counted as failures in pf and P(q &gt; SBC).
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {result && (
+          <div className={`space-y-6 transition-opacity ${run.running ? 'opacity-50' : ''}`}>
+            <Histogram title="Ultimate capacity qu (red: qu ≤ applied q)" bins={result.quHistogram} unit="kPa" failsBelow={result.q_applied} />
+            <Histogram title="Settlement at safe pressure" bins={result.settlementHistogram} unit="mm" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReliabilityPanel;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { Activity, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { SeismicInputs, SeismicResults, SeismicZone } from '../types';
+import { SEISMIC_ZONE_FACTORS } from '../seismic';
+import { parseNumberInput, numberInputValue } from '../validation';
+
+interface SeismicPanelProps {
+  inputs: SeismicInputs;
+  result: SeismicResults | null;
+  onChange: (inputs: SeismicInputs) => void;
+}
+
+const inputClass = "w-full bg-white border-2 border-slate-100 rounded-lg px-2.5 py-1.5 text-xs font-bold focus:border-yellow-500 outline-none transition-all";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-tighter mb-1";
+const headClass = "px-3 py-2.5 font-black text-slate-400 border-b border-slate-100 uppercase tracking-widest text-[10px]";
+const cellClass = "px-3 py-2 font-bold text-slate-700";
+
+const ZONES = Object.keys(SEISMIC_ZONE_FACTORS) as SeismicZone[];
+
+const SeismicPanel: React.FC<SeismicPanelProps> = ({ inputs, result, onChange }) => {
+  const set = <K extends keyof SeismicInputs>(field: K, value: SeismicInputs[K]) => onChange({ ...inputs, [field]: value });
+  const safe = result?.status === 'SEISMIC SAFE';
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border-2 border-slate-100 shadow-xl shadow-slate-200/40 overflow-hidden card">
+      <div className="px-8 py-5 border-b border-slate-50 bg-slate-50/30 flex justify-between items-center">
+        <h3 className="text-sm font-black text-slate-800 flex items-center gap-3">
+          <Activity size={20} className="text-yellow-500" /> Seismic bearing &amp; liquefaction (IS 1893)
+        </h3>
+        <label className="flex items-center gap-2 text-[10px] font-black text-yellow-600 uppercase tracking-tighter cursor-pointer no-print">
+          Check earthquake
+          <input
+            type="checkbox"
+            className="accent-yellow-600"
+            checked={inputs.enabled}
+            onChange={(e) => set('enabled', e.target.checked)}
+          />
+        </label>
+      </div>
+      <div className="p-8 grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-3 no-print">
+            <div>
+              <label className={labelClass}>Zone</label>
+              <select className={inputClass} value={inputs.zone} onChange={(e) => set('zone', e.target.value as SeismicZone)}>
+                {ZONES.map(z => <option key={z} value={z}>{z} (Z = {SEISMIC_ZONE_FACTORS[z]})</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Magnitude Mw</label>
+              <input type="number" step="0.1" min="5" max="9" className={inputClass} value={numberInputValue(inputs.magnitude)}
+                onChange={(e) => set('magnitude', parseNumberInput(e.target.value))} />
+            </div>
+          </div>
+
+          {!result && (
+            <p className="text-[11px] font-bold text-slate-400">
+              Enable the check to reduce the bearing capacity for pseudo-static inertia and screen the SPT profile for liquefaction.
+            </p>
+          )}
+
+          {result && (
+            <div className={`p-5 rounded-2xl border-2 space-y-3 ${safe ? 'bg-yellow-50/40 border-yellow-100' : 'bg-rose-50/50 border-rose-100'}`}>
+              <p className={`text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5 ${safe ? 'text-yellow-600' : 'text-rose-600'}`}>
+                {safe ? <CheckCircle2 size={14} /> : <AlertTriangle size={14} />} {result.status}
+              </p>
+              <p className="text-3xl font-black text-slate-800 tracking-tighter">
+                {result.qs.toFixed(1)}
+                <span className="text-sm text-slate-400"> kPa seismic safe capacity · {(result.utilisation * 100).toFixed(1)}% used</span>
+              </p>
+              <div className="grid grid-cols-3 gap-3 text-xs font-bold text-slate-600">
+                <div>
+                  <p className={labelClass}>kh / kv</p>
+                  {result.kh.toFixed(3)} / {result.kv.toFixed(3)}
+                </div>
+                <div>
+                  <p className={labelClass}>Seismic qu</p>
+                  {result.qu.toFixed(1)} kPa
+                </div>
+                <div>
+                  <p className={labelClass}>Applied q</p>
+                  {result.q_applied.toFixed(1)} kPa
+                </div>
+                <div className="col-span-2">
+                  <p className={labelClass}>Reduction ec / eq / eγ</p>
+                  {result.ec.toFixed(3)} / {result.eq.toFixed(3)} / {result.egamma.toFixed(3)}
+                </div>
+                <div>
+                  <p className={labelClass}>Min. liquefaction FS</p>
+                  <span className={result.minFS !== null && result.minFS < 1 ? 'text-rose-600' : undefined}>
+                    {result.minFS !== null ? result.minFS.toFixed(2) : 'Not susceptible'}
+                  </span>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {result && (
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="w-full text-left text-xs">
+              <thead className="sticky top-0 bg-white">
+                <tr>
+                  <th className={headClass}>Depth (m)</th>
+                  <th className={headClass}>N / N60</th>
+                  <th className={headClass}>(N1)60cs</th>
+                  <th className={headClass}>CSR</th>
+                  <th className={headClass}>CRR7.5</th>
+                  <th className={headClass}>FS</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {result.points.map(p => (
+                  <tr key={`${p.source}-${p.depth}`} className={p.FS !== null && p.FS < 1 ? 'bg-rose-50/40' : undefined}>
+                    <td className={cellClass}>
+                      {p.depth.toFixed(2)} <span className="text-slate-400">{p.source}</span>
+                    </td>
+                    <td className={cellClass}>{p.N} <span className="text-slate-400">/ {p.N60.toFixed(1)}</span></td>
+                    <td className={cellClass}>{p.N1_60cs.toFixed(1)}</td>
+                    <td className={cellClass}>{p.CSR.toFixed(3)}</td>
+                    {p.FS === null ? (
+                      <td className={`${cellClass} text-slate-400`} colSpan={2}>{p.screenedOut}</td>
+                    ) : (
+                      <>
+                        <td className={cellClass}>{p.CRR.toFixed(3)}</td>
+                        <td className={`${cellClass} ${p.FS < 1 ? 'text-rose-600' : ''}`}>
+                          {Number.isFinite(p.FS) ? p.FS.toFixed(2) : '∞'}
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {result.points.length === 0 && (
+              <p className="text-[11px] font-bold text-slate-400 py-6 text-center">No SPT N values in the profile to screen.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SeismicPanel;
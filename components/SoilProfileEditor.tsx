@@ -0,0 +1,180 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus } from 'lucide-react';
+import { SoilLayer, SoilType, SptEquipment, ValidationIssue } from '../types';
+import { parseNumberInput, numberInputValue } from '../validation';
+import { DEFAULT_POISSON } from '../settlement';
+import { correlateSoil, acceptCorrelation, updateSoil } from '../correlations';
+import ConsolidationInputs from './ConsolidationInputs';
+import StrengthStageInputs from './StrengthStageInputs';
+import ValidationMessages from './ValidationMessages';
+import CorrelationPanel from './CorrelationPanel';
+
+interface SoilProfileEditorProps {
+  layers: SoilLayer[];
+  waterTable: number; // (m), for the total stress used by CPT correlations
+  sptEquipment: SptEquipment;
+  issues: ValidationIssue[];
+  onChange: (layers: SoilLayer[]) => void;
+}
+
+const inputClass = "w-full bg-white border-2 border-slate-100 rounded-lg px-2.5 py-1.5 text-xs font-bold focus:border-indigo-500 outline-none transition-all";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-tighter mb-1";
+
+export const createLayer = (template?: SoilLayer): SoilLayer => ({
+  type: 'Cohesionless (Sand)',
+  c: 0,
+  phi: 30,
+  gamma: 18,
+  gamma_sub: 10,
+  spt_n: 15,
+  Es: 20000,
+  ...template,
+  thickness: template?.thickness ?? 2.0,
+  id: crypto.randomUUID()
+});
+
+const SoilProfileEditor: React.FC<SoilProfileEditorProps> = ({ layers, waterTable, sptEquipment, issues, onChange }) => {
+  const patchLayer = (index: number, patch: (layer: SoilLayer) => SoilLayer) => {
+    onChange(layers.map((layer, i) => (i === index ? patch(layer) : layer)));
+  };
+
+  const updateLayer = (index: number, field: keyof SoilLayer, value: SoilLayer[keyof SoilLayer]) => {
+    patchLayer(index, layer => updateSoil(layer, { [field]: value }));
+  };
+
+  const moveLayer = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= layers.length) return;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const removeLayer = (index: number) => {
+    if (layers.length <= 1) return;
+    onChange(layers.filter((_, i) => i !== index));
+  };
+
+  let depth = 0;
+
+  return (
+    <div className="space-y-4">
+      {layers.map((layer, index) => {
+        const top = depth;
+        depth += layer.thickness;
+        const isLast = index === layers.length - 1;
+        // Field tests are taken at mid-layer, or 1 m into the unbounded bottom layer
+        const testDepth = top + (isLast ? 1 : layer.thickness / 2);
+
+        return (
+          <div key={layer.id} className="p-4 bg-slate-50 rounded-2xl border-2 border-slate-100 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-black text-indigo-600 uppercase tracking-tighter">
+                Layer {index + 1} · {top.toFixed(1)}–{isLast ? '∞' : depth.toFixed(1)} m
+              </span>
+              <div className="flex items-center gap-1">
+                <button onClick={() => moveLayer(index, -1)} disabled={index === 0} className="p-1 rounded-md text-slate-400 hover:text-slate-700 hover:bg-white disabled:opacity-30" title="Move up">
+                  <ArrowUp size={14} />
+                </button>
+                <button onClick={() => moveLayer(index, 1)} disabled={isLast} className="p-1 rounded-md text-slate-400 hover:text-slate-700 hover:bg-white disabled:opacity-30" title="Move down">
+                  <ArrowDown size={14} />
+                </button>
+                <button onClick={() => removeLayer(index)} disabled={layers.length <= 1} className="p-1 rounded-md text-rose-400 hover:text-rose-600 hover:bg-white disabled:opacity-30" title="Delete layer">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+
+            <select
+              className="w-full bg-white border-2 border-slate-100 rounded-lg px-2.5 py-1.5 text-xs font-semibold focus:border-indigo-500 outline-none"
+              value={layer.type}
+              onChange={(e) => updateLayer(index, 'type', e.target.value as SoilType)}
+            >
+              <option>Cohesionless (Sand)</option>
+              <option>Cohesive (Clay)</option>
+              <option>c-φ Soil</option>
+              <option>Rock</option>
+            </select>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className={labelClass}>{isLast ? 'h (m) ∞' : 'h (m)'}</label>
+                <input type="number" step="0.1" min="0.1" className={inputClass} value={numberInputValue(layer.thickness)}
+                  onChange={(e) => updateLayer(index, 'thickness', parseNumberInput(e.target.value))} />
+              </div>
+              <div>
+                <label className={labelClass}>c (kPa)</label>
+                <input type="number" step="0.1" className={inputClass} value={numberInputValue(layer.c)}
+                  onChange={(e) => updateLayer(index, 'c', parseNumberInput(e.target.value))} />
+              </div>
+              <div>
+                <label className={labelClass}>Φ (°)</label>
+                <input type="number" step="0.5" className={inputClass} value={numberInputValue(layer.phi)}
+                  onChange={(e) => updateLayer(index, 'phi', parseNumberInput(e.target.value))} />
+              </div>
+              <div>
+                <label className={labelClass}>γ (kN/m³)</label>
+                <input type="number" step="0.1" className={inputClass} value={numberInputValue(layer.gamma)}
+                  onChange={(e) => updateLayer(index, 'gamma', parseNumberInput(e.target.value))} />
+              </div>
+              <div>
+                <label className={labelClass}>γ' (kN/m³)</label>
+                <input type="number" step="0.1" className={inputClass} value={numberInputValue(layer.gamma_sub)}
+                  onChange={(e) => updateLayer(index, 'gamma_sub', parseNumberInput(e.target.value))} />
+              </div>
+              <div>
+                <label className={labelClass}>SPT N</label>
+                <input type="number" className={inputClass} value={numberInputValue(layer.spt_n)}
+                  onChange={(e) => updateLayer(index, 'spt_n', e.target.value === '' ? undefined : parseNumberInput(e.target.value))} />
+              </div>
+              <div>
+                <label className={labelClass}>Es (kPa)</label>
+                <input type="number" step="500" className={inputClass} value={numberInputValue(layer.Es)}
+                  onChange={(e) => updateLayer(index, 'Es', e.target.value === '' ? undefined : parseNumberInput(e.target.value))} />
+              </div>
+              <div>
+                <label className={labelClass}>μ</label>
+                <input type="number" step="0.05" placeholder={String(DEFAULT_POISSON)} className={inputClass} value={numberInputValue(layer.mu)}
+                  onChange={(e) => updateLayer(index, 'mu', e.target.value === '' ? undefined : parseNumberInput(e.target.value))} />
+              </div>
+              <div>
+                <label className={labelClass}>CPT qc (kPa)</label>
+                <input type="number" step="100" className={inputClass} value={numberInputValue(layer.qc)}
+                  onChange={(e) => updateLayer(index, 'qc', e.target.value === '' ? undefined : parseNumberInput(e.target.value))} />
+              </div>
+              <div>
+                <label className={labelClass}>Fines (%)</label>
+                <input type="number" step="1" min="0" max="100" className={inputClass} value={numberInputValue(layer.fines)}
+                  onChange={(e) => updateLayer(index, 'fines', e.target.value === '' ? undefined : parseNumberInput(e.target.value))} />
+              </div>
+            </div>
+
+            <ValidationMessages issues={issues} scope={`layers.${layer.id}`} />
+
+            <CorrelationPanel
+              soil={layer}
+              correlations={correlateSoil(layer, layers, testDepth, waterTable, sptEquipment)}
+              onAccept={(c) => patchLayer(index, l => acceptCorrelation(l, c))}
+            />
+
+            {layer.type === 'Cohesive (Clay)' && (
+              <StrengthStageInputs soil={layer} onChange={(fields) => patchLayer(index, l => updateSoil(l, fields))} />
+            )}
+            {layer.type === 'Cohesive (Clay)' && (
+              <ConsolidationInputs params={layer.consolidation} onChange={(params) => updateLayer(index, 'consolidation', params)} />
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => onChange([...layers, createLayer(layers[layers.length - 1])])}
+        className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl border-2 border-dashed border-indigo-200 text-[11px] font-black text-indigo-600 uppercase tracking-wider hover:bg-indigo-50 transition-colors"
+      >
+        <Plus size={14} /> Add Layer
+      </button>
+    </div>
+  );
+};
+
+export default SoilProfileEditor;
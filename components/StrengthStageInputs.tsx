@@ -0,0 +1,55 @@
+import React from 'react';
+import { SoilProperties } from '../types';
+import { parseNumberInput, numberInputValue } from '../validation';
+
+type StageFields = Pick<SoilProperties, 'cu' | 'c_eff' | 'phi_eff'>;
+
+interface StrengthStageInputsProps {
+  soil: SoilProperties;
+  onChange: (fields: StageFields) => void;
+}
+
+const inputClass = "w-full bg-white border-2 border-slate-100 rounded-lg px-2.5 py-1.5 text-xs font-bold focus:border-teal-500 outline-none transition-all";
+const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-tighter mb-1";
+
+const StrengthStageInputs: React.FC<StrengthStageInputsProps> = ({ soil, onChange }) => {
+  const enabled = soil.cu !== undefined && soil.phi_eff !== undefined;
+  const fields = { cu: soil.cu, c_eff: soil.c_eff, phi_eff: soil.phi_eff };
+
+  return (
+    <div className="p-3 bg-teal-50/50 rounded-xl border-2 border-teal-100/50 space-y-3">
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className="text-[10px] font-black text-teal-600 uppercase tracking-tighter">Short & Long-term Check</span>
+        <input
+          type="checkbox"
+          className="accent-teal-600"
+          checked={enabled}
+          onChange={(e) => onChange(e.target.checked
+            ? { cu: soil.c > 0 ? soil.c : 50, c_eff: 5, phi_eff: 24 }
+            : { cu: undefined, c_eff: undefined, phi_eff: undefined })}
+        />
+      </label>
+      {enabled && (
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className={labelClass}>cu (kPa)</label>
+            <input type="number" step="1" className={inputClass} value={numberInputValue(soil.cu)}
+              onChange={(e) => onChange({ ...fields, cu: parseNumberInput(e.target.value) })} />
+          </div>
+          <div>
+            <label className={labelClass}>c' (kPa)</label>
+            <input type="number" step="0.5" className={inputClass} value={numberInputValue(soil.c_eff ?? 0)}
+              onChange={(e) => onChange({ ...fields, c_eff: parseNumberInput(e.target.value) })} />
+          </div>
+          <div>
+            <label className={labelClass}>φ' (°)</label>
+            <input type="number" step="0.5" className={inputClass} value={numberInputValue(soil.phi_eff)}
+              onChange={(e) => onChange({ ...fields, phi_eff: parseNumberInput(e.target.value) })} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StrengthStageInputs;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { XCircle, AlertTriangle } from 'lucide-react';
+import { ValidationIssue } from '../types';
+import { issuesAt } from '../validation';
+
+interface ValidationMessagesProps {
+  issues: ValidationIssue[];
+  scope?: string | string[]; // Input path(s) whose issues are listed; all issues when omitted
+}
+
+const ValidationMessages: React.FC<ValidationMessagesProps> = ({ issues, scope }) => {
+  const shown = scope === undefined
+    ? issues
+    : (Array.isArray(scope) ? scope : [scope]).flatMap(s => issuesAt(issues, s));
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="space-y-1.5">
+      {shown.map((issue, i) => (
+        <p
+          key={`${issue.field}-${i}`}
+          className={`flex items-start gap-2 text-[10px] font-black tracking-tight ${
+            issue.severity === 'error' ? 'text-rose-600' : 'text-amber-600'
+          }`}
+        >
+          {issue.severity === 'error'
+            ? <XCircle size={14} className="shrink-0" />
+            : <AlertTriangle size={14} className="shrink-0" />}
+          {issue.message}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default ValidationMessages;
@@ -0,0 +1,130 @@
+import {
+  FoundationProperties,
+  SoilLayer,
+  StressMethod,
+  ConsolidationResults,
+  ConsolidationSubLayer,
+  TimeSettlementPoint
+} from './types';
+import { layerTops, overburdenPressure } from './profile';
+import { stressIncrease } from './stress';
+
+const SUB_LAYER_THICKNESS = 0.5; // Maximum sub-layer thickness (m)
+
+// Average degree of consolidation for a time factor Tv (Terzaghi, closed-form fit)
+export function degreeOfConsolidation(Tv: number): number {
+  if (Tv <= 0) return 0;
+  const U = Tv <= 0.2827
+    ? Math.sqrt((4 * Tv) / Math.PI)
+    : 1 - Math.pow(10, -(Tv + 0.0851) / 0.933);
+  return Math.min(U, 1);
+}
+
+/**
+ * Primary consolidation settlement of clay strata below a footing (IS 8009 Part 1).
+ * Clay layers carrying consolidation parameters are split into sub-layers and
+ * settle from Cc/Cr about the preconsolidation pressure σ'p = OCR·σ'0.
+ * The lowest layer is taken to the significant depth, 2B below the base, and
+ * the stress increase is taken below the footing centre.
+ */
+export function calculateConsolidationSettlement(
+  layers: SoilLayer[],
+  foundation: FoundationProperties,
+  q_net: number,
+  water_table_depth: number | null,
+  method: StressMethod = 'Boussinesq'
+): ConsolidationResults {
+  const { B, Df } = foundation;
+  const tops = layerTops(layers);
+  const significantDepth = Df + 2 * B;
+  const subLayers: ConsolidationSubLayer[] = [];
+
+  // Drained thickness and cv of each consolidating layer for the time curve
+  const strata: { settlement: number; cv: number; Hdr: number }[] = [];
+
+  layers.forEach((layer, index) => {
+    const params = layer.consolidation;
+    if (!params || layer.type !== 'Cohesive (Clay)') return;
+
+    const top = Math.max(tops[index], Df);
+    const bottom = index === layers.length - 1
+      ? Math.max(significantDepth, top)
+      : tops[index] + layer.thickness;
+    const H = bottom - top;
+    if (H <= 0) return;
+
+    const n = Math.min(Math.max(Math.ceil(H / SUB_LAYER_THICKNESS), 1), 40);
+    const h = H / n;
+    let layerSettlement = 0;
+
+    for (let k = 0; k < n; k++) {
+      const zTop = top + k * h;
+      const zMid = zTop + h / 2;
+      const sigma0 = Math.max(overburdenPressure(layers, zMid, water_table_depth), 1e-3);
+      const sigma_p = sigma0 * Math.max(params.OCR, 1);
+      const dSigma = stressIncrease(foundation, method, q_net, zMid - Df);
+      const sigma1 = sigma0 + dSigma;
+      const factor = (h * 1000) / (1 + params.e0);
+
+      let settlement: number;
+      if (sigma1 <= sigma_p) {
+        settlement = params.Cr * factor * Math.log10(sigma1 / sigma0);
+      } else {
+        settlement = params.Cr * factor * Math.log10(sigma_p / sigma0)
+          + params.Cc * factor * Math.log10(sigma1 / sigma_p);
+      }
+      const settlement_mv = params.mv ? params.mv * dSigma * h * 1000 : NaN;
+
+      layerSettlement += settlement;
+      subLayers.push({ layerIndex: index, zTop, zBottom: zTop + h, sigma0, sigma_p, dSigma, settlement, settlement_mv });
+    }
+
+    strata.push({
+      settlement: layerSettlement,
+      cv: params.cv,
+      Hdr: params.drainage === 'Double' ? H / 2 : H
+    });
+  });
+
+  const total = subLayers.reduce((sum, s) => sum + s.settlement, 0);
+  const total_mv = subLayers.some(s => !Number.isNaN(s.settlement_mv))
+    ? subLayers.reduce((sum, s) => sum + (Number.isNaN(s.settlement_mv) ? 0 : s.settlement_mv), 0)
+    : NaN;
+
+  const settlementAt = (t: number) => strata.reduce(
+    (sum, s) => sum + s.settlement * degreeOfConsolidation(s.cv > 0 ? (s.cv * t) / (s.Hdr * s.Hdr) : 0),
+    0
+  );
+
+  // Logarithmically spaced times from 0.01 to 100 years
+  const timeCurve: TimeSettlementPoint[] = [];
+  for (let i = 0; i <= 40; i++) {
+    const time = Math.pow(10, -2 + i * 0.1);
+    const settlement = settlementAt(time);
+    timeCurve.push({ time, settlement, U: total > 0 ? settlement / total : 0 });
+  }
+
+  return {
+    q_net,
+    subLayers,
+    total,
+    total_mv,
+    timeCurve,
+    t50: timeToDegree(settlementAt, total, 0.5),
+    t90: timeToDegree(settlementAt, total, 0.9)
+  };
+}
+
+// Bisection on log-time for the time at which a degree of consolidation is reached (years)
+function timeToDegree(settlementAt: (t: number) => number, total: number, U: number): number {
+  if (total <= 0) return NaN;
+  let lo = -4;
+  let hi = 4;
+  if (settlementAt(Math.pow(10, hi)) < U * total) return Infinity;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (settlementAt(Math.pow(10, mid)) < U * total) lo = mid;
+    else hi = mid;
+  }
+  return Math.pow(10, hi);
+}
@@ -0,0 +1,157 @@
+import { SoilProperties, SoilLayer, DesignInputs, CorrelatedField, CorrelatedValue, SptEquipment } from './types';
+import { hasDrainageStages, overburdenPressure } from './profile';
+import { energyCorrectedN, normalisedN } from './spt';
+
+const GAMMA_W = 9.81;
+
+// φ at the relative density class boundaries of IS 6403 Fig. 1 (N, φ in degrees)
+const IS6403_PHI: [number, number][] = [[0, 26], [4, 28], [10, 30], [30, 36], [50, 41]];
+
+// Cone factor Nk for cu = (qc − σv0) / Nk (Lunne, Robertson & Powell, 1997)
+const CONE_FACTOR = 17;
+
+// Es / N line coefficients for Es = a (N + b) in kPa (Bowles, 1996, Table 5-6)
+const MODULUS_FROM_N: Partial<Record<SoilProperties['type'], { a: number; b: number; source: string }>> = {
+  'Cohesionless (Sand)': { a: 500, b: 15, source: 'Bowles (1996), sand: Es = 500 (N + 15)' },
+  'c-φ Soil': { a: 320, b: 15, source: 'Bowles (1996), clayey sand: Es = 320 (N + 15)' }
+};
+
+export const FIELD_LABELS: Record<CorrelatedField, { label: string; unit: string }> = {
+  c: { label: 'Cohesion c', unit: 'kPa' },
+  phi: { label: 'Friction angle φ', unit: '°' },
+  cu: { label: 'Undrained strength cu', unit: 'kPa' },
+  Es: { label: 'Elastic modulus Es', unit: 'kPa' }
+};
+
+const round = (value: number, step: number) => parseFloat((Math.round(value / step) * step).toFixed(2));
+
+/** Total vertical stress σv0 (kPa): effective overburden plus pore pressure below the water table */
+export function totalOverburden(layers: SoilLayer[], depth: number, waterTable: number | null): number {
+  const u = waterTable !== null ? GAMMA_W * Math.max(depth - waterTable, 0) : 0;
+  return overburdenPressure(layers, depth, waterTable) + u;
+}
+
+/** φ from (N1)60, Peck, Hanson & Thornburn (1974) chart as fitted by Wolff (1989) */
+export function phiPeckHansonThornburn(N: number): number {
+  const n = Math.min(N, 60);
+  return 27.1 + 0.3 * n - 0.00054 * n * n;
+}
+
+/** φ from corrected N, interpolated between the density classes of IS 6403 Fig. 1 */
+export function phiIS6403(N: number): number {
+  const i = IS6403_PHI.findIndex(([n]) => n >= N);
+  if (i < 0) return IS6403_PHI[IS6403_PHI.length - 1][1];
+  if (i === 0) return IS6403_PHI[0][1];
+  const [n0, p0] = IS6403_PHI[i - 1];
+  const [n1, p1] = IS6403_PHI[i];
+  return p0 + ((N - n0) / (n1 - n0)) * (p1 - p0);
+}
+
+/** Undrained strength from N60, cu = qu / 2 = 6.25 N kPa (Terzaghi & Peck, 1967) */
+export const cuFromSpt = (N: number) => 6.25 * N;
+
+/** Undrained strength from CPT cone resistance and total overburden at the test depth */
+export const cuFromCpt = (qc: number, sigma_v0: number) => Math.max(qc - sigma_v0, 0) / CONE_FACTOR;
+
+/**
+ * Correlated strength and stiffness for one soil from its SPT N and CPT qc.
+ * Granular soils get φ and Es; clays get cu, written to c for a φ = 0
+ * analysis or to cu when the clay is checked short- and long-term. The field
+ * N is corrected first: φ is read from (N1)60, cu and Es from N60.
+ *
+ * @param depth Depth of the field tests (m), for the SPT corrections and the CPT cu
+ */
+export function correlateSoil(
+  soil: SoilProperties,
+  layers: SoilLayer[],
+  depth: number,
+  waterTable: number | null,
+  equipment: SptEquipment
+): CorrelatedValue[] {
+  const values: CorrelatedValue[] = [];
+  const fieldN = soil.spt_n && soil.spt_n > 0 ? soil.spt_n : null;
+  const qc = soil.qc && soil.qc > 0 ? soil.qc : null;
+  const granular = soil.type === 'Cohesionless (Sand)' || soil.type === 'c-φ Soil';
+  const sigma_v0 = totalOverburden(layers, depth, waterTable);
+
+  const N = fieldN !== null ? round(energyCorrectedN(fieldN, depth, equipment), 0.1) : null;
+  const N1 = N !== null ? round(normalisedN(N, overburdenPressure(layers, depth, waterTable)), 0.1) : null;
+  const nBasis = `N = ${fieldN}, N60 = ${N}`;
+
+  if (granular && N1 !== null) {
+    values.push(
+      { field: 'phi', value: round(phiPeckHansonThornburn(N1), 0.1), source: 'Peck, Hanson & Thornburn (1974)', basis: `${nBasis}, (N1)60 = ${N1}` },
+      { field: 'phi', value: round(phiIS6403(N1), 0.1), source: 'IS 6403 Fig. 1', basis: `${nBasis}, (N1)60 = ${N1}` }
+    );
+  }
+
+  if (soil.type === 'Cohesive (Clay)') {
+    const field: CorrelatedField = hasDrainageStages(soil) ? 'cu' : 'c';
+    if (N !== null) {
+      values.push({ field, value: round(cuFromSpt(N), 1), source: 'Terzaghi & Peck (1967): cu = 6.25 N60', basis: nBasis });
+    }
+    if (qc !== null && qc > sigma_v0) {
+      values.push({
+        field,
+        value: round(cuFromCpt(qc, sigma_v0), 1),
+        source: `Lunne et al. (1997): cu = (qc − σv0) / ${CONE_FACTOR}`,
+        basis: `qc = ${qc} kPa, σv0 = ${round(sigma_v0, 0.1)} kPa`
+      });
+    }
+    // Stiffness of clay follows its undrained strength, measured or correlated
+    const cu = field === 'cu' ? soil.cu : soil.c;
+    const cuBasis = cu && cu > 0 ? cu : N !== null ? cuFromSpt(N) : null;
+    if (cuBasis !== null) {
+      values.push({ field: 'Es', value: round(300 * cuBasis, 100), source: 'Bowles (1996), clay: Es = 300 cu', basis: `cu = ${round(cuBasis, 1)} kPa` });
+    }
+  }
+
+  const modulus = MODULUS_FROM_N[soil.type];
+  if (modulus && N !== null) {
+    values.push({ field: 'Es', value: round(modulus.a * (N + modulus.b), 100), source: modulus.source, basis: nBasis });
+  }
+  if (soil.type === 'Cohesionless (Sand)' && qc !== null) {
+    values.push({ field: 'Es', value: round(2.5 * qc, 100), source: 'Schmertmann (1970): Es = 2.5 qc', basis: `qc = ${qc} kPa` });
+  }
+
+  return values;
+}
+
+/** Takes a correlated value into the soil, recording where it came from */
+export function acceptCorrelation<T extends SoilProperties>(soil: T, correlation: CorrelatedValue): T {
+  return {
+    ...soil,
+    [correlation.field]: correlation.value,
+    correlated: { ...soil.correlated, [correlation.field]: correlation.source }
+  };
+}
+
+/**
+ * Applies edits to a soil. A correlated value that is edited by hand is
+ * treated as measured from then on.
+ */
+export function updateSoil<T extends SoilProperties>(soil: T, fields: Partial<T>): T {
+  const correlated = { ...soil.correlated };
+  (Object.keys(fields) as (keyof T)[]).forEach(key => {
+    if (key in correlated && fields[key] !== soil[key]) delete correlated[key as CorrelatedField];
+  });
+  return { ...soil, ...fields, correlated: Object.keys(correlated).length > 0 ? correlated : undefined };
+}
+
+/** Strength and stiffness inputs of every stratum with the source of each, for reports */
+export function parameterSources(
+  inputs: Pick<DesignInputs, 'profileMode' | 'soil' | 'layers'>
+): { stratum: string; field: CorrelatedField; value: number; source: string }[] {
+  const strata: [string, SoilProperties][] = inputs.profileMode === 'Layered'
+    ? inputs.layers.map((layer, i) => [`Layer ${i + 1}`, layer])
+    : [['Soil', inputs.soil]];
+  return strata.flatMap(([stratum, soil]) => {
+    const fields: CorrelatedField[] = ['c', 'phi', ...(soil.cu !== undefined ? ['cu' as const] : []), ...(soil.Es ? ['Es' as const] : [])];
+    return fields.map(field => ({
+      stratum,
+      field,
+      value: soil[field] as number,
+      source: soil.correlated?.[field] ? `Correlated: ${soil.correlated[field]}` : 'Measured'
+    }));
+  });
+}
@@ -0,0 +1,67 @@
+// Shared by the CSV imports and the CSV and file exports in the browser
+
+/** Quotes a CSV field when it contains a delimiter, quote or line break */
+export const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]) => rows.map(row => row.map(csvCell).join(',')).join('\n');
+
+/**
+ * Splits CSV text into rows of trimmed cells. Commas, semicolons and tabs all
+ * delimit; a quoted field may hold delimiters, line breaks and doubled quotes.
+ * Rows with no content are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const endCell = () => {
+    row.push(cell.trim());
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    if (row.some(c => c !== '')) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',' || ch === ';' || ch === '\t') {
+      endCell();
+    } else if (ch === '\n') {
+      endRow();
+    } else if (ch !== '\r') {
+      cell += ch;
+    }
+  }
+  if (quoted) throw new Error('CSV has a quoted field with no closing quote');
+  endRow();
+  return rows;
+};
+
+/** Saves a blob through a temporary link; object URLs keep characters such as # intact */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
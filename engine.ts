@@ -3,8 +3,20 @@ import {
   FoundationProperties, 
   LoadingConditions, 
   CalculationResults,
-  SoilType 
+  SoilType,
+  SoilLayer,
+  LayeredCalculationResults,
+  ContactPressureResults,
+  BearingCapacityMethod,
+  BearingCapacityFactors,
+  SlopeFactors,
+  AnalysisOptions,
+  DrainageStage,
+  ElasticSettlement
 } from './types';
+import { assertValid, validateAnalysis } from './validation';
+import { hasDrainageStages, layerTops, layerIndexAtDepth, overburdenPressure } from './profile';
+import { elasticInfluenceFactor, DEFAULT_POISSON } from './settlement';
 
 function deg2rad(deg: number): number {
   return (deg * Math.PI) / 180;
@@ -14,6 +26,364 @@ function rad2deg(rad: number): number {
   return (rad * 180) / Math.PI;
 }
 
+type SafeCapacity = Pick<
+  CalculationResults,
+  'qnu' | 'qns' | 'qs' | 'qa_spt' | 'recommended_sbc' | 'settlement' | 'elastic' | 'status'
+>;
+
+// Steps shared by every capacity model once the ultimate capacity qu is known
+function deriveSafeCapacity(
+  soil: SoilProperties,
+  foundation: FoundationProperties,
+  qu: number,
+  q_surcharge: number,
+  FOS: number,
+  eccentricity_check: boolean,
+  compressibleDepth = Infinity
+): SafeCapacity {
+  const qnu = qu - q_surcharge;
+  const qns = qnu / FOS;
+  const qs = qns + q_surcharge;
+
+  // SPT check
+  const qa_spt = soil.spt_n ? allowablePressureSPT(soil.type, soil.spt_n) : NaN;
+
+  // Recommended safe pressure
+  const recommended_sbc = !isNaN(qa_spt) ? Math.min(qs, qa_spt) : qs;
+
+  // Settlement (Standard calculation)
+  let settlement = 0;
+  let elastic: ElasticSettlement | undefined;
+  if (soil.Es && soil.Es > 0) {
+    const mu = soil.mu ?? DEFAULT_POISSON;
+    const settlementCase = foundation.settlementCase ?? 'Standard';
+    const { F1, F2, Is } = elasticInfluenceFactor(foundation, compressibleDepth, mu, settlementCase);
+    elastic = { case: settlementCase, Es: soil.Es, mu, H: compressibleDepth, F1, F2, Is };
+    settlement = (qs * foundation.B * (1 - Math.pow(mu, 2)) * Is) / soil.Es * 1000;
+  } else {
+    if (soil.type === 'Cohesive (Clay)') {
+      settlement = (qs / 50) * 25;
+    } else {
+      settlement = (qs / 100) * 15;
+    }
+  }
+
+  // Determine Status; a capacity that is not a number is never reported as safe
+  let status: CalculationResults['status'] = 'SAFE';
+  if (![qu, qs, recommended_sbc, settlement].every(Number.isFinite)) status = 'NOT COMPUTABLE';
+  else if (settlement > 25) status = 'SETTLEMENT GOVERNING';
+  else if (eccentricity_check) status = 'HIGH ECCENTRICITY';
+
+  return { qnu, qns, qs, qa_spt, recommended_sbc, settlement, elastic, status };
+}
+
+interface TheoryInput {
+  soil: SoilProperties;
+  shape: FoundationProperties['shape'];
+  B: number;
+  L: number;
+  Df: number;
+  B_prime: number;
+  L_prime: number;
+  V: number;
+  H: number; // Magnitude of horizontal load (kN)
+}
+
+export interface BearingCapacityTheory {
+  label: string;
+  reference: string;
+  factors: (input: TheoryInput) => BearingCapacityFactors;
+  // Ground slope β and base tilt α in degrees; Hansen's factors apply when a theory has none
+  slopeFactors?: (phi: number, beta: number, alpha: number, Nc: number) => SlopeFactors;
+}
+
+/**
+ * Square and circular footings take L = B, as does a strip given no length;
+ * validation does not ask for L on these shapes.
+ */
+export function normaliseFoundation(foundation: FoundationProperties): FoundationProperties {
+  const { shape, B, L } = foundation;
+  if (shape === 'Rectangular' || (shape === 'Strip/Continuous' && Number.isFinite(L))) return foundation;
+  return L === B ? foundation : { ...foundation, L: B };
+}
+
+// Plan ratio used by the shape factors; strips are 0 and circles count as squares
+function planRatio({ shape, B_prime, L_prime }: TheoryInput): number {
+  if (shape === 'Strip/Continuous') return 0;
+  if (shape === 'Circular') return 1;
+  return Math.min(B_prime / L_prime, 1);
+}
+
+// Depth parameter k = D/B, or tan⁻¹(D/B) for deep footings (Hansen, Vesić)
+function depthParameter(Df: number, B: number): number {
+  const ratio = Df / B;
+  return ratio <= 1 ? ratio : Math.atan(ratio);
+}
+
+// Load inclination from the vertical (degrees)
+function loadInclination(V: number, H: number): number {
+  return V > 0 ? rad2deg(Math.atan(H / V)) : 0;
+}
+
+// Reissner-Prandtl Nq and Nc shared by Meyerhof, Hansen, Vesić and IS 6403
+function prandtlFactors(phi: number): { Nq: number; Nc: number } {
+  if (phi <= 0) return { Nq: 1, Nc: 5.14 };
+  const phi_rad = deg2rad(phi);
+  const Nq = Math.exp(Math.PI * Math.tan(phi_rad)) * Math.pow(Math.tan(Math.PI / 4 + phi_rad / 2), 2);
+  return { Nq, Nc: (Nq - 1) / Math.tan(phi_rad) };
+}
+
+// Hansen's ground and base factors, recommended by Bowles (1996) for the other theories too
+function hansenSlopeFactors(phi: number, beta: number, alpha: number): SlopeFactors {
+  const tanPhi = Math.tan(deg2rad(phi));
+  const gq = Math.pow(Math.max(1 - 0.5 * Math.tan(deg2rad(beta)), 0), 5);
+  return {
+    gc: Math.max(1 - beta / 147, 0),
+    gq,
+    ggamma: gq,
+    bc: Math.max(1 - alpha / 147, 0),
+    bq: Math.exp(-2 * deg2rad(alpha) * tanPhi),
+    bgamma: Math.exp(-2.7 * deg2rad(alpha) * tanPhi)
+  };
+}
+
+// Effective area per footing, per metre run for strips (m²)
+function effectiveArea({ shape, B_prime, L_prime }: TheoryInput): number {
+  return shape === 'Strip/Continuous' ? B_prime : B_prime * L_prime;
+}
+
+const is6403: BearingCapacityTheory = {
+  label: 'IS 6403:1981',
+  reference: 'IS 6403:1981 cl. 5.1',
+  factors: ({ soil, shape, B, Df, B_prime, L_prime, V, H }) => {
+    const phi_rad = deg2rad(soil.phi);
+
+    // Bearing capacity factors (IS 6403:1981)
+    let Nc, Nq, Ngamma;
+    if (soil.phi > 0) {
+      ({ Nq, Nc } = prandtlFactors(soil.phi));
+      Ngamma = 2 * (Nq + 1) * Math.tan(phi_rad);
+    } else {
+      Nc = 5.14;
+      Nq = 1;
+      Ngamma = 0;
+    }
+
+    // Shape factors
+    let sc = 1, sq = 1, sgamma = 1;
+    switch (shape) {
+      case 'Strip/Continuous':
+        sc = 1.0; sq = 1.0; sgamma = 1.0;
+        break;
+      case 'Square':
+        if (soil.phi > 0) {
+          sc = 1 + 0.2 * (B_prime / L_prime);
+          sq = 1 + 0.2 * (B_prime / L_prime) * Math.tan(deg2rad(45 + soil.phi / 2));
+        } else {
+          sc = 1.3; sq = 1.0;
+        }
+        sgamma = 0.8;
+        break;
+      case 'Rectangular':
+        sc = 1 + 0.2 * (B_prime / L_prime);
+        sq = 1 + 0.2 * (B_prime / L_prime) * Math.tan(deg2rad(45 + soil.phi / 2));
+        sgamma = 1 - 0.4 * (B_prime / L_prime);
+        break;
+      case 'Circular':
+        sc = 1.3; sq = 1.2; sgamma = 0.6;
+        break;
+    }
+
+    // Depth factors (IS 6403 simplified)
+    const factor = depthParameter(Df, B);
+    const dc = 1 + 0.2 * factor * Math.tan(deg2rad(45 + soil.phi / 2));
+    const dq = 1 + 0.1 * factor * Math.tan(deg2rad(45 + soil.phi / 2));
+    const dgamma = 1.0;
+
+    // Inclination factors
+    const alpha = loadInclination(V, H);
+    const phi_temp = soil.phi === 0 ? 0.001 : soil.phi;
+    const ic = Math.pow(1 - (alpha / 90), 2);
+    const iq = ic;
+    const igamma = Math.pow(1 - (alpha / phi_temp), 2);
+
+    return { Nc, Nq, Ngamma, sc, sq, sgamma, dc, dq, dgamma, ic, iq, igamma };
+  }
+};
+
+const terzaghi: BearingCapacityTheory = {
+  label: 'Terzaghi (1943)',
+  reference: 'Terzaghi, Theoretical Soil Mechanics (1943)',
+  factors: (input) => {
+    const { soil } = input;
+    const phi_rad = deg2rad(soil.phi);
+    let Nc, Nq, Ngamma;
+    if (soil.phi > 0) {
+      Nq = Math.exp(2 * (0.75 * Math.PI - phi_rad / 2) * Math.tan(phi_rad))
+        / (2 * Math.pow(Math.cos(Math.PI / 4 + phi_rad / 2), 2));
+      Nc = (Nq - 1) / Math.tan(phi_rad);
+      // Closed-form fit to Terzaghi's Nγ (Coduto, 2001)
+      Ngamma = (2 * (Nq + 1) * Math.tan(phi_rad)) / (1 + 0.4 * Math.sin(4 * phi_rad));
+    } else {
+      Nc = 5.7;
+      Nq = 1;
+      Ngamma = 0;
+    }
+
+    // Terzaghi's square/circular factors, interpolated for rectangles
+    const r = planRatio(input);
+    const sc = input.shape === 'Circular' ? 1.3 : 1 + 0.3 * r;
+    const sgamma = input.shape === 'Circular' ? 0.6 : 1 - 0.2 * r;
+
+    return { Nc, Nq, Ngamma, sc, sq: 1, sgamma, dc: 1, dq: 1, dgamma: 1, ic: 1, iq: 1, igamma: 1 };
+  }
+};
+
+const meyerhof: BearingCapacityTheory = {
+  label: 'Meyerhof (1963)',
+  reference: 'Meyerhof, Can. Geotech. J. 1(1), 1963',
+  factors: (input) => {
+    const { soil, Df, B, V, H } = input;
+    const phi_rad = deg2rad(soil.phi);
+    const { Nq, Nc } = prandtlFactors(soil.phi);
+    const Ngamma = soil.phi > 0 ? (Nq - 1) * Math.tan(1.4 * phi_rad) : 0;
+
+    const Kp = Math.pow(Math.tan(Math.PI / 4 + phi_rad / 2), 2);
+    const r = planRatio(input);
+    const frictional = soil.phi > 10;
+    const sc = 1 + 0.2 * Kp * r;
+    const sq = frictional ? 1 + 0.1 * Kp * r : 1;
+    const dc = 1 + 0.2 * Math.sqrt(Kp) * (Df / B);
+    const dq = frictional ? 1 + 0.1 * Math.sqrt(Kp) * (Df / B) : 1;
+
+    const alpha = loadInclination(V, H);
+    const ic = Math.pow(1 - alpha / 90, 2);
+    const igamma = soil.phi > 0 ? Math.pow(Math.max(1 - alpha / soil.phi, 0), 2) : 1;
+
+    return { Nc, Nq, Ngamma, sc, sq, sgamma: sq, dc, dq, dgamma: dq, ic, iq: ic, igamma };
+  }
+};
+
+const hansen: BearingCapacityTheory = {
+  label: 'Brinch Hansen (1970)',
+  reference: 'Brinch Hansen, Danish Geotech. Inst. Bull. 28, 1970',
+  factors: (input) => {
+    const { soil, Df, B, V, H } = input;
+    const phi_rad = deg2rad(soil.phi);
+    const { Nq, Nc } = prandtlFactors(soil.phi);
+    const Ngamma = soil.phi > 0 ? 1.5 * (Nq - 1) * Math.tan(phi_rad) : 0;
+
+    const r = planRatio(input);
+    const sc = 1 + (Nq / Nc) * r;
+    const sq = 1 + r * Math.sin(phi_rad);
+    const sgamma = Math.max(1 - 0.4 * r, 0.6);
+
+    const k = depthParameter(Df, B);
+    const dc = 1 + 0.4 * k;
+    const dq = 1 + 2 * Math.tan(phi_rad) * Math.pow(1 - Math.sin(phi_rad), 2) * k;
+
+    const A = effectiveArea(input);
+    let ic: number, iq: number, igamma: number;
+    if (soil.phi > 0) {
+      const Vc = V + A * soil.c / Math.tan(phi_rad);
+      iq = Vc > 0 ? Math.pow(Math.max(1 - (0.5 * H) / Vc, 0), 5) : 1;
+      igamma = Vc > 0 ? Math.pow(Math.max(1 - (0.7 * H) / Vc, 0), 5) : 1;
+      ic = iq - (1 - iq) / (Nq - 1);
+    } else {
+      const Hmax = A * soil.c;
+      ic = Hmax > 0 ? 0.5 + 0.5 * Math.sqrt(Math.max(1 - H / Hmax, 0)) : 1;
+      iq = 1;
+      igamma = 1;
+    }
+
+    return { Nc, Nq, Ngamma, sc, sq, sgamma, dc, dq, dgamma: 1, ic, iq, igamma };
+  }
+};
+
+const vesic: BearingCapacityTheory = {
+  label: 'Vesić (1975)',
+  reference: 'Vesić, Foundation Engineering Handbook, 1975',
+  factors: (input) => {
+    const { soil, Df, B, V, H } = input;
+    const phi_rad = deg2rad(soil.phi);
+    const { Nq, Nc } = prandtlFactors(soil.phi);
+    const Ngamma = soil.phi > 0 ? 2 * (Nq + 1) * Math.tan(phi_rad) : 0;
+
+    const r = planRatio(input);
+    const sc = 1 + (Nq / Nc) * r;
+    const sq = 1 + r * Math.tan(phi_rad);
+    const sgamma = Math.max(1 - 0.4 * r, 0.6);
+
+    const k = depthParameter(Df, B);
+    const dc = 1 + 0.4 * k;
+    const dq = 1 + 2 * Math.tan(phi_rad) * Math.pow(1 - Math.sin(phi_rad), 2) * k;
+
+    const A = effectiveArea(input);
+    const m = (2 + r) / (1 + r);
+    let ic: number, iq: number, igamma: number;
+    if (soil.phi > 0) {
+      const Vc = V + A * soil.c / Math.tan(phi_rad);
+      const base = Vc > 0 ? Math.max(1 - H / Vc, 0) : 1;
+      iq = Math.pow(base, m);
+      igamma = Math.pow(base, m + 1);
+      ic = iq - (1 - iq) / (Nc * Math.tan(phi_rad));
+    } else {
+      ic = A * soil.c > 0 ? Math.max(1 - (m * H) / (A * soil.c * Nc), 0) : 1;
+      iq = 1;
+      igamma = 1;
+    }
+
+    return { Nc, Nq, Ngamma, sc, sq, sgamma, dc, dq, dgamma: 1, ic, iq, igamma };
+  },
+  slopeFactors: (phi, beta, alpha, Nc) => {
+    const tanPhi = Math.tan(deg2rad(phi));
+    const gq = Math.pow(Math.max(1 - Math.tan(deg2rad(beta)), 0), 2);
+    if (phi <= 0) {
+      return { gc: Math.max(1 - 2 * deg2rad(beta) / 5.14, 0), gq, ggamma: gq, bc: Math.max(1 - 2 * deg2rad(alpha) / 5.14, 0), bq: 1, bgamma: 1 };
+    }
+    const bq = Math.pow(Math.max(1 - deg2rad(alpha) * tanPhi, 0), 2);
+    return {
+      gc: Math.max(gq - (1 - gq) / (5.14 * tanPhi), 0),
+      gq,
+      ggamma: gq,
+      bc: Math.max(bq - (1 - bq) / (Nc * tanPhi), 0),
+      bq,
+      bgamma: bq
+    };
+  }
+};
+
+export const BEARING_CAPACITY_METHODS: Record<BearingCapacityMethod, BearingCapacityTheory> = {
+  'IS 6403': is6403,
+  'Terzaghi': terzaghi,
+  'Meyerhof': meyerhof,
+  'Hansen': hansen,
+  'Vesic': vesic
+};
+
+/**
+ * Ground and base inclination factors for a footing on or near a slope. On the
+ * slope face the theory's ground factors apply in full; set back from the crest
+ * they recover linearly to level ground at 2B (φ = 0) or 6B (frictional soil),
+ * the setbacks beyond which Meyerhof's (1957) slope factors reach the level
+ * ground values.
+ */
+export function calculateSlopeFactors(
+  method: BearingCapacityMethod,
+  phi: number,
+  foundation: FoundationProperties,
+  Nc: number
+): SlopeFactors {
+  const { B, groundSlope = 0, baseTilt = 0, crestSetback = 0 } = foundation;
+  const theory = BEARING_CAPACITY_METHODS[method];
+  const onSlope = theory.slopeFactors
+    ? theory.slopeFactors(phi, groundSlope, baseTilt, Nc)
+    : hansenSlopeFactors(phi, groundSlope, baseTilt);
+  const reach = Math.max(1 - crestSetback / ((phi > 0 ? 6 : 2) * B), 0);
+  const ground = (g: number) => 1 - (1 - g) * reach;
+  return { ...onSlope, gc: ground(onSlope.gc), gq: ground(onSlope.gq), ggamma: ground(onSlope.ggamma) };
+}
+
 export function allowablePressureSPT(soilType: SoilType, N: number): number {
   switch (soilType) {
     case 'Cohesionless (Sand)':
@@ -34,14 +404,36 @@ export function allowablePressureSPT(soilType: SoilType, N: number): number {
   }
 }
 
+export const DRAINAGE_STAGES: Record<DrainageStage, string> = {
+  Undrained: 'Short-term (φu = 0, cu)',
+  Drained: "Long-term (c', φ')"
+};
+
+export function soilForStage<T extends SoilProperties>(soil: T, stage: DrainageStage): T {
+  if (!hasDrainageStages(soil)) return soil;
+  return stage === 'Undrained'
+    ? { ...soil, c: soil.cu ?? soil.c, phi: 0 }
+    : { ...soil, c: soil.c_eff ?? 0, phi: soil.phi_eff ?? soil.phi };
+}
+
+// The stage with the lowest recommended safe pressure governs
+export function governingStage<T extends CalculationResults>(results: T[]): T {
+  return results.reduce((min, r) => (r.recommended_sbc < min.recommended_sbc ? r : min));
+}
+
 export function calculateBearingCapacity(
   soil: SoilProperties,
   foundation: FoundationProperties,
   load: LoadingConditions,
   water_table_depth: number | null,
-  FOS: number
+  FOS: number,
+  options: AnalysisOptions = {}
 ): CalculationResults {
-  const phi_rad = deg2rad(soil.phi);
+  assertValid(validateAnalysis(soil, foundation, load, water_table_depth, FOS));
+  foundation = normaliseFoundation(foundation);
+  const { method = 'IS 6403', q_overburden, stage, spt_n, compressibleDepth } = options;
+  if (stage) soil = soilForStage(soil, stage);
+  if (spt_n !== undefined) soil = { ...soil, spt_n };
   const { V, Mx, My, H } = load;
   const { B, L, Df, shape } = foundation;
 
@@ -78,95 +470,31 @@ export function calculateBearingCapacity(
     }
   }
 
+  // Overburden supplied by a layered profile already includes the water table
+  if (q_overburden !== undefined) q_surcharge = q_overburden;
+
   // Gamma effective for the third term (Self-weight)
   const gamma_eff = soil.gamma * W_prime;
 
-  // 3. Bearing capacity factors (IS 6403:1981)
-  let Nc, Nq, Ngamma;
-  if (soil.phi > 0) {
-    Nq = Math.exp(Math.PI * Math.tan(phi_rad)) * Math.pow(Math.tan(Math.PI / 4 + phi_rad / 2), 2);
-    Nc = (Nq - 1) / Math.tan(phi_rad);
-    Ngamma = 2 * (Nq + 1) * Math.tan(phi_rad);
-  } else {
-    Nc = 5.14;
-    Nq = 1;
-    Ngamma = 0;
-  }
-
-  // 4. Shape factors
-  let sc = 1, sq = 1, sgamma = 1;
-  switch (shape) {
-    case 'Strip/Continuous':
-      sc = 1.0; sq = 1.0; sgamma = 1.0;
-      break;
-    case 'Square':
-      if (soil.phi > 0) {
-        sc = 1 + 0.2 * (B_prime / L_prime);
-        sq = 1 + 0.2 * (B_prime / L_prime) * Math.tan(deg2rad(45 + soil.phi / 2));
-      } else {
-        sc = 1.3; sq = 1.0;
-      }
-      sgamma = 0.8;
-      break;
-    case 'Rectangular':
-      sc = 1 + 0.2 * (B_prime / L_prime);
-      sq = 1 + 0.2 * (B_prime / L_prime) * Math.tan(deg2rad(45 + soil.phi / 2));
-      sgamma = 1 - 0.4 * (B_prime / L_prime);
-      break;
-    case 'Circular':
-      sc = 1.3; sq = 1.2; sgamma = 0.6;
-      break;
-  }
-
-  // 5. Depth factors (IS 6403 simplified)
-  const D_B_ratio = Df / B;
-  let dc, dq, dgamma = 1.0;
-  const factor = D_B_ratio <= 1 ? D_B_ratio : Math.atan(D_B_ratio);
-  dc = 1 + 0.2 * factor * Math.tan(deg2rad(45 + soil.phi / 2));
-  dq = 1 + 0.1 * factor * Math.tan(deg2rad(45 + soil.phi / 2));
-
-  // 6. Inclination factors
-  const alpha = V > 0 ? rad2deg(Math.atan(H / V)) : 0;
-  const phi_temp = soil.phi === 0 ? 0.001 : soil.phi;
-  const ic = Math.pow(1 - (alpha / 90), 2);
-  const iq = ic;
-  const igamma = Math.pow(1 - (alpha / phi_temp), 2);
+  // 3-6. Bearing capacity, shape, depth and inclination factors
+  const theory = BEARING_CAPACITY_METHODS[method];
+  const {
+    Nc, Nq, Ngamma,
+    sc, sq, sgamma,
+    dc, dq, dgamma,
+    ic, iq, igamma
+  } = theory.factors({ soil, shape, B, L, Df, B_prime, L_prime, V, H: Math.abs(H) });
+  const { gc, gq, ggamma, bc, bq, bgamma } = calculateSlopeFactors(method, soil.phi, foundation, Nc);
 
   // 7. Calculate terms
-  const term1 = soil.c * Nc * sc * dc * ic;
-  const term2 = q_surcharge * Nq * sq * dq * iq;
-  const term3 = 0.5 * gamma_eff * B_prime * Ngamma * sgamma * dgamma * igamma;
+  const term1 = soil.c * Nc * sc * dc * ic * gc * bc;
+  const term2 = q_surcharge * Nq * sq * dq * iq * gq * bq;
+  const term3 = 0.5 * gamma_eff * B_prime * Ngamma * sgamma * dgamma * igamma * ggamma * bgamma;
 
   // 8. Capacities
   const qu = term1 + term2 + term3;
-  const qnu = qu - q_surcharge;
-  const qns = qnu / FOS;
-  const qs = qns + q_surcharge;
-
-  // 9. SPT check
-  const qa_spt = soil.spt_n ? allowablePressureSPT(soil.type, soil.spt_n) : NaN;
-
-  // 10. Recommended safe pressure
-  const recommended_sbc = !isNaN(qa_spt) ? Math.min(qs, qa_spt) : qs;
-
-  // 11. Settlement (Standard calculation)
-  let settlement = 0;
-  if (soil.Es && soil.Es > 0) {
-    const mu = 0.3; // Poisson's ratio
-    const I = 0.82; // Influence factor
-    settlement = (qs * B * (1 - Math.pow(mu, 2)) * I) / soil.Es * 1000;
-  } else {
-    if (soil.type === 'Cohesive (Clay)') {
-      settlement = (qs / 50) * 25;
-    } else {
-      settlement = (qs / 100) * 15;
-    }
-  }
-
-  // 12. Determine Status
-  let status: CalculationResults['status'] = 'SAFE';
-  if (settlement > 25) status = 'SETTLEMENT GOVERNING';
-  else if (eccentricity_check) status = 'HIGH ECCENTRICITY';
+  const { qnu, qns, qs, qa_spt, recommended_sbc, settlement, elastic, status } =
+    deriveSafeCapacity(soil, foundation, qu, q_surcharge, FOS, eccentricity_check, compressibleDepth);
 
   return {
     SoilType: soil.type,
@@ -178,16 +506,272 @@ export function calculateBearingCapacity(
     FoundationLength: L,
     FoundationDepth: Df,
     FOS,
+    Method: method,
+    Stage: stage,
     ex, ey, B_prime, L_prime, eccentricity_check,
     Nc, Nq, Ngamma,
     sc, sq, sgamma,
     dc, dq, dgamma,
     ic, iq, igamma,
+    gc, gq, ggamma,
+    bc, bq, bgamma,
     W_prime,
     term1, term2, term3,
     qu, qnu, qns, qs,
-    qa_spt, recommended_sbc,
+    qa_spt, SptN: soil.spt_n, recommended_sbc,
     settlement,
+    elastic,
     status
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Contact pressure beneath a rigid footing under biaxial moment.
+ * Full contact uses q = V/A (1 ± 6ex/B ± 6ey/L); once the resultant leaves the
+ * kern the tension zone is removed and the linear pressure plane is re-fitted
+ * to the compressed area until vertical and moment equilibrium hold.
+ */
+export function calculateContactPressure(
+  foundation: FoundationProperties,
+  load: LoadingConditions,
+  resolution = 40
+): ContactPressureResults {
+  const { shape, B } = foundation;
+  const isStrip = shape === 'Strip/Continuous';
+  const isCircular = shape === 'Circular';
+  const L = isStrip ? 1 : isCircular ? B : foundation.L;
+  const V = Math.max(load.V, 0);
+
+  const ex = V > 0 ? load.My / V : 0;
+  const ey = V > 0 && !isStrip ? load.Mx / V : 0;
+
+  // Base discretised into cells; circular bases drop the cells outside the rim
+  const dx = B / resolution;
+  const dy = L / resolution;
+  const cells: { x: number; y: number; inside: boolean }[] = [];
+  for (let j = 0; j < resolution; j++) {
+    for (let i = 0; i < resolution; i++) {
+      const x = -B / 2 + (i + 0.5) * dx;
+      const y = L / 2 - (j + 0.5) * dy;
+      const inside = !isCircular || Math.hypot(x, y) <= B / 2;
+      cells.push({ x, y, inside });
+    }
+  }
+
+  const overturning = isCircular
+    ? Math.hypot(ex, ey) >= B / 2
+    : Math.abs(ex) >= B / 2 || Math.abs(ey) >= L / 2;
+
+  // Pressure plane q = a + b·x + c·y
+  let a: number, b: number, c: number;
+  if (isCircular) {
+    const A = (Math.PI * B * B) / 4;
+    const I = (Math.PI * Math.pow(B, 4)) / 64;
+    a = V / A; b = (V * ex) / I; c = (V * ey) / I;
+  } else {
+    const A = B * L;
+    a = V / A; b = (12 * V * ex) / (L * Math.pow(B, 3)); c = (12 * V * ey) / (B * Math.pow(L, 3));
+  }
+
+  const pressure = (x: number, y: number) => a + b * x + c * y;
+  const fullContact = cells.every(cell => !cell.inside || pressure(cell.x, cell.y) >= 0);
+
+  if (!fullContact && !overturning && V > 0) {
+    // No-tension redistribution over the compressed cells
+    const dA = dx * dy;
+    let active = cells.map(cell => cell.inside && pressure(cell.x, cell.y) > 0);
+    for (let iter = 0; iter < 100; iter++) {
+      let S0 = 0, Sx = 0, Sy = 0, Sxx = 0, Sxy = 0, Syy = 0;
+      cells.forEach((cell, k) => {
+        if (!active[k]) return;
+        S0 += dA; Sx += cell.x * dA; Sy += cell.y * dA;
+        Sxx += cell.x * cell.x * dA; Sxy += cell.x * cell.y * dA; Syy += cell.y * cell.y * dA;
+      });
+      const solved = solve3x3(
+        [[S0, Sx, Sy], [Sx, Sxx, Sxy], [Sy, Sxy, Syy]],
+        [V, V * ex, V * ey]
+      );
+      if (!solved) break;
+      [a, b, c] = solved;
+      const next = cells.map(cell => cell.inside && pressure(cell.x, cell.y) > 0);
+      if (next.every((v, k) => v === active[k])) break;
+      active = next;
+    }
+  }
+
+  const map: number[][] = [];
+  let inContact = 0;
+  let insideCount = 0;
+  for (let j = 0; j < resolution; j++) {
+    const row: number[] = [];
+    for (let i = 0; i < resolution; i++) {
+      const cell = cells[j * resolution + i];
+      if (!cell.inside) {
+        row.push(NaN);
+        continue;
+      }
+      const q = Math.max(pressure(cell.x, cell.y), 0);
+      insideCount++;
+      if (q > 0) inContact++;
+      row.push(q);
+    }
+    map.push(row);
+  }
+
+  let corners: number[] | null = null;
+  let qmax: number, qmin: number;
+  if (isCircular) {
+    // Extremes of a plane over a circle lie along the gradient direction
+    const g = Math.hypot(b, c) * (B / 2);
+    qmax = Math.max(a + g, 0);
+    qmin = Math.max(a - g, 0);
+  } else {
+    corners = [
+      pressure(B / 2, L / 2),
+      pressure(-B / 2, L / 2),
+      pressure(-B / 2, -L / 2),
+      pressure(B / 2, -L / 2)
+    ].map(q => Math.max(q, 0));
+    qmax = Math.max(...corners);
+    qmin = Math.min(...corners);
+  }
+
+  return {
+    B, L, ex, ey,
+    qmax: overturning ? Infinity : qmax,
+    qmin: overturning ? 0 : qmin,
+    corners: overturning ? null : corners,
+    contactRatio: overturning || insideCount === 0 ? 0 : inContact / insideCount,
+    partialUplift: !fullContact,
+    overturning,
+    map
+  };
+}
+
+// Gaussian elimination with partial pivoting; null when singular
+function solve3x3(M: number[][], r: number[]): number[] | null {
+  const A = M.map((row, i) => [...row, r[i]]);
+  for (let col = 0; col < 3; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 3; row++) {
+      if (Math.abs(A[row][col]) > Math.abs(A[pivot][col])) pivot = row;
+    }
+    if (Math.abs(A[pivot][col]) < 1e-12) return null;
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    for (let row = 0; row < 3; row++) {
+      if (row === col) continue;
+      const f = A[row][col] / A[col][col];
+      for (let k = col; k < 4; k++) A[row][k] -= f * A[col][k];
+    }
+  }
+  return [A[0][3] / A[0][0], A[1][3] / A[1][1], A[2][3] / A[2][2]];
+}
+
+/**
+ * Bearing capacity of a footing on a layered profile (IS 6403 factors with
+ * two-layer interaction after Meyerhof & Hanna, 1978).
+ * The layer at founding level is checked against the next layer below when
+ * that layer lies within 2B of the base.
+ */
+export function calculateLayeredBearingCapacity(
+  layers: SoilLayer[],
+  foundation: FoundationProperties,
+  load: LoadingConditions,
+  water_table_depth: number | null,
+  FOS: number,
+  options: Pick<AnalysisOptions, 'method' | 'stage' | 'spt_n'> = {}
+): LayeredCalculationResults {
+  assertValid(validateAnalysis(layers, foundation, load, water_table_depth, FOS));
+  foundation = normaliseFoundation(foundation);
+  if (options.stage) {
+    const stage = options.stage;
+    layers = layers.map(layer => soilForStage(layer, stage));
+  }
+
+  const { B, L, Df, shape } = foundation;
+  const tops = layerTops(layers);
+  const i = layerIndexAtDepth(layers, Df);
+  const upper = layers[i];
+
+  // 1. Upper layer assumed infinitely thick
+  const q0 = overburdenPressure(layers, Df, water_table_depth);
+  // Elastic settlement is limited to the soil above the first rock layer below the base
+  const rock = layers.findIndex((layer, j) => j > i && layer.type === 'Rock');
+  const compressibleDepth = rock >= 0 ? tops[rock] - Df : Infinity;
+  const top = calculateBearingCapacity(upper, foundation, load, water_table_depth, FOS, { ...options, q_overburden: q0, compressibleDepth });
+  const qt = top.qu;
+
+  const H = i < layers.length - 1 ? tops[i] + upper.thickness - Df : Infinity;
+  const homogeneous: LayeredCalculationResults = {
+    ...top,
+    layerCase: 'HOMOGENEOUS',
+    bearingLayerIndex: i,
+    lowerLayerIndex: null,
+    H,
+    q1: NaN, q2: NaN,
+    qt, qb: NaN,
+    Ks: NaN, ca: NaN
+  };
+  if (H >= 2 * B) return homogeneous;
+
+  // 2. Lower layer loaded at its top surface
+  const lower = layers[i + 1];
+  const Db = Df + H;
+  const bottom = calculateBearingCapacity(
+    lower,
+    { ...foundation, Df: Db },
+    load,
+    water_table_depth,
+    FOS,
+    { ...options, q_overburden: overburdenPressure(layers, Db, water_table_depth) }
+  );
+  const qb = bottom.qu;
+
+  // 3. Strip capacities of each layer to classify the profile
+  const q1 = upper.c * top.Nc + 0.5 * upper.gamma * B * top.Ngamma;
+  const q2 = lower.c * bottom.Nc + 0.5 * lower.gamma * B * bottom.Ngamma;
+  const ratio = q1 > 0 ? Math.min(q2 / q1, 1) : 1;
+
+  let qu: number;
+  let layerCase: LayeredCalculationResults['layerCase'];
+  let Ks = NaN;
+  let ca = NaN;
+
+  if (q2 >= q1) {
+    // Weak over strong: depth of failure zone Hf ≈ B (loose sand, clay) to 2B (dense sand)
+    layerCase = 'WEAK OVER STRONG';
+    const Hf = upper.phi >= 36 ? 2 * B : B;
+    qu = H < Hf ? qt + (qb - qt) * Math.pow(1 - H / Hf, 2) : qt;
+  } else {
+    // Strong over weak: punching shear through the upper layer.
+    // Ks and ca/c1 are conservative linear fits to the Meyerhof-Hanna charts.
+    layerCase = 'STRONG OVER WEAK';
+    const phi1 = deg2rad(upper.phi);
+    const Kp = Math.pow(Math.tan(Math.PI / 4 + phi1 / 2), 2);
+    Ks = Kp * (1 + ratio);
+    ca = upper.c * (0.6 + 0.4 * ratio);
+
+    const BL = shape === 'Strip/Continuous' ? 0 : shape === 'Rectangular' ? B / L : 1;
+    const punching = qb
+      + (1 + BL) * (2 * ca * H) / B
+      + upper.gamma * H * H * (1 + BL) * (1 + (2 * Df) / H) * Ks * Math.tan(phi1) / B
+      - upper.gamma * H;
+    qu = H > 0 ? Math.min(punching, qt) : qb;
+  }
+
+  const bearing = options.spt_n !== undefined ? { ...upper, spt_n: options.spt_n } : upper;
+  const safe = deriveSafeCapacity(bearing, foundation, qu, q0, FOS, top.eccentricity_check, compressibleDepth);
+
+  return {
+    ...top,
+    qu,
+    ...safe,
+    layerCase,
+    bearingLayerIndex: i,
+    lowerLayerIndex: i + 1,
+    H,
+    q1, q2,
+    qt, qb,
+    Ks, ca
+  };
+}
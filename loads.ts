@@ -0,0 +1,159 @@
+import {
+  FoundationProperties,
+  LoadingConditions,
+  CalculationResults,
+  LoadCase,
+  LoadCaseType,
+  LoadCombination,
+  CombinationSet,
+  CombinationResult
+} from './types';
+
+// Gross pressure from the vertical load acting on the effective area (kPa).
+// Strip footings are evaluated per metre run.
+export function appliedBasePressure(
+  foundation: FoundationProperties,
+  load: LoadingConditions,
+  results: CalculationResults
+): number {
+  const { shape, B } = foundation;
+  let area: number;
+  switch (shape) {
+    case 'Strip/Continuous':
+      area = results.B_prime;
+      break;
+    case 'Circular':
+      area = (Math.PI / 4) * results.B_prime * Math.max(B - 2 * results.ey, 0.1);
+      break;
+    default:
+      area = results.B_prime * results.L_prime;
+  }
+  return Math.max(load.V, 0) / area;
+}
+
+interface CombinationTemplate {
+  name: string;
+  factors: Partial<Record<LoadCaseType, number>>;
+  sbcIncrease: number;
+}
+
+// Transient load types whose direction reverses (generated as ± pairs)
+const REVERSIBLE: LoadCaseType[] = ['Wind', 'Seismic'];
+
+// IS 875 (Part 5) cl. 8.1 service combinations. Allowable bearing pressure may
+// be increased by 25% when wind or seismic load is included (IS 1904, IS 1893).
+const WORKING_STRESS: CombinationTemplate[] = [
+  { name: 'DL + LL', factors: { Dead: 1.0, Live: 1.0 }, sbcIncrease: 1.0 },
+  { name: 'DL + WL', factors: { Dead: 1.0, Wind: 1.0 }, sbcIncrease: 1.25 },
+  { name: 'DL + 0.8(LL + WL)', factors: { Dead: 1.0, Live: 0.8, Wind: 0.8 }, sbcIncrease: 1.25 },
+  { name: 'DL + EL', factors: { Dead: 1.0, Seismic: 1.0 }, sbcIncrease: 1.25 },
+  { name: 'DL + 0.8(LL + EL)', factors: { Dead: 1.0, Live: 0.8, Seismic: 0.8 }, sbcIncrease: 1.25 }
+];
+
+// IS 875 (Part 5) / IS 456 Table 18 factored combinations
+const LIMIT_STATE: CombinationTemplate[] = [
+  { name: '1.5(DL + LL)', factors: { Dead: 1.5, Live: 1.5 }, sbcIncrease: 1.0 },
+  { name: '1.5(DL + WL)', factors: { Dead: 1.5, Wind: 1.5 }, sbcIncrease: 1.0 },
+  { name: '0.9DL + 1.5WL', factors: { Dead: 0.9, Wind: 1.5 }, sbcIncrease: 1.0 },
+  { name: '1.2(DL + LL + WL)', factors: { Dead: 1.2, Live: 1.2, Wind: 1.2 }, sbcIncrease: 1.0 },
+  { name: '1.5(DL + EL)', factors: { Dead: 1.5, Seismic: 1.5 }, sbcIncrease: 1.0 },
+  { name: '0.9DL + 1.5EL', factors: { Dead: 0.9, Seismic: 1.5 }, sbcIncrease: 1.0 },
+  { name: '1.2(DL + LL + EL)', factors: { Dead: 1.2, Live: 1.2, Seismic: 1.2 }, sbcIncrease: 1.0 }
+];
+
+export const COMBINATION_SETS: Record<CombinationSet, CombinationTemplate[]> = {
+  'Working Stress': WORKING_STRESS,
+  'Limit State': LIMIT_STATE
+};
+
+// Multiplier on the recommended SBC that each set's pressures are checked
+// against. Service loads use the SBC of IS 6403 directly; factored loads carry
+// the IS 456 Table 18 load factor of 1.5, so they are checked against 1.5 × SBC.
+export const SBC_FACTORS: Record<CombinationSet, number> = {
+  'Working Stress': 1.0,
+  'Limit State': 1.5
+};
+
+/**
+ * Builds the combinations of a set that apply to the given load cases.
+ * Templates referring to a load type with no load case are skipped, and
+ * wind/seismic templates are expanded into + and − directions.
+ */
+export function generateLoadCombinations(cases: LoadCase[], set: CombinationSet): LoadCombination[] {
+  const present = new Set(cases.map(c => c.type));
+  const combinations: LoadCombination[] = [];
+
+  for (const template of COMBINATION_SETS[set]) {
+    const types = Object.keys(template.factors) as LoadCaseType[];
+    if (!types.every(t => present.has(t))) continue;
+
+    const reversible = types.find(t => REVERSIBLE.includes(t));
+    if (!reversible) {
+      combinations.push({ ...template });
+      continue;
+    }
+
+    for (const sign of [1, -1]) {
+      const label = reversible === 'Wind' ? 'WL' : 'EL';
+      combinations.push({
+        name: sign > 0 ? template.name : template.name.replace(new RegExp(`\\+ ([\\d.]*${label})`), '− $1'),
+        factors: { ...template.factors, [reversible]: sign * (template.factors[reversible] ?? 0) },
+        sbcIncrease: template.sbcIncrease
+      });
+    }
+  }
+
+  // Fall back to the plain sum so that a single ad-hoc case is still analysed
+  if (combinations.length === 0 && cases.length > 0) {
+    const factors: Partial<Record<LoadCaseType, number>> = {};
+    present.forEach(t => { factors[t] = 1.0; });
+    combinations.push({ name: 'Σ Unfactored', factors, sbcIncrease: 1.0 });
+  }
+
+  return combinations;
+}
+
+export function combineLoads(cases: LoadCase[], combination: LoadCombination): LoadingConditions {
+  return cases.reduce<LoadingConditions>(
+    (acc, c) => {
+      const f = (combination.factors[c.type] ?? 0) * (c.factor ?? 1);
+      return {
+        V: acc.V + f * c.V,
+        H: acc.H + f * c.H,
+        Mx: acc.Mx + f * c.Mx,
+        My: acc.My + f * c.My
+      };
+    },
+    { V: 0, H: 0, Mx: 0, My: 0 }
+  );
+}
+
+/**
+ * Runs the analysis for every combination and returns them with the governing
+ * (highest utilisation) combination first. Each combination is checked
+ * against the recommended SBC times the set's SBC factor and the permissible
+ * increase for wind or seismic load.
+ */
+export function analyseLoadCombinations(
+  cases: LoadCase[],
+  set: CombinationSet,
+  foundation: FoundationProperties,
+  analyse: (load: LoadingConditions) => CalculationResults
+): CombinationResult[] {
+  return generateLoadCombinations(cases, set)
+    .map(combination => {
+      const load = combineLoads(cases, combination);
+      const results = analyse(load);
+      const q_applied = appliedBasePressure(foundation, load, results);
+      const q_allowable = results.recommended_sbc * SBC_FACTORS[set] * combination.sbcIncrease;
+      return {
+        combination,
+        load,
+        results,
+        q_applied,
+        q_allowable,
+        utilisation: q_allowable > 0 ? q_applied / q_allowable : Infinity
+      };
+    })
+    .sort((a, b) => b.utilisation - a.utilisation);
+}
@@ -0,0 +1,195 @@
+import {
+  FoundationProperties,
+  LoadingConditions,
+  CalculationResults,
+  LoadCase,
+  CombinationSet,
+  OptimizerConstraints,
+  OptimizerConstraint,
+  OptimizerPoint,
+  OptimizerResult
+} from './types';
+import { analyseLoadCombinations } from './loads';
+import { assertValid, validateOptimizerConstraints } from './validation';
+
+export const DEFAULT_OPTIMIZER_CONSTRAINTS: OptimizerConstraints = {
+  maxSettlement: 25,
+  minB: 1.0,
+  maxB: 6.0,
+  maxLB: 2.0,
+  DfMin: 1.0,
+  DfMax: 3.0,
+  rounding: 0.05
+};
+
+// Depth levels drawn in the feasible-region chart
+const REGION_DEPTHS = 9;
+const MAX_TRIALS = 10000; // Trial footings before the search gives up, keeping the UI responsive
+
+const roundUp = (value: number, step: number) => Math.ceil(value / step - 1e-9) * step;
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+const planArea = (f: FoundationProperties) => {
+  switch (f.shape) {
+    case 'Strip/Continuous': return f.B;
+    case 'Circular': return (Math.PI / 4) * f.B * f.B;
+    default: return f.B * f.L;
+  }
+};
+
+/**
+ * Checks one trial footing against every load combination. Settlement from
+ * the engine is reported at qs and is scaled linearly to the applied pressure.
+ */
+export function checkTrialFooting(
+  foundation: FoundationProperties,
+  cases: LoadCase[],
+  set: CombinationSet,
+  maxSettlement: number,
+  analyse: (foundation: FoundationProperties, load: LoadingConditions) => CalculationResults
+): OptimizerPoint {
+  const combinations = analyseLoadCombinations(cases, set, foundation, l => analyse(foundation, l));
+  const utilisation = combinations[0]?.utilisation ?? 0;
+  const settlement = combinations.reduce((max, c) => {
+    const s = c.results.qs > 0 ? c.results.settlement * (c.q_applied / c.results.qs) : Infinity;
+    return Math.max(max, s);
+  }, 0);
+
+  const failing: OptimizerConstraint[] = [];
+  if (utilisation > 1) failing.push('Bearing');
+  if (settlement > maxSettlement) failing.push('Settlement');
+  if (combinations.some(c => c.results.eccentricity_check)) failing.push('Eccentricity');
+
+  return {
+    B: foundation.B,
+    L: foundation.L,
+    Df: foundation.Df,
+    area: planArea(foundation),
+    utilisation,
+    settlement,
+    failing
+  };
+}
+
+const describe = (point: OptimizerPoint, c: OptimizerConstraint, limit: number) => {
+  switch (c) {
+    case 'Bearing': return `bearing utilisation reaches ${(point.utilisation * 100).toFixed(0)}%`;
+    case 'Settlement': return `settlement reaches ${point.settlement.toFixed(1)} mm against ${limit} mm`;
+    case 'Eccentricity': return 'the load resultant leaves the middle third (e > B/6)';
+  }
+};
+
+/**
+ * Minimum-area footing satisfying bearing, settlement and eccentricity.
+ * For each founding depth and L/B ratio the width is increased in steps of
+ * the rounding increment until every check passes; the smallest plan area
+ * wins, with the shallower footing preferred on ties. The search stops after
+ * MAX_TRIALS trial footings and reports the best found so far.
+ */
+export function optimiseFooting(
+  template: FoundationProperties,
+  cases: LoadCase[],
+  set: CombinationSet,
+  constraints: OptimizerConstraints,
+  analyse: (foundation: FoundationProperties, load: LoadingConditions) => CalculationResults
+): OptimizerResult {
+  assertValid(validateOptimizerConstraints(constraints));
+  const step = constraints.rounding;
+  const minB = roundUp(Math.max(constraints.minB, step), step);
+  const DfMin = roundUp(constraints.DfMin, step);
+  const DfMax = Math.max(constraints.DfMax, DfMin);
+  const rectangular = template.shape === 'Rectangular';
+  let evaluations = 0;
+
+  const trial = (B: number, ratio: number, Df: number) => {
+    evaluations++;
+    const L = rectangular ? roundUp(B * ratio, step) : B;
+    return checkTrialFooting({ ...template, B, L, Df }, cases, set, constraints.maxSettlement, analyse);
+  };
+
+  const ratios: number[] = [];
+  if (rectangular) {
+    for (let r = 1; r <= Math.max(constraints.maxLB, 1) + 1e-9; r += 0.25) ratios.push(r);
+  } else {
+    ratios.push(1);
+  }
+
+  let optimum: OptimizerPoint | null = null;
+  let ratio = ratios[0];
+  let truncated = false;
+  for (let Df = DfMin; Df <= DfMax + 1e-9 && !truncated; Df = roundTo(Df + step, step)) {
+    for (const r of ratios) {
+      for (let B = minB; B <= constraints.maxB + 1e-9; B = roundTo(B + step, step)) {
+        if (evaluations >= MAX_TRIALS) {
+          truncated = true;
+          break;
+        }
+        // Any footing at least as large as the best found cannot improve on it
+        const L = rectangular ? roundUp(B * r, step) : B;
+        if (optimum && planArea({ ...template, B, L, Df }) >= optimum.area - 1e-9) break;
+        const point = trial(B, r, Df);
+        if (point.failing.length === 0) {
+          optimum = point;
+          ratio = r;
+          break;
+        }
+      }
+    }
+  }
+
+  // Feasible region at the chosen plan ratio
+  const region: OptimizerPoint[] = [];
+  const depthStep = Math.max(roundUp((DfMax - DfMin) / (REGION_DEPTHS - 1), step), step);
+  const widthStep = Math.max(roundUp((constraints.maxB - minB) / 40, step), step);
+  for (let Df = DfMin; Df <= DfMax + 1e-9; Df = roundTo(Df + depthStep, step)) {
+    for (let B = minB; B <= constraints.maxB + 1e-9; B = roundTo(B + widthStep, step)) {
+      region.push(trial(B, ratio, Df));
+    }
+  }
+
+  const stopped = truncated ? ` The search stopped after ${MAX_TRIALS} trials; coarsen the rounding or narrow the depth range to search every depth.` : '';
+
+  if (!optimum) {
+    return {
+      optimum: null,
+      governing: null,
+      explanation: `No footing between B = ${minB.toFixed(2)} and ${constraints.maxB.toFixed(2)} m satisfies every check. Widen the search range or relax the settlement limit.${stopped}`,
+      region,
+      ratio,
+      evaluations,
+      truncated
+    };
+  }
+
+  if (optimum.B <= minB + 1e-9) {
+    return {
+      optimum,
+      governing: 'Minimum width',
+      explanation: `The minimum width of ${minB.toFixed(2)} m already satisfies bearing and settlement; the lower bound governs.${stopped}`,
+      region,
+      ratio,
+      evaluations,
+      truncated
+    };
+  }
+
+  // The constraint that fails one increment below the optimum governs
+  const smaller = trial(roundTo(optimum.B - step, step), ratio, optimum.Df);
+  const governing = smaller.failing.reduce<OptimizerConstraint | null>((worst, c) => {
+    if (!worst) return c;
+    const severity = (k: OptimizerConstraint) => k === 'Bearing'
+      ? smaller.utilisation
+      : k === 'Settlement' ? smaller.settlement / constraints.maxSettlement : Infinity;
+    return severity(c) > severity(worst) ? c : worst;
+  }, null) ?? 'Bearing';
+
+  return {
+    optimum,
+    governing,
+    explanation: `${governing} governs: at B = ${smaller.B.toFixed(2)} m ${describe(smaller, governing, constraints.maxSettlement)}.${stopped}`,
+    region,
+    ratio,
+    evaluations,
+    truncated
+  };
+}
@@ -0,0 +1,279 @@
+import {
+  SoilLayer,
+  SoilProperties,
+  PileInputs,
+  PileInstallation,
+  PileShaftLayer,
+  PileSettlement,
+  PileResults
+} from './types';
+import { layerTops, layerIndexAtDepth, overburdenPressure } from './profile';
+import { calculateConsolidationSettlement } from './consolidation';
+import { elasticInfluenceFactor, DEFAULT_POISSON } from './settlement';
+
+export const DEFAULT_PILE: PileInputs = {
+  installation: 'Bored',
+  method: 'Static (α / β)',
+  D: 0.6,
+  length: 15,
+  cutoff: 1.5,
+  Ep: 25e6, // M25 concrete
+  rows: 2,
+  cols: 2,
+  spacing: 1.8,
+  dragDepth: 0,
+  FOS: 2.5
+};
+
+const SEGMENT = 0.25; // Longest shaft segment integrated (m)
+const NC_PILE = 9; // Bearing factor for the base in clay (IS 2911)
+const SHAFT_SHARE = 0.67; // Shaft load taken to act part-way down for the shortening (Vesic, 1977)
+const ALLOWABLE_SETTLEMENT = 25; // (mm), as for the shallow footing
+
+// Earth pressure coefficient K on the shaft, within the IS 2911 ranges (1–1.5 bored, 1–2 driven)
+const EARTH_PRESSURE: Record<PileInstallation, number> = { Bored: 1.0, Driven: 1.5 };
+
+// Meyerhof (1976) SPT coefficients: qb = a N Lb/D ≤ b N and fs = c N̄ ≤ 100 kPa; bored piles take a third of the base
+const MEYERHOF: Record<PileInstallation, { a: number; b: number; c: number }> = {
+  Driven: { a: 40, b: 400, c: 2 },
+  Bored: { a: 40 / 3, b: 400 / 3, c: 1 }
+};
+const MEYERHOF_FS_LIMIT = 100;
+
+// Berezantsev bearing factor Nq against φ (degrees) for L/D ≈ 20, as charted in IS 2911 Fig. 1
+const BEREZANTSEV_NQ: [number, number][] = [[20, 5], [25, 10], [30, 20], [35, 45], [40, 110], [45, 260]];
+
+/** Berezantsev Nq, interpolated on a log scale between the tabulated angles */
+export function berezantsevNq(phi: number): number {
+  if (phi <= 0) return 1;
+  const i = BEREZANTSEV_NQ.findIndex(([p]) => p >= phi);
+  if (i < 0) return BEREZANTSEV_NQ[BEREZANTSEV_NQ.length - 1][1];
+  const [p0, n0] = i === 0 ? [0, 1] : BEREZANTSEV_NQ[i - 1];
+  const [p1, n1] = BEREZANTSEV_NQ[i];
+  return n0 * Math.pow(n1 / n0, (phi - p0) / (p1 - p0));
+}
+
+/** Adhesion factor α: 1 up to cu = 40 kPa, falling linearly to 0.5 at 70 kPa and above (IS 2911) */
+export function adhesionFactor(cu: number): number {
+  if (cu <= 40) return 1;
+  if (cu >= 70) return 0.5;
+  return 1 - (0.5 * (cu - 40)) / 30;
+}
+
+/** Effective overburden stops growing below the critical depth, 15D for φ ≤ 30° to 20D for φ ≥ 40° */
+const criticalDepth = (phi: number, D: number) => D * (15 + 5 * Math.min(Math.max((phi - 30) / 10, 0), 1));
+
+// Clays are taken undrained, on cu where it is given
+const strength = (soil: SoilProperties) => {
+  const undrained = soil.type === 'Cohesive (Clay)' && soil.cu !== undefined;
+  return { c: undrained ? soil.cu! : soil.c, phi: undrained ? 0 : soil.phi };
+};
+
+/**
+ * Unit shaft friction at one depth: α c + K σ'v tan δ with δ = φ (IS 2911
+ * Annex B), or Meyerhof's N̄-based friction in sand for the SPT method. Soil
+ * moving past the pile, as downdrag or around a block, takes α = 1.
+ */
+function unitFriction(
+  soil: SoilProperties,
+  sigma_v: number,
+  inputs: PileInputs,
+  fullAdhesion: boolean
+): { fs: number; basis: string } {
+  if (inputs.method === 'SPT N (Meyerhof)' && soil.type === 'Cohesionless (Sand)' && soil.spt_n) {
+    return {
+      fs: Math.min(MEYERHOF[inputs.installation].c * soil.spt_n, MEYERHOF_FS_LIMIT),
+      basis: `N = ${soil.spt_n}`
+    };
+  }
+  const { c, phi } = strength(soil);
+  const alpha = fullAdhesion ? 1 : adhesionFactor(c);
+  const beta = EARTH_PRESSURE[inputs.installation] * Math.tan((phi * Math.PI) / 180);
+  const parts = [
+    ...(c > 0 ? [`α = ${alpha.toFixed(2)}`] : []),
+    ...(phi > 0 ? [`β = ${beta.toFixed(2)}`] : [])
+  ];
+  return { fs: alpha * c + beta * sigma_v, basis: parts.join(' + ') || '—' };
+}
+
+/**
+ * Capacity and settlement of a pile group to IS 2911 (Part 1). Single piles
+ * take end bearing and skin friction by the static α / β formulae or
+ * Meyerhof's SPT formula; skin friction above the downdrag depth acts down
+ * the pile instead. The group carries the lesser of η n Qu (Converse–Labarre)
+ * and the block enclosing the piles, and settles as an equivalent raft at
+ * two thirds of the embedded length below the downdrag zone (Tomlinson).
+ */
+export function analysePileGroup(
+  inputs: PileInputs,
+  layers: SoilLayer[],
+  waterTable: number | null,
+  load: number
+): PileResults {
+  const { D, length, cutoff, Ep, rows, cols, spacing, dragDepth, FOS, installation } = inputs;
+  if (!(D > 0)) throw new Error('Pile diameter must be greater than zero');
+  if (!(length > 0)) throw new Error('Pile length must be greater than zero');
+  if (!(cutoff >= 0)) throw new Error('Cut-off depth must be zero or more');
+  if (!(Ep > 0)) throw new Error('Pile modulus must be greater than zero');
+  if (!Number.isInteger(rows) || !Number.isInteger(cols) || rows < 1 || cols < 1) {
+    throw new Error('Rows and columns of piles must be whole numbers of at least 1');
+  }
+  const piles = rows * cols;
+  if (piles > 1 && !(spacing >= D)) throw new Error(`Spacing must be at least the pile diameter of ${D.toFixed(2)} m`);
+  if (!(dragDepth >= 0)) throw new Error('Downdrag depth must be zero or more');
+  if (!(FOS >= 1)) throw new Error('Factor of safety must be at least 1');
+
+  const tipDepth = cutoff + length;
+  if (dragDepth >= tipDepth) throw new Error('The pile tip must lie below the downdrag depth');
+  const Ap = (Math.PI * D * D) / 4;
+  const perimeter = Math.PI * D;
+  const tops = layerTops(layers);
+  const soilAt = (z: number) => layers[layerIndexAtDepth(layers, z)];
+  const sigmaAt = (z: number, soil: SoilProperties) => {
+    return overburdenPressure(layers, Math.min(z, cutoff + criticalDepth(strength(soil).phi, D)), waterTable);
+  };
+
+  // Shaft split at layer boundaries and the downdrag depth
+  const breaks = [cutoff, tipDepth, ...tops, dragDepth]
+    .filter(z => z >= cutoff && z <= tipDepth)
+    .sort((a, b) => a - b)
+    .filter((z, i, all) => i === 0 || z - all[i - 1] > 1e-9);
+
+  const shaft: PileShaftLayer[] = [];
+  let blockShaft = 0; // Σ fs h around the block (kN/m)
+  for (let k = 0; k + 1 < breaks.length; k++) {
+    const top = breaks[k];
+    const bottom = breaks[k + 1];
+    const negative = bottom <= dragDepth + 1e-9;
+    const soil = soilAt((top + bottom) / 2);
+    const steps = Math.ceil((bottom - top) / SEGMENT - 1e-9);
+    const h = (bottom - top) / steps;
+    let force = 0;
+    let basis = '';
+    for (let s = 0; s < steps; s++) {
+      const z = top + (s + 0.5) * h;
+      const friction = unitFriction(soil, sigmaAt(z, soil), inputs, negative);
+      force += friction.fs * perimeter * h;
+      basis = friction.basis;
+      if (!negative) blockShaft += unitFriction(soil, sigmaAt(z, soil), inputs, true).fs * h;
+    }
+    shaft.push({ top, bottom, type: soil.type, basis, fs: force / (perimeter * (bottom - top)), force, negative });
+  }
+
+  // End bearing; γ' for the Nγ term where the tip is below the water table
+  const tipSoil = soilAt(tipDepth - 1e-9);
+  const staticBase = (width: number) => {
+    const { c, phi } = strength(tipSoil);
+    if (phi <= 0) return { qb: c * NC_PILE, basis: `Nc = ${NC_PILE}` };
+    const Nq = berezantsevNq(phi);
+    const phiRad = (phi * Math.PI) / 180;
+    const Nq6403 = Math.exp(Math.PI * Math.tan(phiRad)) * Math.pow(Math.tan(Math.PI / 4 + phiRad / 2), 2);
+    const Ngamma = 2 * (Nq6403 + 1) * Math.tan(phiRad);
+    const gamma = waterTable !== null && tipDepth >= waterTable ? tipSoil.gamma_sub : tipSoil.gamma;
+    return {
+      qb: c * NC_PILE + sigmaAt(tipDepth, tipSoil) * Nq + 0.5 * width * gamma * Ngamma,
+      basis: `${c > 0 ? `Nc = ${NC_PILE}, ` : ''}Nq = ${Nq.toFixed(1)}, Nγ = ${Ngamma.toFixed(1)}`
+    };
+  };
+  let base = staticBase(D);
+  if (inputs.method === 'SPT N (Meyerhof)' && tipSoil.type === 'Cohesionless (Sand)' && tipSoil.spt_n) {
+    const N = tipSoil.spt_n;
+    const { a, b } = MEYERHOF[installation];
+    const Lb = tipDepth - Math.max(tops[layerIndexAtDepth(layers, tipDepth - 1e-9)], cutoff);
+    base = { qb: Math.min((a * N * Lb) / D, b * N), basis: `N = ${N}, Lb/D = ${(Lb / D).toFixed(1)}` };
+  }
+  const { qb, basis: tipBasis } = base;
+
+  const Qb = qb * Ap;
+  const Qs = shaft.filter(s => !s.negative).reduce((sum, s) => sum + s.force, 0);
+  const Qn = shaft.filter(s => s.negative).reduce((sum, s) => sum + s.force, 0);
+  const Qu = Qb + Qs;
+  const Qa = Qu / FOS - Qn;
+
+  // Group: Converse–Labarre efficiency against failure of the block as a whole
+  const theta = (Math.atan(D / spacing) * 180) / Math.PI;
+  const efficiency = piles > 1 ? 1 - (theta * ((rows - 1) * cols + (cols - 1) * rows)) / (90 * rows * cols) : 1;
+  const blockB = (cols - 1) * spacing + D;
+  const blockL = (rows - 1) * spacing + D;
+  const blockBase = inputs.method === 'SPT N (Meyerhof)' && tipBasis.startsWith('N =') ? qb : staticBase(Math.min(blockB, blockL)).qb;
+  const Qblock = piles > 1 ? blockBase * blockB * blockL + 2 * (blockB + blockL) * blockShaft : Qu;
+  const blockGoverns = piles > 1 && Qblock < efficiency * piles * Qu;
+  const Qgroup = Math.min(efficiency * piles * Qu, Qblock);
+  const Qallow = Qgroup / FOS - piles * Qn;
+  const utilisation = load <= 0 ? 0 : Qallow > 0 ? load / Qallow : Infinity;
+
+  // Equivalent raft, spread 1H : 4V from the top of the load-bearing length
+  const bearingTop = Math.max(cutoff, dragDepth);
+  const raftDepth = bearingTop + (2 / 3) * (tipDepth - bearingTop);
+  const spread = (raftDepth - bearingTop) / 2;
+  const raftB = blockB + spread;
+  const raftL = blockL + spread;
+  const q = Math.max(load, 0) / (raftB * raftL);
+  const raftFoundation = { shape: 'Rectangular' as const, B: Math.min(raftB, raftL), L: Math.max(raftB, raftL), Df: raftDepth };
+  // Soil below the raft settles under the pressure in excess of the overburden it already carries
+  const q_net = Math.max(q - overburdenPressure(layers, raftDepth, waterTable), 0);
+
+  const raftSoil = soilAt(raftDepth);
+  let elastic = 0;
+  if (raftSoil.Es && raftSoil.Es > 0) {
+    const mu = raftSoil.mu ?? DEFAULT_POISSON;
+    const rock = layers.findIndex((layer, j) => tops[j] > raftDepth && layer.type === 'Rock');
+    const H = rock >= 0 ? tops[rock] - raftDepth : Infinity;
+    const { Is } = elasticInfluenceFactor(raftFoundation, H, mu, 'Rigid');
+    elastic = (q_net * raftFoundation.B * (1 - mu * mu) * Is) / raftSoil.Es * 1000;
+  }
+  const consolidation = calculateConsolidationSettlement(layers, raftFoundation, q_net, waterTable).total;
+  const perPile = Math.max(load, 0) / piles;
+  const shortening = Qu > 0
+    ? ((perPile * (Qb + SHAFT_SHARE * Qs)) / Qu * length) / (Ap * Ep) * 1000
+    : 0;
+  const settlement: PileSettlement = {
+    raftDepth,
+    raftB,
+    raftL,
+    q,
+    q_net,
+    shortening,
+    elastic,
+    consolidation,
+    total: shortening + elastic + consolidation
+  };
+
+  const overloaded = utilisation > 1;
+  const settles = settlement.total > ALLOWABLE_SETTLEMENT;
+  const passes = !overloaded && !settles;
+  const explanation = Qallow <= 0
+    ? `Downdrag of ${(piles * Qn).toFixed(0)} kN uses the whole safe capacity of the group; lengthen the piles.`
+    : overloaded
+      ? `Column load ${load.toFixed(0)} kN exceeds the safe group load of ${Qallow.toFixed(0)} kN${blockGoverns ? ', governed by block failure' : ''}; add piles or lengthen them.`
+      : settles
+        ? `Group settlement of ${settlement.total.toFixed(1)} mm exceeds ${ALLOWABLE_SETTLEMENT} mm; lengthen the piles to reach stiffer soil.`
+        : `${piles} ${installation.toLowerCase()} piles carry ${load.toFixed(0)} kN within the safe group load of ${Qallow.toFixed(0)} kN, settling ${settlement.total.toFixed(1)} mm.`;
+
+  return {
+    tipDepth,
+    Ap,
+    perimeter,
+    qb,
+    tipBasis,
+    Qb,
+    Qs,
+    Qu,
+    Qn,
+    Qa,
+    shaft,
+    piles,
+    efficiency,
+    blockB,
+    blockL,
+    Qblock,
+    Qgroup,
+    Qallow,
+    blockGoverns,
+    load,
+    utilisation,
+    settlement,
+    passes,
+    explanation
+  };
+}
@@ -0,0 +1,48 @@
+// Soil profile geometry and stresses, shared by the engine, validation and the field-test modules
+import { SoilProperties, SoilLayer } from './types';
+
+// Clays carrying both total and effective strength parameters are checked at both stages
+export function hasDrainageStages(soil: SoilProperties): boolean {
+  return soil.type === 'Cohesive (Clay)' && soil.cu !== undefined && soil.phi_eff !== undefined;
+}
+
+// Depth of the top of each layer below ground level (m)
+export function layerTops(layers: SoilLayer[]): number[] {
+  const tops: number[] = [];
+  let depth = 0;
+  for (const layer of layers) {
+    tops.push(depth);
+    depth += layer.thickness;
+  }
+  return tops;
+}
+
+// Index of the layer containing the given depth; the last layer extends indefinitely
+export function layerIndexAtDepth(layers: SoilLayer[], depth: number): number {
+  const tops = layerTops(layers);
+  for (let i = layers.length - 1; i >= 0; i--) {
+    if (depth >= tops[i]) return i;
+  }
+  return 0;
+}
+
+// Effective vertical overburden pressure at a depth through a layered profile (kPa)
+export function overburdenPressure(
+  layers: SoilLayer[],
+  depth: number,
+  water_table_depth: number | null
+): number {
+  const tops = layerTops(layers);
+  let sigma = 0;
+  layers.forEach((layer, i) => {
+    const top = tops[i];
+    const bottom = i === layers.length - 1 ? Infinity : top + layer.thickness;
+    if (top >= depth) return;
+    const base = Math.min(bottom, depth);
+    const dry = water_table_depth === null
+      ? base - top
+      : Math.max(0, Math.min(base, water_table_depth) - top);
+    sigma += layer.gamma * dry + layer.gamma_sub * (base - top - dry);
+  });
+  return sigma;
+}
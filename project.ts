@@ -0,0 +1,250 @@
+import {
+  DesignInputs,
+  FootingDesign,
+  Project,
+  ProjectMetadata,
+  ProjectSummary
+} from './types';
+import { DEFAULT_SEISMIC } from './seismic';
+import { DEFAULT_RELIABILITY } from './reliability';
+import { DEFAULT_SPT_EQUIPMENT } from './spt';
+
+// Envelope written to exported project files
+const FILE_FORMAT = 'geotechcalc-project';
+const FILE_VERSION = 1;
+
+const DB_NAME = 'geotechcalc';
+const STORE = 'projects';
+const FALLBACK_KEY = 'geotechcalc:projects';
+const LAST_PROJECT_KEY = 'geotechcalc:lastProject';
+
+export const EMPTY_METADATA: ProjectMetadata = {
+  client: '',
+  site: '',
+  boreholeId: '',
+  engineer: ''
+};
+
+// Fields added after the first file version, filled in when reading older files
+const OPTIONAL_INPUTS: Pick<DesignInputs, 'profileMode' | 'combinationSet' | 'creepTime' | 'stressMethod' | 'method' | 'boreholes' | 'useBoreholeN' | 'sptEquipment' | 'seismic' | 'reliability'> = {
+  profileMode: 'Homogeneous',
+  combinationSet: 'Working Stress',
+  creepTime: 10,
+  stressMethod: 'Boussinesq',
+  method: 'IS 6403',
+  boreholes: [],
+  useBoreholeN: false,
+  sptEquipment: DEFAULT_SPT_EQUIPMENT,
+  seismic: DEFAULT_SEISMIC,
+  reliability: DEFAULT_RELIABILITY
+};
+
+/** Next free footing mark in the F1, F2, … sequence */
+export const nextFootingName = (footings: FootingDesign[]): string => {
+  const used = footings
+    .map(f => /^F(\d+)$/.exec(f.name))
+    .filter((m): m is RegExpExecArray => m !== null)
+    .map(m => parseInt(m[1], 10));
+  return `F${used.length > 0 ? Math.max(...used) + 1 : footings.length + 1}`;
+};
+
+export const createFooting = (footings: FootingDesign[], inputs: DesignInputs): FootingDesign => ({
+  id: crypto.randomUUID(),
+  name: nextFootingName(footings),
+  inputs: structuredClone(inputs)
+});
+
+export const createProject = (inputs: DesignInputs, name = 'Untitled Project'): Project => {
+  const footing = createFooting([], inputs);
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    metadata: { ...EMPTY_METADATA },
+    footings: [footing],
+    activeFootingId: footing.id,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const activeFooting = (project: Project): FootingDesign => {
+  return project.footings.find(f => f.id === project.activeFootingId) ?? project.footings[0];
+};
+
+/** Writes the live inputs back into the active footing */
+export const withActiveInputs = (project: Project, inputs: DesignInputs): Project => ({
+  ...project,
+  footings: project.footings.map(f => (f.id === project.activeFootingId ? { ...f, inputs } : f))
+});
+
+export const summariseProject = (project: Project): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  client: project.metadata.client,
+  footingCount: project.footings.length,
+  updatedAt: project.updatedAt
+});
+
+// --- Import / export ---
+
+export const serializeProject = (project: Project): string => {
+  return JSON.stringify({ format: FILE_FORMAT, version: FILE_VERSION, project }, null, 2);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const parseInputs = (raw: unknown, footingName: string): DesignInputs => {
+  if (!isObject(raw) || !isObject(raw.soil) || !isObject(raw.foundation)
+    || !Array.isArray(raw.layers) || !Array.isArray(raw.loadCases)
+    || typeof raw.waterTable !== 'number' || typeof raw.fos !== 'number') {
+    throw new Error(`Footing ${footingName} is missing soil, foundation, layer or load data`);
+  }
+  return { ...OPTIONAL_INPUTS, ...raw } as DesignInputs;
+};
+
+/** Reads an exported project file, throwing a readable error when it is not one */
+export const parseProjectFile = (text: string): Project => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (!isObject(data) || data.format !== FILE_FORMAT || !isObject(data.project)) {
+    throw new Error('File is not a GeotechCalc project');
+  }
+  if (typeof data.version !== 'number' || data.version > FILE_VERSION) {
+    throw new Error(`Project file version ${String(data.version)} is newer than this application supports`);
+  }
+  return parseProject(data.project);
+};
+
+/**
+ * Checks a stored or imported project and fills in the inputs added since it
+ * was saved, so older projects open with the current defaults.
+ */
+const parseProject = (raw: unknown): Project => {
+  if (!isObject(raw)) throw new Error('Project is malformed');
+  if (typeof raw.id !== 'string' || !Array.isArray(raw.footings) || raw.footings.length === 0) {
+    throw new Error('Project contains no footings');
+  }
+
+  const footings: FootingDesign[] = raw.footings.map((f: unknown, i: number) => {
+    if (!isObject(f)) throw new Error(`Footing ${i + 1} is malformed`);
+    const name = typeof f.name === 'string' ? f.name : `F${i + 1}`;
+    return {
+      id: typeof f.id === 'string' ? f.id : crypto.randomUUID(),
+      name,
+      inputs: parseInputs(f.inputs, name)
+    };
+  });
+  const activeFootingId = footings.some(f => f.id === raw.activeFootingId)
+    ? raw.activeFootingId as string
+    : footings[0].id;
+  const now = new Date().toISOString();
+
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' ? raw.name : 'Imported Project',
+    metadata: { ...EMPTY_METADATA, ...(isObject(raw.metadata) ? raw.metadata : {}) },
+    footings,
+    activeFootingId,
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : now,
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : now
+  };
+};
+
+// --- Persistence: IndexedDB, falling back to localStorage where unavailable ---
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const hasIndexedDB = () => typeof indexedDB !== 'undefined';
+
+const readFallback = (): Record<string, unknown> => {
+  try {
+    return JSON.parse(localStorage.getItem(FALLBACK_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeFallback = (projects: Record<string, unknown>) => {
+  localStorage.setItem(FALLBACK_KEY, JSON.stringify(projects));
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = hasIndexedDB()
+    ? await withStore<unknown[]>('readonly', store => store.getAll())
+    : Object.values(readFallback());
+  // A stored project that no longer parses is left out of the list rather than hiding the rest
+  return projects
+    .flatMap(raw => {
+      try {
+        return [summariseProject(parseProject(raw))];
+      } catch {
+        return [];
+      }
+    })
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const raw = hasIndexedDB()
+    ? await withStore<unknown>('readonly', store => store.get(id))
+    : readFallback()[id];
+  if (raw === undefined) return null;
+  const project = parseProject(raw);
+  localStorage.setItem(LAST_PROJECT_KEY, id);
+  return project;
+};
+
+export const loadLastProject = async (): Promise<Project | null> => {
+  const id = localStorage.getItem(LAST_PROJECT_KEY);
+  return id ? loadProject(id) : null;
+};
+
+export const saveProject = async (project: Project): Promise<Project> => {
+  const saved = { ...project, updatedAt: new Date().toISOString() };
+  if (hasIndexedDB()) {
+    await withStore('readwrite', store => store.put(saved));
+  } else {
+    writeFallback({ ...readFallback(), [saved.id]: saved });
+  }
+  localStorage.setItem(LAST_PROJECT_KEY, saved.id);
+  return saved;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  if (hasIndexedDB()) {
+    await withStore('readwrite', store => store.delete(id));
+  } else {
+    const { [id]: _removed, ...rest } = readFallback();
+    writeFallback(rest);
+  }
+  if (localStorage.getItem(LAST_PROJECT_KEY) === id) localStorage.removeItem(LAST_PROJECT_KEY);
+};
@@ -0,0 +1,415 @@
+import {
+  FoundationProperties,
+  LoadingConditions,
+  CalculationResults,
+  SoilLayer,
+  RaftPoint,
+  RaftInputs,
+  RaftContour,
+  RaftResults
+} from './types';
+import { totalOverburden } from './correlations';
+
+export const DEFAULT_RAFT: Omit<RaftInputs, 'columns'> = {
+  outline: [{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 15 }, { x: 0, y: 15 }],
+  Df: 3,
+  thickness: 0.8,
+  Ec: 25e6, // M25 concrete, 5000 √fck MPa (IS 456)
+  nu: 0.15,
+  gridSpacing: 1,
+  ks: null
+};
+
+const GAMMA_W = 9.81;
+const CONCRETE_UNIT_WEIGHT = 25; // Reinforced concrete (kN/m³, IS 875 Part 1)
+const ANGULAR_DISTORTION_LIMIT = 1 / 500; // No cracking of framed buildings (Bjerrum, 1963)
+const MAX_NODES = 3000;
+const CONTOUR_LEVELS = 6;
+
+/** Plan area (m²) and centroid of a polygon by the shoelace formula, either winding */
+export function polygonProperties(outline: RaftPoint[]): { area: number; centroid: RaftPoint } {
+  let twice = 0;
+  let cx = 0;
+  let cy = 0;
+  outline.forEach((p, i) => {
+    const q = outline[(i + 1) % outline.length];
+    const cross = p.x * q.y - q.x * p.y;
+    twice += cross;
+    cx += (p.x + q.x) * cross;
+    cy += (p.y + q.y) * cross;
+  });
+  const area = twice / 2;
+  return {
+    area: Math.abs(area),
+    centroid: area !== 0 ? { x: cx / (6 * area), y: cy / (6 * area) } : { x: NaN, y: NaN }
+  };
+}
+
+/** Ray-casting test for a point inside the outline */
+export function insideOutline(outline: RaftPoint[], x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[i];
+    const b = outline[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Solves K u = f in place for a symmetric positive definite matrix held as
+ * its lower band (row i keeps columns i − bw … i), by Cholesky factorisation.
+ */
+function solveBanded(band: Float64Array, n: number, bw: number, f: Float64Array): Float64Array {
+  const w = bw + 1;
+  const at = (i: number, j: number) => i * w + j - i + bw;
+  for (let i = 0; i < n; i++) {
+    const start = Math.max(0, i - bw);
+    for (let j = start; j <= i; j++) {
+      let sum = band[at(i, j)];
+      for (let k = Math.max(start, j - bw); k < j; k++) sum -= band[at(i, k)] * band[at(j, k)];
+      if (i === j) {
+        if (!(sum > 0)) throw new Error('Plate stiffness matrix is singular; check the raft outline and subgrade modulus');
+        band[at(i, i)] = Math.sqrt(sum);
+      } else {
+        band[at(i, j)] = sum / band[at(j, j)];
+      }
+    }
+  }
+  const u = Float64Array.from(f);
+  for (let i = 0; i < n; i++) {
+    for (let k = Math.max(0, i - bw); k < i; k++) u[i] -= band[at(i, k)] * u[k];
+    u[i] /= band[at(i, i)];
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    for (let k = i + 1; k <= Math.min(n - 1, i + bw); k++) u[i] -= band[at(k, i)] * u[k];
+    u[i] /= band[at(i, i)];
+  }
+  return u;
+}
+
+/**
+ * Settlement of the raft as a plate on Winkler springs. The plate is modelled
+ * as a grillage (Hambly, 1991): each grid line is a beam carrying the plate
+ * flexural rigidity D and torsional constant t³/6 over its tributary width,
+ * with w, ∂w/∂x and ∂w/∂y at every node and a spring ks × tributary area.
+ * Springs act in compression and tension alike.
+ *
+ * @returns Node settlements (m) by grid row then column, NaN off the raft
+ */
+export function winklerPlate(
+  cells: boolean[][],
+  dx: number,
+  dy: number,
+  thickness: number,
+  Ec: number,
+  nu: number,
+  ks: number,
+  nodeLoads: number[][]
+): number[][] {
+  const ny = cells.length;
+  const nx = ny > 0 ? cells[0].length : 0;
+  const exists = (i: number, j: number) =>
+    [[i - 1, j - 1], [i, j - 1], [i - 1, j], [i, j]].some(([ci, cj]) => cells[cj]?.[ci]);
+
+  // Number the nodes across the shorter side first to keep the band narrow
+  const ids: number[][] = Array.from({ length: ny + 1 }, () => new Array(nx + 1).fill(-1));
+  let count = 0;
+  const outer = nx >= ny ? nx : ny;
+  const inner = nx >= ny ? ny : nx;
+  for (let a = 0; a <= outer; a++) {
+    for (let b = 0; b <= inner; b++) {
+      const [i, j] = nx >= ny ? [a, b] : [b, a];
+      if (exists(i, j)) ids[j][i] = count++;
+    }
+  }
+  if (count > MAX_NODES) throw new Error(`Grid of ${count} nodes is too fine; increase the grid spacing`);
+
+  let bwNodes = 0;
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      if (!cells[j][i]) continue;
+      const corners = [ids[j][i], ids[j][i + 1], ids[j + 1][i + 1], ids[j + 1][i]];
+      bwNodes = Math.max(bwNodes, Math.max(...corners) - Math.min(...corners));
+    }
+  }
+  const n = 3 * count;
+  const bw = 3 * bwNodes + 2;
+  const band = new Float64Array(n * (bw + 1));
+  const add = (r: number, c: number, value: number) => {
+    const [i, j] = r >= c ? [r, c] : [c, r];
+    band[i * (bw + 1) + j - i + bw] += value;
+  };
+
+  const D = (Ec * Math.pow(thickness, 3)) / (12 * (1 - nu * nu));
+  const GJ = (Ec / (2 * (1 + nu))) * Math.pow(thickness, 3) / 6;
+
+  // Beam from node a to b: bending in w and the slope along it, torsion in the slope across it
+  const beam = (a: number, b: number, h: number, width: number, along: 1 | 2, across: 1 | 2) => {
+    const EI = D * width;
+    const dofs = [3 * a, 3 * a + along, 3 * b, 3 * b + along];
+    const k = [
+      [12, 6 * h, -12, 6 * h],
+      [6 * h, 4 * h * h, -6 * h, 2 * h * h],
+      [-12, -6 * h, 12, -6 * h],
+      [6 * h, 2 * h * h, -6 * h, 4 * h * h]
+    ];
+    for (let r = 0; r < 4; r++) {
+      for (let c = 0; c <= r; c++) add(dofs[r], dofs[c], (EI / (h * h * h)) * k[r][c]);
+    }
+    const kt = (GJ * width) / h;
+    add(3 * a + across, 3 * a + across, kt);
+    add(3 * b + across, 3 * b + across, kt);
+    add(3 * b + across, 3 * a + across, -kt);
+  };
+
+  // Each cell gives half its width to the beams on its edges and a quarter of its area to each corner
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      if (!cells[j][i]) continue;
+      const [n00, n10, n11, n01] = [ids[j][i], ids[j][i + 1], ids[j + 1][i + 1], ids[j + 1][i]];
+      beam(n00, n10, dx, dy / 2, 1, 2);
+      beam(n01, n11, dx, dy / 2, 1, 2);
+      beam(n00, n01, dy, dx / 2, 2, 1);
+      beam(n10, n11, dy, dx / 2, 2, 1);
+      [n00, n10, n11, n01].forEach(id => add(3 * id, 3 * id, (ks * dx * dy) / 4));
+    }
+  }
+
+  const f = new Float64Array(n);
+  ids.forEach((row, j) => row.forEach((id, i) => {
+    if (id >= 0) f[3 * id] = nodeLoads[j][i];
+  }));
+  const u = solveBanded(band, n, bw, f);
+  return ids.map(row => row.map(id => (id >= 0 ? u[3 * id] : NaN)));
+}
+
+/** Settlement contours (mm) by marching squares over the cells of the raft */
+function settlementContours(
+  settlements: number[][],
+  cells: boolean[][],
+  x0: number,
+  y0: number,
+  dx: number,
+  dy: number,
+  levels: number[]
+): RaftContour[] {
+  return levels.map(level => {
+    const segments: RaftContour['segments'] = [];
+    const lerp = (a: number, b: number) => (a === b ? 0.5 : (level - a) / (b - a));
+    cells.forEach((row, j) => row.forEach((inside, i) => {
+      if (!inside) return;
+      const cx = x0 + i * dx;
+      const cy = y0 + j * dy;
+      const v = [settlements[j][i], settlements[j][i + 1], settlements[j + 1][i + 1], settlements[j + 1][i]];
+      const edges: [number, number][] = [];
+
+      // Cell edges: bottom, right, top, left
+      if ((v[0] >= level) !== (v[1] >= level)) edges.push([cx + lerp(v[0], v[1]) * dx, cy]);
+      if ((v[1] >= level) !== (v[2] >= level)) edges.push([cx + dx, cy + lerp(v[1], v[2]) * dy]);
+      if ((v[3] >= level) !== (v[2] >= level)) edges.push([cx + lerp(v[3], v[2]) * dx, cy + dy]);
+      if ((v[0] >= level) !== (v[3] >= level)) edges.push([cx, cy + lerp(v[0], v[3]) * dy]);
+
+      for (let k = 0; k + 1 < edges.length; k += 2) {
+        segments.push([edges[k][0], edges[k][1], edges[k + 1][0], edges[k + 1][1]]);
+      }
+    }));
+    return { level, segments };
+  });
+}
+
+/**
+ * Raft (mat) foundation under column loads. The net pressure is the gross
+ * pressure from the columns and raft weight less the total stress removed by
+ * the excavation, which also accounts for the water pressure on the
+ * underside, and is checked against the net safe capacity of the equivalent
+ * rectangle from the active soil model. Settlement comes from a Winkler plate
+ * analysis with ks = Es / (B (1 − μ²) Is) for the flexible average Is, or
+ * 40 qu (Bowles, 1996) when the soil has no modulus.
+ */
+export function analyseRaft(
+  inputs: RaftInputs,
+  layers: SoilLayer[],
+  waterTable: number | null,
+  analyse: (foundation: FoundationProperties, load: LoadingConditions) => CalculationResults
+): RaftResults {
+  const { outline, columns, Df, thickness, Ec, nu, gridSpacing } = inputs;
+  if (outline.length < 3) throw new Error('The raft outline needs at least three vertices');
+  if (outline.some(p => !Number.isFinite(p.x) || !Number.isFinite(p.y))) throw new Error('Every outline vertex needs x and y');
+  if (columns.length === 0) throw new Error('Add at least one column to the raft');
+  if (columns.some(c => !Number.isFinite(c.x) || !Number.isFinite(c.y) || !Number.isFinite(c.V))) {
+    throw new Error('Every column needs a position and load');
+  }
+  if (!(Df >= 0)) throw new Error('Founding depth must be zero or more');
+  if (!(thickness > 0)) throw new Error('Raft thickness must be greater than zero');
+  if (!(Ec > 0)) throw new Error('Concrete modulus must be greater than zero');
+  if (!(nu >= 0 && nu < 0.5)) throw new Error("Concrete Poisson's ratio must be at least 0 and below 0.5");
+  if (!(gridSpacing > 0)) throw new Error('Grid spacing must be greater than zero');
+  if (inputs.ks !== null && !(inputs.ks > 0)) throw new Error('Subgrade modulus must be greater than zero');
+
+  const { area, centroid } = polygonProperties(outline);
+  if (!(area > 0)) throw new Error('The raft outline encloses no area');
+  const outside = columns.find(c => !insideOutline(outline, c.x, c.y));
+  if (outside) throw new Error(`Column ${outside.name} lies outside the raft outline`);
+
+  // Pressures at founding level
+  const columnLoad = columns.reduce((sum, c) => sum + c.V, 0);
+  if (columnLoad <= 0) throw new Error('Total column load must be greater than zero');
+  const selfWeight = CONCRETE_UNIT_WEIGHT * thickness * area;
+  const total = columnLoad + selfWeight;
+  const q_gross = total / area;
+  const uplift = waterTable !== null ? GAMMA_W * Math.max(Df - waterTable, 0) : 0;
+  const sigma_v0 = totalOverburden(layers, Df, waterTable);
+  const q_net = q_gross - sigma_v0;
+  const flotationFactor = uplift > 0 ? total / (uplift * area) : Infinity;
+
+  // Resultant about the centroid; the raft weight acts there
+  const eccentricity = {
+    x: columns.reduce((sum, c) => sum + c.V * (c.x - centroid.x), 0) / total,
+    y: columns.reduce((sum, c) => sum + c.V * (c.y - centroid.y), 0) / total
+  };
+
+  // Bearing check on the rectangle of equal area spanning the longer plan dimension
+  const xs = outline.map(p => p.x);
+  const ys = outline.map(p => p.y);
+  const x0 = Math.min(...xs);
+  const y0 = Math.min(...ys);
+  const spanX = Math.max(...xs) - x0;
+  const spanY = Math.max(...ys) - y0;
+  const L = Math.max(spanX, spanY);
+  const B = area / L;
+  const [eL, eB] = spanX >= spanY ? [eccentricity.x, eccentricity.y] : [eccentricity.y, eccentricity.x];
+  const bearing = analyse(
+    { shape: 'Rectangular', B, L, Df, settlementCase: 'Flexible average' },
+    { V: total, H: 0, Mx: total * Math.abs(eL), My: total * Math.abs(eB) }
+  );
+  const netAllowable = bearing.recommended_sbc - (bearing.qs - bearing.qns);
+  const utilisation = netAllowable > 0 ? Math.max(q_net, 0) / netAllowable : Infinity;
+
+  let ks: number;
+  let ksSource: string;
+  if (inputs.ks !== null) {
+    ks = inputs.ks;
+    ksSource = 'Entered';
+  } else if (bearing.elastic) {
+    const { Es, mu, Is } = bearing.elastic;
+    ks = Es / (B * (1 - mu * mu) * Is);
+    ksSource = `Es / (B (1 − μ²) Is), Es = ${Es.toFixed(0)} kPa, Is = ${Is.toFixed(3)}`;
+  } else {
+    ks = 40 * bearing.qu;
+    ksSource = `Bowles (1996): 40 qu, qu = ${bearing.qu.toFixed(0)} kPa`;
+  }
+
+  // Grid fitted to the plan extent; a cell belongs to the raft when its centre does
+  const nx = Math.max(1, Math.round(spanX / gridSpacing));
+  const ny = Math.max(1, Math.round(spanY / gridSpacing));
+  const dx = spanX / nx;
+  const dy = spanY / ny;
+  const cells = Array.from({ length: ny }, (_, j) =>
+    Array.from({ length: nx }, (_, i) => insideOutline(outline, x0 + (i + 0.5) * dx, y0 + (j + 0.5) * dy))
+  );
+  if (!cells.some(row => row.some(Boolean))) throw new Error('Grid spacing is too coarse for the raft outline');
+
+  // Raft weight less the excavated stress spread over the cells; columns shared bilinearly within their cell
+  const nodeLoads = Array.from({ length: ny + 1 }, () => new Array(nx + 1).fill(0));
+  const cellLoad = ((selfWeight / area - sigma_v0) * dx * dy) / 4;
+  cells.forEach((row, j) => row.forEach((inside, i) => {
+    if (!inside) return;
+    nodeLoads[j][i] += cellLoad;
+    nodeLoads[j][i + 1] += cellLoad;
+    nodeLoads[j + 1][i + 1] += cellLoad;
+    nodeLoads[j + 1][i] += cellLoad;
+  }));
+  columns.forEach(c => {
+    const i = Math.min(Math.floor((c.x - x0) / dx), nx - 1);
+    const j = Math.min(Math.floor((c.y - y0) / dy), ny - 1);
+    if (cells[j]?.[i]) {
+      const s = (c.x - x0) / dx - i;
+      const t = (c.y - y0) / dy - j;
+      nodeLoads[j][i] += c.V * (1 - s) * (1 - t);
+      nodeLoads[j][i + 1] += c.V * s * (1 - t);
+      nodeLoads[j + 1][i + 1] += c.V * s * t;
+      nodeLoads[j + 1][i] += c.V * (1 - s) * t;
+      return;
+    }
+    // Column near a stepped edge of the grid: nearest node of the raft
+    let best: [number, number] = [0, 0];
+    let nearest = Infinity;
+    cells.forEach((row, cj) => row.forEach((inside, ci) => {
+      if (!inside) return;
+      [[ci, cj], [ci + 1, cj], [ci, cj + 1], [ci + 1, cj + 1]].forEach(([ni, nj]) => {
+        const d = Math.hypot(x0 + ni * dx - c.x, y0 + nj * dy - c.y);
+        if (d < nearest) {
+          nearest = d;
+          best = [ni, nj];
+        }
+      });
+    }));
+    nodeLoads[best[1]][best[0]] += c.V;
+  });
+
+  const settlements = winklerPlate(cells, dx, dy, thickness, Ec, nu, ks, nodeLoads).map(row => row.map(w => w * 1000));
+  const values = settlements.flat().filter(w => !Number.isNaN(w));
+  const maxSettlement = Math.max(...values);
+  const minSettlement = Math.min(...values);
+  const differential = maxSettlement - minSettlement;
+
+  let angularDistortion = 0;
+  settlements.forEach((row, j) => row.forEach((w, i) => {
+    if (Number.isNaN(w)) return;
+    const right = row[i + 1];
+    const above = settlements[j + 1]?.[i];
+    if (right !== undefined && !Number.isNaN(right)) angularDistortion = Math.max(angularDistortion, Math.abs(right - w) / 1000 / dx);
+    if (above !== undefined && !Number.isNaN(above)) angularDistortion = Math.max(angularDistortion, Math.abs(above - w) / 1000 / dy);
+  }));
+
+  const levels = differential > 0.05
+    ? Array.from({ length: CONTOUR_LEVELS - 1 }, (_, k) => parseFloat((minSettlement + ((k + 1) * differential) / CONTOUR_LEVELS).toFixed(1)))
+    : [];
+  const contours = settlementContours(settlements, cells, x0, y0, dx, dy, levels);
+
+  const floats = flotationFactor < 1;
+  const overstressed = utilisation > 1;
+  const distorted = angularDistortion > ANGULAR_DISTORTION_LIMIT;
+  const passes = !floats && !overstressed && !distorted;
+  const explanation = floats
+    ? `Water pressure of ${uplift.toFixed(1)} kPa on the underside exceeds the weight of the raft and its loads; it would float.`
+    : overstressed
+      ? `Net pressure ${q_net.toFixed(1)} kPa exceeds the net allowable ${netAllowable.toFixed(1)} kPa; deepen the raft for more compensation or enlarge it.`
+      : distorted
+        ? `Angular distortion of 1 in ${Math.round(1 / angularDistortion)} exceeds 1 in ${Math.round(1 / ANGULAR_DISTORTION_LIMIT)}; thicken the raft or rebalance the columns.`
+        : q_net <= 0
+          ? `Fully compensated: the excavation removes ${sigma_v0.toFixed(1)} kPa against a gross pressure of ${q_gross.toFixed(1)} kPa.`
+          : `Net pressure ${q_net.toFixed(1)} kPa is within the net allowable ${netAllowable.toFixed(1)} kPa, with ${differential.toFixed(1)} mm differential settlement.`;
+
+  return {
+    area,
+    centroid,
+    B,
+    L,
+    columnLoad,
+    selfWeight,
+    eccentricity,
+    q_gross,
+    uplift,
+    sigma_v0,
+    q_net,
+    compensation: sigma_v0 / q_gross,
+    flotationFactor,
+    bearing,
+    netAllowable,
+    utilisation,
+    ks,
+    ksSource,
+    grid: { x0, y0, dx, dy, nx, ny },
+    settlements,
+    maxSettlement,
+    minSettlement,
+    differential,
+    angularDistortion,
+    maxPressure: (ks * maxSettlement) / 1000,
+    contours,
+    passes,
+    explanation
+  };
+}
@@ -0,0 +1,215 @@
+import {
+  SoilProperties,
+  UncertainParameter,
+  ParameterDistribution,
+  ReliabilityInputs,
+  MonteCarloJob,
+  SampleStatistics,
+  HistogramBin,
+  ReliabilityResults
+} from './types';
+import { calculateBearingCapacity, calculateLayeredBearingCapacity } from './engine';
+import { InputValidationError } from './validation';
+
+export const DEFAULT_RELIABILITY: ReliabilityInputs = {
+  enabled: false,
+  samples: 5000,
+  seed: 1,
+  distributions: {
+    c: { type: 'Lognormal', cov: 0.3, truncation: 2 },
+    phi: { type: 'Truncated normal', cov: 0.1, truncation: 2 },
+    gamma: { type: 'Normal', cov: 0.05, truncation: 2 },
+    spt_n: { type: 'Lognormal', cov: 0.3, truncation: 2 },
+    Es: { type: 'Lognormal', cov: 0.3, truncation: 2 }
+  },
+  rho_c_phi: -0.5
+};
+
+export const UNCERTAIN_PARAMETERS: { key: UncertainParameter; label: string; unit: string }[] = [
+  { key: 'c', label: 'Cohesion c', unit: 'kPa' },
+  { key: 'phi', label: 'Friction angle φ', unit: '°' },
+  { key: 'gamma', label: 'Unit weight γ', unit: 'kN/m³' },
+  { key: 'spt_n', label: 'SPT N', unit: '' },
+  { key: 'Es', label: 'Elastic modulus Es', unit: 'kPa' }
+];
+
+const PROGRESS_STEP = 500; // Samples between progress reports
+const HISTOGRAM_BINS = 30;
+
+/** Seeded uniform generator on (0, 1) (mulberry32) so a run can be repeated exactly */
+export function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (((t ^ (t >>> 14)) >>> 0) + 0.5) / 4294967297;
+  };
+}
+
+// Standard normal deviate by the Box-Muller transform
+const standardNormal = (random: () => number) => Math.sqrt(-2 * Math.log(random())) * Math.cos(2 * Math.PI * random());
+
+/** Inverse standard normal CDF (Acklam, 2003), relative error below 1.2e-9 */
+export function inverseNormal(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const tail = (q: number) => (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  if (p < 0.02425) return tail(Math.sqrt(-2 * Math.log(p)));
+  if (p > 1 - 0.02425) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q
+    / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Value of a parameter with mean μ for the standard normal deviate z. A
+ * lognormal keeps the mean and COV of the input. Normal values are not
+ * clipped: a draw outside the engine's range is counted as a failure.
+ */
+function fromDeviate(mean: number, dist: ParameterDistribution, z: number): number {
+  if (dist.cov <= 0 || mean <= 0) return mean;
+  if (dist.type === 'Lognormal') {
+    const sigmaLn = Math.sqrt(Math.log(1 + dist.cov * dist.cov));
+    return Math.exp(Math.log(mean) - (sigmaLn * sigmaLn) / 2 + sigmaLn * z);
+  }
+  return mean * (1 + dist.cov * z);
+}
+
+/**
+ * Correlated deviates for c and φ (ρ applied in the underlying normal space),
+ * redrawn until both lie within the bounds of a truncated normal.
+ */
+function correlatedDeviates(random: () => number, reliability: ReliabilityInputs): [number, number] {
+  const { c, phi } = reliability.distributions;
+  const rho = reliability.rho_c_phi;
+  const within = (dist: ParameterDistribution, z: number) => dist.type !== 'Truncated normal' || Math.abs(z) <= dist.truncation;
+  for (;;) {
+    const z1 = standardNormal(random);
+    const z2 = rho * z1 + Math.sqrt(1 - rho * rho) * standardNormal(random);
+    if (within(c, z1) && within(phi, z2)) return [z1, z2];
+  }
+}
+
+function deviate(random: () => number, dist: ParameterDistribution): number {
+  for (;;) {
+    const z = standardNormal(random);
+    if (dist.type !== 'Truncated normal' || Math.abs(z) <= dist.truncation) return z;
+  }
+}
+
+/** One random realisation of a soil; γ' moves with γ so the two stay consistent */
+export function sampleSoil<T extends SoilProperties>(soil: T, reliability: ReliabilityInputs, random: () => number): T {
+  const { distributions } = reliability;
+  const [zc, zphi] = correlatedDeviates(random, reliability);
+  const gamma = fromDeviate(soil.gamma, distributions.gamma, deviate(random, distributions.gamma));
+  const spt_n = soil.spt_n !== undefined ? fromDeviate(soil.spt_n, distributions.spt_n, deviate(random, distributions.spt_n)) : undefined;
+  const Es = soil.Es !== undefined ? fromDeviate(soil.Es, distributions.Es, deviate(random, distributions.Es)) : undefined;
+  return {
+    ...soil,
+    c: fromDeviate(soil.c, distributions.c, zc),
+    phi: fromDeviate(soil.phi, distributions.phi, zphi),
+    gamma,
+    gamma_sub: soil.gamma_sub + gamma - soil.gamma,
+    spt_n,
+    Es
+  };
+}
+
+function statistics(values: number[]): SampleStatistics {
+  const n = values.length;
+  if (n === 0) return { mean: NaN, sd: NaN, cov: NaN, p05: NaN, p95: NaN };
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  const sd = n > 1 ? Math.sqrt(values.reduce((a, v) => a + (v - mean) * (v - mean), 0) / (n - 1)) : 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(Math.floor(p * n), n - 1)];
+  return { mean, sd, cov: mean !== 0 ? sd / mean : NaN, p05: percentile(0.05), p95: percentile(0.95) };
+}
+
+function histogram(values: number[], bins = HISTOGRAM_BINS): HistogramBin[] {
+  if (values.length === 0) return [];
+  const min = values.reduce((a, b) => Math.min(a, b));
+  const max = values.reduce((a, b) => Math.max(a, b));
+  const width = max > min ? (max - min) / bins : 1;
+  const result = Array.from({ length: max > min ? bins : 1 }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  values.forEach(v => { result[Math.min(Math.floor((v - min) / width), result.length - 1)].count++; });
+  return result;
+}
+
+/**
+ * Monte Carlo reliability of a footing: every sample redraws the soil
+ * parameters from their distributions (each layer independently) and runs the
+ * bearing capacity engine. β comes from the sampled probability of failure,
+ * or from a lognormal fit of qu when the samples hold no failure to count.
+ * A draw outside the engine's valid input range (a negative value, φ > 50°,
+ * c = φ = 0) has no capacity to compute and is counted as a failure, so pf
+ * is taken over every sample drawn; the rejected count is returned with it.
+ */
+export function runMonteCarlo(job: MonteCarloJob, onProgress?: (done: number) => void): ReliabilityResults {
+  const { foundation, load, waterTable, fos, method, q_applied, reliability } = job;
+  const random = createRandom(reliability.seed);
+  const qu: number[] = [];
+  const sbc: number[] = [];
+  const settlement: number[] = [];
+  let rejected = 0;
+
+  for (let i = 0; i < reliability.samples; i++) {
+    const spt_n = job.spt_n !== undefined
+      ? fromDeviate(job.spt_n, reliability.distributions.spt_n, deviate(random, reliability.distributions.spt_n))
+      : undefined;
+    const soil = Array.isArray(job.soil) ? job.soil.map(layer => sampleSoil(layer, reliability, random)) : sampleSoil(job.soil, reliability, random);
+    // The engine takes the SPT N override without validating it
+    if (spt_n !== undefined && spt_n < 0) {
+      rejected++;
+    } else {
+      try {
+        const results = Array.isArray(soil)
+          ? calculateLayeredBearingCapacity(soil, foundation, load, waterTable, fos, { method, spt_n })
+          : calculateBearingCapacity(soil, foundation, load, waterTable, fos, { method, spt_n });
+        qu.push(results.qu);
+        sbc.push(results.recommended_sbc);
+        settlement.push(results.settlement);
+      } catch (err) {
+        // Only a sample outside the engine's valid input range is a failure; anything else is a bug
+        if (!(err instanceof InputValidationError)) throw err;
+        rejected++;
+      }
+    }
+    if (onProgress && (i + 1) % PROGRESS_STEP === 0) onProgress(i + 1);
+  }
+  if (qu.length === 0) throw new Error('Every sample was rejected by the engine; reduce the COV of c and φ');
+
+  const quStats = statistics(qu);
+  const failures = qu.filter(q => q <= q_applied).length + rejected;
+  const pf = failures / reliability.samples;
+  const sampled = failures > 0 && failures < reliability.samples;
+  const sigmaLn = Math.sqrt(Math.log(1 + quStats.cov * quStats.cov));
+  const beta = sampled
+    ? -inverseNormal(pf)
+    : sigmaLn > 0
+      ? Math.log(quStats.mean / Math.sqrt(1 + quStats.cov * quStats.cov) / q_applied) / sigmaLn
+      : quStats.mean > q_applied ? Infinity : -Infinity;
+
+  return {
+    samples: reliability.samples,
+    rejected,
+    rejectedFraction: rejected / reliability.samples,
+    q_applied,
+    qu: quStats,
+    sbc: statistics(sbc),
+    settlement: statistics(settlement),
+    failures,
+    pf,
+    beta,
+    betaMethod: sampled ? 'Sampled' : 'Lognormal fit',
+    pAllowable: (sbc.filter(q => q < q_applied).length + rejected) / reliability.samples,
+    quHistogram: histogram(qu),
+    settlementHistogram: histogram(settlement)
+  };
+}
@@ -0,0 +1,15 @@
+import { MonteCarloJob, ReliabilityMessage } from './types';
+import { runMonteCarlo } from './reliability';
+
+// Runs Monte Carlo jobs off the main thread; the app terminates the worker to cancel a run
+const ctx = self as unknown as Worker;
+const post = (message: ReliabilityMessage) => ctx.postMessage(message);
+
+ctx.onmessage = (event: MessageEvent<MonteCarloJob>) => {
+  try {
+    const result = runMonteCarlo(event.data, done => post({ type: 'progress', done }));
+    post({ type: 'result', result });
+  } catch (err) {
+    post({ type: 'error', message: (err as Error).message });
+  }
+};
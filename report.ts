@@ -0,0 +1,410 @@
+import { jsPDF } from 'jspdf';
+import { svg2pdf } from 'svg2pdf.js';
+import { ReportData, CalculationResults } from './types';
+import { BEARING_CAPACITY_METHODS, DRAINAGE_STAGES } from './engine';
+import { layerIndexAtDepth } from './profile';
+import { parameterSources, FIELD_LABELS } from './correlations';
+import { DEFAULT_POISSON } from './settlement';
+import { UNCERTAIN_PARAMETERS } from './reliability';
+import { SBC_FACTORS } from './loads';
+
+const SEQUENCE_KEY = 'geotechcalc:reportSequence';
+
+const PAGE_W = 210;
+const PAGE_H = 297;
+const MARGIN = 15;
+const CONTENT_W = PAGE_W - 2 * MARGIN;
+const BODY_TOP = 28;
+const BODY_BOTTOM = PAGE_H - 18;
+const ROW_H = 6;
+
+// --- Report numbering: GTR-<year>-<nnnn>, restarting each calendar year ---
+
+interface ReportSequence {
+  year: number;
+  last: number;
+}
+
+const readSequence = (): ReportSequence => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SEQUENCE_KEY) ?? 'null') as ReportSequence | null;
+    const year = new Date().getFullYear();
+    return stored && stored.year === year ? stored : { year, last: 0 };
+  } catch {
+    return { year: new Date().getFullYear(), last: 0 };
+  }
+};
+
+const formatReportNumber = (seq: ReportSequence) => `GTR-${seq.year}-${String(seq.last).padStart(4, '0')}`;
+
+/** Number the next issued report will carry, without consuming it */
+export const peekReportNumber = (): string => {
+  const seq = readSequence();
+  return formatReportNumber({ ...seq, last: seq.last + 1 });
+};
+
+/** Consumes and returns the next report number */
+export const issueReportNumber = (): string => {
+  const seq = readSequence();
+  const next = { ...seq, last: seq.last + 1 };
+  localStorage.setItem(SEQUENCE_KEY, JSON.stringify(next));
+  return formatReportNumber(next);
+};
+
+// --- Layout helpers ---
+
+// The standard PDF fonts only cover Latin-1; spell out the Greek and maths symbols
+const GLYPHS: Record<string, string> = {
+  'φ': 'phi', 'Φ': 'phi', 'γ': 'gamma', 'σ': 'sigma', 'Δ': 'd', 'α': 'alpha', 'μ': 'mu', 'β': 'beta', 'ρ': 'rho',
+  'δ': 'delta', 'η': 'eta', 'Σ': 'sum ', '∂': 'd',
+  '·': '*', '≤': '<=', '≥': '>=', '≈': '~', '→': '->', '×': 'x', '−': '-', '⁻': '-', '–': '-', '—': '-', '…': '...',
+  '√': 'sqrt', '′': "'", '²': '2', '³': '3'
+};
+// Anything else outside Latin-1 loses its accents (Vesić → Vesic) or becomes '?'
+const latin1 = (ch: string) => (/^\p{M}$/u.test(ch) ? '' : ch.normalize('NFD').replace(/\p{M}/gu, '').replace(/[^\x00-\xff]/gu, '') || '?');
+const pdfText = (value: string | number) => String(value).replace(/[^\x00-\xff]|[·×²³]/gu, ch => GLYPHS[ch] ?? latin1(ch));
+
+const fmt = (value: number, digits = 2) => (Number.isFinite(value) ? value.toFixed(digits) : '-');
+
+class ReportWriter {
+  readonly doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+  y = BODY_TOP;
+
+  ensure(height: number) {
+    if (this.y + height > BODY_BOTTOM) {
+      this.doc.addPage();
+      this.y = BODY_TOP;
+    }
+  }
+
+  heading(text: string) {
+    this.ensure(14);
+    this.y += 4;
+    this.doc.setFont('helvetica', 'bold').setFontSize(11).setTextColor(30, 41, 59);
+    this.doc.text(pdfText(text), MARGIN, this.y);
+    this.doc.setDrawColor(79, 70, 229).setLineWidth(0.5).line(MARGIN, this.y + 1.5, MARGIN + CONTENT_W, this.y + 1.5);
+    this.y += 6;
+  }
+
+  paragraph(text: string) {
+    this.doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(71, 85, 105);
+    const lines = this.doc.splitTextToSize(pdfText(text), CONTENT_W) as string[];
+    this.ensure(lines.length * 4);
+    this.doc.text(lines, MARGIN, this.y + 3);
+    this.y += lines.length * 4 + 1;
+  }
+
+  /** Table with proportional column widths, repeating the header across pages */
+  table(head: string[], rows: (string | number)[][], widths?: number[]) {
+    const w = widths ?? head.map(() => 1);
+    const total = w.reduce((a, b) => a + b, 0);
+    const cols = w.map(x => (x / total) * CONTENT_W);
+
+    const drawRow = (cells: (string | number)[], header: boolean, shade: boolean) => {
+      this.doc.setFont('helvetica', header ? 'bold' : 'normal').setFontSize(7.5);
+      if (header || shade) {
+        if (header) this.doc.setFillColor(241, 245, 249);
+        else this.doc.setFillColor(248, 250, 252);
+        this.doc.rect(MARGIN, this.y, CONTENT_W, ROW_H, 'F');
+      }
+      if (header) this.doc.setTextColor(71, 85, 105);
+      else this.doc.setTextColor(30, 41, 59);
+      let x = MARGIN;
+      cells.forEach((cell, i) => {
+        const text = this.doc.splitTextToSize(pdfText(cell), cols[i] - 2)[0] as string;
+        this.doc.text(text, x + 1.5, this.y + 4.2);
+        x += cols[i];
+      });
+      this.y += ROW_H;
+    };
+
+    this.ensure(ROW_H * 2);
+    drawRow(head, true, false);
+    rows.forEach((row, i) => {
+      if (this.y + ROW_H > BODY_BOTTOM) {
+        this.doc.addPage();
+        this.y = BODY_TOP;
+        drawRow(head, true, false);
+      }
+      drawRow(row, false, i % 2 === 1);
+    });
+    this.doc.setDrawColor(226, 232, 240).setLineWidth(0.2).line(MARGIN, this.y, MARGIN + CONTENT_W, this.y);
+    this.y += 3;
+  }
+
+  async figure(title: string, svg: SVGSVGElement, height: number) {
+    this.ensure(height + 8);
+    this.doc.setFont('helvetica', 'bold').setFontSize(8).setTextColor(71, 85, 105);
+    this.doc.text(pdfText(title), MARGIN, this.y + 3);
+    this.y += 5;
+    const box = svg.getBoundingClientRect();
+    const aspect = box.width > 0 && box.height > 0 ? box.width / box.height : 320 / 280;
+    const width = Math.min(CONTENT_W, height * aspect);
+    await svg2pdf(svg, this.doc, { x: MARGIN + (CONTENT_W - width) / 2, y: this.y, width, height: width / aspect });
+    this.y += width / aspect + 4;
+  }
+}
+
+const titleBlock = (w: ReportWriter, data: ReportData) => {
+  const { doc } = w;
+  const { project, reportNumber, issuedAt, footingName } = data;
+  const top = 15;
+
+  doc.setFont('helvetica', 'bold').setFontSize(16).setTextColor(15, 23, 42);
+  doc.text('GEOTECHNICAL DESIGN REPORT', MARGIN, top + 6);
+  doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(100, 116, 139);
+  doc.text('Shallow foundation bearing capacity & settlement analysis', MARGIN, top + 11);
+
+  const cells: [string, string][] = [
+    ['Report No.', reportNumber],
+    ['Date', issuedAt.toLocaleDateString('en-GB')],
+    ['Project', project.name],
+    ['Footing', footingName],
+    ['Client', project.metadata.client || '-'],
+    ['Site', project.metadata.site || '-'],
+    ['Borehole ID', project.metadata.boreholeId || '-'],
+    ['Engineer', project.metadata.engineer || '-']
+  ];
+  const boxTop = top + 16;
+  const cellW = CONTENT_W / 2;
+  const cellH = 9;
+  doc.setDrawColor(15, 23, 42).setLineWidth(0.4).rect(MARGIN, boxTop, CONTENT_W, cellH * 4);
+  cells.forEach(([label, value], i) => {
+    const x = MARGIN + (i % 2) * cellW;
+    const y = boxTop + Math.floor(i / 2) * cellH;
+    doc.setDrawColor(203, 213, 225).setLineWidth(0.2).rect(x, y, cellW, cellH);
+    doc.setFont('helvetica', 'bold').setFontSize(6.5).setTextColor(100, 116, 139).text(label.toUpperCase(), x + 2, y + 3.2);
+    doc.setFont('helvetica', 'bold').setFontSize(9).setTextColor(15, 23, 42).text(pdfText(value), x + 2, y + 7.4);
+  });
+  w.y = boxTop + cellH * 4 + 4;
+};
+
+// Page header and footer drawn once the page count is known
+const pageFurniture = (doc: jsPDF, data: ReportData) => {
+  const pages = doc.getNumberOfPages();
+  for (let p = 1; p <= pages; p++) {
+    doc.setPage(p);
+    if (p > 1) {
+      doc.setFont('helvetica', 'bold').setFontSize(8).setTextColor(100, 116, 139);
+      doc.text(pdfText(`${data.project.name} - ${data.footingName}`), MARGIN, 14);
+      doc.text(data.reportNumber, PAGE_W - MARGIN, 14, { align: 'right' });
+      doc.setDrawColor(203, 213, 225).setLineWidth(0.2).line(MARGIN, 16, PAGE_W - MARGIN, 16);
+    }
+    doc.setDrawColor(203, 213, 225).setLineWidth(0.2).line(MARGIN, PAGE_H - 12, PAGE_W - MARGIN, PAGE_H - 12);
+    doc.setFont('helvetica', 'normal').setFontSize(7).setTextColor(148, 163, 184);
+    doc.text('GeotechCalc Pro - Vasudha Geotechnical Solutions', MARGIN, PAGE_H - 8);
+    doc.text(`Page ${p} of ${pages}`, PAGE_W - MARGIN, PAGE_H - 8, { align: 'right' });
+  }
+};
+
+// Vesić gives his own slope factors; every other theory takes Hansen's
+const slopeReference = (r: CalculationResults) => (r.Method === 'Vesic' ? 'Vesic (1975); Meyerhof (1957) setback' : 'Hansen (1970); Meyerhof (1957) setback');
+
+// IS 6403 clause for each factor; other theories cite their source paper
+const factorRows = (r: CalculationResults, isCode: boolean, reference: string): (string | number)[][] => {
+  const cite = (clause: string) => (isCode ? `IS 6403 ${clause}` : reference);
+  return [
+    ['Nc', fmt(r.Nc, 3), 'Bearing capacity factor (cohesion)', cite('Table 1')],
+    ['Nq', fmt(r.Nq, 3), 'Bearing capacity factor (surcharge)', cite('Table 1')],
+    ['Ngamma', fmt(r.Ngamma, 3), 'Bearing capacity factor (self weight)', cite('Table 1')],
+    ['sc / sq / sgamma', `${fmt(r.sc, 3)} / ${fmt(r.sq, 3)} / ${fmt(r.sgamma, 3)}`, 'Shape factors', cite('Table 2')],
+    ['dc / dq / dgamma', `${fmt(r.dc, 3)} / ${fmt(r.dq, 3)} / ${fmt(r.dgamma, 3)}`, 'Depth factors', cite('cl. 5.1')],
+    ['ic / iq / igamma', `${fmt(r.ic, 3)} / ${fmt(r.iq, 3)} / ${fmt(r.igamma, 3)}`, 'Load inclination factors', cite('cl. 5.1')],
+    ['gc / gq / ggamma', `${fmt(r.gc, 3)} / ${fmt(r.gq, 3)} / ${fmt(r.ggamma, 3)}`, 'Ground slope factors', slopeReference(r)],
+    ['bc / bq / bgamma', `${fmt(r.bc, 3)} / ${fmt(r.bq, 3)} / ${fmt(r.bgamma, 3)}`, 'Base tilt factors', slopeReference(r)],
+    ["W'", fmt(r.W_prime, 3), 'Water table correction (self-weight term)', cite('cl. 5.1')],
+    ['ex / ey (m)', `${fmt(r.ex, 3)} / ${fmt(r.ey, 3)}`, 'Load eccentricity', cite('cl. 5.1')],
+    ["B' / L' (m)", `${fmt(r.B_prime, 3)} / ${fmt(r.L_prime, 3)}`, 'Effective footing dimensions', cite('cl. 5.1')],
+    ['Term 1 (kPa)', fmt(r.term1), 'c Nc sc dc ic gc bc', cite('cl. 5.1')],
+    ['Term 2 (kPa)', fmt(r.term2), 'q Nq sq dq iq gq bq', cite('cl. 5.1')],
+    ['Term 3 (kPa)', fmt(r.term3), "0.5 gamma B' Ngamma sgamma dgamma igamma ggamma bgamma W'", cite('cl. 5.1')],
+    ['qu (kPa)', fmt(r.qu), 'Ultimate bearing capacity', cite('cl. 5.1')],
+    ['qnu (kPa)', fmt(r.qnu), 'Net ultimate bearing capacity qu - q', cite('cl. 5.1')],
+    ['qns (kPa)', fmt(r.qns), `Net safe bearing capacity qnu / FOS (FOS = ${r.FOS})`, cite('cl. 5.1')],
+    ['qs (kPa)', fmt(r.qs), 'Gross safe bearing capacity qns + q', cite('cl. 5.1')],
+    ['qa SPT (kPa)', fmt(r.qa_spt), 'Allowable pressure from SPT N (25 mm settlement)', 'IS 6403 / IS 8009 (Part 1)'],
+    ['Recommended SBC (kPa)', fmt(r.recommended_sbc), 'min(qs, qa SPT)', 'IS 6403'],
+    ['Settlement (mm)', fmt(r.settlement), r.elastic
+      ? `Elastic settlement at qs, Is = ${fmt(r.elastic.Is, 3)} (${r.elastic.case.toLowerCase()}), mu = ${r.elastic.mu}`
+      : 'Empirical settlement at qs (no Es)', 'IS 8009 (Part 1)'],
+    ['Status', r.status, '', '']
+  ];
+};
+
+/** Builds the full design report as a vector PDF */
+export async function generateReportPdf(data: ReportData): Promise<jsPDF> {
+  const w = new ReportWriter();
+  const { inputs, results, combinations, contactPressure, consolidation, schmertmann, seismic, reliability } = data;
+  const theory = BEARING_CAPACITY_METHODS[inputs.method];
+  const { foundation } = inputs;
+  // A layered profile is described by the stratum the footing bears on; the full profile follows
+  const layered = inputs.profileMode === 'Layered';
+  const bearingLayer = layered ? layerIndexAtDepth(inputs.layers, foundation.Df) : -1;
+  const soil = layered ? inputs.layers[bearingLayer] : inputs.soil;
+
+  titleBlock(w, data);
+
+  w.heading('1. Design summary');
+  w.table(['Item', 'Value'], [
+    ['Recommended safe bearing capacity', `${fmt(results.recommended_sbc)} kPa`],
+    ['Governing load combination', combinations[0]?.combination.name ?? '-'],
+    ['Bearing utilisation', combinations[0] ? `${fmt(combinations[0].utilisation * 100, 1)} %` : '-'],
+    ['Estimated settlement', `${fmt(results.settlement)} mm`],
+    ...(results.Stage ? [['Governing drainage stage', DRAINAGE_STAGES[results.Stage]]] : []),
+    ['Design status', results.status],
+    ...(seismic ? [['Seismic status', `${seismic.status} (zone ${inputs.seismic.zone})`]] : []),
+    ...(reliability ? [['Reliability index beta', `${fmt(reliability.beta)} (pf = ${reliability.pf.toExponential(2)})`]] : [])
+  ], [2, 3]);
+
+  w.heading('2. Input parameters');
+  w.table(['Parameter', 'Value', 'Unit'], [
+    ...(layered ? [['Bearing stratum', `Layer ${bearingLayer + 1} (at Df)`, '']] : []),
+    ['Soil type', soil.type, ''],
+    ['Cohesion c', soil.c, 'kPa'],
+    ['Friction angle phi', soil.phi, 'deg'],
+    ['Unit weight gamma', soil.gamma, 'kN/m3'],
+    ['Submerged unit weight', soil.gamma_sub, 'kN/m3'],
+    ['SPT N', results.SptN !== undefined && results.SptN !== soil.spt_n ? `${fmt(results.SptN, 1)} (borehole design N)` : soil.spt_n ?? '-', ''],
+    ['Elastic modulus Es', soil.Es ?? '-', 'kPa'],
+    ['Poisson ratio mu', soil.mu ?? `${DEFAULT_POISSON} (default)`, ''],
+    ...(soil.cu !== undefined ? [['Undrained strength cu', soil.cu, 'kPa'], ["Effective c' / phi'", `${soil.c_eff ?? 0} / ${soil.phi_eff ?? '-'}`, 'kPa / deg']] : []),
+    ['Foundation shape', foundation.shape, ''],
+    ['Width B', foundation.B, 'm'],
+    ['Length L', foundation.shape === 'Strip/Continuous' ? '-' : foundation.L, 'm'],
+    ['Founding depth Df', foundation.Df, 'm'],
+    ...(foundation.groundSlope ? [
+      ['Ground slope beta', foundation.groundSlope, 'deg'],
+      ['Setback from crest b', foundation.crestSetback ? foundation.crestSetback : 'On slope face', foundation.crestSetback ? 'm' : '']
+    ] : []),
+    ...(foundation.baseTilt ? [['Base tilt alpha', foundation.baseTilt, 'deg']] : []),
+    ['Water table depth', inputs.waterTable, 'm'],
+    ['Factor of safety', inputs.fos, ''],
+    ['Bearing capacity theory', theory.label, ''],
+    ['Stress distribution', inputs.stressMethod, '']
+  ], [3, 2, 1]);
+
+  if (layered) {
+    w.paragraph('Layered soil profile (depths below ground level):');
+    let top = 0;
+    w.table(['Layer', 'Type', 'Depth (m)', 'c (kPa)', 'phi (deg)', 'gamma (kN/m3)', 'SPT N', 'Es (kPa)'], inputs.layers.map((l, i) => {
+      const row = [i + 1, l.type, `${fmt(top, 1)} - ${i === inputs.layers.length - 1 ? 'inf' : fmt(top + l.thickness, 1)}`, l.c, l.phi, l.gamma, l.spt_n ?? '-', l.Es ?? '-'];
+      top += l.thickness;
+      return row;
+    }), [0.6, 2, 1.4, 1, 1, 1.2, 0.8, 1]);
+  }
+
+  w.paragraph('Source of the strength and stiffness parameters (measured, or correlated from SPT / CPT results):');
+  w.table(['Stratum', 'Parameter', 'Value', 'Source'], parameterSources(inputs).map(p => [
+    p.stratum, FIELD_LABELS[p.field].label, `${p.value} ${FIELD_LABELS[p.field].unit}`, p.source
+  ]), [1, 1.8, 1.2, 4]);
+
+  w.heading(`3. Loading (${inputs.combinationSet})`);
+  w.table(['Load case', 'Type', 'Factor', 'V (kN)', 'H (kN)', 'Mx (kN-m)', 'My (kN-m)'],
+    inputs.loadCases.map(c => [c.name, c.type, c.factor ?? 1, c.V, c.H, c.Mx, c.My]), [2, 1, 0.8, 1, 1, 1, 1]);
+  w.table(['Combination', 'V (kN)', 'H (kN)', 'Mx / My', 'q app (kPa)', inputs.combinationSet === 'Limit State' ? `${SBC_FACTORS['Limit State']} x SBC` : 'q all (kPa)', 'Util.'],
+    combinations.map(c => [
+      c.combination.name, fmt(c.load.V, 1), fmt(c.load.H, 1), `${fmt(c.load.Mx, 1)} / ${fmt(c.load.My, 1)}`,
+      fmt(c.q_applied, 1), fmt(c.q_allowable, 1), `${fmt(c.utilisation * 100, 1)}%`
+    ]), [2.2, 1, 1, 1.4, 1.1, 1.1, 0.8]);
+  w.paragraph(inputs.combinationSet === 'Working Stress'
+    ? 'Service combinations to IS 875 (Part 5) cl. 8.1; allowable pressure increased by 25% for wind or seismic cases.'
+    : `Factored combinations to IS 875 (Part 5) and IS 456 Table 18, checked against ${SBC_FACTORS['Limit State']} x the safe bearing capacity of IS 6403 to match the 1.5 load factor.`);
+  if (inputs.loadCases.some(c => (c.factor ?? 1) !== 1)) {
+    w.paragraph('A load case factor other than 1 multiplies that case in every combination.');
+  }
+
+  w.heading(`4. Bearing capacity - ${theory.label}`);
+  w.paragraph(`Reference: ${theory.reference}. Values for the governing combination.`);
+  w.table(['Parameter', 'Value', 'Description', 'Reference'], factorRows(results, inputs.method === 'IS 6403', theory.reference), [1.6, 1.6, 3, 1.6]);
+
+  if (data.stageResults) {
+    w.table(['Drainage stage', 'qu (kPa)', 'qns (kPa)', 'Recommended SBC (kPa)'],
+      data.stageResults.map(r => [r.Stage ? DRAINAGE_STAGES[r.Stage] : '-', fmt(r.qu), fmt(r.qns), fmt(r.recommended_sbc)]), [2, 1, 1, 1.4]);
+  }
+
+  w.heading('5. Contact pressure and settlement');
+  w.table(['Item', 'Value', 'Reference'], [
+    ['Contact pressure qmax', contactPressure.overturning ? 'OVERTURNING' : `${fmt(contactPressure.qmax)} kPa`, 'IS 1904:2021'],
+    ['Contact pressure qmin', `${fmt(contactPressure.qmin)} kPa`, 'IS 1904:2021'],
+    ['Base in contact', `${fmt(contactPressure.contactRatio * 100, 1)} %`, 'IS 1904:2021'],
+    ...(results.elastic ? [
+      ['Elastic influence factor Is', `${fmt(results.elastic.Is, 3)} (${results.elastic.case.toLowerCase()})`,
+        results.elastic.case === 'Standard' ? 'Bowles (1996), fixed value' : 'Steinbrenner (1934); Bowles (1996)'],
+      ['Compressible depth below base', Number.isFinite(results.elastic.H) ? `${fmt(results.elastic.H)} m` : 'Half-space', 'Steinbrenner (1934)']
+    ] : []),
+    ...(schmertmann ? [
+      ['Schmertmann settlement', `${fmt(schmertmann.settlement)} mm`, 'Schmertmann et al. (1978)'],
+      ['C1 / C2', `${fmt(schmertmann.C1, 3)} / ${fmt(schmertmann.C2, 3)}`, 'Schmertmann et al. (1978)']
+    ] : []),
+    ...(consolidation ? [
+      ['Consolidation settlement', `${fmt(consolidation.total)} mm`, 'IS 8009 (Part 1)'],
+      ['t50 / t90', `${fmt(consolidation.t50)} / ${fmt(consolidation.t90)} years`, 'IS 8009 (Part 1)']
+    ] : [])
+  ], [2, 2, 2]);
+
+  // Optional sections follow on from section 5
+  let section = 6;
+
+  if (seismic) {
+    w.heading(`${section++}. Seismic bearing capacity and liquefaction`);
+    w.table(['Item', 'Value', 'Reference'], [
+      ['Zone factor Z', `${seismic.Z}`, 'IS 1893 (Part 1):2016 Table 3'],
+      ['kh = Z/2 / kv', `${fmt(seismic.kh, 3)} / ${fmt(seismic.kv, 3)}`, 'IS 1893 (Part 1):2016'],
+      ['ec / eq / egamma', `${fmt(seismic.ec, 3)} / ${fmt(seismic.eq, 3)} / ${fmt(seismic.egamma, 3)}`, 'Budhu & Al-Karni (1993)'],
+      ['Seismic qu / qs', `${fmt(seismic.qu)} / ${fmt(seismic.qs)} kPa`, `FOS = ${results.FOS}`],
+      ['Applied pressure', `${fmt(seismic.q_applied)} kPa (${fmt(seismic.utilisation * 100, 1)} %)`, ''],
+      ['Magnitude Mw / MSF', `${inputs.seismic.magnitude} / ${fmt(seismic.MSF, 3)}`, 'Youd et al. (2001)'],
+      ['SPT energy ratio / borehole / CS', `${inputs.sptEquipment.energyRatio} % / ${inputs.sptEquipment.boreholeDiameter} mm / ${inputs.sptEquipment.samplerFactor}`, 'Youd et al. (2001) Table 2'],
+      ['Minimum liquefaction FS', seismic.minFS !== null ? fmt(seismic.minFS) : 'Not susceptible', 'IS 1893 (Part 1):2016 Annex F']
+    ], [2, 2, 2]);
+    if (seismic.points.length > 0) {
+      w.table(['Source', 'Depth (m)', 'N / N60', "sigma'v (kPa)", 'FC (%)', '(N1)60cs', 'CSR', 'CRR7.5', 'FS'],
+        seismic.points.map(p => [
+          p.source, fmt(p.depth), `${p.N} / ${fmt(p.N60, 1)}`, fmt(p.sigma_v, 1), p.fines, fmt(p.N1_60cs, 1), fmt(p.CSR, 3),
+          p.FS === null ? p.screenedOut ?? '-' : fmt(p.CRR, 3),
+          p.FS === null ? '-' : Number.isFinite(p.FS) ? fmt(p.FS) : 'inf'
+        ]), [1.2, 0.9, 0.6, 1, 0.7, 1, 0.8, 1.6, 0.7]);
+    }
+  }
+
+  if (reliability) {
+    const { distributions } = inputs.reliability;
+    w.heading(`${section++}. Monte Carlo reliability`);
+    w.paragraph(`${reliability.samples} samples (seed ${inputs.reliability.seed}) of the governing combination; each input value is the mean of its distribution, with rho(c, phi) = ${inputs.reliability.rho_c_phi}.`);
+    w.table(['Parameter', 'Distribution', 'COV', 'Truncation'], UNCERTAIN_PARAMETERS.map(({ key, label }) => [
+      label, distributions[key].type, distributions[key].cov,
+      distributions[key].type === 'Truncated normal' ? `+/- ${distributions[key].truncation} sigma` : '-'
+    ]), [2, 2, 1, 1]);
+    w.table(['Result', 'Mean', 'COV', '5% / 95%'], [
+      ['Ultimate capacity qu (kPa)', fmt(reliability.qu.mean), fmt(reliability.qu.cov, 3), `${fmt(reliability.qu.p05)} / ${fmt(reliability.qu.p95)}`],
+      ['Recommended SBC (kPa)', fmt(reliability.sbc.mean), fmt(reliability.sbc.cov, 3), `${fmt(reliability.sbc.p05)} / ${fmt(reliability.sbc.p95)}`],
+      ['Settlement (mm)', fmt(reliability.settlement.mean), fmt(reliability.settlement.cov, 3), `${fmt(reliability.settlement.p05)} / ${fmt(reliability.settlement.p95)}`]
+    ], [2, 1, 1, 1.4]);
+    w.table(['Item', 'Value'], [
+      ['Applied pressure', `${fmt(reliability.q_applied)} kPa`],
+      ['Probability of failure P(qu <= q)', `${reliability.pf.toExponential(3)} (${reliability.failures} of ${reliability.samples} samples)`],
+      ['Rejected samples', `${reliability.rejected} (${fmt(reliability.rejectedFraction * 100, 1)} %), invalid soil parameters counted as failures`],
+      ['Reliability index beta', `${fmt(reliability.beta)} (${reliability.betaMethod.toLowerCase()})`],
+      ['P(q > recommended SBC)', `${fmt(reliability.pAllowable * 100, 1)} %`]
+    ], [2, 3]);
+  }
+
+  if (data.figures.length > 0) {
+    w.heading(`${section}. Figures`);
+    for (const figure of data.figures) {
+      await w.figure(figure.title, figure.svg, 80);
+    }
+  }
+
+  if (data.warnings.length > 0) {
+    w.heading('Input warnings');
+    w.paragraph('The inputs passed validation with the following engineering warnings:');
+    data.warnings.forEach(issue => w.paragraph(`- ${issue.message}`));
+  }
+
+  w.heading('Notes');
+  w.paragraph(`Bearing capacity by ${theory.reference}; settlement per IS 1904:2021 and IS 8009 (Part 1):1976. Results are valid only for the soil parameters stated above and should be reviewed by a qualified geotechnical engineer.`);
+
+  pageFurniture(w.doc, data);
+  return w.doc;
+}
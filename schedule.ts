@@ -0,0 +1,172 @@
+import {
+  FoundationProperties,
+  LoadingConditions,
+  CalculationResults,
+  ColumnReaction,
+  ScheduleCriteria,
+  ScheduledFooting,
+  FootingGroup
+} from './types';
+import { appliedBasePressure } from './loads';
+import { toCsv, parseCsv } from './download';
+
+export const DEFAULT_SCHEDULE_CRITERIA: ScheduleCriteria = {
+  settlementLimit: 25,
+  increment: 0.15,
+  minB: 1.0,
+  maxB: 6.0
+};
+
+// Accepted header spellings for each column of the reaction table
+const HEADERS: Record<keyof ColumnReaction, string[]> = {
+  id: ['id', 'column', 'column id', 'col', 'node'],
+  V: ['v', 'p', 'fz', 'axial'],
+  H: ['h', 'fx', 'shear'],
+  Mx: ['mx'],
+  My: ['my']
+};
+const POSITIONAL: (keyof ColumnReaction)[] = ['id', 'V', 'H', 'Mx', 'My'];
+
+/**
+ * Reads a column-reaction table (column ID, V, H, Mx, My in kN and kN·m).
+ * A header row is matched by name; without one the columns are taken in
+ * that order. H, Mx and My may be omitted.
+ */
+export function parseColumnReactions(text: string): ColumnReaction[] {
+  const rows = parseCsv(text);
+  if (rows.length === 0) throw new Error('Reaction table is empty');
+
+  const header = rows[0].map(h => h.toLowerCase().replace(/\s*\(.*\)$/, ''));
+  const named = POSITIONAL.map(key => header.findIndex(h => HEADERS[key].includes(h)));
+  const hasHeader = named[0] >= 0 && named[1] >= 0;
+  const index = hasHeader ? named : POSITIONAL.map((_, i) => i);
+
+  const reactions = rows.slice(hasHeader ? 1 : 0).map((cells, r) => {
+    const line = r + (hasHeader ? 2 : 1);
+    const value = (key: keyof ColumnReaction) => {
+      const cell = index[POSITIONAL.indexOf(key)] >= 0 ? cells[index[POSITIONAL.indexOf(key)]] : undefined;
+      if (cell === undefined || cell === '') return 0;
+      const n = parseFloat(cell);
+      if (!Number.isFinite(n)) throw new Error(`Line ${line}: ${key} "${cell}" is not a number`);
+      return n;
+    };
+    const id = cells[index[0]];
+    if (!id) throw new Error(`Line ${line}: missing column ID`);
+    const V = value('V');
+    if (V <= 0) throw new Error(`Line ${line}: V must be greater than zero`);
+    return { id, V, H: value('H'), Mx: value('Mx'), My: value('My') };
+  });
+
+  if (reactions.length === 0) throw new Error('Reaction table has no data rows');
+  return reactions;
+}
+
+const roundUp = (value: number, step: number) => Math.ceil(value / step - 1e-9) * step;
+
+// Footing of width B keeping the template's shape and plan ratio
+const footingOfWidth = (template: FoundationProperties, B: number): FoundationProperties => {
+  const ratio = template.shape === 'Rectangular' ? Math.max(template.L / template.B, 1) : 1;
+  const L = template.shape === 'Rectangular' ? roundUp(B * ratio, 0.05) : B;
+  return { ...template, B, L };
+};
+
+const checkFooting = (
+  column: ColumnReaction,
+  foundation: FoundationProperties,
+  criteria: ScheduleCriteria,
+  analyse: (foundation: FoundationProperties, load: LoadingConditions) => CalculationResults
+) => {
+  const results = analyse(foundation, column);
+  const q_applied = appliedBasePressure(foundation, column, results);
+  const q_allowable = results.recommended_sbc;
+  // Engine settlement is reported at qs; scale linearly to the applied pressure
+  const settlement = results.qs > 0 ? results.settlement * (q_applied / results.qs) : Infinity;
+  const eB = Math.max(results.ex / foundation.B, results.ey / foundation.L);
+  const ok = q_applied <= q_allowable && settlement <= criteria.settlementLimit && !results.eccentricity_check;
+  return { results, q_applied, q_allowable, settlement, eB, ok };
+};
+
+/**
+ * Smallest footing in steps of the sizing increment that satisfies the
+ * safe bearing capacity, the settlement limit and the kern (e ≤ B/6) check.
+ */
+export function sizeFooting(
+  column: ColumnReaction,
+  template: FoundationProperties,
+  criteria: ScheduleCriteria,
+  analyse: (foundation: FoundationProperties, load: LoadingConditions) => CalculationResults
+): ScheduledFooting {
+  const step = Math.max(criteria.increment, 0.05);
+  let B = roundUp(Math.max(criteria.minB, step), step);
+  let foundation = footingOfWidth(template, B);
+  let check = checkFooting(column, foundation, criteria, analyse);
+
+  while (!check.ok && B + step <= criteria.maxB + 1e-9) {
+    B = roundUp(B + step, step);
+    foundation = footingOfWidth(template, B);
+    check = checkFooting(column, foundation, criteria, analyse);
+  }
+
+  return {
+    column,
+    mark: '',
+    B: foundation.B,
+    L: foundation.L,
+    q_applied: check.q_applied,
+    q_allowable: check.q_allowable,
+    settlement: check.settlement,
+    eB: check.eB,
+    status: check.ok ? 'OK' : 'NOT FEASIBLE',
+    results: check.results
+  };
+}
+
+/** Sizes every column and assigns footing marks F1…Fn by ascending size */
+export function buildFootingSchedule(
+  columns: ColumnReaction[],
+  template: FoundationProperties,
+  criteria: ScheduleCriteria,
+  analyse: (foundation: FoundationProperties, load: LoadingConditions) => CalculationResults
+): { footings: ScheduledFooting[]; groups: FootingGroup[] } {
+  const sized = columns.map(c => sizeFooting(c, template, criteria, analyse));
+  const sizeKey = (f: { B: number; L: number }) => `${f.B.toFixed(2)}x${f.L.toFixed(2)}`;
+
+  const groups: FootingGroup[] = [];
+  sized
+    .filter(f => f.status === 'OK')
+    .sort((a, b) => a.B * a.L - b.B * b.L || a.B - b.B)
+    .forEach(f => {
+      let group = groups.find(g => sizeKey(g) === sizeKey(f));
+      if (!group) {
+        group = { mark: `F${groups.length + 1}`, B: f.B, L: f.L, columns: [], V_max: 0 };
+        groups.push(group);
+      }
+      group.columns.push(f.column.id);
+      group.V_max = Math.max(group.V_max, f.column.V);
+    });
+
+  const footings = sized.map(f => ({
+    ...f,
+    mark: f.status === 'OK' ? groups.find(g => sizeKey(g) === sizeKey(f))!.mark : '—'
+  }));
+  return { footings, groups };
+}
+
+export function scheduleToCsv(footings: ScheduledFooting[], groups: FootingGroup[], foundation: FoundationProperties): string {
+  const rows: (string | number)[][] = [
+    ['FOOTING SCHEDULE'],
+    ['Shape', foundation.shape],
+    ['Founding Depth (Df)', foundation.Df, 'm'],
+    [''],
+    ['Mark', 'B (m)', 'L (m)', 'No.', 'Columns', 'Max V (kN)'],
+    ...groups.map(g => [g.mark, g.B.toFixed(2), g.L.toFixed(2), g.columns.length, g.columns.join(' '), g.V_max.toFixed(1)]),
+    [''],
+    ['Column', 'V (kN)', 'H (kN)', 'Mx (kN-m)', 'My (kN-m)', 'Mark', 'B (m)', 'L (m)', 'q applied (kPa)', 'SBC (kPa)', 'Settlement (mm)', 'e/B', 'Status'],
+    ...footings.map(f => [
+      f.column.id, f.column.V, f.column.H, f.column.Mx, f.column.My, f.mark,
+      f.B.toFixed(2), f.L.toFixed(2), f.q_applied.toFixed(1), f.q_allowable.toFixed(1),
+      Number.isFinite(f.settlement) ? f.settlement.toFixed(1) : 'N/A', f.eB.toFixed(3), f.status
+    ])
+  ];
+  return toCsv(rows);
+}
@@ -0,0 +1,191 @@
+import {
+  CalculationResults,
+  SoilLayer,
+  Borehole,
+  SeismicInputs,
+  SeismicZone,
+  SeismicResults,
+  LiquefactionPoint,
+  SptEquipment
+} from './types';
+import { layerTops, layerIndexAtDepth, overburdenPressure } from './profile';
+import { totalOverburden } from './correlations';
+import { energyCorrectedN, normalisedN } from './spt';
+
+// Zone factor Z (IS 1893 Part 1:2016, Table 3)
+export const SEISMIC_ZONE_FACTORS: Record<SeismicZone, number> = { II: 0.1, III: 0.16, IV: 0.24, V: 0.36 };
+
+export const DEFAULT_SEISMIC: SeismicInputs = { enabled: false, zone: 'III', magnitude: 7.5 };
+
+const SPT_INTERVAL = 1.5; // Depth between SPT tests sampled from a stratum N (m)
+const MAX_DEPTH = 20; // Liquefaction is not assessed deeper (IS 1893 Annex F)
+const CLEAN_SAND_LIMIT = 30; // (N1)60cs at and above which sand is too dense to liquefy
+
+/**
+ * Pseudo-static coefficients: kh is the design basis peak ground acceleration
+ * Z / 2 and the vertical coefficient two thirds of it (IS 1893 Part 1). The
+ * importance factor scales the structure's design spectrum, not the ground
+ * motion, so it plays no part in the soil's inertia or in liquefaction.
+ */
+export function seismicCoefficients(seismic: SeismicInputs): { Z: number; kh: number; kv: number } {
+  const Z = SEISMIC_ZONE_FACTORS[seismic.zone];
+  const kh = Z / 2;
+  return { Z, kh, kv: (2 / 3) * kh };
+}
+
+/**
+ * Seismic reduction factors on the c, q and γ terms of the bearing capacity
+ * equation (Budhu & Al-Karni, 1993), with soil and structure inertia taken
+ * together through kh and kv.
+ */
+export function seismicReductionFactors(
+  c: number,
+  gamma: number,
+  Df: number,
+  kh: number,
+  kv: number
+): { ec: number; eq: number; egamma: number } {
+  const D = Df > 0 && gamma > 0 ? c / (gamma * Df) : Infinity;
+  return {
+    ec: Math.exp(-4.3 * Math.pow(kh, 1 + D)),
+    eq: (1 - kv) * Math.exp((-5.3 * Math.pow(kh, 1.2)) / (1 - kv)),
+    egamma: (1 - (2 / 3) * kv) * Math.exp((-9 * Math.pow(kh, 1.2)) / (1 - kv))
+  };
+}
+
+/** Stress reduction factor rd with depth (Liao & Whitman, 1986) */
+export function stressReduction(z: number): number {
+  if (z <= 9.15) return 1 - 0.00765 * z;
+  if (z <= 23) return 1.174 - 0.0267 * z;
+  return Math.max(0.744 - 0.008 * z, 0.5);
+}
+
+/** Clean-sand equivalent (N1)60 for the fines content FC in % (Youd et al., 2001) */
+export function cleanSandN(N1_60: number, fines: number): number {
+  const alpha = fines <= 5 ? 0 : fines < 35 ? Math.exp(1.76 - 190 / (fines * fines)) : 5;
+  const beta = fines <= 5 ? 1 : fines < 35 ? 0.99 + Math.pow(fines, 1.5) / 1000 : 1.2;
+  return alpha + beta * N1_60;
+}
+
+/** Cyclic resistance ratio for Mw 7.5 from clean-sand (N1)60, valid below 30 (Youd et al., 2001) */
+export function cyclicResistance(N1_60cs: number): number {
+  const n = N1_60cs;
+  return 1 / (34 - n) + n / 135 + 50 / Math.pow(10 * n + 45, 2) - 1 / 200;
+}
+
+/** Magnitude scaling factor for CRR at other magnitudes (Idriss, in Youd et al., 2001) */
+export const magnitudeScaling = (Mw: number) => Math.pow(10, 2.24) / Math.pow(Mw, 2.56);
+
+/**
+ * SPT readings to screen: every borehole test when logs are loaded, else the
+ * stratum N at the usual 1.5 m test interval.
+ */
+function sptProfile(layers: SoilLayer[], boreholes: Borehole[]): { source: string; depth: number; N: number }[] {
+  if (boreholes.length > 0) {
+    return boreholes.flatMap(bh => bh.readings.map(r => ({ source: bh.id, depth: r.depth, N: r.N })));
+  }
+  const tops = layerTops(layers);
+  const readings: { source: string; depth: number; N: number }[] = [];
+  for (let z = SPT_INTERVAL; z <= MAX_DEPTH + 1e-9; z += SPT_INTERVAL) {
+    const i = layerIndexAtDepth(layers, z);
+    const N = layers[i].spt_n;
+    // A stratum N stands for the layer down to its base, the last layer to the screening depth
+    if (N !== undefined && N > 0 && (i === layers.length - 1 || z < tops[i] + layers[i].thickness)) {
+      readings.push({ source: layers.length > 1 ? `Layer ${i + 1}` : 'Soil', depth: z, N });
+    }
+  }
+  return readings;
+}
+
+/**
+ * SPT-based liquefaction triggering (Youd et al., 2001, as adopted in IS 1893
+ * Annex F): FS = CRR7.5 × MSF / CSR with CSR = 0.65 amax (σv0/σ'v0) rd, and
+ * the field N corrected to (N1)60 for energy, borehole, rods, sampler and
+ * overburden. Clays, rock, dry soil and points below 20 m are screened out.
+ */
+export function liquefactionScreening(
+  layers: SoilLayer[],
+  boreholes: Borehole[],
+  waterTable: number | null,
+  amax: number,
+  magnitude: number,
+  equipment: SptEquipment
+): LiquefactionPoint[] {
+  const MSF = magnitudeScaling(magnitude);
+  return sptProfile(layers, boreholes)
+    .sort((a, b) => a.depth - b.depth)
+    .map(({ source, depth, N }) => {
+      const soil = layers[layerIndexAtDepth(layers, depth)];
+      const sigma_v0 = totalOverburden(layers, depth, waterTable);
+      const sigma_v = overburdenPressure(layers, depth, waterTable);
+      const rd = stressReduction(depth);
+      const CSR = sigma_v > 0 ? 0.65 * amax * (sigma_v0 / sigma_v) * rd : 0;
+      const N60 = energyCorrectedN(N, depth, equipment);
+      const N1_60 = normalisedN(N60, sigma_v);
+      const fines = soil.fines ?? 0;
+      const N1_60cs = cleanSandN(N1_60, fines);
+      const point = { source, depth, N, N60, sigma_v0, sigma_v, rd, CSR, N1_60, fines, N1_60cs };
+
+      const screenedOut = soil.type === 'Cohesive (Clay)' ? 'Clay'
+        : soil.type === 'Rock' ? 'Rock'
+        : waterTable === null || depth < waterTable ? 'Above water table'
+        : depth > MAX_DEPTH ? `Below ${MAX_DEPTH} m`
+        : N1_60cs >= CLEAN_SAND_LIMIT ? `(N1)60cs ≥ ${CLEAN_SAND_LIMIT}`
+        : undefined;
+      if (screenedOut) return { ...point, CRR: NaN, FS: null, screenedOut };
+
+      const CRR = cyclicResistance(N1_60cs);
+      return { ...point, CRR, FS: CSR > 0 ? (CRR * MSF) / CSR : Infinity };
+    });
+}
+
+/**
+ * Pseudo-static seismic check of the footing and liquefaction screening of the
+ * profile. The reduced capacity keeps the static factor of safety and is
+ * compared with the gross applied pressure of the governing combination.
+ */
+export function analyseSeismic(
+  seismic: SeismicInputs,
+  results: CalculationResults,
+  q_applied: number,
+  layers: SoilLayer[],
+  boreholes: Borehole[],
+  waterTable: number | null,
+  equipment: SptEquipment
+): SeismicResults {
+  const { Z, kh, kv } = seismicCoefficients(seismic);
+  const { ec, eq, egamma } = seismicReductionFactors(results.Cohesion, results.UnitWeight, results.FoundationDepth, kh, kv);
+
+  // Layered capacities are not a plain sum of the three terms, so the terms set the reduction ratio
+  const terms = results.term1 + results.term2 + results.term3;
+  const reduction = terms > 0 ? (results.term1 * ec + results.term2 * eq + results.term3 * egamma) / terms : 1;
+  const qu = results.qu * reduction;
+  const q_surcharge = results.qu - results.qnu;
+  const qs = (qu - q_surcharge) / results.FOS + q_surcharge;
+  const utilisation = qs > 0 ? q_applied / qs : Infinity;
+
+  const points = liquefactionScreening(layers, boreholes, waterTable, kh, seismic.magnitude, equipment);
+  const assessed = points.filter(p => p.FS !== null).map(p => p.FS as number);
+  const minFS = assessed.length > 0 ? Math.min(...assessed) : null;
+
+  const status = minFS !== null && minFS < 1 ? 'LIQUEFACTION RISK'
+    : utilisation > 1 ? 'SEISMIC OVERSTRESS'
+    : 'SEISMIC SAFE';
+
+  return {
+    Z,
+    kh,
+    kv,
+    ec,
+    eq,
+    egamma,
+    qu,
+    qs,
+    q_applied,
+    utilisation,
+    MSF: magnitudeScaling(seismic.magnitude),
+    points,
+    minFS,
+    status
+  };
+}
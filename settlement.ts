@@ -0,0 +1,176 @@
+import {
+  FoundationProperties,
+  SoilLayer,
+  SchmertmannResults,
+  SchmertmannSubLayer,
+  ModulusSource,
+  SettlementCase
+} from './types';
+import { layerIndexAtDepth, overburdenPressure } from './profile';
+
+const SUB_LAYERS = 20;
+const QC_PER_N = 400; // qc/N for clean fine to medium sands (kPa per blow)
+
+export const DEFAULT_POISSON = 0.3;
+const RIGID_FACTOR = 0.93; // Rigid / flexible centre settlement (Bowles, 1996)
+const STANDARD_INFLUENCE = 0.82; // Fixed Is of the standard calculation, independent of H and L/B
+const STRIP_RATIO = 50; // L/B taken for a strip footing
+const AVERAGE_GRID = 10; // Points per side of the quarter footing averaged for the mean settlement
+const HALF_SPACE = 1e6; // H/B standing in for an unbounded layer
+
+/**
+ * Immediate settlement of granular soil by the Schmertmann (1978) strain
+ * influence method. The Iz diagram is interpolated between the axisymmetric
+ * (L/B = 1) and plane strain (L/B ≥ 10) cases, and each sub-layer takes its
+ * modulus from CPT qc, else SPT N correlated to qc, else the layer Es.
+ */
+export function calculateSchmertmannSettlement(
+  layers: SoilLayer[],
+  foundation: FoundationProperties,
+  q_net: number,
+  water_table_depth: number | null,
+  time = 10
+): SchmertmannResults {
+  const { shape, B, Df } = foundation;
+  const ratio = shape === 'Strip/Continuous' ? 10 : shape === 'Rectangular' ? Math.min(foundation.L / B, 10) : 1;
+  const t = (ratio - 1) / 9;
+
+  // Iz diagram geometry: 0.1 → 0.2 at base, peak at B/2 → B, zero at 2B → 4B
+  const Iz0 = 0.1 + 0.1 * t;
+  const zPeak = B * (0.5 + 0.5 * t);
+  const zInfluence = B * (2 + 2 * t);
+  const modulusFactor = 2.5 + 1.0 * t; // Es/qc
+
+  const sigma_0 = overburdenPressure(layers, Df, water_table_depth);
+  const sigma_vp = Math.max(overburdenPressure(layers, Df + zPeak, water_table_depth), 1e-3);
+  const Izp = 0.5 + 0.1 * Math.sqrt(Math.max(q_net, 0) / sigma_vp);
+
+  const C1 = q_net > 0 ? Math.max(1 - 0.5 * (sigma_0 / q_net), 0.5) : 1;
+  const C2 = 1 + 0.2 * Math.log10(Math.max(time, 0.1) / 0.1);
+
+  const influence = (z: number) => {
+    if (z <= zPeak) return Iz0 + (Izp - Iz0) * (z / zPeak);
+    if (z >= zInfluence) return 0;
+    return Izp * (zInfluence - z) / (zInfluence - zPeak);
+  };
+
+  const dz = zInfluence / SUB_LAYERS;
+  const subLayers: SchmertmannSubLayer[] = [];
+  for (let k = 0; k < SUB_LAYERS; k++) {
+    const zTop = k * dz;
+    const zMid = zTop + dz / 2;
+    const layer = layers[layerIndexAtDepth(layers, Df + zMid)];
+    const Iz = influence(zMid);
+
+    let Es: number;
+    let source: ModulusSource;
+    if (layer.qc && layer.qc > 0) {
+      Es = modulusFactor * layer.qc;
+      source = 'CPT qc';
+    } else if (layer.spt_n && layer.spt_n > 0) {
+      Es = modulusFactor * QC_PER_N * layer.spt_n;
+      source = 'SPT N';
+    } else {
+      Es = layer.Es && layer.Es > 0 ? layer.Es : NaN;
+      source = 'Es';
+    }
+
+    const settlement = Number.isFinite(Es) ? C1 * C2 * q_net * (Iz / Es) * dz * 1000 : 0;
+    subLayers.push({ zTop, zBottom: zTop + dz, Iz, Es, source, settlement });
+  }
+
+  return {
+    q_net,
+    sigma_0,
+    sigma_vp,
+    Izp,
+    zPeak,
+    zInfluence,
+    C1,
+    C2,
+    time,
+    subLayers,
+    izProfile: [
+      { z: 0, Iz: Iz0 },
+      { z: zPeak, Iz: Izp },
+      { z: zInfluence, Iz: 0 }
+    ],
+    settlement: subLayers.reduce((sum, s) => sum + s.settlement, 0)
+  };
+}
+
+/**
+ * Steinbrenner (1934) factors for the corner of a flexible rectangle over a
+ * layer of thickness H on a rigid base, with M = L/B (L ≥ B) and N = H/B.
+ */
+export function steinbrennerFactors(M: number, N: number): { F1: number; F2: number } {
+  const n = Math.min(N, HALF_SPACE);
+  const r1 = Math.sqrt(M * M + 1);
+  const r2 = Math.sqrt(M * M + n * n);
+  const r3 = Math.sqrt(M * M + n * n + 1);
+  const F1 = (M * Math.log(((1 + r1) * r2) / (M * (1 + r3))) + Math.log(((M + r1) * Math.sqrt(1 + n * n)) / (M + r3))) / Math.PI;
+  const F2 = (n / (2 * Math.PI)) * Math.atan(M / (n * r3));
+  return { F1, F2 };
+}
+
+/**
+ * Elastic settlement influence factor Is for s = q B (1 − μ²) Is / Es, from
+ * Steinbrenner corner factors superposed over the footing (Bowles, 1996).
+ * Circular footings are taken as the square of equal area and strips as
+ * L/B = 50; the flexible average is the mean over a grid of points and a rigid
+ * footing settles 0.93 of the flexible centre. The Standard case keeps the
+ * fixed Is = 0.82 and only reports F1 and F2.
+ */
+export function elasticInfluenceFactor(
+  foundation: FoundationProperties,
+  H: number,
+  mu: number,
+  settlementCase: SettlementCase
+): { F1: number; F2: number; Is: number } {
+  const { shape, B } = foundation;
+  const width = shape === 'Circular' ? B * Math.sqrt(Math.PI) / 2 : B;
+  const length = shape === 'Strip/Continuous' ? STRIP_RATIO * B
+    : shape === 'Rectangular' ? Math.max(foundation.L, B)
+    : width;
+  const k = (1 - 2 * mu) / (1 - mu);
+
+  // Settlement × Es / (q (1 − μ²)) at the corner of a w × l rectangle
+  const corner = (a: number, b: number) => {
+    const w = Math.min(a, b);
+    if (w <= 0) return 0;
+    const { F1, F2 } = steinbrennerFactors(Math.max(a, b) / w, H / w);
+    return w * (F1 + k * F2);
+  };
+  // Any point (x, y from the centre) is the shared corner of four rectangles
+  const point = (x: number, y: number) => {
+    return corner(width / 2 + x, length / 2 + y) + corner(width / 2 - x, length / 2 + y)
+      + corner(width / 2 + x, length / 2 - y) + corner(width / 2 - x, length / 2 - y);
+  };
+
+  let term: number;
+  switch (settlementCase) {
+    case 'Standard':
+      term = STANDARD_INFLUENCE * B;
+      break;
+    case 'Flexible corner':
+      term = corner(width, length);
+      break;
+    case 'Flexible average': {
+      let sum = 0;
+      for (let i = 0; i < AVERAGE_GRID; i++) {
+        for (let j = 0; j < AVERAGE_GRID; j++) {
+          sum += point(((i + 0.5) / AVERAGE_GRID) * (width / 2), ((j + 0.5) / AVERAGE_GRID) * (length / 2));
+        }
+      }
+      term = sum / (AVERAGE_GRID * AVERAGE_GRID);
+      break;
+    }
+    case 'Rigid':
+      term = RIGID_FACTOR * point(0, 0);
+      break;
+    default:
+      term = point(0, 0);
+  }
+
+  return { ...steinbrennerFactors(length / width, H / width), Is: term / B };
+}
@@ -0,0 +1,320 @@
+import { Workbook, Worksheet, Cell } from 'exceljs';
+import { WorkbookData, CorrelatedField, CalculationResults, LayeredCalculationResults, BearingCapacityFactors, SlopeFactors } from './types';
+import { BEARING_CAPACITY_METHODS, DRAINAGE_STAGES, soilForStage } from './engine';
+import { overburdenPressure } from './profile';
+import { DEFAULT_POISSON } from './settlement';
+import { SBC_FACTORS } from './loads';
+
+interface CalcRow {
+  key: string;
+  label: string;
+  expression: string; // Human-readable form shown beside the formula
+  formula: string | null; // Excel formula with {key} placeholders; null for a constant
+  value: number; // Value computed by the app, cached in the cell and shown for comparison
+  unit?: string;
+}
+
+const HEADER_FILL = { type: 'pattern' as const, pattern: 'solid' as const, fgColor: { argb: 'FFE2E8F0' } };
+const INPUT_FILL = { type: 'pattern' as const, pattern: 'solid' as const, fgColor: { argb: 'FFFEF9C3' } };
+
+const styleHeader = (sheet: Worksheet) => {
+  const row = sheet.getRow(1);
+  row.font = { bold: true };
+  row.eachCell(cell => { cell.fill = HEADER_FILL; });
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+};
+
+const finite = (value: number) => (Number.isFinite(value) ? value : null);
+
+// IS 6403 factor chain as Excel formulas, mirroring calculateBearingCapacity
+const IS6403_FACTORS: Record<keyof BearingCapacityFactors, { expression: string; formula: string }> = {
+  Nq: { expression: 'e^(π tanφ) tan²(45° + φ/2)', formula: 'IF({phi}>0,EXP(PI()*TAN({phi_rad}))*TAN(PI()/4+{phi_rad}/2)^2,1)' },
+  Nc: { expression: '(Nq − 1) cotφ; 5.14 for φ = 0', formula: 'IF({phi}>0,({Nq}-1)/TAN({phi_rad}),5.14)' },
+  Ngamma: { expression: '2 (Nq + 1) tanφ', formula: 'IF({phi}>0,2*({Nq}+1)*TAN({phi_rad}),0)' },
+  sc: {
+    expression: "1 + 0.2 B'/L' (strip 1, circle 1.3, square φ = 0 1.3)",
+    formula: 'IF({shape}="Strip/Continuous",1,IF({shape}="Circular",1.3,IF(AND({shape}="Square",{phi}<=0),1.3,1+0.2*{B_prime}/{L_prime})))'
+  },
+  sq: {
+    expression: "1 + 0.2 (B'/L') tan(45° + φ/2) (strip 1, circle 1.2, square φ = 0 1)",
+    formula: 'IF({shape}="Strip/Continuous",1,IF({shape}="Circular",1.2,IF(AND({shape}="Square",{phi}<=0),1,1+0.2*{B_prime}/{L_prime}*TAN(RADIANS(45+{phi}/2)))))'
+  },
+  sgamma: {
+    expression: "1 − 0.4 B'/L' (strip 1, circle 0.6, square 0.8)",
+    formula: 'IF({shape}="Strip/Continuous",1,IF({shape}="Circular",0.6,IF({shape}="Square",0.8,1-0.4*{B_prime}/{L_prime})))'
+  },
+  dc: { expression: '1 + 0.2 k tan(45° + φ/2)', formula: '1+0.2*{k}*TAN(RADIANS(45+{phi}/2))' },
+  dq: { expression: '1 + 0.1 k tan(45° + φ/2)', formula: '1+0.1*{k}*TAN(RADIANS(45+{phi}/2))' },
+  dgamma: { expression: '1', formula: '1' },
+  ic: { expression: '(1 − α/90)²', formula: '(1-{alpha}/90)^2' },
+  iq: { expression: 'ic', formula: '{ic}' },
+  igamma: { expression: '(1 − α/φ)²', formula: '(1-{alpha}/IF({phi}=0,0.001,{phi}))^2' }
+};
+
+const FACTOR_LABELS: Record<keyof BearingCapacityFactors, string> = {
+  Nc: 'Nc', Nq: 'Nq', Ngamma: 'Nγ',
+  sc: 'sc', sq: 'sq', sgamma: 'sγ',
+  dc: 'dc', dq: 'dq', dgamma: 'dγ',
+  ic: 'ic', iq: 'iq', igamma: 'iγ'
+};
+// Order in which the factors are evaluated (Nc needs Nq, iq needs ic)
+const FACTOR_ORDER: (keyof BearingCapacityFactors)[] = ['Nq', 'Nc', 'Ngamma', 'sc', 'sq', 'sgamma', 'dc', 'dq', 'dgamma', 'ic', 'iq', 'igamma'];
+
+// Hansen's ground and base factors, used by every theory except Vesić, mirroring calculateSlopeFactors
+const HANSEN_SLOPE_FACTORS: Record<keyof SlopeFactors, { label: string; expression: string; formula: string }> = {
+  gc: { label: 'gc', expression: '1 − (β°/147) R', formula: '1-MIN({beta}/147,1)*{reach}' },
+  gq: { label: 'gq', expression: '1 − (1 − (1 − 0.5 tanβ)⁵) R', formula: '1-(1-MAX(1-0.5*TAN(RADIANS({beta})),0)^5)*{reach}' },
+  ggamma: { label: 'gγ', expression: 'gq', formula: '{gq}' },
+  bc: { label: 'bc', expression: '1 − α°/147', formula: 'MAX(1-{tilt}/147,0)' },
+  bq: { label: 'bq', expression: 'e^(−2 α tanφ)', formula: 'EXP(-2*RADIANS({tilt})*TAN({phi_rad}))' },
+  bgamma: { label: 'bγ', expression: 'e^(−2.7 α tanφ)', formula: 'EXP(-2.7*RADIANS({tilt})*TAN({phi_rad}))' }
+};
+
+/**
+ * Builds the audit workbook. The Calculation sheet holds live formulas for the
+ * calculateBearingCapacity chain that read from the Inputs sheet, with the
+ * app's own value alongside each step for checking.
+ */
+export function buildWorkbook(data: WorkbookData): Workbook {
+  const { inputs, results, combinations } = data;
+  const { foundation, waterTable, fos, method } = inputs;
+  const load = combinations[0]?.load ?? { V: 0, H: 0, Mx: 0, My: 0 };
+  const theory = BEARING_CAPACITY_METHODS[method];
+  const layered = inputs.profileMode === 'Layered' && 'layerCase' in results
+    ? results as LayeredCalculationResults
+    : null;
+
+  // Soil actually used for the bearing stratum and drainage stage
+  const baseSoil = layered ? inputs.layers[layered.bearingLayerIndex] : inputs.soil;
+  const soil = results.Stage ? soilForStage(baseSoil, results.Stage) : baseSoil;
+  const q_overburden = layered ? overburdenPressure(inputs.layers, foundation.Df, waterTable) : null;
+
+  const wb = new Workbook();
+  wb.creator = 'GeotechCalc Pro';
+  wb.created = new Date();
+
+  // --- Inputs ---
+  const inputSheet = wb.addWorksheet('Inputs');
+  inputSheet.columns = [
+    { header: 'Parameter', key: 'label', width: 34 },
+    { header: 'Symbol', key: 'symbol', width: 12 },
+    { header: 'Value', key: 'value', width: 18 },
+    { header: 'Unit', key: 'unit', width: 10 },
+    { header: 'Source', key: 'source', width: 44 }
+  ];
+  // Correlation an input was taken from; staged clays analyse c = cu undrained and c', φ' drained
+  const sourceOf = (field: CorrelatedField) => {
+    const key = !results.Stage || field === 'Es' ? field : results.Stage === 'Undrained' && field === 'c' ? 'cu' : null;
+    const source = key && baseSoil.correlated?.[key];
+    return source ? `Correlated: ${source}` : 'Measured';
+  };
+  const refs: Record<string, string> = {};
+  const addInput = (key: string, label: string, symbol: string, value: number | string | null, unit = '', source?: string) => {
+    const row = inputSheet.addRow({ label, symbol, value, unit, source });
+    row.getCell('value').fill = INPUT_FILL;
+    refs[key] = `Inputs!$C$${row.number}`;
+  };
+  addInput('soil_type', 'Soil type (bearing stratum)', '', soil.type);
+  addInput('c', 'Cohesion', 'c', soil.c, 'kPa', sourceOf('c'));
+  addInput('phi', 'Friction angle', 'φ', soil.phi, '°', sourceOf('phi'));
+  addInput('gamma', 'Unit weight', 'γ', soil.gamma, 'kN/m³');
+  addInput('gamma_sub', 'Submerged unit weight', "γ'", soil.gamma_sub, 'kN/m³');
+  addInput('N', 'SPT N', 'N', results.SptN ?? soil.spt_n ?? null);
+  addInput('Es', 'Elastic modulus', 'Es', soil.Es ?? null, 'kPa', soil.Es ? sourceOf('Es') : undefined);
+  addInput('mu', "Poisson's ratio", 'μ', results.elastic?.mu ?? soil.mu ?? DEFAULT_POISSON);
+  addInput('Is', 'Settlement influence factor', 'Is', results.elastic?.Is ?? null, '',
+    results.elastic
+      ? results.elastic.case === 'Standard' ? 'Standard fixed value' : `Steinbrenner (1934), ${results.elastic.case.toLowerCase()}`
+      : undefined);
+  addInput('shape', 'Foundation shape', '', foundation.shape);
+  addInput('B', 'Width', 'B', foundation.B, 'm');
+  addInput('L', 'Length', 'L', foundation.L, 'm');
+  addInput('Df', 'Founding depth', 'Df', foundation.Df, 'm');
+  addInput('beta', 'Ground slope', 'β', foundation.groundSlope ?? 0, '°');
+  addInput('tilt', 'Base tilt', 'α', foundation.baseTilt ?? 0, '°');
+  addInput('setback', 'Setback from slope crest', 'b', foundation.crestSetback ?? 0, 'm');
+  addInput('Dw', 'Water table depth', 'Dw', waterTable, 'm');
+  addInput('FOS', 'Factor of safety', 'FOS', fos);
+  addInput('V', 'Vertical load (governing)', 'V', load.V, 'kN');
+  addInput('H', 'Horizontal load (governing)', 'H', load.H, 'kN');
+  addInput('Mx', 'Moment about x', 'Mx', load.Mx, 'kN·m');
+  addInput('My', 'Moment about y', 'My', load.My, 'kN·m');
+  addInput('q_overburden', 'Overburden from layered profile', 'σv0', q_overburden, 'kPa');
+  styleHeader(inputSheet);
+
+  inputSheet.addRow([]);
+  const info: [string, string][] = [
+    ['Project', data.project.name],
+    ['Footing', data.footingName],
+    ['Client', data.project.metadata.client],
+    ['Site', data.project.metadata.site],
+    ['Borehole ID', data.project.metadata.boreholeId],
+    ['Engineer', data.project.metadata.engineer],
+    ['Bearing capacity theory', theory.label],
+    ['Governing combination', combinations[0]?.combination.name ?? '—'],
+    ['Drainage stage', results.Stage ? DRAINAGE_STAGES[results.Stage] : '—']
+  ];
+  info.forEach(([label, value]) => inputSheet.addRow([label, '', value]));
+
+  inputSheet.addRow([]);
+  inputSheet.addRow(['Load case', 'Type', 'Factor', 'V / H (kN)', 'Mx / My (kN·m)']).font = { bold: true };
+  inputs.loadCases.forEach(c => inputSheet.addRow([c.name, c.type, c.factor ?? 1, `${c.V} / ${c.H}`, `${c.Mx} / ${c.My}`]));
+
+  if (data.warnings.length > 0) {
+    inputSheet.addRow([]);
+    inputSheet.addRow(['Input warnings']).font = { bold: true };
+    data.warnings.forEach(issue => inputSheet.addRow([issue.message]));
+  }
+
+  // --- Calculation ---
+  const calc = wb.addWorksheet('Calculation');
+  calc.columns = [
+    { header: 'Step', key: 'label', width: 36 },
+    { header: 'Symbol', key: 'key', width: 12 },
+    { header: 'Expression', key: 'expression', width: 52 },
+    { header: 'Value', key: 'value', width: 16 },
+    { header: 'App value', key: 'app', width: 16 },
+    { header: 'Difference', key: 'diff', width: 14 },
+    { header: 'Unit', key: 'unit', width: 10 }
+  ];
+
+  const beta = foundation.groundSlope ?? 0;
+  const slopeReach = beta > 0 ? Math.max(1 - (foundation.crestSetback ?? 0) / ((soil.phi > 0 ? 6 : 2) * foundation.B), 0) : 0;
+
+  const calcRows: CalcRow[] = [
+    { key: 'ex', label: 'Eccentricity along B', expression: '|My / V|', formula: 'IF({V}<>0,ABS({My}/{V}),0)', value: results.ex, unit: 'm' },
+    { key: 'ey', label: 'Eccentricity along L', expression: '|Mx / V|', formula: 'IF({V}<>0,ABS({Mx}/{V}),0)', value: results.ey, unit: 'm' },
+    { key: 'B_prime', label: 'Effective width', expression: "B' = max(B − 2ex, 0.1)", formula: 'MAX({B}-2*{ex},0.1)', value: results.B_prime, unit: 'm' },
+    { key: 'L_prime', label: 'Effective length', expression: "L' = max(L − 2ey, 0.1)", formula: 'MAX({L}-2*{ey},0.1)', value: results.L_prime, unit: 'm' },
+    {
+      key: 'q', label: 'Surcharge at founding level', expression: layered ? 'σv0 from layered profile' : "γ Df, or γ Dw + γ' (Df − Dw) when Dw ≤ Df",
+      formula: layered ? '{q_overburden}' : 'IF({Dw}<={Df},{gamma}*{Dw}+{gamma_sub}*({Df}-{Dw}),{gamma}*{Df})',
+      value: results.qu - results.qnu, unit: 'kPa'
+    },
+    {
+      key: 'W_prime', label: 'Water table factor', expression: "0.5 if Dw ≤ Df; 1 if Dw ≥ Df + B; else 0.5 (1 + (Dw − Df)/B)",
+      formula: 'IF({Dw}<={Df},0.5,IF({Dw}>={Df}+{B},1,0.5*(1+({Dw}-{Df})/{B})))', value: results.W_prime
+    },
+    { key: 'gamma_eff', label: 'Effective unit weight (term 3)', expression: "γ W'", formula: '{gamma}*{W_prime}', value: soil.gamma * results.W_prime, unit: 'kN/m³' },
+    { key: 'phi_rad', label: 'Friction angle in radians', expression: 'φ π / 180', formula: 'RADIANS({phi})', value: soil.phi * Math.PI / 180 },
+    { key: 'k', label: 'Depth parameter', expression: 'Df/B, or tan⁻¹(Df/B) when Df/B > 1', formula: 'IF({Df}/{B}<=1,{Df}/{B},ATAN({Df}/{B}))', value: foundation.Df / foundation.B <= 1 ? foundation.Df / foundation.B : Math.atan(foundation.Df / foundation.B) },
+    { key: 'alpha', label: 'Load inclination', expression: 'tan⁻¹(|H| / V)', formula: 'IF({V}>0,DEGREES(ATAN(ABS({H})/{V})),0)', value: load.V > 0 ? Math.atan(Math.abs(load.H) / load.V) * 180 / Math.PI : 0, unit: '°' },
+    ...FACTOR_ORDER.map<CalcRow>(f => method === 'IS 6403'
+      ? { key: f, label: `Factor ${FACTOR_LABELS[f]}`, expression: IS6403_FACTORS[f].expression, formula: IS6403_FACTORS[f].formula, value: results[f] }
+      : { key: f, label: `Factor ${FACTOR_LABELS[f]}`, expression: `${theory.label} (see Factors sheet)`, formula: null, value: results[f] }),
+    {
+      key: 'reach', label: 'Slope influence at setback', expression: 'R = 1 − b/6B, or 1 − b/2B for φ = 0, not below 0; 0 on level ground',
+      formula: 'IF({beta}<=0,0,MAX(1-{setback}/(IF({phi}>0,6,2)*{B}),0))', value: slopeReach
+    },
+    ...(Object.keys(HANSEN_SLOPE_FACTORS) as (keyof SlopeFactors)[]).map<CalcRow>(f => method === 'Vesic'
+      ? { key: f, label: `Factor ${HANSEN_SLOPE_FACTORS[f].label}`, expression: `${theory.label} (see Factors sheet)`, formula: null, value: results[f] }
+      : { key: f, label: `Factor ${HANSEN_SLOPE_FACTORS[f].label}`, expression: HANSEN_SLOPE_FACTORS[f].expression, formula: HANSEN_SLOPE_FACTORS[f].formula, value: results[f] }),
+    { key: 'term1', label: 'Term 1 (cohesion)', expression: 'c Nc sc dc ic gc bc', formula: '{c}*{Nc}*{sc}*{dc}*{ic}*{gc}*{bc}', value: results.term1, unit: 'kPa' },
+    { key: 'term2', label: 'Term 2 (surcharge)', expression: 'q Nq sq dq iq gq bq', formula: '{q}*{Nq}*{sq}*{dq}*{iq}*{gq}*{bq}', value: results.term2, unit: 'kPa' },
+    { key: 'term3', label: 'Term 3 (self weight)', expression: "0.5 γ_eff B' Nγ sγ dγ iγ gγ bγ", formula: '0.5*{gamma_eff}*{B_prime}*{Ngamma}*{sgamma}*{dgamma}*{igamma}*{ggamma}*{bgamma}', value: results.term3, unit: 'kPa' },
+    { key: 'qu', label: 'Ultimate bearing capacity', expression: 'T1 + T2 + T3', formula: '{term1}+{term2}+{term3}', value: layered ? layered.qt : results.qu, unit: 'kPa' },
+    { key: 'qnu', label: 'Net ultimate bearing capacity', expression: 'qu − q', formula: '{qu}-{q}', value: layered ? layered.qt - (results.qu - results.qnu) : results.qnu, unit: 'kPa' },
+    { key: 'qns', label: 'Net safe bearing capacity', expression: 'qnu / FOS', formula: '{qnu}/{FOS}', value: layered ? (layered.qt - (results.qu - results.qnu)) / fos : results.qns, unit: 'kPa' },
+    { key: 'qs', label: 'Gross safe bearing capacity', expression: 'qns + q', formula: '{qns}+{q}', value: layered ? (layered.qt - (results.qu - results.qnu)) / fos + (results.qu - results.qnu) : results.qs, unit: 'kPa' },
+    {
+      key: 'qa_spt', label: 'Allowable pressure from SPT', expression: 'IS 6403 SPT chart by soil type',
+      formula: 'IF(ISNUMBER({N}),'
+        + 'IF({soil_type}="Cohesionless (Sand)",IF({N}<10,50+5*({N}-5),IF({N}<30,100+10*({N}-10),300)),'
+        + 'IF({soil_type}="Cohesive (Clay)",IF({N}<4,50,IF({N}<8,80,IF({N}<15,100,200))),'
+        + 'IF({soil_type}="Rock",500,100+10*{N}))),NA())',
+      value: results.qa_spt, unit: 'kPa'
+    },
+    // A layered SBC and settlement follow from the two-layer qu, not this chain; they are listed below it instead
+    ...(layered ? [] : [
+      { key: 'sbc', label: 'Recommended safe bearing capacity', expression: 'min(qs, qa SPT)', formula: 'IF(ISNUMBER({qa_spt}),MIN({qs},{qa_spt}),{qs})', value: results.recommended_sbc, unit: 'kPa' },
+      {
+        key: 'settlement', label: 'Settlement at qs', expression: 'qs B (1 − μ²) Is / Es',
+        formula: 'IF(AND(ISNUMBER({Es}),{Es}>0),{qs}*{B}*(1-{mu}^2)*{Is}/{Es}*1000,IF({soil_type}="Cohesive (Clay)",{qs}/50*25,{qs}/100*15))',
+        value: results.settlement, unit: 'mm'
+      }
+    ])
+  ];
+
+  calcRows.forEach((row, i) => { refs[row.key] = `$D$${i + 2}`; });
+  const resolve = (formula: string) => formula.replace(/\{(\w+)\}/g, (_, key: string) => {
+    if (!refs[key]) throw new Error(`Unknown workbook reference ${key}`);
+    return refs[key];
+  });
+
+  calcRows.forEach(row => {
+    const r = calc.addRow({ label: row.label, key: row.key, expression: row.expression, app: finite(row.value), unit: row.unit ?? '' });
+    const value: Cell = r.getCell('value');
+    value.value = row.formula
+      ? { formula: resolve(row.formula), result: finite(row.value) ?? undefined }
+      : finite(row.value);
+    if (finite(row.value) !== null) {
+      r.getCell('diff').value = { formula: `D${r.number}-E${r.number}`, result: 0 };
+    }
+    value.numFmt = '0.0000';
+    r.getCell('app').numFmt = '0.0000';
+    r.getCell('diff').numFmt = '0.0E+00';
+  });
+  styleHeader(calc);
+
+  if (layered) {
+    calc.addRow([]);
+    calc.addRow(['Layered profile', '', `${layered.layerCase}: the chain above is the bearing layer taken as infinitely thick (qt).`]);
+    calc.addRow(['Layered qu (app)', 'qu', 'Meyerhof–Hanna two-layer interaction', finite(results.qu), '', '', 'kPa']);
+    calc.addRow(['Layered qs (app)', 'qs', '(qu − q) / FOS + q', finite(results.qs), '', '', 'kPa']);
+    calc.addRow(['Recommended SBC (app)', 'sbc', 'min(layered qs, qa SPT)', finite(results.recommended_sbc), '', '', 'kPa']);
+    calc.addRow(['Settlement (app)', 'settlement', 'At layered qs, as computed by the app', finite(results.settlement), '', '', 'mm']);
+  }
+
+  // --- Factors ---
+  const factors = wb.addWorksheet('Factors');
+  factors.columns = [
+    { header: 'Factor', key: 'factor', width: 18 },
+    ...data.comparison.map(r => ({ header: BEARING_CAPACITY_METHODS[r.Method].label, key: r.Method, width: 20 }))
+  ];
+  const comparisonRow = (label: string, value: (r: CalculationResults) => number) => {
+    const row: Record<string, string | number | null> = { factor: label };
+    data.comparison.forEach(r => { row[r.Method] = finite(value(r)); });
+    factors.addRow(row).eachCell((cell, col) => { if (col > 1) cell.numFmt = '0.000'; });
+  };
+  (Object.keys(FACTOR_LABELS) as (keyof BearingCapacityFactors)[]).forEach(f => comparisonRow(FACTOR_LABELS[f], r => r[f]));
+  (Object.keys(HANSEN_SLOPE_FACTORS) as (keyof SlopeFactors)[]).forEach(f => comparisonRow(HANSEN_SLOPE_FACTORS[f].label, r => r[f]));
+  comparisonRow("W'", r => r.W_prime);
+  comparisonRow('qu (kPa)', r => r.qu);
+  comparisonRow('qns (kPa)', r => r.qns);
+  comparisonRow('Recommended SBC (kPa)', r => r.recommended_sbc);
+  styleHeader(factors);
+  factors.addRow([]);
+  data.comparison.forEach(r => factors.addRow([BEARING_CAPACITY_METHODS[r.Method].label, BEARING_CAPACITY_METHODS[r.Method].reference]));
+
+  // --- Sensitivity ---
+  const sensitivity = wb.addWorksheet('Sensitivity');
+  sensitivity.columns = [
+    { header: 'Width B (m)', key: 'width', width: 14 },
+    { header: 'Recommended SBC (kPa)', key: 'sbc', width: 24 },
+    { header: 'Settlement (mm)', key: 'settlement', width: 18 },
+    { header: 'Within 25 mm', key: 'ok', width: 14 }
+  ];
+  data.sensitivity.forEach(p => {
+    const row = sensitivity.addRow({ width: parseFloat(p.width), sbc: p.sbc, settlement: p.settlement });
+    row.getCell('ok').value = { formula: `IF(C${row.number}<=25,"Yes","No")`, result: p.settlement <= 25 ? 'Yes' : 'No' };
+  });
+  styleHeader(sensitivity);
+
+  sensitivity.addRow([]);
+  const resistance = inputs.combinationSet === 'Limit State' ? `${SBC_FACTORS['Limit State']} x SBC (kPa)` : 'q allowable (kPa)';
+  sensitivity.addRow(['Combination', 'q applied (kPa)', resistance, 'Utilisation']).font = { bold: true };
+  combinations.forEach(c => {
+    const row = sensitivity.addRow([c.combination.name, c.q_applied, c.q_allowable]);
+    row.getCell(4).value = { formula: `B${row.number}/C${row.number}`, result: c.utilisation };
+    row.getCell(4).numFmt = '0.0%';
+  });
+
+  return wb;
+}
+
+/** Serialises the workbook to an .xlsx blob */
+export async function workbookBlob(data: WorkbookData): Promise<Blob> {
+  const wb = buildWorkbook(data);
+  const buffer = await wb.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
@@ -0,0 +1,214 @@
+import {
+  SoilLayer,
+  FoundationProperties,
+  Borehole,
+  SptReading,
+  CorrectedSptReading,
+  CorrectedBorehole,
+  BoreholeDesignN,
+  SptDesign,
+  SptEquipment
+} from './types';
+import { layerIndexAtDepth, overburdenPressure } from './profile';
+import { parseCsv } from './download';
+
+// Borehole logs without an ID column are treated as a single hole
+const DEFAULT_BOREHOLE = 'BH1';
+
+// Safety hammer in a 100 mm hole with a standard sampler: no correction beyond rod length
+export const DEFAULT_SPT_EQUIPMENT: SptEquipment = { energyRatio: 60, boreholeDiameter: 100, samplerFactor: 1.0 };
+
+const PA = 100; // Atmospheric pressure (kPa)
+
+// Accepted header spellings for the CSV log columns
+const HEADERS = {
+  id: ['borehole', 'bh', 'hole', 'hole id', 'loca_id', 'location', 'id'],
+  depth: ['depth', 'depth (m)', 'z', 'ispt_top', 'top'],
+  N: ['n', 'spt n', 'spt', 'n value', 'n-value', 'ispt_nval', 'blows']
+};
+
+const groupBoreholes = (rows: { id: string; reading: SptReading }[]): Borehole[] => {
+  const holes = new Map<string, SptReading[]>();
+  rows.forEach(({ id, reading }) => holes.set(id, [...(holes.get(id) ?? []), reading]));
+  return [...holes].map(([id, readings]) => ({ id, readings: readings.sort((a, b) => a.depth - b.depth) }));
+};
+
+const checkReading = (depth: number, N: number, where: string) => {
+  if (!Number.isFinite(depth) || depth < 0) throw new Error(`${where}: depth must be zero or more`);
+  if (!Number.isFinite(N) || N < 0) throw new Error(`${where}: N must be zero or more`);
+};
+
+/**
+ * Reads a simple borehole log: borehole ID, depth (m) and field N. A header
+ * row is matched by name; without one the columns are taken in that order,
+ * or as depth and N alone when there are two.
+ */
+export function parseBoreholeCsv(text: string): Borehole[] {
+  const rows = parseCsv(text);
+  if (rows.length === 0) throw new Error('Borehole log is empty');
+
+  const header = rows[0].map(h => h.toLowerCase());
+  const find = (names: string[]) => header.findIndex(h => names.includes(h) || names.includes(h.replace(/\s*\(.*\)$/, '')));
+  const named = { id: find(HEADERS.id), depth: find(HEADERS.depth), N: find(HEADERS.N) };
+  const hasHeader = named.depth >= 0 && named.N >= 0;
+  const width = rows[hasHeader ? 1 : 0]?.length ?? 0;
+  const index = hasHeader ? named : width >= 3 ? { id: 0, depth: 1, N: 2 } : { id: -1, depth: 0, N: 1 };
+
+  const data = rows.slice(hasHeader ? 1 : 0).map((cells, r) => {
+    const line = r + (hasHeader ? 2 : 1);
+    const depth = parseFloat(cells[index.depth]);
+    const N = parseFloat(cells[index.N]);
+    checkReading(depth, N, `Line ${line}`);
+    return { id: (index.id >= 0 && cells[index.id]) || DEFAULT_BOREHOLE, reading: { depth, N } };
+  });
+
+  if (data.length === 0) throw new Error('Borehole log has no data rows');
+  return groupBoreholes(data);
+}
+
+// AGS4 rows are comma separated, every field quoted, with "" for a literal quote
+const splitAgsRow = (line: string): string[] => {
+  const cells: string[] = [];
+  const pattern = /"((?:[^"]|"")*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) cells.push(match[1].replace(/""/g, '"'));
+  return cells;
+};
+
+/**
+ * Reads the ISPT (SPT) group of an AGS4 file. ISPT_TOP is the test depth and
+ * ISPT_NVAL the blow count; tests without an N value (e.g. refusals recorded
+ * only in ISPT_REP) are skipped.
+ */
+export function parseAgs4(text: string): Borehole[] {
+  let group = '';
+  let headings: string[] = [];
+  const data: { id: string; reading: SptReading }[] = [];
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    const cells = splitAgsRow(line);
+    if (cells.length === 0) return;
+    const [type, ...values] = cells;
+    if (type === 'GROUP') {
+      group = values[0] ?? '';
+      headings = [];
+    } else if (type === 'HEADING') {
+      headings = values;
+    } else if (type === 'DATA' && group === 'ISPT') {
+      const field = (name: string) => values[headings.indexOf(name)] ?? '';
+      const nval = field('ISPT_NVAL');
+      if (nval === '') return;
+      const depth = parseFloat(field('ISPT_TOP'));
+      const N = parseFloat(nval);
+      checkReading(depth, N, `Line ${i + 1}`);
+      data.push({ id: field('LOCA_ID') || DEFAULT_BOREHOLE, reading: { depth, N } });
+    }
+  });
+
+  if (data.length === 0) throw new Error('No SPT results (ISPT group) found in the AGS file');
+  return groupBoreholes(data);
+}
+
+/** Reads an AGS4 or CSV borehole log, telling them apart by the AGS GROUP row */
+export function parseBoreholeLog(text: string): Borehole[] {
+  return /^\s*"GROUP"/m.test(text) ? parseAgs4(text) : parseBoreholeCsv(text);
+}
+
+/** Rod length correction CR (Youd et al., 2001, Table 2), taking the rod length as the test depth */
+export function rodLengthFactor(depth: number): number {
+  if (depth < 3) return 0.75;
+  if (depth < 4) return 0.8;
+  if (depth < 6) return 0.85;
+  if (depth < 10) return 0.95;
+  return 1.0;
+}
+
+/** Borehole diameter correction CB (Youd et al., 2001, Table 2) */
+export function boreholeDiameterFactor(diameter: number): number {
+  if (diameter <= 115) return 1.0;
+  return diameter <= 150 ? 1.05 : 1.15;
+}
+
+/** Field N corrected to 60% of the theoretical hammer energy: N60 = N · CE · CB · CR · CS with CE = ER / 60 */
+export function energyCorrectedN(N: number, depth: number, equipment: SptEquipment): number {
+  const CE = equipment.energyRatio / 60;
+  return N * CE * boreholeDiameterFactor(equipment.boreholeDiameter) * rodLengthFactor(depth) * equipment.samplerFactor;
+}
+
+/** (N1)60 = CN · N60 with CN = (Pa / σ'v)^0.5, capped at 1.7 (Liao & Whitman, 1986) */
+export function normalisedN(N60: number, sigma_v: number): number {
+  return N60 * Math.min(Math.sqrt(PA / Math.max(sigma_v, 1e-6)), 1.7);
+}
+
+/**
+ * Corrects each field N for overburden, CN = 0.77 log10(2000 / σ'v) with σ'v
+ * in kPa (Peck, Hanson & Thornburn, 1974; IS 2131), capped at 2. Below the
+ * water table in cohesionless soil N' above 15 is then reduced for dilatancy
+ * to 15 + (N' − 15)/2. Cohesive layers are left uncorrected.
+ */
+export function correctSptReadings(
+  readings: SptReading[],
+  layers: SoilLayer[],
+  waterTable: number | null
+): CorrectedSptReading[] {
+  return readings.map(reading => {
+    const layer = layers[layerIndexAtDepth(layers, reading.depth)];
+    const sigma_v = overburdenPressure(layers, reading.depth, waterTable);
+    const granular = layer.type === 'Cohesionless (Sand)';
+    const CN = granular ? Math.min(0.77 * Math.log10(2000 / Math.max(sigma_v, 1)), 2) : 1;
+    const N_overburden = CN * reading.N;
+    const dilatancy = granular && waterTable !== null && reading.depth >= waterTable && N_overburden > 15;
+    return {
+      ...reading,
+      sigma_v,
+      CN,
+      N_overburden,
+      N_corrected: dilatancy ? 15 + 0.5 * (N_overburden - 15) : N_overburden,
+      dilatancy
+    };
+  });
+}
+
+/**
+ * Design N of one borehole: mean corrected N between Df and Df + B. When no
+ * test falls inside that zone the nearest test to it is used.
+ */
+export function boreholeDesignN(readings: CorrectedSptReading[], top: number, bottom: number): { designN: number | null; zoneCount: number } {
+  if (readings.length === 0) return { designN: null, zoneCount: 0 };
+  const zone = readings.filter(r => r.depth >= top - 1e-9 && r.depth <= bottom + 1e-9);
+  if (zone.length > 0) {
+    return { designN: zone.reduce((sum, r) => sum + r.N_corrected, 0) / zone.length, zoneCount: zone.length };
+  }
+  const distance = (r: CorrectedSptReading) => (r.depth < top ? top - r.depth : r.depth - bottom);
+  const nearest = readings.reduce((best, r) => (distance(r) < distance(best) ? r : best));
+  return { designN: nearest.N_corrected, zoneCount: 0 };
+}
+
+/** Corrects every borehole of the site against the soil profile */
+export function correctBoreholes(
+  boreholes: Borehole[],
+  layers: SoilLayer[],
+  waterTable: number | null
+): CorrectedBorehole[] {
+  return boreholes.map(bh => ({ id: bh.id, readings: correctSptReadings(bh.readings, layers, waterTable) }));
+}
+
+/** Design N of each borehole for a footing, and the site design N (lowest borehole) */
+export function designSptN(boreholes: CorrectedBorehole[], foundation: FoundationProperties): SptDesign {
+  const zoneTop = foundation.Df;
+  const zoneBottom = foundation.Df + foundation.B;
+  const results: BoreholeDesignN[] = boreholes.map(bh => ({ ...bh, ...boreholeDesignN(bh.readings, zoneTop, zoneBottom) }));
+
+  const governing = results.reduce<BoreholeDesignN | null>((min, b) => {
+    if (b.designN === null) return min;
+    return !min || b.designN < min.designN! ? b : min;
+  }, null);
+
+  return {
+    zoneTop,
+    zoneBottom,
+    boreholes: results,
+    designN: governing?.designN ?? null,
+    governingBorehole: governing?.id ?? null
+  };
+}
@@ -0,0 +1,177 @@
+import { FoundationProperties, StressMethod, Isobar } from './types';
+
+// Westergaard material constant η = √((1 − 2μ) / (2 − 2μ)) for μ = 0
+const ETA = Math.SQRT1_2;
+const STRIP_LENGTH = 1e6; // Length used to treat a strip as a long rectangle (m)
+
+// Boussinesq influence beneath the corner of a loaded rectangle a × b (Newmark/Fadum)
+function boussinesqCorner(a: number, b: number, z: number): number {
+  const m = a / z;
+  const n = b / z;
+  const V = m * m + n * n + 1;
+  const mn = m * n;
+  return (1 / (4 * Math.PI)) * (
+    ((2 * mn * Math.sqrt(V)) / (V + mn * mn)) * ((V + 1) / V)
+    + Math.atan2(2 * mn * Math.sqrt(V), V - mn * mn)
+  );
+}
+
+// Westergaard influence beneath the corner of a loaded rectangle a × b
+function westergaardCorner(a: number, b: number, z: number): number {
+  const m = a / z;
+  const n = b / z;
+  const arg = Math.sqrt(ETA * ETA * (1 / (m * m) + 1 / (n * n)) + Math.pow(ETA, 4) / (m * m * n * n));
+  return (1 / (2 * Math.PI)) * (Math.PI / 2 - Math.atan(arg));
+}
+
+// Superposes signed corner rectangles so the point may lie inside or outside the area
+function rectangleInfluence(
+  corner: (a: number, b: number, z: number) => number,
+  B: number,
+  L: number,
+  x: number,
+  y: number,
+  z: number
+): number {
+  const signed = (a: number, b: number) => {
+    if (a === 0 || b === 0) return 0;
+    return Math.sign(a) * Math.sign(b) * corner(Math.abs(a), Math.abs(b), z);
+  };
+  const x1 = -B / 2 - x, x2 = B / 2 - x;
+  const y1 = -L / 2 - y, y2 = L / 2 - y;
+  return signed(x2, y2) - signed(x1, y2) - signed(x2, y1) + signed(x1, y1);
+}
+
+// Numerical integration of a point-load kernel over a circular area of diameter B
+function circleInfluence(kernel: (r: number, z: number) => number, B: number, x: number, z: number): number {
+  const R = B / 2;
+  const nr = 16;
+  const nt = 32;
+  let sum = 0;
+  for (let i = 0; i < nr; i++) {
+    const r = ((i + 0.5) * R) / nr;
+    const dr = R / nr;
+    for (let j = 0; j < nt; j++) {
+      const t = ((j + 0.5) * 2 * Math.PI) / nt;
+      const dx = r * Math.cos(t) - x;
+      const dy = r * Math.sin(t);
+      sum += kernel(Math.hypot(dx, dy), z) * r * dr * ((2 * Math.PI) / nt);
+    }
+  }
+  return sum;
+}
+
+const boussinesqPoint = (r: number, z: number) => (3 * Math.pow(z, 3)) / (2 * Math.PI * Math.pow(r * r + z * z, 2.5));
+const westergaardPoint = (r: number, z: number) => ETA / (2 * Math.PI * z * z * Math.pow(ETA * ETA + (r * r) / (z * z), 1.5));
+
+/**
+ * Influence factor Δσz / q at a point below a uniformly loaded footing.
+ * x and y are measured from the footing centre along B and L, z below the base (m).
+ */
+export function stressInfluence(
+  foundation: FoundationProperties,
+  method: StressMethod,
+  x: number,
+  y: number,
+  z: number
+): number {
+  const { shape, B } = foundation;
+  const L = shape === 'Strip/Continuous' ? STRIP_LENGTH : shape === 'Circular' ? B : foundation.L;
+
+  if (z <= 0) {
+    const inside = shape === 'Circular' ? Math.hypot(x, y) <= B / 2 : Math.abs(x) <= B / 2 && Math.abs(y) <= L / 2;
+    return inside ? 1 : 0;
+  }
+
+  switch (method) {
+    case '2:1': {
+      const Bz = B + z;
+      const Lz = L + z;
+      if (shape === 'Circular') return Math.hypot(x, y) <= Bz / 2 ? (B * B) / (Bz * Bz) : 0;
+      if (Math.abs(x) > Bz / 2 || Math.abs(y) > Lz / 2) return 0;
+      return shape === 'Strip/Continuous' ? B / Bz : (B * L) / (Bz * Lz);
+    }
+    case 'Westergaard':
+      if (shape === 'Circular') {
+        if (x === 0 && y === 0) return 1 - ETA / Math.sqrt(ETA * ETA + Math.pow(B / 2 / z, 2));
+        return circleInfluence(westergaardPoint, B, Math.hypot(x, y), z);
+      }
+      return rectangleInfluence(westergaardCorner, B, L, x, y, z);
+    case 'Boussinesq':
+    default:
+      if (shape === 'Circular') {
+        if (x === 0 && y === 0) return 1 - Math.pow(1 / (1 + Math.pow(B / 2 / z, 2)), 1.5);
+        return circleInfluence(boussinesqPoint, B, Math.hypot(x, y), z);
+      }
+      if (shape === 'Strip/Continuous') {
+        // Closed form for an infinite strip
+        const t1 = Math.atan((x - B / 2) / z);
+        const t2 = Math.atan((x + B / 2) / z);
+        return (1 / Math.PI) * ((t2 - t1) + Math.sin(t2) * Math.cos(t2) - Math.sin(t1) * Math.cos(t1));
+      }
+      return rectangleInfluence(boussinesqCorner, B, L, x, y, z);
+  }
+}
+
+// Vertical stress increase Δσz below the footing centre (kPa)
+export function stressIncrease(
+  foundation: FoundationProperties,
+  method: StressMethod,
+  q: number,
+  z: number
+): number {
+  return q * stressInfluence(foundation, method, 0, 0, z);
+}
+
+/**
+ * Isobars of Δσz / q on the vertical section through the footing centre along B,
+ * traced by marching squares over a grid spanning ±halfWidth and depth (m).
+ */
+export function computeIsobars(
+  foundation: FoundationProperties,
+  method: StressMethod,
+  levels: number[],
+  halfWidth: number,
+  depth: number,
+  resolution = 48
+): Isobar[] {
+  const nx = resolution;
+  const nz = resolution;
+  const dx = (2 * halfWidth) / nx;
+  const dz = depth / nz;
+
+  const grid: number[][] = [];
+  for (let j = 0; j <= nz; j++) {
+    const z = Math.max(j * dz, 1e-3);
+    const row: number[] = [];
+    for (let i = 0; i <= nx; i++) {
+      row.push(stressInfluence(foundation, method, -halfWidth + i * dx, 0, z));
+    }
+    grid.push(row);
+  }
+
+  return levels.map(level => {
+    const segments: Isobar['segments'] = [];
+    const lerp = (a: number, b: number) => (a === b ? 0.5 : (level - a) / (b - a));
+
+    for (let j = 0; j < nz; j++) {
+      for (let i = 0; i < nx; i++) {
+        const x0 = -halfWidth + i * dx;
+        const z0 = j * dz;
+        const v = [grid[j][i], grid[j][i + 1], grid[j + 1][i + 1], grid[j + 1][i]];
+        const edges: [number, number][] = [];
+
+        // Cell edges: top, right, bottom, left
+        if ((v[0] >= level) !== (v[1] >= level)) edges.push([x0 + lerp(v[0], v[1]) * dx, z0]);
+        if ((v[1] >= level) !== (v[2] >= level)) edges.push([x0 + dx, z0 + lerp(v[1], v[2]) * dz]);
+        if ((v[3] >= level) !== (v[2] >= level)) edges.push([x0 + lerp(v[3], v[2]) * dx, z0 + dz]);
+        if ((v[0] >= level) !== (v[3] >= level)) edges.push([x0, z0 + lerp(v[0], v[3]) * dz]);
+
+        for (let k = 0; k + 1 < edges.length; k += 2) {
+          segments.push([edges[k][0], edges[k][1], edges[k + 1][0], edges[k + 1][1]]);
+        }
+      }
+    }
+    return { level, segments };
+  });
+}
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { designCombinedFooting, pressureProfile } from '../combined';
+import { CalculationResults, CombinedFootingInputs } from '../types';
+import { assertClose } from './helpers';
+
+const analyse = () => ({ recommended_sbc: 150 }) as CalculationResults;
+
+const INPUTS: CombinedFootingInputs = {
+  columns: [
+    { id: '1', name: 'C1', x: 0, V: 600, M: 0 },
+    { id: '2', name: 'C2', x: 4, V: 900, M: 0 }
+  ],
+  leftProjection: 0.5,
+  length: null,
+  width: null,
+  rounding: 0.05
+};
+
+test('trapezoidal pressure within the middle third and a triangle beyond it', () => {
+  const inside = pressureProfile(600, 1, 6, 0.5);
+  assertClose(inside.at(6), 100 * (1 + 6 * 0.5 / 6), 1e-9, 'q max');
+  const outside = pressureProfile(600, 1, 6, 1.5);
+  // Contact over 3 (L/2 − e) = 4.5 m with a peak of 2R / (B × 4.5)
+  assert.equal(outside.contact, 4.5);
+  assertClose(outside.at(6), 1200 / 4.5, 1e-9, 'q max');
+  assert.equal(outside.at(1), 0);
+});
+
+test('the footing is centred on the resultant and widened to the SBC', () => {
+  // Resultant 2.4 m from C1, 2.9 m from the edge: L = 5.8 m, B ≥ 1500 / (150 × 5.8) = 1.72 m
+  const r = designCombinedFooting(INPUTS, 1.5, analyse);
+  assertClose(r.L, 5.8, 1e-9, 'L');
+  assertClose(r.e, 0, 1e-9, 'e');
+  assertClose(r.B, 1.75, 1e-9, 'B');
+  assertClose(r.qmax, 1500 / (1.75 * 5.8), 1e-9, 'q max');
+  assert.equal(r.passes, true);
+});
+
+test('the beam diagrams close and the hogging moment peaks at zero shear', () => {
+  // w = 1500 / 5.8 per metre; zero shear at 600 / w = 2.32 m: M = w x² / 2 − 600 (x − 0.5)
+  const r = designCombinedFooting(INPUTS, 1.5, analyse);
+  const end = r.stations[r.stations.length - 1];
+  assertClose(end.shear, 0, 1e-6, 'end shear');
+  assertClose(end.moment, 0, 1e-6, 'end moment');
+  const w = 1500 / 5.8;
+  const x = 600 / w;
+  assertClose(r.maxHogging, w * x * x / 2 - 600 * (x - 0.5), 0.5, 'hogging');
+});
+
+test('zero rounding and a length short of the last column are rejected', () => {
+  assert.throws(() => designCombinedFooting({ ...INPUTS, rounding: 0 }, 1.5, analyse), /Rounding must be greater than zero/);
+  assert.throws(() => designCombinedFooting({ ...INPUTS, length: 4 }, 1.5, analyse), /stops short of the last column/);
+});
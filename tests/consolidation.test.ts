@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { degreeOfConsolidation, calculateConsolidationSettlement } from '../consolidation';
+import { SAND, CLAY, SQUARE, layer, assertClose } from './helpers';
+import { ConsolidationParameters } from '../types';
+
+const PARAMS: ConsolidationParameters = { Cc: 0.3, Cr: 0.05, e0: 1.0, OCR: 1, cv: 2, drainage: 'Double' };
+const PROFILE = [layer(SAND, 2, 'L1'), layer({ ...CLAY, consolidation: PARAMS }, 4, 'L2'), layer(SAND, 10, 'L3')];
+
+test('Terzaghi degree of consolidation: U = 50% at Tv = 0.197 and 90% at Tv = 0.848', () => {
+  assertClose(degreeOfConsolidation(0.197), 0.5, 2e-3, 'U50');
+  assertClose(degreeOfConsolidation(0.848), 0.9, 2e-3, 'U90');
+  assert.equal(degreeOfConsolidation(0), 0);
+});
+
+test('t50 of a doubly drained layer is Tv50 Hdr² / cv', () => {
+  // 4 m clay drained top and bottom: Hdr = 2 m, Tv50 = π/16
+  const r = calculateConsolidationSettlement(PROFILE, SQUARE, 100, null);
+  assertClose(r.t50, ((Math.PI / 16) * 2 * 2) / 2, 1e-3, 't50');
+});
+
+test('normally consolidated clay settles Cc H / (1 + e0) log(σ\'1 / σ\'0) in each sub-layer', () => {
+  const r = calculateConsolidationSettlement(PROFILE, SQUARE, 100, null);
+  const expected = r.subLayers.reduce((sum, s) => {
+    const h = s.zBottom - s.zTop;
+    return sum + (0.3 * h * 1000) / 2 * Math.log10((s.sigma0 + s.dSigma) / s.sigma0);
+  }, 0);
+  assert.equal(r.subLayers.length, 8);
+  assertClose(r.total, expected, 1e-9, 'total');
+});
+
+test('heavily overconsolidated clay recompresses on Cr only', () => {
+  const oc = [PROFILE[0], layer({ ...CLAY, consolidation: { ...PARAMS, OCR: 20 } }, 4, 'L2'), PROFILE[2]];
+  const nc = [PROFILE[0], layer({ ...CLAY, consolidation: { ...PARAMS, Cc: PARAMS.Cr } }, 4, 'L2'), PROFILE[2]];
+  assertClose(
+    calculateConsolidationSettlement(oc, SQUARE, 100, null).total,
+    calculateConsolidationSettlement(nc, SQUARE, 100, null).total,
+    1e-9,
+    'total'
+  );
+});
+
+test('mv settlement is mv Δσ h when mv is given and NaN otherwise', () => {
+  assert.ok(Number.isNaN(calculateConsolidationSettlement(PROFILE, SQUARE, 100, null).total_mv));
+  const withMv = [PROFILE[0], layer({ ...CLAY, consolidation: { ...PARAMS, mv: 5e-4 } }, 4, 'L2'), PROFILE[2]];
+  const r = calculateConsolidationSettlement(withMv, SQUARE, 100, null);
+  const expected = r.subLayers.reduce((sum, s) => sum + 5e-4 * s.dSigma * (s.zBottom - s.zTop) * 1000, 0);
+  assertClose(r.total_mv, expected, 1e-9, 'total_mv');
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  phiPeckHansonThornburn,
+  phiIS6403,
+  cuFromSpt,
+  cuFromCpt,
+  totalOverburden,
+  correlateSoil,
+  acceptCorrelation
+} from '../correlations';
+import { DEFAULT_SPT_EQUIPMENT } from '../spt';
+import { SAND, CLAY, layer, assertClose } from './helpers';
+
+test('φ from (N1)60 by Peck, Hanson & Thornburn and by IS 6403', () => {
+  assertClose(phiPeckHansonThornburn(20), 27.1 + 6 - 0.216, 1e-12, 'PHT');
+  assertClose(phiIS6403(20), 33, 1e-12, 'IS 6403');
+  assert.equal(phiIS6403(60), 41);
+});
+
+test('cu from N60 and from the cone', () => {
+  assert.equal(cuFromSpt(8), 50);
+  assertClose(cuFromCpt(1000, 150), 50, 1e-12, 'cu');
+});
+
+test('total overburden adds the pore pressure below the water table', () => {
+  assertClose(totalOverburden([layer(SAND, 20)], 4, 2), 36 + 20 + 2 * 9.81, 1e-9, 'σv0');
+});
+
+test('sand correlations read φ from (N1)60 and Es from N60', () => {
+  // 6 m test, dry: N60 = 15 × 0.95 = 14.3, σ'v = 108, (N1)60 = 14.3 √(100 / 108) = 13.8
+  const values = correlateSoil({ ...SAND, spt_n: 15 }, [layer(SAND, 20)], 6, null, DEFAULT_SPT_EQUIPMENT);
+  const phi = values.find(v => v.source.startsWith('Peck'))!;
+  assert.equal(phi.basis, 'N = 15, N60 = 14.3, (N1)60 = 13.8');
+  assertClose(phi.value, 31.1, 1e-9, 'φ');
+  // Es = 500 (N60 + 15)
+  assert.equal(values.find(v => v.field === 'Es')!.value, 14700);
+});
+
+test('clay correlations write cu to c unless the clay has drainage stages', () => {
+  const clay = { ...CLAY, spt_n: 8 };
+  const values = correlateSoil(clay, [layer(clay, 20)], 12, null, DEFAULT_SPT_EQUIPMENT);
+  assert.deepEqual(values.map(v => [v.field, v.value]), [['c', 50], ['Es', 15000]]);
+  const staged = correlateSoil({ ...clay, cu: 40, phi_eff: 24 }, [layer(clay, 20)], 12, null, DEFAULT_SPT_EQUIPMENT);
+  assert.equal(staged[0].field, 'cu');
+});
+
+test('an accepted correlation records its source', () => {
+  const soil = acceptCorrelation(SAND, { field: 'phi', value: 32, source: 'IS 6403 Fig. 1', basis: 'N = 15' });
+  assert.equal(soil.phi, 32);
+  assert.deepEqual(soil.correlated, { phi: 'IS 6403 Fig. 1' });
+});
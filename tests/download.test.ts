@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, toCsv, csvCell } from '../download';
+
+test('quoted fields keep delimiters, line breaks and doubled quotes', () => {
+  assert.deepEqual(parseCsv('id,note\nC1,"a, b"\r\nC2,"say ""hi""\nthere"\n'), [
+    ['id', 'note'],
+    ['C1', 'a, b'],
+    ['C2', 'say "hi"\nthere']
+  ]);
+});
+
+test('semicolons and tabs delimit, cells are trimmed and blank rows dropped', () => {
+  assert.deepEqual(parseCsv(' C1 ; 500\n\n C2\t600 \n,,\n'), [['C1', '500'], ['C2', '600']]);
+});
+
+test('an unterminated quote is an error', () => {
+  assert.throws(() => parseCsv('C1,"open\n'), /no closing quote/);
+});
+
+test('exported CSV reads back to the same cells', () => {
+  const rows = [['Column', 'Note'], ['C1', 'edge, north'], ['C2', '6" slab']];
+  assert.equal(csvCell('a,b'), '"a,b"');
+  assert.deepEqual(parseCsv(toCsv(rows)), rows);
+});
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  calculateBearingCapacity,
+  calculateLayeredBearingCapacity,
+  calculateContactPressure,
+  allowablePressureSPT,
+  soilForStage
+} from '../engine';
+import { InputValidationError } from '../validation';
+import { SAND, CLAY, STRIP, SQUARE, VERTICAL, layer, assertClose } from './helpers';
+
+test('IS 6403 factors for φ = 30° match the tabulated Nc, Nq and Nγ', () => {
+  const r = calculateBearingCapacity(SAND, STRIP, VERTICAL(500), null, 3);
+  assertClose(r.Nc, 30.14, 0.01, 'Nc');
+  assertClose(r.Nq, 18.40, 0.01, 'Nq');
+  assertClose(r.Ngamma, 22.40, 0.01, 'Nγ');
+});
+
+test('strip footing on sand: qu = q Nq dq + ½ γ B Nγ', () => {
+  // dq = 1 + 0.1 (Df/B) tan(45 + φ/2) = 1.0866
+  const r = calculateBearingCapacity(SAND, STRIP, VERTICAL(500), null, 3);
+  assertClose(r.dq, 1.0866, 1e-4, 'dq');
+  assertClose(r.term2, 18 * 18.401 * 1.0866, 0.1, 'q term');
+  assertClose(r.term3, 0.5 * 18 * 2 * 22.402, 0.1, 'γ term');
+  assertClose(r.qu, 763.1, 0.2, 'qu');
+  assertClose(r.qs, (763.1 - 18) / 3 + 18, 0.1, 'qs');
+});
+
+test('strip footing on clay (φ = 0): qu = c Nc dc + q', () => {
+  // Nc = 5.14, dc = 1 + 0.2 × 0.5 = 1.1, dq = 1.05
+  const r = calculateBearingCapacity(CLAY, STRIP, VERTICAL(300), null, 3);
+  assertClose(r.qu, 50 * 5.14 * 1.1 + 18 * 1.05, 0.01, 'qu');
+});
+
+test('water table at the base halves the γ term and submerges nothing above it', () => {
+  const dry = calculateBearingCapacity(SAND, STRIP, VERTICAL(500), null, 3);
+  const wet = calculateBearingCapacity(SAND, STRIP, VERTICAL(500), 1, 3);
+  assert.equal(wet.W_prime, 0.5);
+  assertClose(wet.term3, dry.term3 / 2, 1e-9, 'γ term');
+  assertClose(wet.term2, dry.term2, 1e-9, 'q term');
+});
+
+test('other theories give their published factors for φ = 30°', () => {
+  const factors = (method: 'Terzaghi' | 'Meyerhof' | 'Hansen' | 'Vesic') =>
+    calculateBearingCapacity(SAND, STRIP, VERTICAL(500), null, 3, { method });
+  const terzaghi = factors('Terzaghi');
+  assertClose(terzaghi.Nc, 37.16, 0.01, 'Terzaghi Nc');
+  assertClose(terzaghi.Nq, 22.46, 0.01, 'Terzaghi Nq');
+  assertClose(factors('Meyerhof').Ngamma, 15.67, 0.01, 'Meyerhof Nγ');
+  assertClose(factors('Hansen').Ngamma, 15.07, 0.01, 'Hansen Nγ');
+  assertClose(factors('Vesic').Ngamma, 22.40, 0.01, 'Vesić Nγ');
+});
+
+test('a square footing with no length is analysed as B × B rather than NaN', () => {
+  const blank = calculateBearingCapacity(SAND, { ...SQUARE, L: NaN }, VERTICAL(800), null, 3);
+  const square = calculateBearingCapacity(SAND, SQUARE, VERTICAL(800), null, 3);
+  assert.ok(Number.isFinite(blank.qu));
+  assert.equal(blank.FoundationLength, 2);
+  assert.equal(blank.qu, square.qu);
+  assert.notEqual(blank.status, 'NOT COMPUTABLE');
+});
+
+test('inputs outside the valid range are rejected rather than analysed', () => {
+  assert.throws(
+    () => calculateBearingCapacity({ ...SAND, phi: 0 }, STRIP, VERTICAL(500), null, 3),
+    InputValidationError
+  );
+  assert.throws(
+    () => calculateBearingCapacity(SAND, { ...STRIP, B: -1 }, VERTICAL(500), null, 3),
+    InputValidationError
+  );
+});
+
+test('a single-layer profile gives the homogeneous capacity', () => {
+  const layered = calculateLayeredBearingCapacity([layer(SAND, 10)], SQUARE, VERTICAL(800), null, 3);
+  const homogeneous = calculateBearingCapacity(SAND, SQUARE, VERTICAL(800), null, 3);
+  assert.equal(layered.layerCase, 'HOMOGENEOUS');
+  assertClose(layered.qu, homogeneous.qu, 1e-9, 'qu');
+});
+
+test('paired clay strengths give φ = 0 short-term and c\', φ\' long-term', () => {
+  const clay = { ...CLAY, cu: 60, c_eff: 5, phi_eff: 24 };
+  assert.deepEqual([soilForStage(clay, 'Undrained').c, soilForStage(clay, 'Undrained').phi], [60, 0]);
+  assert.deepEqual([soilForStage(clay, 'Drained').c, soilForStage(clay, 'Drained').phi], [5, 24]);
+});
+
+test('SPT allowable pressure follows the sand chart', () => {
+  assert.equal(allowablePressureSPT('Cohesionless (Sand)', 20), 200);
+  assert.equal(allowablePressureSPT('Cohesionless (Sand)', 40), 300);
+});
+
+test('contact pressure within the kern is V/A (1 ± 6e/B)', () => {
+  // e = 0.1 m on a 2 m square: 250 (1 ± 0.3)
+  const r = calculateContactPressure(SQUARE, { V: 1000, H: 0, Mx: 0, My: 100 });
+  assertClose(r.qmax, 325, 1e-6, 'qmax');
+  assertClose(r.qmin, 175, 1e-6, 'qmin');
+  assert.equal(r.partialUplift, false);
+});
@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { SoilProperties, SoilLayer, FoundationProperties, LoadingConditions } from '../types';
+
+/** Asserts that a computed value matches a reference value within an absolute tolerance */
+export function assertClose(actual: number, expected: number, tolerance: number, what = 'value'): void {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `${what}: expected ${expected} ± ${tolerance}, got ${actual}`
+  );
+}
+
+export const SAND: SoilProperties = { type: 'Cohesionless (Sand)', c: 0, phi: 30, gamma: 18, gamma_sub: 10 };
+export const CLAY: SoilProperties = { type: 'Cohesive (Clay)', c: 50, phi: 0, gamma: 18, gamma_sub: 8 };
+
+export const layer = (soil: SoilProperties, thickness: number, id = 'L1'): SoilLayer => ({ ...soil, id, thickness });
+
+export const STRIP: FoundationProperties = { shape: 'Strip/Continuous', B: 2, L: 1, Df: 1 };
+export const SQUARE: FoundationProperties = { shape: 'Square', B: 2, L: 2, Df: 1 };
+
+export const VERTICAL = (V: number): LoadingConditions => ({ V, H: 0, Mx: 0, My: 0 });
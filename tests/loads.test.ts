@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateLoadCombinations, combineLoads, analyseLoadCombinations, appliedBasePressure, SBC_FACTORS } from '../loads';
+import { CalculationResults, LoadCase } from '../types';
+import { SQUARE, STRIP, VERTICAL, assertClose } from './helpers';
+
+const CASES: LoadCase[] = [
+  { id: '1', name: 'Dead', type: 'Dead', V: 400, H: 0, Mx: 0, My: 20 },
+  { id: '2', name: 'Live', type: 'Live', V: 200, H: 0, Mx: 0, My: 0 },
+  { id: '3', name: 'Wind', type: 'Wind', V: 0, H: 30, Mx: 0, My: 60 }
+];
+
+// Capacity model stub: a fixed SBC and the full footing as the effective area
+const analyse = (sbc: number) => (): CalculationResults =>
+  ({ recommended_sbc: sbc, B_prime: 2, L_prime: 2, ey: 0 }) as CalculationResults;
+
+test('only combinations whose load types are present are generated, wind as ± pairs', () => {
+  const names = generateLoadCombinations(CASES, 'Working Stress').map(c => c.name);
+  assert.deepEqual(names, ['DL + LL', 'DL + WL', 'DL − WL', 'DL + 0.8(LL + WL)', 'DL + 0.8(LL − WL)']);
+});
+
+test('a lone case of a type without a template is analysed as the plain sum', () => {
+  const combinations = generateLoadCombinations([{ ...CASES[1] }], 'Working Stress');
+  assert.equal(combinations.length, 1);
+  assert.equal(combinations[0].name, 'Σ Unfactored');
+});
+
+test('combined loads multiply each case by its combination factor and its own partial factor', () => {
+  const limit = generateLoadCombinations(CASES, 'Limit State').find(c => c.name === '1.5(DL + LL)')!;
+  assert.deepEqual(combineLoads(CASES, limit), { V: 900, H: 0, Mx: 0, My: 30 });
+  const factored = [{ ...CASES[0], factor: 1.1 }, CASES[1]];
+  assertClose(combineLoads(factored, limit).V, 1.5 * (1.1 * 400 + 200), 1e-9, 'V');
+});
+
+test('base pressure is V over the effective area, per metre run for strips', () => {
+  const results = { B_prime: 1.8, L_prime: 2, ey: 0 } as CalculationResults;
+  assertClose(appliedBasePressure(SQUARE, VERTICAL(720), results), 200, 1e-9, 'square');
+  assertClose(appliedBasePressure(STRIP, VERTICAL(360), results), 200, 1e-9, 'strip');
+});
+
+test('working stress pressures are checked against SBC with a 25% increase for wind', () => {
+  const results = analyseLoadCombinations(CASES, 'Working Stress', SQUARE, analyse(150));
+  const wind = results.find(r => r.combination.name === 'DL + WL')!;
+  assert.equal(wind.q_allowable, 150 * 1.25);
+  assertClose(wind.q_applied, 400 / 4, 1e-9, 'q applied');
+  // Governing first: DL + LL at 600 / 4 = 150 kPa is fully utilised
+  assert.equal(results[0].combination.name, 'DL + LL');
+  assertClose(results[0].utilisation, 1, 1e-9, 'utilisation');
+});
+
+test('factored pressures are checked against 1.5 × SBC', () => {
+  assert.equal(SBC_FACTORS['Limit State'], 1.5);
+  const results = analyseLoadCombinations(CASES, 'Limit State', SQUARE, analyse(150));
+  const gravity = results.find(r => r.combination.name === '1.5(DL + LL)')!;
+  assert.equal(gravity.q_allowable, 225);
+  assertClose(gravity.utilisation, 900 / 4 / 225, 1e-9, 'utilisation');
+});
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { optimiseFooting, checkTrialFooting, DEFAULT_OPTIMIZER_CONSTRAINTS } from '../optimizer';
+import { InputValidationError } from '../validation';
+import { CalculationResults, FoundationProperties, LoadCase } from '../types';
+import { SQUARE, assertClose } from './helpers';
+
+const CASES: LoadCase[] = [{ id: '1', name: 'Dead', type: 'Dead', V: 600, H: 0, Mx: 0, My: 0 }];
+const CONSTRAINTS = { ...DEFAULT_OPTIMIZER_CONSTRAINTS, DfMin: 1, DfMax: 1 };
+
+// Capacity model stub: SBC of 150 kPa, 10 mm at qs, no eccentricity
+const analyse = (foundation: FoundationProperties): CalculationResults => ({
+  recommended_sbc: 150,
+  qs: 150,
+  settlement: 10,
+  eccentricity_check: false,
+  B_prime: foundation.B,
+  L_prime: foundation.L,
+  ey: 0
+}) as CalculationResults;
+
+test('a trial footing reports its utilisation and failing checks', () => {
+  const point = checkTrialFooting({ ...SQUARE, B: 1.5, L: 1.5 }, CASES, 'Working Stress', 25, analyse);
+  assertClose(point.utilisation, 600 / 2.25 / 150, 1e-9, 'utilisation');
+  assert.deepEqual(point.failing, ['Bearing']);
+});
+
+test('the minimum square footing carries the load at the SBC, with bearing governing', () => {
+  // 600 / B² ≤ 150 → B = 2.00 m
+  const r = optimiseFooting(SQUARE, CASES, 'Working Stress', CONSTRAINTS, analyse);
+  assertClose(r.optimum!.B, 2, 1e-9, 'B');
+  assert.equal(r.governing, 'Bearing');
+  assert.equal(r.truncated, false);
+});
+
+test('a tighter settlement limit governs over bearing', () => {
+  // Settlement 10 × q / 150 ≤ 4 mm → q ≤ 60 kPa → B ≥ 3.17 m
+  const r = optimiseFooting(SQUARE, CASES, 'Working Stress', { ...CONSTRAINTS, maxSettlement: 4 }, analyse);
+  assertClose(r.optimum!.B, 3.2, 1e-9, 'B');
+  assert.equal(r.governing, 'Settlement');
+});
+
+test('an invalid search range is rejected', () => {
+  assert.throws(
+    () => optimiseFooting(SQUARE, CASES, 'Working Stress', { ...CONSTRAINTS, rounding: 0 }, analyse),
+    InputValidationError
+  );
+});
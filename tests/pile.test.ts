@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analysePileGroup, adhesionFactor, berezantsevNq, DEFAULT_PILE } from '../pile';
+import { PileInputs } from '../types';
+import { CLAY, layer, assertClose } from './helpers';
+
+const SINGLE: PileInputs = { ...DEFAULT_PILE, D: 0.6, length: 15, cutoff: 0, rows: 1, cols: 1, FOS: 2.5 };
+const CLAY_PROFILE = [layer({ ...CLAY, cu: 50 }, 30)];
+
+test('adhesion factor is 1 to 40 kPa, 0.5 from 70 kPa and linear between', () => {
+  assert.equal(adhesionFactor(30), 1);
+  assertClose(adhesionFactor(50), 1 - 0.5 * 10 / 30, 1e-12, 'α');
+  assert.equal(adhesionFactor(90), 0.5);
+});
+
+test('Berezantsev Nq passes through the IS 2911 chart points', () => {
+  assertClose(berezantsevNq(30), 20, 1e-9, 'Nq(30)');
+  assertClose(berezantsevNq(35), 45, 1e-9, 'Nq(35)');
+  assert.ok(berezantsevNq(32) > 20 && berezantsevNq(32) < 45);
+});
+
+test('bored pile in clay: Qs = α cu π D L and Qb = 9 cu Ap', () => {
+  const r = analysePileGroup(SINGLE, CLAY_PROFILE, null, 500);
+  const Ap = (Math.PI * 0.36) / 4;
+  assertClose(r.Qs, adhesionFactor(50) * 50 * Math.PI * 0.6 * 15, 1e-6, 'Qs');
+  assertClose(r.Qb, 9 * 50 * Ap, 1e-6, 'Qb');
+  assertClose(r.Qa, (r.Qs + r.Qb) / 2.5, 1e-6, 'Qa');
+});
+
+test('downdrag takes full adhesion down the pile and comes off the safe load', () => {
+  const r = analysePileGroup({ ...SINGLE, dragDepth: 3 }, CLAY_PROFILE, null, 500);
+  assertClose(r.Qn, 50 * Math.PI * 0.6 * 3, 1e-6, 'Qn');
+  assertClose(r.Qa, r.Qu / 2.5 - r.Qn, 1e-6, 'Qa');
+});
+
+test('Converse–Labarre efficiency for a 2 × 2 group at 3D spacing', () => {
+  const r = analysePileGroup({ ...SINGLE, rows: 2, cols: 2, spacing: 1.8 }, CLAY_PROFILE, null, 1500);
+  const theta = (Math.atan(1 / 3) * 180) / Math.PI;
+  assertClose(r.efficiency, 1 - (theta * 4) / 360, 1e-9, 'η');
+  assert.equal(r.blockB, 2.4);
+});
+
+test('the equivalent raft settles under the load less the overburden at its level', () => {
+  // Raft at 2/3 of 15 m, spread 1 : 4 from the 2.4 m block to 7.4 m; σ'v = 18 × 10 kPa
+  const r = analysePileGroup({ ...SINGLE, rows: 2, cols: 2, spacing: 1.8 }, CLAY_PROFILE, null, 15000);
+  const { raftDepth, raftB, q, q_net } = r.settlement;
+  assertClose(raftDepth, 10, 1e-9, 'raft depth');
+  assertClose(raftB, 7.4, 1e-9, 'raft width');
+  assertClose(q, 15000 / (7.4 * 7.4), 1e-9, 'q');
+  assertClose(q_net, q - 180, 1e-9, 'q net');
+});
+
+test('a pile tip within the downdrag zone is rejected', () => {
+  assert.throws(() => analysePileGroup({ ...SINGLE, dragDepth: 20 }, CLAY_PROFILE, null, 500), /downdrag/);
+});
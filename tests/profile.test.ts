@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { layerTops, layerIndexAtDepth, overburdenPressure, hasDrainageStages } from '../profile';
+import { SAND, CLAY, layer, assertClose } from './helpers';
+
+const PROFILE = [layer(SAND, 2, 'L1'), layer(CLAY, 3, 'L2'), layer(SAND, 5, 'L3')];
+
+test('layer tops accumulate the thicknesses', () => {
+  assert.deepEqual(layerTops(PROFILE), [0, 2, 5]);
+});
+
+test('a depth on a boundary belongs to the layer below and the last layer extends indefinitely', () => {
+  assert.equal(layerIndexAtDepth(PROFILE, 1.99), 0);
+  assert.equal(layerIndexAtDepth(PROFILE, 2), 1);
+  assert.equal(layerIndexAtDepth(PROFILE, 50), 2);
+});
+
+test('effective overburden uses γ above and γ\' below the water table', () => {
+  // 2 m sand at 18 + 1 m clay at 18 + 2 m clay at 8 + 1 m sand at 10
+  assertClose(overburdenPressure(PROFILE, 6, 3), 36 + 18 + 16 + 10, 1e-9);
+  assertClose(overburdenPressure(PROFILE, 6, null), 6 * 18, 1e-9);
+});
+
+test('only clays with both cu and φ\' are checked at two drainage stages', () => {
+  assert.equal(hasDrainageStages(CLAY), false);
+  assert.equal(hasDrainageStages({ ...CLAY, cu: 50, phi_eff: 24 }), true);
+  assert.equal(hasDrainageStages({ ...SAND, cu: 50, phi_eff: 24 }), false);
+});
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { polygonProperties, insideOutline, winklerPlate, analyseRaft, DEFAULT_RAFT } from '../raft';
+import { CalculationResults, RaftInputs } from '../types';
+import { SAND, layer, assertClose } from './helpers';
+
+// 4 × 4 square with a 2 × 2 notch removed from one corner
+const L_SHAPE = [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 2 }, { x: 2, y: 2 }, { x: 2, y: 4 }, { x: 0, y: 4 }];
+
+test('shoelace area and centroid of an L-shaped outline', () => {
+  const { area, centroid } = polygonProperties(L_SHAPE);
+  assert.equal(area, 12);
+  assertClose(centroid.x, 5 / 3, 1e-12, 'x');
+  assertClose(centroid.y, 5 / 3, 1e-12, 'y');
+  assert.equal(polygonProperties([...L_SHAPE].reverse()).area, 12);
+});
+
+test('points in the notch lie outside the outline', () => {
+  assert.equal(insideOutline(L_SHAPE, 1, 1), true);
+  assert.equal(insideOutline(L_SHAPE, 3, 3), false);
+});
+
+test('a uniformly loaded plate on springs settles q / ks without bending', () => {
+  const nx = 4;
+  const ny = 3;
+  const cells = Array.from({ length: ny }, () => new Array(nx).fill(true));
+  const loads = Array.from({ length: ny + 1 }, () => new Array(nx + 1).fill(0));
+  cells.forEach((row, j) => row.forEach((_, i) => {
+    [[j, i], [j, i + 1], [j + 1, i], [j + 1, i + 1]].forEach(([a, b]) => { loads[a][b] += 100 / 4; });
+  }));
+  const w = winklerPlate(cells, 1, 1, 0.5, 25e6, 0.15, 10000, loads);
+  w.flat().forEach(value => assertClose(value, 0.01, 1e-9, 'w'));
+});
+
+test('gross and net pressure of a partly compensated raft', () => {
+  const inputs: RaftInputs = {
+    ...DEFAULT_RAFT,
+    outline: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }],
+    columns: [{ id: '1', name: 'C1', x: 5, y: 5, V: 10000 }],
+    Df: 2,
+    thickness: 0.5,
+    ks: 20000
+  };
+  const bearing = { recommended_sbc: 300, qs: 250, qns: 214, qu: 700 } as CalculationResults;
+  const r = analyseRaft(inputs, [layer(SAND, 20)], null, () => bearing);
+  // W = 25 × 0.5 × 100 = 1250 kN; q = 11250 / 100; σv0 = 18 × 2
+  assert.equal(r.selfWeight, 1250);
+  assertClose(r.q_gross, 112.5, 1e-9, 'q gross');
+  assertClose(r.q_net, 112.5 - 36, 1e-9, 'q net');
+  assertClose(r.netAllowable, 300 - 36, 1e-9, 'net allowable');
+  assert.equal(r.flotationFactor, Infinity);
+  assert.deepEqual(r.eccentricity, { x: 0, y: 0 });
+});
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRandom, inverseNormal, sampleSoil, runMonteCarlo, DEFAULT_RELIABILITY } from '../reliability';
+import { calculateBearingCapacity } from '../engine';
+import { MonteCarloJob, ReliabilityInputs } from '../types';
+import { SAND, SQUARE, VERTICAL, assertClose } from './helpers';
+
+const FIXED: ReliabilityInputs = {
+  ...DEFAULT_RELIABILITY,
+  samples: 200,
+  distributions: Object.fromEntries(
+    Object.entries(DEFAULT_RELIABILITY.distributions).map(([k, d]) => [k, { ...d, cov: 0 }])
+  ) as ReliabilityInputs['distributions']
+};
+
+const job = (reliability: ReliabilityInputs, q_applied: number): MonteCarloJob => ({
+  soil: SAND,
+  foundation: SQUARE,
+  load: VERTICAL(800),
+  waterTable: null,
+  fos: 3,
+  method: 'IS 6403',
+  q_applied,
+  reliability
+});
+
+test('inverse normal CDF matches the standard normal table', () => {
+  assertClose(inverseNormal(0.5), 0, 1e-9, 'median');
+  assertClose(inverseNormal(0.975), 1.959964, 1e-6, '97.5%');
+  assertClose(inverseNormal(0.001), -3.090232, 1e-6, '0.1%');
+});
+
+test('the same seed repeats the same sequence', () => {
+  const a = createRandom(42);
+  const b = createRandom(42);
+  const values = Array.from({ length: 5 }, () => a());
+  assert.deepEqual(values, Array.from({ length: 5 }, () => b()));
+  assert.ok(values.every(v => v > 0 && v < 1));
+});
+
+test('lognormal sampling keeps the mean of the input', () => {
+  const random = createRandom(7);
+  const reliability = { ...FIXED, distributions: { ...FIXED.distributions, c: { type: 'Lognormal' as const, cov: 0.3, truncation: 2 } } };
+  const draws = Array.from({ length: 4000 }, () => sampleSoil({ ...SAND, c: 20 }, reliability, random).c);
+  assertClose(draws.reduce((a, b) => a + b, 0) / draws.length, 20, 0.5, 'mean c');
+});
+
+test('with no scatter every sample gives the deterministic capacity', () => {
+  const qu = calculateBearingCapacity(SAND, SQUARE, VERTICAL(800), null, 3).qu;
+  const safe = runMonteCarlo(job(FIXED, qu / 2));
+  assertClose(safe.qu.mean, qu, 1e-6, 'qu');
+  assert.equal(safe.pf, 0);
+  assert.equal(safe.betaMethod, 'Lognormal fit');
+  assert.equal(runMonteCarlo(job(FIXED, qu * 2)).pf, 1);
+});
+
+test('draws outside the engine\'s range count as failures over every sample', () => {
+  // φ ~ N(45°, 20%) puts many draws above the 50° the engine accepts
+  const reliability: ReliabilityInputs = {
+    ...FIXED,
+    samples: 500,
+    distributions: { ...FIXED.distributions, phi: { type: 'Normal', cov: 0.2, truncation: 2 } }
+  };
+  const r = runMonteCarlo({ ...job(reliability, 1), soil: { ...SAND, phi: 45 } });
+  assert.ok(r.rejected > 0);
+  assert.equal(r.samples, 500);
+  assert.equal(r.failures, r.rejected);
+  assertClose(r.pf, r.rejected / 500, 1e-12, 'pf');
+  assert.equal(r.qu.mean > 0, true);
+});
+
+test('a run is repeatable from its seed', () => {
+  const reliability = { ...DEFAULT_RELIABILITY, samples: 300, seed: 3 };
+  const qu = calculateBearingCapacity(SAND, SQUARE, VERTICAL(800), null, 3).qu;
+  assert.deepEqual(runMonteCarlo(job(reliability, qu / 3)), runMonteCarlo(job(reliability, qu / 3)));
+});
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseColumnReactions, sizeFooting, buildFootingSchedule, scheduleToCsv, DEFAULT_SCHEDULE_CRITERIA } from '../schedule';
+import { parseCsv } from '../download';
+import { CalculationResults, FoundationProperties } from '../types';
+import { SQUARE, assertClose } from './helpers';
+
+// Capacity model stub: SBC of 150 kPa, 10 mm at qs, no eccentricity
+const analyse = (foundation: FoundationProperties): CalculationResults => ({
+  recommended_sbc: 150,
+  qs: 150,
+  settlement: 10,
+  ex: 0,
+  ey: 0,
+  eccentricity_check: false,
+  B_prime: foundation.B,
+  L_prime: foundation.L
+}) as CalculationResults;
+
+test('reaction tables are read by header name and H, Mx, My may be left out', () => {
+  const reactions = parseColumnReactions('Column,Fz (kN),My\n"C1, grid A",600,12\nC2;550\n');
+  assert.deepEqual(reactions, [
+    { id: 'C1, grid A', V: 600, H: 0, Mx: 0, My: 12 },
+    { id: 'C2', V: 550, H: 0, Mx: 0, My: 0 }
+  ]);
+});
+
+test('reaction tables without a header are positional and need V above zero', () => {
+  assert.deepEqual(parseColumnReactions('C1,600,10,5,4'), [{ id: 'C1', V: 600, H: 10, Mx: 5, My: 4 }]);
+  assert.throws(() => parseColumnReactions('C1,0'), /Line 1: V must be greater than zero/);
+  assert.throws(() => parseColumnReactions('C1,abc'), /Line 1: V "abc" is not a number/);
+});
+
+test('each footing is the smallest width step carrying the column at the SBC', () => {
+  // 600 / B² ≤ 150 → B ≥ 2.0; steps of 0.15 from 1.05 give 2.10
+  const footing = sizeFooting({ id: 'C1', V: 600, H: 0, Mx: 0, My: 0 }, SQUARE, DEFAULT_SCHEDULE_CRITERIA, analyse);
+  assertClose(footing.B, 2.1, 1e-9, 'B');
+  assertClose(footing.q_applied, 600 / 4.41, 1e-9, 'q applied');
+  assertClose(footing.settlement, 10 * (600 / 4.41) / 150, 1e-9, 'settlement');
+  assert.equal(footing.status, 'OK');
+});
+
+test('a column too heavy for the largest footing is not feasible', () => {
+  const footing = sizeFooting({ id: 'C9', V: 6000, H: 0, Mx: 0, My: 0 }, SQUARE, DEFAULT_SCHEDULE_CRITERIA, analyse);
+  assert.equal(footing.status, 'NOT FEASIBLE');
+});
+
+test('footing marks group equal sizes in ascending order', () => {
+  const columns = [
+    { id: 'C1', V: 600, H: 0, Mx: 0, My: 0 },
+    { id: 'C2', V: 550, H: 0, Mx: 0, My: 0 },
+    { id: 'C3', V: 590, H: 0, Mx: 0, My: 0 }
+  ];
+  const { footings, groups } = buildFootingSchedule(columns, SQUARE, DEFAULT_SCHEDULE_CRITERIA, analyse);
+  assert.deepEqual(groups.map(g => [g.mark, g.columns]), [['F1', ['C2']], ['F2', ['C1', 'C3']]]);
+  assert.deepEqual(footings.map(f => f.mark), ['F2', 'F1', 'F2']);
+  const csv = parseCsv(scheduleToCsv(footings, groups, SQUARE));
+  assert.deepEqual(csv.find(row => row[0] === 'F2'), ['F2', '2.10', '2.10', '2', 'C1 C3', '600.0']);
+});
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  seismicCoefficients,
+  seismicReductionFactors,
+  stressReduction,
+  cleanSandN,
+  cyclicResistance,
+  magnitudeScaling,
+  liquefactionScreening,
+  analyseSeismic
+} from '../seismic';
+import { calculateBearingCapacity } from '../engine';
+import { DEFAULT_SPT_EQUIPMENT } from '../spt';
+import { SAND, CLAY, SQUARE, VERTICAL, layer, assertClose } from './helpers';
+
+const SANDS = [layer(SAND, 20)];
+const BOREHOLE = [{ id: 'BH1', readings: [{ depth: 1.5, N: 10 }, { depth: 6, N: 10 }] }];
+
+test('kh is the design peak ground acceleration Z / 2 and kv two thirds of it', () => {
+  const { Z, kh, kv } = seismicCoefficients({ enabled: true, zone: 'IV', magnitude: 7.5 });
+  assert.equal(Z, 0.24);
+  assertClose(kh, 0.12, 1e-12, 'kh');
+  assertClose(kv, 0.08, 1e-12, 'kv');
+});
+
+test('Budhu & Al-Karni reduction factors for zone III', () => {
+  // kh = 0.08, kv = 0.0533: eq = (1 − kv) exp(−5.3 kh^1.2 / (1 − kv)); c = 0 gives ec = exp(−4.3 kh)
+  const { eq, ec } = seismicReductionFactors(0, 18, 1, 0.08, 0.08 * 2 / 3);
+  assertClose(eq, 0.7225, 1e-4, 'eq');
+  assertClose(ec, 0.7089, 1e-4, 'ec');
+});
+
+test('Youd et al. (2001) triggering relationships', () => {
+  assertClose(stressReduction(6), 0.9541, 1e-9, 'rd');
+  assertClose(cyclicResistance(20), 1 / 14 + 20 / 135 + 50 / 245 / 245 - 0.005, 1e-12, 'CRR');
+  assertClose(cleanSandN(10, 35), 5 + 1.2 * 10, 1e-12, '(N1)60cs');
+  assertClose(magnitudeScaling(7.5), 1, 1e-3, 'MSF');
+});
+
+test('liquefaction factor of safety for loose saturated sand', () => {
+  // Water table 2 m, test at 6 m: σ'v = 76, σv0 = 115.2 kPa
+  // CSR = 0.65 × 0.12 × 115.2 / 76 × 0.954 = 0.1128
+  // N60 = 9.5, (N1)60 = 9.5 √(100 / 76) = 10.90, CRR = 0.1211
+  const [above, point] = liquefactionScreening(SANDS, BOREHOLE, 2, 0.12, 7.5, DEFAULT_SPT_EQUIPMENT);
+  assert.equal(above.screenedOut, 'Above water table');
+  assertClose(point.CSR, 0.1128, 1e-4, 'CSR');
+  assertClose(point.N60, 9.5, 1e-12, 'N60');
+  assertClose(point.N1_60, 10.90, 1e-2, '(N1)60');
+  assertClose(point.CRR, 0.1211, 1e-4, 'CRR');
+  assertClose(point.FS!, 1.073, 2e-3, 'FS');
+});
+
+test('clay is screened out of liquefaction', () => {
+  const [point] = liquefactionScreening([layer(CLAY, 20)], BOREHOLE.map(b => ({ ...b, readings: [b.readings[1]] })), 0, 0.12, 7.5, DEFAULT_SPT_EQUIPMENT);
+  assert.equal(point.screenedOut, 'Clay');
+  assert.equal(point.FS, null);
+});
+
+test('the seismic capacity reduces each bearing term by its own factor', () => {
+  const results = calculateBearingCapacity(SAND, SQUARE, VERTICAL(800), null, 3);
+  const seismic = analyseSeismic({ enabled: true, zone: 'III', magnitude: 7.5 }, results, 200, SANDS, [], null, DEFAULT_SPT_EQUIPMENT);
+  assertClose(seismic.qu, results.term2 * seismic.eq + results.term3 * seismic.egamma, 1e-9, 'qu');
+  assert.ok(seismic.qs < results.qs);
+  assert.equal(seismic.minFS, null);
+});
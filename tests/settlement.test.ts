@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateSchmertmannSettlement, steinbrennerFactors, elasticInfluenceFactor } from '../settlement';
+import { SAND, SQUARE, layer, assertClose } from './helpers';
+
+test('Steinbrenner F1 for the corner of a square on a half-space is 2 ln(1 + √2) / π', () => {
+  const { F1, F2 } = steinbrennerFactors(1, Infinity);
+  assertClose(F1, (2 * Math.log(1 + Math.SQRT2)) / Math.PI, 1e-6, 'F1');
+  assertClose(F2, 0, 1e-6, 'F2');
+});
+
+test('flexible square on a half-space: Is = 1.12 at the centre, 0.56 at the corner', () => {
+  assertClose(elasticInfluenceFactor(SQUARE, Infinity, 0.3, 'Flexible centre').Is, 1.122, 1e-3, 'centre');
+  assertClose(elasticInfluenceFactor(SQUARE, Infinity, 0.3, 'Flexible corner').Is, 0.561, 1e-3, 'corner');
+  assertClose(elasticInfluenceFactor(SQUARE, Infinity, 0.3, 'Rigid').Is, 0.93 * 1.122, 1e-3, 'rigid');
+  assert.equal(elasticInfluenceFactor(SQUARE, Infinity, 0.3, 'Standard').Is, 0.82);
+});
+
+test('a thinner compressible layer settles less', () => {
+  const deep = elasticInfluenceFactor(SQUARE, Infinity, 0.3, 'Flexible centre').Is;
+  const shallow = elasticInfluenceFactor(SQUARE, 2, 0.3, 'Flexible centre').Is;
+  assert.ok(shallow < deep);
+});
+
+test('Schmertmann settlement of a square footing on uniform sand', () => {
+  // σ'0 = 18, σ'vp = 36 at B/2 below the base, Izp = 0.5 + 0.1 √(150 / 36) = 0.7041
+  // C1 = 1 − 0.5 × 18/150 = 0.94, C2 = 1 + 0.2 log(10 / 0.1) = 1.4
+  // ∫Iz dz = (0.1 + Izp)/2 × 1 + Izp × 3/2 = 1.4582 m
+  const r = calculateSchmertmannSettlement([layer({ ...SAND, Es: 20000 }, 20)], SQUARE, 150, null, 10);
+  assertClose(r.Izp, 0.7041, 1e-4, 'Izp');
+  assertClose(r.C1, 0.94, 1e-9, 'C1');
+  assertClose(r.C2, 1.4, 1e-9, 'C2');
+  assertClose(r.settlement, (0.94 * 1.4 * 150 * 1.4582) / 20000 * 1000, 0.01, 'settlement');
+});
+
+test('Schmertmann takes the modulus from CPT qc before SPT N and Es', () => {
+  const r = calculateSchmertmannSettlement([layer({ ...SAND, qc: 8000, spt_n: 20, Es: 20000 }, 20)], SQUARE, 150, null);
+  assert.ok(r.subLayers.every(s => s.source === 'CPT qc' && s.Es === 2.5 * 8000));
+});
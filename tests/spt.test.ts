@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseBoreholeCsv,
+  parseAgs4,
+  parseBoreholeLog,
+  rodLengthFactor,
+  energyCorrectedN,
+  normalisedN,
+  correctSptReadings,
+  correctBoreholes,
+  designSptN,
+  DEFAULT_SPT_EQUIPMENT
+} from '../spt';
+import { SAND, SQUARE, layer, assertClose } from './helpers';
+
+test('CSV logs are read by header name, with quoted cells', () => {
+  const holes = parseBoreholeCsv('Borehole,Depth (m),N\n"BH-1, north",3,12\n"BH-1, north",1.5,8\nBH2,1.5,10\n');
+  assert.deepEqual(holes, [
+    { id: 'BH-1, north', readings: [{ depth: 1.5, N: 8 }, { depth: 3, N: 12 }] },
+    { id: 'BH2', readings: [{ depth: 1.5, N: 10 }] }
+  ]);
+});
+
+test('CSV logs without a header take depth and N, and reject negative N', () => {
+  assert.deepEqual(parseBoreholeCsv('1.5;8\n3;12'), [{ id: 'BH1', readings: [{ depth: 1.5, N: 8 }, { depth: 3, N: 12 }] }]);
+  assert.throws(() => parseBoreholeCsv('1.5,-2'), /Line 1: N must be zero or more/);
+});
+
+test('AGS4 ISPT rows are read and refusals without an N are skipped', () => {
+  const ags = [
+    '"GROUP","ISPT"',
+    '"HEADING","LOCA_ID","ISPT_TOP","ISPT_NVAL","ISPT_REP"',
+    '"DATA","BH1","1.50","9",""',
+    '"DATA","BH1","3.00","","50/75"'
+  ].join('\n');
+  assert.deepEqual(parseAgs4(ags), [{ id: 'BH1', readings: [{ depth: 1.5, N: 9 }] }]);
+  assert.deepEqual(parseBoreholeLog(ags), parseAgs4(ags));
+});
+
+test('N60 applies the energy ratio, borehole, rod length and sampler corrections', () => {
+  assert.equal(rodLengthFactor(2), 0.75);
+  assert.equal(rodLengthFactor(12), 1);
+  // Donut hammer at 45%, 150 mm hole, 5 m of rod, liner-less sampler
+  const N60 = energyCorrectedN(20, 5, { energyRatio: 45, boreholeDiameter: 150, samplerFactor: 1.2 });
+  assertClose(N60, 20 * 0.75 * 1.05 * 0.85 * 1.2, 1e-12, 'N60');
+  assertClose(energyCorrectedN(20, 12, DEFAULT_SPT_EQUIPMENT), 20, 1e-12, 'standard');
+});
+
+test('(N1)60 normalises to 100 kPa with CN capped at 1.7', () => {
+  assertClose(normalisedN(10, 400), 5, 1e-12, 'CN = 0.5');
+  assertClose(normalisedN(10, 10), 17, 1e-12, 'capped');
+});
+
+test('IS 2131 overburden correction and dilatancy below the water table', () => {
+  // σ'v = 18 × 2 + 10 × 2 = 56 kPa, CN = 0.77 log(2000 / 56) = 1.196
+  const [r] = correctSptReadings([{ depth: 4, N: 20 }], [layer(SAND, 20)], 2);
+  assertClose(r.CN, 0.77 * Math.log10(2000 / 56), 1e-12, 'CN');
+  assert.equal(r.dilatancy, true);
+  assertClose(r.N_corrected, 15 + 0.5 * (r.N_overburden - 15), 1e-12, 'N');
+});
+
+test('design N is the zone mean of the weakest borehole', () => {
+  const layers = [layer(SAND, 20)];
+  const holes = correctBoreholes([
+    { id: 'BH1', readings: [{ depth: 1.5, N: 10 }, { depth: 3, N: 14 }, { depth: 6, N: 30 }] },
+    { id: 'BH2', readings: [{ depth: 1.5, N: 8 }, { depth: 3, N: 8 }] }
+  ], layers, null);
+  const design = designSptN(holes, SQUARE);
+  assert.equal(design.zoneTop, 1);
+  assert.equal(design.zoneBottom, 3);
+  assert.equal(design.governingBorehole, 'BH2');
+  const bh2 = holes[1].readings;
+  assertClose(design.designN!, (bh2[0].N_corrected + bh2[1].N_corrected) / 2, 1e-12, 'design N');
+});
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { stressInfluence, stressIncrease } from '../stress';
+import { STRIP, SQUARE, assertClose } from './helpers';
+
+const CIRCLE = { ...SQUARE, shape: 'Circular' as const };
+
+test('Boussinesq influence one width below the centre matches the published charts', () => {
+  assertClose(stressInfluence(SQUARE, 'Boussinesq', 0, 0, 2), 0.336, 1e-3, 'square');
+  assertClose(stressInfluence(STRIP, 'Boussinesq', 0, 0, 2), 0.550, 1e-3, 'strip');
+  assertClose(stressInfluence(CIRCLE, 'Boussinesq', 0, 0, 2), 1 - Math.pow(0.8, 1.5), 1e-9, 'circle');
+});
+
+test('the 2:1 method spreads the load over (B + z)(L + z)', () => {
+  assertClose(stressIncrease(SQUARE, '2:1', 100, 2), 100 * 4 / 16, 1e-9, 'square');
+  assertClose(stressIncrease(STRIP, '2:1', 100, 2), 100 * 2 / 4, 1e-9, 'strip');
+});
+
+test('the circle is integrated numerically off the axis to the closed form on it', () => {
+  assertClose(stressInfluence(CIRCLE, 'Boussinesq', 1e-6, 0, 2), stressInfluence(CIRCLE, 'Boussinesq', 0, 0, 2), 2e-3, 'centre');
+});
+
+test('Westergaard gives less stress than Boussinesq below the centre', () => {
+  const w = stressInfluence(SQUARE, 'Westergaard', 0, 0, 2);
+  const b = stressInfluence(SQUARE, 'Boussinesq', 0, 0, 2);
+  // Corner m = n = 0.5 with η² = ½: [π/2 − tan⁻¹ √8] / 2π = 0.0541, four corners
+  assertClose(w, 0.216, 1e-3, 'Westergaard');
+  assert.ok(w < b);
+});
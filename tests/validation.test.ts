@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  validateSoil,
+  validateLayers,
+  validateFoundation,
+  validateLoad,
+  validateSptEquipment,
+  assertValid,
+  errorsOf,
+  warningsOf,
+  parseNumberInput,
+  numberInputValue,
+  InputValidationError
+} from '../validation';
+import { DEFAULT_SPT_EQUIPMENT } from '../spt';
+import { SAND, CLAY, SQUARE, VERTICAL, layer } from './helpers';
+
+const fields = (issues: { field: string }[]) => issues.map(i => i.field);
+
+test('blank number inputs stay blank rather than reading as zero', () => {
+  assert.ok(Number.isNaN(parseNumberInput(' ')));
+  assert.equal(parseNumberInput('0'), 0);
+  assert.equal(numberInputValue(NaN), '');
+  assert.equal(numberInputValue(0), 0);
+});
+
+test('a soil with no strength, or γ\' above γ, is an error', () => {
+  assert.deepEqual(fields(errorsOf(validateSoil({ ...SAND, phi: 0 }))), ['soil.c']);
+  assert.deepEqual(fields(errorsOf(validateSoil({ ...SAND, gamma_sub: 20 }))), ['soil.gamma_sub']);
+  assert.deepEqual(validateSoil(SAND), []);
+});
+
+test('a blank SPT N is reported and a typed zero accepted', () => {
+  assert.deepEqual(fields(errorsOf(validateSoil({ ...SAND, spt_n: NaN }))), ['soil.spt_n']);
+  assert.deepEqual(errorsOf(validateSoil({ ...SAND, spt_n: 0 })), []);
+});
+
+test('consolidation parameters are checked: Cr within Cc and OCR of at least 1', () => {
+  const consolidation = { Cc: 0.2, Cr: 0.3, e0: 1, OCR: 0.8, cv: 2, drainage: 'Single' as const };
+  assert.deepEqual(
+    fields(errorsOf(validateSoil({ ...CLAY, consolidation }))),
+    ['soil.consolidation.Cr', 'soil.consolidation.OCR']
+  );
+});
+
+test('layer issues carry the layer id and label', () => {
+  const [issue] = errorsOf(validateLayers([layer(SAND, 2), layer({ ...SAND, c: -1 }, 3, 'L2')]));
+  assert.equal(issue.field, 'layers.L2.c');
+  assert.match(issue.message, /^Layer 2: /);
+});
+
+test('length is only required of rectangular footings', () => {
+  assert.deepEqual(errorsOf(validateFoundation({ ...SQUARE, L: NaN })), []);
+  assert.deepEqual(fields(errorsOf(validateFoundation({ ...SQUARE, shape: 'Rectangular', L: NaN }))), ['foundation.L']);
+  assert.deepEqual(fields(errorsOf(validateFoundation({ ...SQUARE, shape: 'Rectangular', L: 1 }))), ['foundation.L']);
+});
+
+test('an upward or zero resultant has no eccentricity and is an error', () => {
+  assert.deepEqual(fields(errorsOf(validateLoad(VERTICAL(0)))), ['load.V']);
+});
+
+test('SPT equipment outside the correction ranges', () => {
+  assert.deepEqual(validateSptEquipment(DEFAULT_SPT_EQUIPMENT), []);
+  assert.deepEqual(fields(errorsOf(validateSptEquipment({ ...DEFAULT_SPT_EQUIPMENT, energyRatio: 20 }))), ['sptEquipment.energyRatio']);
+  assert.deepEqual(fields(warningsOf(validateSptEquipment({ ...DEFAULT_SPT_EQUIPMENT, boreholeDiameter: 250 }))), ['sptEquipment.boreholeDiameter']);
+});
+
+test('assertValid throws on errors only', () => {
+  assert.doesNotThrow(() => assertValid(validateSoil({ ...SAND, c: 5 })));
+  assert.throws(() => assertValid(validateSoil({ ...SAND, c: -5 })), InputValidationError);
+});
@@ -10,15 +10,66 @@ export interface SoilProperties {
   gamma_sub: number; // Submerged unit weight (kN/m³)
   spt_n?: number; // SPT N-value
   Es?: number; // Elastic modulus (kPa)
+  mu?: number; // Poisson's ratio, 0.3 when not given
+  qc?: number; // CPT cone resistance (kPa)
+  fines?: number; // Fines content passing 75 µm (%), for liquefaction screening
+  cu?: number; // Undrained shear strength, short-term check (kPa)
+  c_eff?: number; // Effective cohesion c', long-term check (kPa)
+  phi_eff?: number; // Effective friction angle φ', long-term check (degrees)
+  consolidation?: ConsolidationParameters;
+  correlated?: Partial<Record<CorrelatedField, string>>; // Source of each value taken from a field-test correlation; the rest are measured
 }
 
+// Soil properties that can be derived from SPT / CPT results
+export type CorrelatedField = 'c' | 'phi' | 'cu' | 'Es';
+
+export interface CorrelatedValue {
+  field: CorrelatedField; // Property the value is accepted into
+  value: number;
+  source: string; // Published correlation
+  basis: string; // Field test value it was derived from, e.g. 'N = 15'
+}
+
+export type DrainageCondition = 'Single' | 'Double';
+
+export interface ConsolidationParameters {
+  Cc: number; // Compression index
+  Cr: number; // Recompression index
+  e0: number; // Initial void ratio
+  OCR: number; // Overconsolidation ratio σ'p / σ'0
+  mv?: number; // Coefficient of volume compressibility (m²/kN)
+  cv: number; // Coefficient of consolidation (m²/year)
+  drainage: DrainageCondition;
+}
+
+export interface SoilLayer extends SoilProperties {
+  id: string;
+  thickness: number; // Layer thickness (m)
+}
+
+export type BearingCapacityMethod = 'IS 6403' | 'Terzaghi' | 'Meyerhof' | 'Hansen' | 'Vesic';
+
+export type DrainageStage = 'Undrained' | 'Drained';
+
+export type StressMethod = 'Boussinesq' | '2:1' | 'Westergaard';
+
+export type LayeredCase = 'HOMOGENEOUS' | 'WEAK OVER STRONG' | 'STRONG OVER WEAK';
+
 export interface FoundationProperties {
   shape: FoundationShape;
   B: number; // Width (m)
   L: number; // Length (m)
   Df: number; // Depth (m)
+  settlementCase?: SettlementCase; // Rigidity and point for elastic settlement, Standard when not given
+  groundSlope?: number; // Ground inclination β falling away from the footing (degrees), level when not given
+  baseTilt?: number; // Base inclination α from the horizontal (degrees)
+  crestSetback?: number; // Distance from the footing edge to the slope crest (m), on the slope face when not given
 }
 
+// Flexible footings settle most at the centre; a rigid footing settles uniformly.
+// Standard keeps the fixed influence factor used before the Steinbrenner cases.
+export type SettlementCase = 'Standard' | 'Flexible centre' | 'Flexible corner' | 'Flexible average' | 'Rigid';
+
 export interface LoadingConditions {
   V: number; // Vertical load (kN)
   H: number; // Horizontal load (kN)
@@ -26,6 +77,65 @@ export interface LoadingConditions {
   My: number; // Moment about y (kN-m)
 }
 
+export type LoadCaseType = 'Dead' | 'Live' | 'Wind' | 'Seismic';
+export type CombinationSet = 'Working Stress' | 'Limit State';
+
+export interface LoadCase extends LoadingConditions {
+  id: string;
+  name: string;
+  type: LoadCaseType;
+  factor?: number; // Partial factor on this case, multiplying its combination factor (1 when omitted)
+}
+
+export interface LoadCombination {
+  name: string;
+  factors: Partial<Record<LoadCaseType, number>>;
+  sbcIncrease: number; // Permissible increase in allowable pressure (IS 1904 / IS 1893)
+}
+
+export interface BearingCapacityFactors {
+  Nc: number;
+  Nq: number;
+  Ngamma: number;
+  sc: number;
+  sq: number;
+  sgamma: number;
+  dc: number;
+  dq: number;
+  dgamma: number;
+  ic: number;
+  iq: number;
+  igamma: number;
+}
+
+// Ground (sloping surface) and base (tilted base) inclination factors
+export interface SlopeFactors {
+  gc: number;
+  gq: number;
+  ggamma: number;
+  bc: number;
+  bq: number;
+  bgamma: number;
+}
+
+export interface AnalysisOptions {
+  method?: BearingCapacityMethod; // Defaults to IS 6403
+  stage?: DrainageStage; // Strength parameters used for clays with paired cu / c', φ'
+  q_overburden?: number; // Overburden at founding level from a layered profile (kPa)
+  spt_n?: number; // Design N from borehole logs; replaces the soil's SPT N
+  compressibleDepth?: number; // Thickness of compressible soil below the base (m); elastic half-space when omitted
+}
+
+export interface ElasticSettlement {
+  case: SettlementCase;
+  Es: number; // (kPa)
+  mu: number; // Poisson's ratio
+  H: number; // Compressible thickness below the base (m), Infinity for a half-space
+  F1: number; // Steinbrenner factors for the corner of the whole footing
+  F2: number;
+  Is: number; // Influence factor, s = q B (1 − μ²) Is / Es
+}
+
 export interface CalculationResults {
   SoilType: string;
   Cohesion: number;
@@ -36,6 +146,8 @@ export interface CalculationResults {
   FoundationLength: number;
   FoundationDepth: number;
   FOS: number;
+  Method: BearingCapacityMethod;
+  Stage?: DrainageStage;
   ex: number;
   ey: number;
   B_prime: number;
@@ -53,6 +165,12 @@ export interface CalculationResults {
   ic: number;
   iq: number;
   igamma: number;
+  gc: number;
+  gq: number;
+  ggamma: number;
+  bc: number;
+  bq: number;
+  bgamma: number;
   W_prime: number; // Water table correction factor for term 3
   term1: number;
   term2: number;
@@ -62,7 +180,595 @@ export interface CalculationResults {
   qns: number;
   qs: number;
   qa_spt: number;
+  SptN?: number; // N used in the SPT allowable pressure check
   recommended_sbc: number;
   settlement: number;
-  status: 'SAFE' | 'SETTLEMENT GOVERNING' | 'HIGH ECCENTRICITY';
+  elastic?: ElasticSettlement; // Absent when Es is not known and the settlement is empirical
+  status: 'SAFE' | 'SETTLEMENT GOVERNING' | 'HIGH ECCENTRICITY' | 'NOT COMPUTABLE';
+}
+
+export interface LayeredCalculationResults extends CalculationResults {
+  layerCase: LayeredCase;
+  bearingLayerIndex: number;
+  lowerLayerIndex: number | null;
+  H: number; // Thickness of bearing layer below founding level (m)
+  q1: number; // Strip capacity of upper layer, Meyerhof-Hanna (kPa)
+  q2: number; // Strip capacity of lower layer, Meyerhof-Hanna (kPa)
+  qt: number; // Ultimate capacity if upper layer were infinitely thick (kPa)
+  qb: number; // Ultimate capacity on lower layer at its top (kPa)
+  Ks: number; // Punching shear coefficient
+  ca: number; // Adhesion along punching surface (kPa)
+}
+
+export interface CombinationResult {
+  combination: LoadCombination;
+  load: LoadingConditions;
+  results: CalculationResults;
+  q_applied: number; // Gross pressure on effective area (kPa)
+  q_allowable: number; // Recommended SBC times the set's SBC factor and the permissible increase (kPa)
+  utilisation: number;
+}
+
+export interface ContactPressureResults {
+  B: number; // Plan width (m)
+  L: number; // Plan length (m), 1.0 for strips
+  ex: number; // Signed eccentricity along B (m)
+  ey: number; // Signed eccentricity along L (m)
+  qmax: number; // Maximum contact pressure (kPa)
+  qmin: number; // Minimum contact pressure (kPa)
+  corners: number[] | null; // Corner pressures A(+B,+L), B(-B,+L), C(-B,-L), D(+B,-L) (kPa)
+  contactRatio: number; // Fraction of base area in compression
+  partialUplift: boolean;
+  overturning: boolean; // Resultant outside the base
+  map: number[][]; // Pressure grid, rows from +L/2 to -L/2, NaN outside the base (kPa)
+}
+
+export interface ConsolidationSubLayer {
+  layerIndex: number;
+  zTop: number; // Depth below ground level (m)
+  zBottom: number; // (m)
+  sigma0: number; // Initial effective stress at mid-depth (kPa)
+  sigma_p: number; // Preconsolidation pressure (kPa)
+  dSigma: number; // Stress increase at mid-depth (kPa)
+  settlement: number; // Cc/Cr method (mm)
+  settlement_mv: number; // mv method (mm), NaN when mv not given
+}
+
+export interface TimeSettlementPoint {
+  time: number; // (years)
+  U: number; // Average degree of consolidation
+  settlement: number; // (mm)
+}
+
+export interface ConsolidationResults {
+  q_net: number; // Net pressure increase at founding level (kPa)
+  subLayers: ConsolidationSubLayer[];
+  total: number; // (mm)
+  total_mv: number; // (mm)
+  timeCurve: TimeSettlementPoint[];
+  t50: number; // (years)
+  t90: number; // (years)
+}
+
+export type ModulusSource = 'CPT qc' | 'SPT N' | 'Es';
+
+export interface SchmertmannSubLayer {
+  zTop: number; // Depth below base (m)
+  zBottom: number; // (m)
+  Iz: number; // Strain influence factor at mid-depth
+  Es: number; // Modulus used (kPa)
+  source: ModulusSource;
+  settlement: number; // (mm)
+}
+
+export interface SchmertmannResults {
+  q_net: number; // Net pressure increase Δp (kPa)
+  sigma_0: number; // Effective overburden at founding level (kPa)
+  sigma_vp: number; // Effective overburden at depth of peak Iz (kPa)
+  Izp: number; // Peak strain influence factor
+  zPeak: number; // Depth of peak below base (m)
+  zInfluence: number; // Depth of influence below base (m)
+  C1: number; // Embedment correction
+  C2: number; // Creep correction
+  time: number; // Creep time (years)
+  subLayers: SchmertmannSubLayer[];
+  izProfile: { z: number; Iz: number }[]; // Iz diagram vertices
+  settlement: number; // (mm)
+}
+
+export interface Isobar {
+  level: number; // Δσz / q
+  segments: [number, number, number, number][]; // x1, z1, x2, z2 (m), x from centre, z below base
+}
+
+export type ProfileMode = 'Homogeneous' | 'Layered';
+
+// Everything needed to reproduce one footing design exactly
+export interface DesignInputs {
+  soil: SoilProperties;
+  profileMode: ProfileMode;
+  layers: SoilLayer[];
+  foundation: FoundationProperties;
+  loadCases: LoadCase[];
+  combinationSet: CombinationSet;
+  waterTable: number; // (m)
+  fos: number;
+  creepTime: number; // (years)
+  stressMethod: StressMethod;
+  method: BearingCapacityMethod;
+  boreholes: Borehole[];
+  useBoreholeN: boolean; // Design N from the borehole logs replaces the soil's SPT N
+  sptEquipment: SptEquipment;
+  seismic: SeismicInputs;
+  reliability: ReliabilityInputs;
+}
+
+export interface FootingDesign {
+  id: string;
+  name: string; // e.g. F1, F2
+  inputs: DesignInputs;
+}
+
+export interface ProjectMetadata {
+  client: string;
+  site: string;
+  boreholeId: string;
+  engineer: string;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  metadata: ProjectMetadata;
+  footings: FootingDesign[];
+  activeFootingId: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  client: string;
+  footingCount: number;
+  updatedAt: string;
+}
+
+export interface ColumnReaction extends LoadingConditions {
+  id: string; // Column ID from the reaction table, e.g. C12
+}
+
+export interface ScheduleCriteria {
+  settlementLimit: number; // (mm)
+  increment: number; // Sizing and grouping step for B (m)
+  minB: number; // (m)
+  maxB: number; // (m)
+}
+
+export type ScheduleStatus = 'OK' | 'NOT FEASIBLE';
+
+export interface ScheduledFooting {
+  column: ColumnReaction;
+  mark: string; // Footing type, e.g. F3
+  B: number; // (m)
+  L: number; // (m)
+  q_applied: number; // (kPa)
+  q_allowable: number; // (kPa)
+  settlement: number; // At the applied pressure (mm)
+  eB: number; // Eccentricity ratio e/B about the governing axis
+  status: ScheduleStatus;
+  results: CalculationResults;
+}
+
+export interface FootingGroup {
+  mark: string;
+  B: number; // (m)
+  L: number; // (m)
+  columns: string[];
+  V_max: number; // (kN)
+}
+
+export interface OptimizerConstraints {
+  maxSettlement: number; // (mm)
+  minB: number; // (m)
+  maxB: number; // (m)
+  maxLB: number; // Largest L/B ratio tried for rectangular footings
+  DfMin: number; // (m)
+  DfMax: number; // (m)
+  rounding: number; // Plan and depth increment (m)
+}
+
+export type OptimizerConstraint = 'Bearing' | 'Settlement' | 'Eccentricity';
+
+export interface OptimizerPoint {
+  B: number; // (m)
+  L: number; // (m)
+  Df: number; // (m)
+  area: number; // Plan area, per metre run for strips (m²)
+  utilisation: number; // Governing q applied / q allowable
+  settlement: number; // At the applied pressure (mm)
+  failing: OptimizerConstraint[];
+}
+
+export interface OptimizerResult {
+  optimum: OptimizerPoint | null;
+  governing: OptimizerConstraint | 'Minimum width' | null; // What stops a smaller footing
+  explanation: string;
+  region: OptimizerPoint[]; // B × Df grid at the optimum L/B ratio
+  ratio: number; // L/B of the optimum
+  evaluations: number;
+  truncated: boolean; // Search stopped at the trial limit before every depth was tried
+}
+
+export interface CombinedColumn {
+  id: string;
+  name: string;
+  x: number; // Distance from the first column along the footing (m)
+  V: number; // Service load (kN)
+  M: number; // Moment along the footing, clockwise positive (kN·m)
+}
+
+export interface CombinedFootingInputs {
+  columns: CombinedColumn[];
+  leftProjection: number; // Footing edge to the first column (m)
+  length: number | null; // Fixed length (m); null sizes L for uniform pressure
+  width: number | null; // Fixed width (m); null finds the narrowest width that passes
+  rounding: number; // Size increment (m)
+}
+
+export interface BeamStation {
+  x: number; // From the left edge (m)
+  pressure: number; // Base pressure (kPa)
+  shear: number; // (kN)
+  moment: number; // Sagging positive (kN·m)
+}
+
+export interface CombinedFootingResults {
+  R: number; // Resultant column load (kN)
+  xR: number; // Resultant from the left edge (m)
+  L: number;
+  B: number;
+  e: number; // Resultant offset from the footing centre, + towards the right (m)
+  qLeft: number; // Base pressure at the ends (kPa)
+  qRight: number;
+  qmax: number;
+  contactRatio: number; // Fraction of the length in contact
+  bearing: CalculationResults;
+  utilisation: number; // qmax / recommended SBC
+  passes: boolean;
+  explanation: string;
+  stations: BeamStation[];
+  maxShear: number; // Largest |V| (kN)
+  maxSagging: number; // (kN·m)
+  maxHogging: number; // Most negative moment (kN·m)
+}
+
+export interface RaftPoint {
+  x: number; // Plan coordinates (m)
+  y: number;
+}
+
+export interface RaftColumn {
+  id: string;
+  name: string;
+  x: number; // Plan position, same axes as the outline (m)
+  y: number;
+  V: number; // Service load (kN)
+}
+
+export interface RaftInputs {
+  outline: RaftPoint[]; // Plan vertices in order around the raft
+  columns: RaftColumn[];
+  Df: number; // Founding depth below ground level (m)
+  thickness: number; // (m)
+  Ec: number; // Concrete modulus (kPa)
+  nu: number; // Concrete Poisson's ratio
+  gridSpacing: number; // Target node spacing of the plate model (m)
+  ks: number | null; // Modulus of subgrade reaction (kN/m³); null derives it from the soil
+}
+
+export interface RaftContour {
+  level: number; // Settlement (mm)
+  segments: [number, number, number, number][]; // x1, y1, x2, y2 in plan (m)
+}
+
+export interface RaftResults {
+  area: number; // Plan area (m²)
+  centroid: RaftPoint;
+  B: number; // Equivalent rectangle of the same area and length, for the bearing check (m)
+  L: number;
+  columnLoad: number; // ΣV (kN)
+  selfWeight: number; // Raft weight (kN)
+  eccentricity: RaftPoint; // Load resultant from the centroid (m)
+  q_gross: number; // (ΣV + W) / A (kPa)
+  uplift: number; // Pore pressure on the underside (kPa)
+  sigma_v0: number; // Total stress removed by the excavation (kPa)
+  q_net: number; // q_gross − σv0 (kPa)
+  compensation: number; // σv0 / q_gross; 1 or more is fully compensated
+  flotationFactor: number; // (ΣV + W) / uplift force; Infinity above the water table
+  bearing: CalculationResults;
+  netAllowable: number; // Recommended SBC less the surcharge (kPa)
+  utilisation: number; // q_net / netAllowable
+  ks: number; // (kN/m³)
+  ksSource: string;
+  grid: { x0: number; y0: number; dx: number; dy: number; nx: number; ny: number };
+  settlements: number[][]; // Node settlement (mm) by grid row then column, NaN off the raft
+  maxSettlement: number; // (mm)
+  minSettlement: number;
+  differential: number; // max − min (mm)
+  angularDistortion: number; // Steepest slope between neighbouring nodes
+  maxPressure: number; // Peak spring reaction (kPa)
+  contours: RaftContour[];
+  passes: boolean;
+  explanation: string;
+}
+
+export type PileInstallation = 'Bored' | 'Driven';
+export type PileCapacityMethod = 'Static (α / β)' | 'SPT N (Meyerhof)';
+
+export interface PileInputs {
+  installation: PileInstallation;
+  method: PileCapacityMethod;
+  D: number; // Shaft diameter (m)
+  length: number; // Length below the cut-off (m)
+  cutoff: number; // Cut-off level, the underside of the pile cap, below ground (m)
+  Ep: number; // Pile modulus (kPa)
+  rows: number; // Piles in the group
+  cols: number;
+  spacing: number; // Centre to centre (m)
+  dragDepth: number; // Depth below ground to which the soil settles past the piles (m); 0 for none
+  FOS: number;
+}
+
+export interface PileShaftLayer {
+  top: number; // Depth below ground (m)
+  bottom: number;
+  type: SoilType;
+  basis: string; // How the unit friction was found, e.g. 'α = 0.83' or 'N = 15'
+  fs: number; // Mean unit shaft friction (kPa)
+  force: number; // (kN)
+  negative: boolean; // Downdrag acting on the pile
+}
+
+export interface PileSettlement {
+  raftDepth: number; // Equivalent raft depth below ground (m)
+  raftB: number; // (m)
+  raftL: number;
+  q: number; // Pressure on the equivalent raft (kPa)
+  q_net: number; // q less the effective overburden at the raft level (kPa)
+  shortening: number; // Elastic shortening of the piles (mm)
+  elastic: number; // Immediate settlement below the raft (mm)
+  consolidation: number; // Primary consolidation below the raft (mm)
+  total: number; // (mm)
+}
+
+export interface PileResults {
+  tipDepth: number; // (m)
+  Ap: number; // Base area (m²)
+  perimeter: number; // (m)
+  qb: number; // Unit end bearing (kPa)
+  tipBasis: string;
+  Qb: number; // Ultimate end bearing (kN)
+  Qs: number; // Ultimate positive skin friction (kN)
+  Qu: number; // Qb + Qs (kN)
+  Qn: number; // Negative skin friction (kN)
+  Qa: number; // Safe load per pile, Qu / FOS − Qn (kN)
+  shaft: PileShaftLayer[];
+  piles: number;
+  efficiency: number; // Converse–Labarre group efficiency
+  blockB: number; // Plan size of the block enclosing the group (m)
+  blockL: number;
+  Qblock: number; // Ultimate capacity of the block (kN)
+  Qgroup: number; // Ultimate group capacity, lesser of η n Qu and the block (kN)
+  Qallow: number; // Safe group load, Qgroup / FOS − n Qn (kN)
+  blockGoverns: boolean;
+  load: number; // Applied column load (kN)
+  utilisation: number; // load / Qallow
+  settlement: PileSettlement;
+  passes: boolean;
+  explanation: string;
+}
+
+export type SeismicZone = 'II' | 'III' | 'IV' | 'V';
+
+export interface SeismicInputs {
+  enabled: boolean;
+  zone: SeismicZone; // IS 1893 (Part 1) seismic zone
+  magnitude: number; // Design earthquake moment magnitude Mw
+}
+
+export type SeismicStatus = 'SEISMIC SAFE' | 'SEISMIC OVERSTRESS' | 'LIQUEFACTION RISK';
+
+export interface LiquefactionPoint {
+  source: string; // Borehole or stratum the N value came from
+  depth: number; // Below ground level (m)
+  N: number; // Field N
+  N60: number; // N corrected to 60% hammer energy
+  sigma_v0: number; // Total vertical stress (kPa)
+  sigma_v: number; // Effective vertical stress (kPa)
+  rd: number; // Stress reduction factor
+  CSR: number; // Cyclic stress ratio
+  N1_60: number; // N60 normalised to an overburden of one atmosphere
+  fines: number; // (%)
+  N1_60cs: number; // Clean-sand equivalent (N1)60
+  CRR: number; // Cyclic resistance ratio for Mw 7.5; NaN when not assessed
+  FS: number | null; // CRR × MSF / CSR; null when the soil cannot liquefy
+  screenedOut?: string; // Why the point cannot liquefy, e.g. 'Above water table'
+}
+
+export interface SeismicResults {
+  Z: number; // Zone factor
+  kh: number; // Horizontal seismic coefficient
+  kv: number; // Vertical seismic coefficient
+  ec: number; // Budhu & Al-Karni reduction factors on the c, q and γ terms
+  eq: number;
+  egamma: number;
+  qu: number; // Seismic ultimate capacity (kPa)
+  qs: number; // Seismic safe capacity (kPa)
+  q_applied: number; // (kPa)
+  utilisation: number; // q_applied / qs
+  MSF: number; // Magnitude scaling factor
+  points: LiquefactionPoint[];
+  minFS: number | null; // Lowest factor of safety against liquefaction
+  status: SeismicStatus;
+}
+
+// Soil parameters that can be given a probability distribution
+export type UncertainParameter = 'c' | 'phi' | 'gamma' | 'spt_n' | 'Es';
+
+export type DistributionType = 'Normal' | 'Lognormal' | 'Truncated normal';
+
+// The mean is the deterministic input; the spread is set relative to it
+export interface ParameterDistribution {
+  type: DistributionType;
+  cov: number; // Coefficient of variation σ/μ, 0 for a fixed value
+  truncation: number; // Truncated normal bounds μ ± kσ (k)
+}
+
+export interface ReliabilityInputs {
+  enabled: boolean;
+  samples: number;
+  seed: number; // Same seed, same samples
+  distributions: Record<UncertainParameter, ParameterDistribution>;
+  rho_c_phi: number; // Correlation between c and φ, usually negative
+}
+
+// One Monte Carlo run, posted to the reliability worker
+export interface MonteCarloJob {
+  soil: SoilProperties | SoilLayer[]; // Homogeneous soil or layered profile at the governing drainage stage
+  foundation: FoundationProperties;
+  load: LoadingConditions;
+  waterTable: number | null;
+  fos: number;
+  method: BearingCapacityMethod;
+  spt_n?: number; // Borehole design N, sampled in place of the soil's N
+  q_applied: number; // Gross applied pressure of the governing combination (kPa)
+  reliability: ReliabilityInputs;
+}
+
+export interface SampleStatistics {
+  mean: number;
+  sd: number;
+  cov: number;
+  p05: number; // 5th percentile
+  p95: number; // 95th percentile
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface ReliabilityResults {
+  samples: number; // Samples drawn, the denominator of pf
+  rejected: number; // Samples failing input validation (e.g. c = φ = 0), counted as failures and left out of the statistics
+  rejectedFraction: number; // rejected / samples drawn
+  q_applied: number; // (kPa)
+  qu: SampleStatistics; // (kPa)
+  sbc: SampleStatistics; // Recommended safe bearing capacity (kPa)
+  settlement: SampleStatistics; // (mm)
+  failures: number; // Samples with qu ≤ q_applied, plus the rejected samples
+  pf: number; // Probability of bearing failure P(qu ≤ q_applied)
+  beta: number; // Reliability index
+  betaMethod: 'Sampled' | 'Lognormal fit'; // Lognormal fit when no sample, or every sample, fails
+  pAllowable: number; // P(recommended SBC < q_applied)
+  quHistogram: HistogramBin[];
+  settlementHistogram: HistogramBin[];
+}
+
+export type ReliabilityMessage =
+  | { type: 'progress'; done: number }
+  | { type: 'result'; result: ReliabilityResults }
+  | { type: 'error'; message: string };
+
+export interface SptReading {
+  depth: number; // Depth of the test below ground level (m)
+  N: number; // Field blow count
+}
+
+export interface Borehole {
+  id: string;
+  readings: SptReading[];
+}
+
+export interface CorrectedSptReading extends SptReading {
+  sigma_v: number; // Effective overburden pressure (kPa)
+  CN: number; // Overburden correction factor
+  N_overburden: number; // CN · N
+  N_corrected: number; // After the dilatancy correction below the water table
+  dilatancy: boolean;
+}
+
+// Test details behind the N60 corrections of Youd et al. (2001)
+export interface SptEquipment {
+  energyRatio: number; // Hammer energy ratio ER (%)
+  boreholeDiameter: number; // (mm)
+  samplerFactor: number; // CS: 1.0 for a standard sampler, 1.1–1.3 without liners
+}
+
+export interface CorrectedBorehole {
+  id: string;
+  readings: CorrectedSptReading[];
+}
+
+export interface BoreholeDesignN extends CorrectedBorehole {
+  designN: number | null; // Mean corrected N over the influence zone
+  zoneCount: number; // Readings inside the influence zone
+}
+
+export interface SptDesign {
+  zoneTop: number; // Df (m)
+  zoneBottom: number; // Df + B (m)
+  boreholes: BoreholeDesignN[];
+  designN: number | null; // Lowest borehole design N
+  governingBorehole: string | null;
+}
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity; // Errors stop the analysis; warnings are reported alongside it
+  field: string; // Input path, e.g. 'soil.phi', 'foundation.B', 'layers.<id>.gamma_sub'
+  message: string;
+}
+
+export interface ReportFigure {
+  title: string;
+  svg: SVGSVGElement;
+}
+
+export interface ReportData {
+  reportNumber: string;
+  issuedAt: Date;
+  project: Project;
+  footingName: string;
+  inputs: DesignInputs;
+  results: CalculationResults;
+  stageResults: CalculationResults[] | null;
+  combinations: CombinationResult[];
+  contactPressure: ContactPressureResults;
+  consolidation: ConsolidationResults | null;
+  schmertmann: SchmertmannResults | null;
+  seismic: SeismicResults | null;
+  reliability: ReliabilityResults | null;
+  warnings: ValidationIssue[];
+  figures: ReportFigure[];
+}
+
+export interface SensitivityPoint {
+  width: string; // (m)
+  sbc: number; // (kPa)
+  settlement: number; // (mm)
+}
+
+export interface WorkbookData {
+  project: Project;
+  footingName: string;
+  inputs: DesignInputs;
+  results: CalculationResults;
+  combinations: CombinationResult[];
+  comparison: CalculationResults[];
+  sensitivity: SensitivityPoint[];
+  warnings: ValidationIssue[];
 }
@@ -0,0 +1,420 @@
+import {
+  SoilProperties,
+  SoilLayer,
+  ConsolidationParameters,
+  SoilType,
+  FoundationProperties,
+  LoadingConditions,
+  DesignInputs,
+  SeismicInputs,
+  SptEquipment,
+  ReliabilityInputs,
+  UncertainParameter,
+  OptimizerConstraints,
+  ScheduleCriteria,
+  ValidationIssue
+} from './types';
+import { hasDrainageStages, layerIndexAtDepth } from './profile';
+import { generateLoadCombinations, combineLoads } from './loads';
+
+const GAMMA_W = 9.81;
+export const MAX_SAMPLES = 50000; // Monte Carlo draws allowed in one reliability run
+export const MAX_SEARCH_STEPS = 200; // Rounding increments allowed across the optimiser's width or depth range
+
+// Typical ranges per soil type; values outside them are flagged but still analysed
+const TYPICAL_RANGES: Partial<Record<SoilType, { phi?: [number, number]; gamma: [number, number] }>> = {
+  'Cohesionless (Sand)': { phi: [25, 45], gamma: [14, 22] },
+  'Cohesive (Clay)': { gamma: [14, 22] },
+  'c-φ Soil': { phi: [10, 40], gamma: [15, 22] },
+  'Rock': { gamma: [20, 28] }
+};
+
+/** Thrown by the engine when asked to analyse inputs that fail validation */
+export class InputValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(`Invalid input: ${issues.map(i => i.message).join('; ')}`);
+    this.name = 'InputValidationError';
+  }
+}
+
+// Blank number inputs stay blank (NaN) so they are reported rather than read as zero
+export const parseNumberInput = (value: string) => (value.trim() === '' ? NaN : Number(value));
+export const numberInputValue = (value: number | undefined) => (value == null || Number.isNaN(value) ? '' : value);
+
+export const errorsOf = (issues: ValidationIssue[]) => issues.filter(i => i.severity === 'error');
+export const warningsOf = (issues: ValidationIssue[]) => issues.filter(i => i.severity === 'warning');
+
+/** Issues for one input or for every input under a path prefix */
+export const issuesAt = (issues: ValidationIssue[], field: string) => {
+  return issues.filter(i => i.field === field || i.field.startsWith(`${field}.`));
+};
+
+export function assertValid(issues: ValidationIssue[]): void {
+  const errors = errorsOf(issues);
+  if (errors.length > 0) throw new InputValidationError(errors);
+}
+
+const fmt = (n: number) => String(parseFloat(n.toFixed(2)));
+
+// Collects issues for one group of inputs under a common path and label
+const collector = (path: string, label: string) => {
+  const issues: ValidationIssue[] = [];
+  const add = (severity: ValidationIssue['severity'], field: string, message: string) => {
+    issues.push({ severity, field: `${path}.${field}`, message: `${label}${message}` });
+  };
+  // Reports a missing value once and returns false so range checks are skipped
+  const required = (field: string, name: string, value: number | undefined) => {
+    if (value !== undefined && Number.isFinite(value)) return true;
+    add('error', field, `${name} is required`);
+    return false;
+  };
+  return { issues, add, required };
+};
+
+export function validateSoil(soil: SoilProperties, path = 'soil', label = ''): ValidationIssue[] {
+  const { issues, add, required } = collector(path, label);
+  const staged = hasDrainageStages(soil);
+
+  const hasC = required('c', 'Cohesion c', soil.c);
+  const hasPhi = required('phi', 'Friction angle φ', soil.phi);
+  const hasGamma = required('gamma', 'Bulk unit weight γ', soil.gamma);
+  const hasGammaSub = required('gamma_sub', "Submerged unit weight γ'", soil.gamma_sub);
+
+  if (hasC && soil.c < 0) add('error', 'c', 'Cohesion c cannot be negative');
+  if (hasPhi && (soil.phi < 0 || soil.phi > 50)) add('error', 'phi', `φ = ${fmt(soil.phi)}° is outside 0–50°`);
+  if (hasC && hasPhi && soil.c === 0 && soil.phi === 0 && !staged) {
+    add('error', 'c', 'Soil has no shear strength (c = 0 and φ = 0)');
+  }
+  if (hasGamma && soil.gamma <= 0) add('error', 'gamma', 'Bulk unit weight γ must be greater than zero');
+  if (hasGammaSub && soil.gamma_sub < 0) add('error', 'gamma_sub', "Submerged unit weight γ' cannot be negative");
+  if (hasGamma && hasGammaSub && soil.gamma > 0 && soil.gamma_sub >= soil.gamma) {
+    add('error', 'gamma_sub', `γ' = ${fmt(soil.gamma_sub)} kN/m³ must be less than γ = ${fmt(soil.gamma)} kN/m³`);
+  }
+
+  if (soil.spt_n !== undefined && !Number.isFinite(soil.spt_n)) add('error', 'spt_n', 'SPT N is blank; enter 0 when no test was made');
+  else if (soil.spt_n !== undefined && soil.spt_n < 0) add('error', 'spt_n', 'SPT N cannot be negative');
+  if (soil.Es !== undefined && (!Number.isFinite(soil.Es) || soil.Es <= 0)) {
+    add('error', 'Es', 'Elastic modulus Es must be greater than zero; leave it blank to use the correlation');
+  }
+  if (soil.qc !== undefined && (!Number.isFinite(soil.qc) || soil.qc <= 0)) {
+    add('error', 'qc', 'CPT qc must be greater than zero; leave it blank when no CPT was made');
+  }
+  if (soil.fines !== undefined && (!Number.isFinite(soil.fines) || soil.fines < 0 || soil.fines > 100)) {
+    add('error', 'fines', 'Fines content must be between 0 and 100%');
+  }
+  if (soil.mu !== undefined && (!Number.isFinite(soil.mu) || soil.mu < 0 || soil.mu >= 0.5)) {
+    add('error', 'mu', "Poisson's ratio μ must be at least 0 and below 0.5");
+  }
+
+  if (soil.consolidation) issues.push(...validateConsolidation(soil.consolidation, `${path}.consolidation`, label));
+
+  // Paired short-term / long-term strengths for clays
+  if (staged) {
+    if (required('cu', 'Undrained strength cu', soil.cu) && soil.cu! <= 0) {
+      add('error', 'cu', 'Undrained strength cu must be greater than zero');
+    }
+    if (soil.c_eff !== undefined && required('c_eff', "Effective cohesion c'", soil.c_eff) && soil.c_eff < 0) {
+      add('error', 'c_eff', "Effective cohesion c' cannot be negative");
+    }
+    if (required('phi_eff', "Effective friction angle φ'", soil.phi_eff) && (soil.phi_eff! < 0 || soil.phi_eff! > 50)) {
+      add('error', 'phi_eff', `φ' = ${fmt(soil.phi_eff!)}° is outside 0–50°`);
+    }
+  }
+
+  // Consistency with the soil type
+  if (soil.type === 'Cohesionless (Sand)' && hasC && soil.c > 0) {
+    add('warning', 'c', `Sand normally carries no cohesion; c = ${fmt(soil.c)} kPa adds an unconservative Nc term`);
+  }
+  if (soil.type === 'Cohesive (Clay)' && hasPhi && soil.phi > 0 && !staged) {
+    add('warning', 'phi', `Clay is normally analysed undrained with φ = 0; φ = ${fmt(soil.phi)}° mixes drained and undrained parameters`);
+  }
+
+  const range = TYPICAL_RANGES[soil.type];
+  if (range?.phi && hasPhi && soil.phi >= 0 && soil.phi <= 50 && (soil.phi < range.phi[0] || soil.phi > range.phi[1])) {
+    add('warning', 'phi', `φ = ${fmt(soil.phi)}° is outside the ${range.phi[0]}–${range.phi[1]}° typical of ${soil.type}`);
+  }
+  if (range && hasGamma && soil.gamma > 0 && (soil.gamma < range.gamma[0] || soil.gamma > range.gamma[1])) {
+    add('warning', 'gamma', `γ = ${fmt(soil.gamma)} kN/m³ is outside the ${range.gamma[0]}–${range.gamma[1]} kN/m³ typical of ${soil.type}`);
+  }
+  if (hasGamma && hasGammaSub && soil.gamma_sub < soil.gamma && Math.abs(soil.gamma_sub - (soil.gamma - GAMMA_W)) > 2) {
+    add('warning', 'gamma_sub', `γ' = ${fmt(soil.gamma_sub)} kN/m³ differs from γ − γw = ${fmt(soil.gamma - GAMMA_W)} kN/m³`);
+  }
+  if (soil.spt_n !== undefined && soil.spt_n > 100) {
+    add('warning', 'spt_n', `SPT N = ${fmt(soil.spt_n)} is beyond refusal; N is normally capped at 100`);
+  }
+
+  return issues;
+}
+
+function validateConsolidation(params: ConsolidationParameters, path: string, label: string): ValidationIssue[] {
+  const { issues, add, required } = collector(path, label);
+
+  if (required('Cc', 'Compression index Cc', params.Cc) && params.Cc <= 0) add('error', 'Cc', 'Compression index Cc must be greater than zero');
+  if (required('Cr', 'Recompression index Cr', params.Cr)) {
+    if (params.Cr < 0) add('error', 'Cr', 'Recompression index Cr cannot be negative');
+    else if (Number.isFinite(params.Cc) && params.Cr > params.Cc) {
+      add('error', 'Cr', `Cr = ${fmt(params.Cr)} must not exceed Cc = ${fmt(params.Cc)}`);
+    }
+  }
+  if (required('e0', 'Initial void ratio e0', params.e0) && params.e0 <= 0) add('error', 'e0', 'Initial void ratio e0 must be greater than zero');
+  if (required('OCR', 'Overconsolidation ratio OCR', params.OCR) && params.OCR < 1) add('error', 'OCR', 'Overconsolidation ratio OCR must be at least 1');
+  if (params.mv !== undefined && (!Number.isFinite(params.mv) || params.mv <= 0)) {
+    add('error', 'mv', 'Coefficient mv must be greater than zero, or left blank');
+  }
+  if (required('cv', 'Coefficient of consolidation cv', params.cv) && params.cv <= 0) {
+    add('error', 'cv', 'Coefficient of consolidation cv must be greater than zero');
+  }
+
+  return issues;
+}
+
+export function validateLayers(layers: SoilLayer[]): ValidationIssue[] {
+  if (layers.length === 0) {
+    return [{ severity: 'error', field: 'layers', message: 'Soil profile has no layers' }];
+  }
+  return layers.flatMap((layer, i) => {
+    const path = `layers.${layer.id}`;
+    const label = `Layer ${i + 1}: `;
+    const issues = validateSoil(layer, path, label);
+    if (!Number.isFinite(layer.thickness) || layer.thickness <= 0) {
+      issues.unshift({ severity: 'error', field: `${path}.thickness`, message: `${label}Thickness must be greater than zero` });
+    }
+    return issues;
+  });
+}
+
+export function validateFoundation(foundation: FoundationProperties): ValidationIssue[] {
+  const { issues, add, required } = collector('foundation', '');
+  const { shape, B, L, Df, groundSlope, baseTilt, crestSetback } = foundation;
+
+  const hasB = required('B', 'Width B', B);
+  // Square and circular footings take L from B (normaliseFoundation in the engine)
+  const hasL = shape !== 'Rectangular' || required('L', 'Length L', L);
+  const hasDf = required('Df', 'Depth Df', Df);
+
+  if (hasB && B <= 0) add('error', 'B', 'Width B must be greater than zero');
+  if (hasL && shape === 'Rectangular' && L <= 0) add('error', 'L', 'Length L must be greater than zero');
+  if (hasB && hasL && shape === 'Rectangular' && L > 0 && L < B) {
+    add('error', 'L', 'Length L must be greater than or equal to width B');
+  }
+  if (hasDf && Df < 0) add('error', 'Df', 'Depth Df cannot be negative');
+
+  if (hasDf && Df >= 0 && Df < 0.5) add('warning', 'Df', `Df = ${fmt(Df)} m is shallower than the usual 0.5 m minimum founding depth`);
+  if (hasB && hasDf && B > 0 && Df > B) {
+    add('warning', 'Df', `Df/B = ${fmt(Df / B)} exceeds 1; check that shallow-footing theory applies`);
+  }
+  if (hasB && hasL && shape === 'Rectangular' && B > 0 && L / B > 10) {
+    add('warning', 'L', `L/B = ${fmt(L / B)}; a footing this long behaves as a strip`);
+  }
+
+  // Optional slope geometry; blank means level ground
+  if (groundSlope !== undefined && !(groundSlope >= 0 && groundSlope < 90)) {
+    add('error', 'groundSlope', 'Ground slope β must be from 0° up to but not including 90°');
+  }
+  if (baseTilt !== undefined && !(baseTilt >= 0 && baseTilt + (groundSlope ?? 0) < 90)) {
+    add('error', 'baseTilt', 'Base tilt α must be zero or more, with α + β below 90°');
+  }
+  if (crestSetback !== undefined && !(crestSetback >= 0)) {
+    add('error', 'crestSetback', 'Crest setback b cannot be negative');
+  }
+
+  return issues;
+}
+
+/** Checks a single load; the resultant must act downwards for e = M/V to exist */
+export function validateLoad(load: LoadingConditions, path = 'load', label = ''): ValidationIssue[] {
+  const { issues, add, required } = collector(path, label);
+  const hasV = required('V', 'Vertical load V', load.V);
+  required('H', 'Horizontal load H', load.H);
+  required('Mx', 'Moment Mx', load.Mx);
+  required('My', 'Moment My', load.My);
+  if (hasV && load.V <= 0) add('error', 'V', 'Vertical load V must be greater than zero; eccentricity M/V is undefined otherwise');
+  return issues;
+}
+
+const validateWaterTable = (waterTable: number | null): ValidationIssue[] => {
+  if (waterTable === null) return [];
+  return Number.isFinite(waterTable) && waterTable >= 0
+    ? []
+    : [{ severity: 'error', field: 'waterTable', message: 'Water table depth Dw must be zero or more' }];
+};
+
+const validateFos = (fos: number): ValidationIssue[] => {
+  if (!Number.isFinite(fos) || fos < 1) {
+    return [{ severity: 'error', field: 'fos', message: 'Factor of safety must be at least 1.0' }];
+  }
+  return fos < 2.5
+    ? [{ severity: 'warning', field: 'fos', message: `FOS = ${fmt(fos)} is below the 2.5–3.0 usually adopted against shear failure` }]
+    : [];
+};
+
+/**
+ * Checks everything one engine call needs. The engine runs this on entry and
+ * refuses to compute when it reports an error.
+ */
+export function validateAnalysis(
+  soil: SoilProperties | SoilLayer[],
+  foundation: FoundationProperties,
+  load: LoadingConditions,
+  waterTable: number | null,
+  fos: number
+): ValidationIssue[] {
+  return [
+    ...(Array.isArray(soil) ? validateLayers(soil) : validateSoil(soil)),
+    ...validateFoundation(foundation),
+    ...validateLoad(load),
+    ...validateWaterTable(waterTable),
+    ...validateFos(fos)
+  ];
+}
+
+export function validateSptEquipment(equipment: SptEquipment): ValidationIssue[] {
+  const { issues, add, required } = collector('sptEquipment', '');
+  if (required('energyRatio', 'Hammer energy ratio', equipment.energyRatio) && (equipment.energyRatio < 30 || equipment.energyRatio > 100)) {
+    add('error', 'energyRatio', `Energy ratio ${fmt(equipment.energyRatio)}% is outside 30–100%`);
+  }
+  if (required('boreholeDiameter', 'Borehole diameter', equipment.boreholeDiameter)) {
+    if (equipment.boreholeDiameter <= 0) add('error', 'boreholeDiameter', 'Borehole diameter must be greater than zero');
+    else if (equipment.boreholeDiameter < 65 || equipment.boreholeDiameter > 200) {
+      add('warning', 'boreholeDiameter', `Borehole diameter ${fmt(equipment.boreholeDiameter)} mm is outside the 65–200 mm of the CB correction`);
+    }
+  }
+  if (required('samplerFactor', 'Sampler factor CS', equipment.samplerFactor) && (equipment.samplerFactor < 1 || equipment.samplerFactor > 1.3)) {
+    add('error', 'samplerFactor', 'Sampler factor CS must be between 1.0 and 1.3');
+  }
+  return issues;
+}
+
+export function validateSeismic(seismic: SeismicInputs): ValidationIssue[] {
+  if (!seismic.enabled) return [];
+  const { issues, add, required } = collector('seismic', '');
+  if (required('magnitude', 'Magnitude Mw', seismic.magnitude) && (seismic.magnitude < 5 || seismic.magnitude > 9)) {
+    add('error', 'magnitude', `Mw = ${fmt(seismic.magnitude)} is outside the 5–9 range of the magnitude scaling factor`);
+  }
+  return issues;
+}
+
+export function validateReliability(reliability: ReliabilityInputs): ValidationIssue[] {
+  if (!reliability.enabled) return [];
+  const { issues, add, required } = collector('reliability', '');
+  if (required('samples', 'Number of samples', reliability.samples)
+    && (!Number.isInteger(reliability.samples) || reliability.samples < 100 || reliability.samples > MAX_SAMPLES)) {
+    add('error', 'samples', `Number of samples must be a whole number from 100 to ${MAX_SAMPLES}`);
+  }
+  if (required('seed', 'Seed', reliability.seed) && !Number.isInteger(reliability.seed)) {
+    add('error', 'seed', 'Seed must be a whole number');
+  }
+  if (required('rho_c_phi', 'Correlation ρ(c, φ)', reliability.rho_c_phi) && Math.abs(reliability.rho_c_phi) > 1) {
+    add('error', 'rho_c_phi', 'Correlation ρ(c, φ) must be between −1 and 1');
+  }
+  (Object.keys(reliability.distributions) as UncertainParameter[]).forEach(key => {
+    const { type, cov, truncation } = reliability.distributions[key];
+    if (required(`${key}.cov`, `COV of ${key}`, cov) && (cov < 0 || cov > 1)) {
+      add('error', `${key}.cov`, `COV of ${key} must be between 0 and 1`);
+    }
+    if (type === 'Truncated normal' && required(`${key}.truncation`, `Truncation of ${key}`, truncation) && truncation < 0.5) {
+      add('error', `${key}.truncation`, `Truncation of ${key} must be at least ±0.5σ`);
+    }
+  });
+  return issues;
+}
+
+/** Search bounds for the footing optimizer; the step count keeps the search short enough to run on every edit */
+export function validateScheduleCriteria(criteria: ScheduleCriteria): ValidationIssue[] {
+  const { issues, add, required } = collector('schedule', '');
+  const { settlementLimit, increment, minB, maxB } = criteria;
+  if (required('settlementLimit', 'Settlement limit', settlementLimit) && settlementLimit <= 0) {
+    add('error', 'settlementLimit', 'Settlement limit must be greater than zero');
+  }
+  if (required('increment', 'Size step', increment) && increment <= 0) add('error', 'increment', 'Size step must be greater than zero');
+  const hasMinB = required('minB', 'Minimum width', minB);
+  if (hasMinB && minB <= 0) add('error', 'minB', 'Minimum width must be greater than zero');
+  if (required('maxB', 'Maximum width', maxB) && hasMinB && maxB < minB) {
+    add('error', 'maxB', `Maximum width ${fmt(maxB)} m is below the minimum of ${fmt(minB)} m`);
+  }
+  return issues;
+}
+
+export function validateOptimizerConstraints(constraints: OptimizerConstraints): ValidationIssue[] {
+  const { issues, add, required } = collector('optimizer', '');
+  const { maxSettlement, minB, maxB, maxLB, DfMin, DfMax, rounding } = constraints;
+  if (required('maxSettlement', 'Settlement limit', maxSettlement) && maxSettlement <= 0) {
+    add('error', 'maxSettlement', 'Settlement limit must be greater than zero');
+  }
+  const hasMinB = required('minB', 'Minimum width', minB);
+  if (hasMinB && minB <= 0) add('error', 'minB', 'Minimum width must be greater than zero');
+  if (required('maxB', 'Maximum width', maxB) && hasMinB && maxB < minB) {
+    add('error', 'maxB', `Maximum width ${fmt(maxB)} m is below the minimum of ${fmt(minB)} m`);
+  }
+  if (required('maxLB', 'Maximum L/B', maxLB) && maxLB < 1) add('error', 'maxLB', 'Maximum L/B must be at least 1');
+  const hasDfMin = required('DfMin', 'Minimum depth', DfMin);
+  if (hasDfMin && DfMin < 0) add('error', 'DfMin', 'Minimum depth cannot be negative');
+  if (required('DfMax', 'Maximum depth', DfMax) && hasDfMin && DfMax < DfMin) {
+    add('error', 'DfMax', `Maximum depth ${fmt(DfMax)} m is below the minimum of ${fmt(DfMin)} m`);
+  }
+  if (required('rounding', 'Rounding', rounding)) {
+    if (rounding <= 0) {
+      add('error', 'rounding', 'Rounding must be greater than zero');
+    } else if (Math.max(maxB - minB, DfMax - DfMin) / rounding > MAX_SEARCH_STEPS) {
+      add('error', 'rounding', `Rounding of ${fmt(rounding)} m gives more than ${MAX_SEARCH_STEPS} steps across the search range; use a coarser increment`);
+    }
+  }
+  return issues;
+}
+
+/** Checks a complete footing design, including every load combination it generates */
+export function validateInputs(inputs: DesignInputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [
+    ...(inputs.profileMode === 'Layered' ? validateLayers(inputs.layers) : validateSoil(inputs.soil)),
+    ...validateFoundation(inputs.foundation)
+  ];
+
+  // The ground factors assume the slope itself stands (Hansen, 1970: β ≤ φ)
+  const { groundSlope, Df } = inputs.foundation;
+  const bearing = inputs.profileMode === 'Layered' && inputs.layers.length > 0
+    ? inputs.layers[layerIndexAtDepth(inputs.layers, Df)]
+    : inputs.soil;
+  if (groundSlope !== undefined && bearing.phi > 0 && groundSlope > bearing.phi) {
+    issues.push({
+      severity: 'warning',
+      field: 'foundation.groundSlope',
+      message: `Ground slope β = ${fmt(groundSlope)}° exceeds φ = ${fmt(bearing.phi)}°; check the stability of the slope itself`
+    });
+  }
+
+  if (inputs.loadCases.length === 0) {
+    issues.push({ severity: 'error', field: 'loadCases', message: 'Add at least one load case' });
+  }
+  const caseIssues = inputs.loadCases.flatMap(c => {
+    const { issues: found, add, required } = collector(`loadCases.${c.id}`, `${c.name}: `);
+    required('V', 'V', c.V);
+    required('H', 'H', c.H);
+    required('Mx', 'Mx', c.Mx);
+    required('My', 'My', c.My);
+    if (c.factor !== undefined && required('factor', 'Load factor', c.factor) && c.factor <= 0) {
+      add('error', 'factor', 'Load factor must be greater than zero');
+    }
+    return found;
+  });
+  issues.push(...caseIssues);
+
+  // Each combination is analysed on its own, so each needs a downward resultant
+  if (caseIssues.length === 0) {
+    generateLoadCombinations(inputs.loadCases, inputs.combinationSet).forEach(combination => {
+      const { V } = combineLoads(inputs.loadCases, combination);
+      if (V <= 0) {
+        issues.push({
+          severity: 'error',
+          field: 'loadCases',
+          message: `${combination.name} gives V = ${fmt(V)} kN; net uplift or zero vertical load cannot be analysed`
+        });
+      }
+    });
+  }
+
+  issues.push(...validateWaterTable(inputs.waterTable), ...validateFos(inputs.fos), ...validateSptEquipment(inputs.sptEquipment), ...validateSeismic(inputs.seismic), ...validateReliability(inputs.reliability));
+  if (!Number.isFinite(inputs.creepTime) || inputs.creepTime <= 0) {
+    issues.push({ severity: 'error', field: 'creepTime', message: 'Creep time t must be greater than zero' });
+  }
+  return issues;
+}